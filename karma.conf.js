@@ -23,6 +23,8 @@ module.exports = (config) => {
             { pattern: 'src/spec/images/**/*.png', included: false, served: true },
             { pattern: 'src/spec/images/**/*.gif', included: false, served: true },
             { pattern: 'src/spec/images/**/*.txt', included: false, served: true },
+            { pattern: 'src/spec/images/**/*.json', included: false, served: true },
+            { pattern: 'src/spec/images/**/*.tmx', included: false, served: true },
             { pattern: 'src/spec/images/**/*.css', included: false, served: true },
             { pattern: 'src/spec/images/**/*.woff2', included: false, served: true },
            ],
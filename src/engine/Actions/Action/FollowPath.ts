@@ -0,0 +1,65 @@
+import { Actor } from '../../Actor';
+import { vec, Vector } from '../../Algebra';
+import { Action } from '../Action';
+
+export class FollowPath implements Action {
+  private _actor: Actor;
+  private _path: Vector[];
+  private _speed: number;
+  private _index = 0;
+  private _start: Vector;
+  private _dir: Vector;
+  private _distance: number;
+  private _started = false;
+  private _stopped = false;
+
+  constructor(actor: Actor, path: Vector[], speed: number) {
+    this._actor = actor;
+    this._path = path.map((waypoint) => waypoint.clone());
+    this._speed = speed;
+  }
+
+  public update(_delta: number): void {
+    if (!this._started && this._path.length) {
+      this._started = true;
+      this._startSegment(this._actor.pos);
+    }
+
+    // a waypoint is reached once the actor moved as far as the waypoint is away from the previous one
+    while (this._index < this._path.length && this._actor.pos.distance(this._start) >= this._distance) {
+      const waypoint = this._path[this._index++];
+      this._actor.pos = vec(waypoint.x, waypoint.y);
+      if (this._index < this._path.length) {
+        this._startSegment(waypoint);
+      }
+    }
+
+    if (this._index < this._path.length) {
+      const m = this._dir.scale(this._speed);
+      this._actor.vel = vec(m.x, m.y);
+    } else {
+      this._actor.vel = vec(0, 0);
+    }
+  }
+
+  private _startSegment(from: Vector) {
+    const end = this._path[this._index];
+    this._start = new Vector(from.x, from.y);
+    this._distance = this._start.distance(end);
+    this._dir = end.sub(this._start).normalize();
+  }
+
+  public isComplete(): boolean {
+    return this._stopped || this._index >= this._path.length;
+  }
+
+  public stop(): void {
+    this._actor.vel = vec(0, 0);
+    this._stopped = true;
+  }
+
+  public reset(): void {
+    this._started = false;
+    this._index = 0;
+  }
+}
@@ -0,0 +1,65 @@
+import { Actor } from '../../Actor';
+import { vec } from '../../Algebra';
+import { queryNeighbors, steer, SteeringBehavior, SteeringContext, SteeringOptions } from '../../Steering/SteeringBehavior';
+import { Action } from '../Action';
+
+export class Steer implements Action {
+  private _actor: Actor;
+  private _behaviors: SteeringBehavior[];
+  private _maxSpeed: number;
+  private _maxAcceleration: number;
+  private _neighborRadius: number;
+  private _complete = false;
+  private _stopped = false;
+
+  constructor(actor: Actor, behaviors: SteeringBehavior[], options: SteeringOptions) {
+    this._actor = actor;
+    this._behaviors = behaviors;
+    this._maxSpeed = options.maxSpeed;
+    this._maxAcceleration = options.maxAcceleration ?? Infinity;
+    this._neighborRadius = options.neighborRadius ?? 100;
+  }
+
+  public update(delta: number): void {
+    const context: SteeringContext = {
+      agent: this._actor,
+      maxSpeed: this._maxSpeed,
+      neighbors: this._findNeighbors(),
+      delta
+    };
+
+    if (this._behaviors.some((behavior) => behavior.isComplete(context))) {
+      this._complete = true;
+      this._actor.vel = vec(0, 0);
+    } else {
+      this._actor.vel = steer(this._behaviors, context, this._maxAcceleration);
+    }
+  }
+
+  /**
+   * Finds the actors within the neighbor radius in the scene's [[DynamicTree]], or checks every actor of a scene without one
+   */
+  private _findNeighbors(): Actor[] {
+    const scene = this._actor.scene;
+    const tree = scene?.physics.query?.tree;
+    if (!tree) {
+      return (scene?.actors ?? []).filter((other) => other !== this._actor && other.pos.distance(this._actor.pos) <= this._neighborRadius);
+    }
+    return queryNeighbors(tree, this._actor.body, this._neighborRadius)
+      .map((body) => body.actor)
+      .filter((other) => !!other);
+  }
+
+  public isComplete(): boolean {
+    return this._stopped || this._complete;
+  }
+
+  public stop(): void {
+    this._actor.vel = vec(0, 0);
+    this._stopped = true;
+  }
+
+  public reset(): void {
+    this._complete = false;
+  }
+}
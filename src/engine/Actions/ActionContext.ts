@@ -19,6 +19,9 @@ import { Delay } from './Action/Delay';
 import { Die } from './Action/Die';
 import { Follow } from './Action/Follow';
 import { Meet } from './Action/Meet';
+import { FollowPath } from './Action/FollowPath';
+import { Steer } from './Action/Steer';
+import { SteeringBehavior, SteeringOptions } from '../Steering/SteeringBehavior';
 import { Vector } from '..';
 
 /**
@@ -125,6 +128,18 @@ export class ActionContext {
     return this;
   }
 
+  /**
+   * This method will move an actor along a path through each of the waypoints in order at the speed specified (in pixels per
+   * second), for example a path found with [[GridGraph.findPath]]. This method is part of the actor 'Action' fluent API allowing
+   * action chaining.
+   * @param path   The waypoints to move the actor through
+   * @param speed  The speed in pixels per second to move
+   */
+  public followPath(path: Vector[], speed: number): ActionContext {
+    this._queue.add(new FollowPath(this._actor, path, speed));
+    return this;
+  }
+
   /**
    * This method will move an actor by the specified x offset and y offset from its current position, at a certain speed.
    * This method is part of the actor 'Action' fluent API allowing action chaining.
@@ -397,6 +412,24 @@ export class ActionContext {
     return this;
   }
 
+  /**
+   * This method will steer an actor with one or more [[SteeringBehavior|steering behaviors]], setting its velocity every
+   * update. The action completes once any of the behaviors reaches its goal, like [[ArriveBehavior]] arriving at its target,
+   * behaviors without a goal steer the actor until the actions are cleared. The other actors in the scene are the neighbors of
+   * the flocking behaviors. This method is part of the actor 'Action' fluent API allowing action chaining.
+   *
+   * ```typescript
+   * actor.actions.steer([new ex.PursueBehavior(player), new ex.SeparationBehavior()], { maxSpeed: 150, maxAcceleration: 300 });
+   * ```
+   *
+   * @param behaviors  The behavior or behaviors to steer with
+   * @param options    The top speed and acceleration of the actor
+   */
+  public steer(behaviors: SteeringBehavior | SteeringBehavior[], options: SteeringOptions): ActionContext {
+    this._queue.add(new Steer(this._actor, Array.isArray(behaviors) ? behaviors : [behaviors], options));
+    return this;
+  }
+
   /**
    * Returns a promise that resolves when the current action queue up to now
    * is finished.
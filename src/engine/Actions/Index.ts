@@ -11,6 +11,7 @@ export * from './Action/Die';
 export * from './Action/EaseTo';
 export * from './Action/Fade';
 export * from './Action/Follow';
+export * from './Action/FollowPath';
 export * from './Action/Meet';
 export * from './Action/MoveBy';
 export * from './Action/MoveTo';
@@ -18,3 +19,4 @@ export * from './Action/RotateBy';
 export * from './Action/RotateTo';
 export * from './Action/ScaleBy';
 export * from './Action/ScaleTo';
+export * from './Action/Steer';
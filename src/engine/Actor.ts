@@ -12,6 +12,8 @@ import {
   PreCollisionEvent,
   CollisionStartEvent,
   CollisionEndEvent,
+  SleepEvent,
+  WakeEvent,
   PostKillEvent,
   PreKillEvent,
   GameEvent,
@@ -47,6 +49,9 @@ import { Shape } from './Collision/Shape';
 import { Entity } from './EntityComponentSystem/Entity';
 import { CanvasDrawComponent } from './Drawing/CanvasDrawComponent';
 import { TransformComponent } from './EntityComponentSystem/Components/TransformComponent';
+import { BodyComponent } from './Collision/BodyComponent';
+import { ColliderComponent } from './Collision/ColliderComponent';
+import { MotionSystem } from './Collision/MotionSystem';
 import { GraphicsComponent } from './Graphics/GraphicsComponent';
 import { Rectangle } from './Graphics/Rectangle';
 import { Flags, Legacy } from './Flags';
@@ -99,16 +104,18 @@ export class ActorImpl extends Entity implements Actionable, Eventable, PointerE
    * acceleration, mass, inertia, etc.
    */
   public get body(): Body {
-    return this._body;
+    return this.get(BodyComponent)?.body;
   }
 
   public set body(body: Body) {
-    this._body = body;
-    this._body.actor = this;
+    const bodyComponent = this.get(BodyComponent);
+    if (bodyComponent) {
+      bodyComponent.body = body;
+    } else {
+      this.addComponent(new BodyComponent(body));
+    }
   }
 
-  private _body: Body;
-
   /**
    * Gets the position vector of the actor in pixels
    */
@@ -514,6 +521,8 @@ export class ActorImpl extends Entity implements Actionable, Eventable, PointerE
       });
     }
 
+    this.addComponent(new ColliderComponent());
+
     // Position uses body to store values must be initialized after body
     this.pos = vec((xOrConfig as number) ?? 0, y ?? 0);
 
@@ -532,7 +541,6 @@ export class ActorImpl extends Entity implements Actionable, Eventable, PointerE
     }
 
     // Build default pipeline
-    this.traits.push(new Traits.TileMapCollisionDetection());
     if (Flags.isEnabled(Legacy.LegacyDrawing)) {
       // TODO remove offscreen trait after legacy drawing removed
       this.traits.push(new Traits.OffscreenCulling());
@@ -658,6 +666,15 @@ export class ActorImpl extends Entity implements Actionable, Eventable, PointerE
    * tweak the default resolution.
    */
   public on(eventName: Events.postcollision, handler: (event: PostCollisionEvent) => void): void;
+  /**
+   * The **sleep** event is fired when the actor's [[Body|physics body]] has been at rest long enough to fall asleep,
+   * see [[Body.canSleep]].
+   */
+  public on(eventName: Events.sleep, handler: (event: SleepEvent) => void): void;
+  /**
+   * The **wake** event is fired when the actor's sleeping [[Body|physics body]] is woken by a contact or an impulse.
+   */
+  public on(eventName: Events.wake, handler: (event: WakeEvent) => void): void;
   public on(eventName: Events.kill, handler: (event: KillEvent) => void): void;
   public on(eventName: Events.prekill, handler: (event: PreKillEvent) => void): void;
   public on(eventName: Events.postkill, handler: (event: PostKillEvent) => void): void;
@@ -725,6 +742,15 @@ export class ActorImpl extends Entity implements Actionable, Eventable, PointerE
    * tweak the default resolution.
    */
   public once(eventName: Events.postcollision, handler: (event: PostCollisionEvent) => void): void;
+  /**
+   * The **sleep** event is fired when the actor's [[Body|physics body]] has been at rest long enough to fall asleep,
+   * see [[Body.canSleep]].
+   */
+  public once(eventName: Events.sleep, handler: (event: SleepEvent) => void): void;
+  /**
+   * The **wake** event is fired when the actor's sleeping [[Body|physics body]] is woken by a contact or an impulse.
+   */
+  public once(eventName: Events.wake, handler: (event: WakeEvent) => void): void;
   public once(eventName: Events.kill, handler: (event: KillEvent) => void): void;
   public once(eventName: Events.postkill, handler: (event: PostKillEvent) => void): void;
   public once(eventName: Events.prekill, handler: (event: PreKillEvent) => void): void;
@@ -792,6 +818,15 @@ export class ActorImpl extends Entity implements Actionable, Eventable, PointerE
    * tweak the default resolution.
    */
   public off(eventName: Events.postcollision, handler: (event: PostCollisionEvent) => void): void;
+  /**
+   * The **sleep** event is fired when the actor's [[Body|physics body]] has been at rest long enough to fall asleep,
+   * see [[Body.canSleep]].
+   */
+  public off(eventName: Events.sleep, handler?: (event: SleepEvent) => void): void;
+  /**
+   * The **wake** event is fired when the actor's sleeping [[Body|physics body]] is woken by a contact or an impulse.
+   */
+  public off(eventName: Events.wake, handler?: (event: WakeEvent) => void): void;
   public off(eventName: Events.pointerup, handler?: (event: PointerEvent) => void): void;
   public off(eventName: Events.pointerdown, handler?: (event: PointerEvent) => void): void;
   public off(eventName: Events.pointerenter, handler?: (event: PointerEvent) => void): void;
@@ -1104,13 +1139,17 @@ export class ActorImpl extends Entity implements Actionable, Eventable, PointerE
     // Update action context
     this.actions.update(delta);
 
-    // capture old transform
-    this.body.captureOldTransform();
-
-    // Run Euler integration
-    this.body.integrate(delta);
+    // Move the body before postupdate, with the scene's MotionSystem if the actor is in a scene
+    if (this.scene) {
+      this.scene.world.systemManager.get(MotionSystem)?.move(this.body, delta);
+    } else {
+      this.body.captureOldTransform();
+      if (!this.body.sleeping) {
+        this.body.integrate(delta);
+      }
+    }
 
-    // Update actor pipeline (movement, collision detection, event propagation, offscreen culling)
+    // Update actor pipeline (event propagation, offscreen culling)
     for (const trait of this.traits) {
       trait.update(this, engine, delta);
     }
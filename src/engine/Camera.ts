@@ -27,6 +27,13 @@ export interface CameraStrategy<T> {
    * @param delta The elapsed time in milliseconds since the last frame
    */
   action: (target: T, camera: Camera, engine: Engine, delta: number) => Vector;
+
+  /**
+   * Optionally draws the debug information of the strategy in world space, called by [[Camera.debugDraw]]
+   * @param ctx The canvas context to draw to
+   * @param camera The camera running the strategy
+   */
+  debugDraw?: (ctx: CanvasRenderingContext2D, camera: Camera) => void;
 }
 
 /**
@@ -83,6 +90,24 @@ export class StrategyContainer {
   public limitCameraBounds(box: BoundingBox) {
     this.camera.addStrategy(new LimitCameraBoundsStrategy(box));
   }
+
+  /**
+   * Creates and adds the [[PlatformerCameraStrategy]] on the current camera
+   * @param actor The actor to follow
+   * @param options Optionally the dead zone, look-ahead, damping, and platform snapping of the camera
+   */
+  public platformerFollowActor(actor: Actor, options?: PlatformerCameraStrategyOptions) {
+    this.camera.addStrategy(new PlatformerCameraStrategy(actor, options));
+  }
+
+  /**
+   * Creates and adds the [[FrameActorsCameraStrategy]] on the current camera
+   * @param actors The actors to keep in view
+   * @param options Optionally the padding, zoom limits, and easing of the camera
+   */
+  public frameActors(actors: Actor[], options?: FrameActorsCameraStrategyOptions) {
+    this.camera.addStrategy(new FrameActorsCameraStrategy(actors, options));
+  }
 }
 
 /**
@@ -227,6 +252,308 @@ export class LimitCameraBoundsStrategy implements CameraStrategy<BoundingBox> {
   };
 }
 
+/**
+ * Returns the fraction of the distance to its goal a camera covers in an update when it takes a number of seconds to cover
+ * about two thirds of it, independent of the frame rate
+ */
+const getDampingFactor = (damping: number, delta: number) => (damping > 0 ? 1 - Math.exp(-delta / 1000 / damping) : 1);
+
+export interface PlatformerCameraStrategyOptions {
+  /**
+   * Optionally the width in pixels of the dead zone around the focus of the camera that the actor moves in without moving the
+   * camera, by default 64
+   */
+  deadZoneWidth?: number;
+  /**
+   * Optionally the height in pixels of the dead zone, by default 96
+   */
+  deadZoneHeight?: number;
+  /**
+   * Optionally how many seconds of its horizontal velocity the camera looks ahead of the actor, by default 0.5
+   */
+  lookAheadTime?: number;
+  /**
+   * Optionally the furthest the camera looks ahead of the actor in pixels, by default 100
+   */
+  maxLookAhead?: number;
+  /**
+   * Optionally how many seconds the camera takes to cover about two thirds of the horizontal distance it has to move, 0 moves
+   * it right away, by default 0.1
+   */
+  horizontalDamping?: number;
+  /**
+   * Optionally how many seconds the camera takes to cover about two thirds of the vertical distance it has to move, 0 moves
+   * it right away, by default 0.2
+   */
+  verticalDamping?: number;
+  /**
+   * Optionally whether the camera only moves vertically when the actor lands on a platform, or when it leaves the dead zone
+   * while in the air, by default true
+   */
+  platformSnapping?: boolean;
+  /**
+   * Optionally whether the actor stands on the ground, by default when it does not move vertically. Games with their own
+   * ground check should pass it here, for example a [[ScenePhysics.shapeCast]] down from the actor.
+   */
+  isGrounded?: (target: Actor) => boolean;
+}
+
+/**
+ * Follows an actor the way most platformers do. The actor moves freely inside a dead zone around the focus of the camera, the
+ * camera looks ahead in the direction the actor runs, and it eases horizontally and vertically at separate rates. With
+ * platform snapping the camera ignores jumps and only moves up or down when the actor lands on a platform, or when it leaves
+ * the dead zone while in the air so it never falls out of view.
+ *
+ * ```typescript
+ * scene.camera.strategy.platformerFollowActor(player, {
+ *   deadZoneWidth: 80,
+ *   isGrounded: () => {
+ *     const down = new ex.Ray(player.pos, ex.Vector.Down);
+ *     return !!scene.physics.shapeCast(player.body.collider.shape, down, { maxDistance: 2 }).length;
+ *   }
+ * });
+ * ```
+ *
+ * Turn on [[Engine.isDebug]] to see the dead zone in blue, the look-ahead in yellow, and the height of the last platform in
+ * green.
+ */
+export class PlatformerCameraStrategy implements CameraStrategy<Actor> {
+  public deadZoneWidth: number;
+  public deadZoneHeight: number;
+  public lookAheadTime: number;
+  public maxLookAhead: number;
+  public horizontalDamping: number;
+  public verticalDamping: number;
+  public platformSnapping: boolean;
+  public isGrounded: (target: Actor) => boolean;
+
+  private _lookAhead = 0;
+  private _platformY: number = null;
+
+  /**
+   * @param target The actor to follow
+   * @param options Optionally the dead zone, look-ahead, damping, and platform snapping of the camera
+   */
+  constructor(public target: Actor, options: PlatformerCameraStrategyOptions = {}) {
+    this.deadZoneWidth = options.deadZoneWidth ?? 64;
+    this.deadZoneHeight = options.deadZoneHeight ?? 96;
+    this.lookAheadTime = options.lookAheadTime ?? 0.5;
+    this.maxLookAhead = options.maxLookAhead ?? 100;
+    this.horizontalDamping = options.horizontalDamping ?? 0.1;
+    this.verticalDamping = options.verticalDamping ?? 0.2;
+    this.platformSnapping = options.platformSnapping ?? true;
+    this.isGrounded = options.isGrounded ?? ((target: Actor) => target.vel.y === 0);
+  }
+
+  /**
+   * The horizontal offset in pixels the camera currently looks ahead of the actor
+   */
+  public get lookAhead(): number {
+    return this._lookAhead;
+  }
+
+  /**
+   * The height the camera settles at with platform snapping, the center of the actor when it last stood on a platform or where
+   * it left the dead zone in the air, null before either happened
+   */
+  public get platformY(): number {
+    return this._platformY;
+  }
+
+  public action = (target: Actor, cam: Camera, _eng: Engine, delta: number) => {
+    const focus = cam.getFocus();
+    const center = target.center;
+    const horizontal = getDampingFactor(this.horizontalDamping, delta);
+    const vertical = getDampingFactor(this.verticalDamping, delta);
+
+    const maxLookAhead = this.maxLookAhead;
+    const lookAhead = Math.max(-maxLookAhead, Math.min(maxLookAhead, target.vel.x * this.lookAheadTime));
+    this._lookAhead += (lookAhead - this._lookAhead) * horizontal;
+
+    const goalX = this._followDeadZone(focus.x, center.x + this._lookAhead, this.deadZoneWidth);
+    let goalY = this._followDeadZone(focus.y, center.y, this.deadZoneHeight);
+    if (this.platformSnapping) {
+      if (this.isGrounded(target)) {
+        this._platformY = center.y;
+      } else if (goalY !== focus.y) {
+        // in the air the camera holds its height unless the actor leaves the dead zone
+        this._platformY = goalY;
+      }
+      if (this._platformY !== null) {
+        goalY = this._platformY;
+      }
+    }
+
+    return vec(focus.x + (goalX - focus.x) * horizontal, focus.y + (goalY - focus.y) * vertical);
+  };
+
+  /* istanbul ignore next */
+  public debugDraw(ctx: CanvasRenderingContext2D, camera: Camera) {
+    const focus = camera.getFocus();
+    const viewport = camera.viewport;
+    ctx.save();
+    ctx.setLineDash([]);
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = 'blue';
+    ctx.strokeRect(focus.x - this.deadZoneWidth / 2, focus.y - this.deadZoneHeight / 2, this.deadZoneWidth, this.deadZoneHeight);
+
+    const center = this.target.center;
+    ctx.strokeStyle = 'yellow';
+    ctx.beginPath();
+    ctx.moveTo(center.x, center.y);
+    ctx.lineTo(center.x + this._lookAhead, center.y);
+    ctx.stroke();
+
+    if (this._platformY !== null) {
+      ctx.strokeStyle = 'green';
+      ctx.setLineDash([5, 5]);
+      ctx.beginPath();
+      ctx.moveTo(viewport.left, this._platformY);
+      ctx.lineTo(viewport.right, this._platformY);
+      ctx.stroke();
+    }
+    ctx.restore();
+  }
+
+  /**
+   * Returns where the camera has to be on an axis to keep a position inside the dead zone around the focus
+   */
+  private _followDeadZone(focus: number, pos: number, size: number) {
+    const half = size / 2;
+    if (pos < focus - half) {
+      return pos + half;
+    }
+    if (pos > focus + half) {
+      return pos - half;
+    }
+    return focus;
+  }
+}
+
+export interface FrameActorsCameraStrategyOptions {
+  /**
+   * Optionally the space in pixels kept around the actors, by default 50
+   */
+  padding?: number;
+  /**
+   * Optionally the furthest the camera zooms out, by default 0.5
+   */
+  minZoom?: number;
+  /**
+   * Optionally the furthest the camera zooms in, by default 2
+   */
+  maxZoom?: number;
+  /**
+   * Optionally how many seconds the camera takes to cover about two thirds of the distance to the center of the actors, 0
+   * moves it right away, by default 0.2
+   */
+  damping?: number;
+  /**
+   * Optionally how many milliseconds the camera takes to zoom to a new level with [[Camera.zoomOverTime]], by default 500
+   */
+  zoomDuration?: number;
+  /**
+   * Optionally the easing of the zoom, by default [[EasingFunctions.EaseInOutCubic]]
+   */
+  zoomEasing?: EasingFunction;
+  /**
+   * Optionally how much the zoom the actors need can differ from the current zoom level, relative to it, before the camera
+   * zooms again, by default 0.05
+   */
+  zoomTolerance?: number;
+}
+
+/**
+ * Keeps several actors in view, for example the players of a local co-op game. The camera moves to the center of the bounding
+ * box of the actors and zooms in and out with [[Camera.zoomOverTime]] so the box and the padding around it fit the screen,
+ * within the zoom limits. Killed actors are left out.
+ *
+ * ```typescript
+ * scene.camera.strategy.frameActors([player1, player2], { padding: 100, minZoom: 0.75 });
+ * scene.camera.strategy.limitCameraBounds(level);
+ * ```
+ *
+ * Add a [[LimitCameraBoundsStrategy]] after this strategy to keep the camera inside a level, the camera then never zooms out
+ * further than the bounds fill the screen. Turn on [[Engine.isDebug]] to see the framed box in orange.
+ */
+export class FrameActorsCameraStrategy implements CameraStrategy<Actor[]> {
+  public padding: number;
+  public minZoom: number;
+  public maxZoom: number;
+  public damping: number;
+  public zoomDuration: number;
+  public zoomEasing: EasingFunction;
+  public zoomTolerance: number;
+
+  private _zoomGoal: number = null;
+  private _frame: BoundingBox = null;
+
+  /**
+   * @param target The actors to keep in view
+   * @param options Optionally the padding, zoom limits, and easing of the camera
+   */
+  constructor(public target: Actor[], options: FrameActorsCameraStrategyOptions = {}) {
+    this.padding = options.padding ?? 50;
+    this.minZoom = options.minZoom ?? 0.5;
+    this.maxZoom = options.maxZoom ?? 2;
+    this.damping = options.damping ?? 0.2;
+    this.zoomDuration = options.zoomDuration ?? 500;
+    this.zoomEasing = options.zoomEasing ?? EasingFunctions.EaseInOutCubic;
+    this.zoomTolerance = options.zoomTolerance ?? 0.05;
+  }
+
+  /**
+   * The zoom level the camera is zooming to, or null before the first update
+   */
+  public get zoomGoal(): number {
+    return this._zoomGoal;
+  }
+
+  public action = (target: Actor[], cam: Camera, eng: Engine, delta: number) => {
+    const focus = cam.getFocus();
+    const actors = target.filter((actor) => !actor.isKilled());
+    if (!actors.length) {
+      this._frame = null;
+      return focus;
+    }
+    const bounds = actors.map((actor) => actor.body.collider.bounds).reduce((frame, box) => frame.combine(box));
+    this._frame = new BoundingBox(
+      bounds.left - this.padding,
+      bounds.top - this.padding,
+      bounds.right + this.padding,
+      bounds.bottom + this.padding
+    );
+
+    const screenWidth = eng.screen.resolution.width;
+    const screenHeight = eng.screen.resolution.height;
+    let zoom = Math.min(screenWidth / this._frame.width, screenHeight / this._frame.height);
+    zoom = Math.max(this.minZoom, Math.min(this.maxZoom, zoom));
+    for (const strategy of cam.strategies) {
+      if (strategy instanceof LimitCameraBoundsStrategy) {
+        zoom = Math.max(zoom, screenWidth / strategy.target.width, screenHeight / strategy.target.height);
+      }
+    }
+    if (this._zoomGoal === null || Math.abs(zoom - this._zoomGoal) > this._zoomGoal * this.zoomTolerance) {
+      this._zoomGoal = zoom;
+      cam.zoomOverTime(zoom, this.zoomDuration, this.zoomEasing);
+    }
+
+    return focus.add(bounds.center.sub(focus).scale(getDampingFactor(this.damping, delta)));
+  };
+
+  /* istanbul ignore next */
+  public debugDraw(ctx: CanvasRenderingContext2D) {
+    if (this._frame) {
+      ctx.save();
+      ctx.setLineDash([]);
+      ctx.lineWidth = 2;
+      ctx.strokeStyle = 'orange';
+      ctx.strokeRect(this._frame.left, this._frame.top, this._frame.width, this._frame.height);
+      ctx.restore();
+    }
+  }
+}
+
 /**
  * Cameras
  *
@@ -333,6 +660,10 @@ export class Camera extends Class implements CanUpdate, CanInitialize {
   private _halfWidth: number = 0;
   private _halfHeight: number = 0;
 
+  // pose before the last update, used to blend drawing between fixed updates
+  private _oldPos: Vector = null;
+  private _oldZoom: number = 1;
+
   /**
    * Get the camera's x position
    */
@@ -505,6 +836,13 @@ export class Camera extends Class implements CanUpdate, CanInitialize {
     return new BoundingBox(0, 0, 0, 0);
   }
 
+  /**
+   * The strategies of this camera in the order they run
+   */
+  public get strategies(): readonly CameraStrategy<any>[] {
+    return this._cameraStrategies;
+  }
+
   /**
    * Adds a new camera strategy to this camera
    * @param cameraStrategy Instance of an [[CameraStrategy]]
@@ -621,6 +959,9 @@ export class Camera extends Class implements CanUpdate, CanInitialize {
     this._initialize(_engine);
     this._preupdate(_engine, delta);
 
+    this._oldPos = this.pos.clone();
+    this._oldZoom = this.zoom;
+
     // Update placements based on linear algebra
     this.pos = this.pos.add(this.vel.scale(delta / 1000));
     this.zoom += (this.dz * delta) / 1000;
@@ -711,9 +1052,16 @@ export class Camera extends Class implements CanUpdate, CanInitialize {
       canvasWidth = ctx.width;
       canvasHeight = ctx.height;
     }
-    const focus = this.getFocus();
+    let focus = this.getFocus();
     const pixelRatio = this._engine ? this._engine.pixelRatio : 1;
-    const zoom = this.zoom;
+    let zoom = this.zoom;
+
+    // Blend between the previous and current update when running with a fixed update step
+    const alpha = this._engine?.fixedUpdateAlpha ?? 1;
+    if (alpha < 1 && this._oldPos) {
+      focus = this._oldPos.add(focus.sub(this._oldPos).scale(alpha));
+      zoom = this._oldZoom + (zoom - this._oldZoom) * alpha;
+    }
 
     const newCanvasWidth = canvasWidth / zoom / pixelRatio;
     const newCanvasHeight = canvasHeight / zoom / pixelRatio;
@@ -744,6 +1092,12 @@ export class Camera extends Class implements CanUpdate, CanInitialize {
     ctx.strokeStyle = 'white';
     ctx.strokeRect(this.viewport.left, this.viewport.top, this.viewport.width, this.viewport.height);
     ctx.closePath();
+
+    for (const s of this._cameraStrategies) {
+      if (s.debugDraw) {
+        s.debugDraw(ctx, this);
+      }
+    }
   }
 
   private _isDoneShaking(): boolean {
@@ -0,0 +1,220 @@
+import { Vector } from './Algebra';
+import { BoundingBox } from './Collision/BoundingBox';
+import { Engine } from './Engine';
+import { Entity } from './EntityComponentSystem/Entity';
+import { Cell, TileMap } from './TileMap';
+
+/**
+ * Fills the cells of a new chunk, for example from noise or from level data
+ * @param chunk   The tile map of the chunk, its cell (0, 0) is cell (chunkX * chunkSize, chunkY * chunkSize) of the whole map
+ * @param chunkX  The column of the chunk
+ * @param chunkY  The row of the chunk
+ */
+export type ChunkProvider = (chunk: TileMap, chunkX: number, chunkY: number) => void;
+
+export interface ChunkedTileMapOptions {
+  /**
+   * Optionally the position of cell (0, 0) in world space, by default (0, 0)
+   */
+  pos?: Vector;
+  /**
+   * The width of a cell in pixels
+   */
+  cellWidth: number;
+  /**
+   * The height of a cell in pixels
+   */
+  cellHeight: number;
+  /**
+   * The number of rows and columns of cells in a chunk
+   */
+  chunkSize: number;
+  /**
+   * Fills the cells of every chunk that is created
+   */
+  provider: ChunkProvider;
+  /**
+   * Optionally the number of rows of cells of the whole map, by default the map is endless up and down
+   */
+  rows?: number;
+  /**
+   * Optionally the number of columns of cells of the whole map, by default the map is endless left and right
+   */
+  cols?: number;
+  /**
+   * Optionally the number of chunks around the viewport that are created ahead of the camera, by default 1
+   */
+  margin?: number;
+  /**
+   * Optionally draw the sprites of each chunk from an offscreen texture, see [[TileMap.cacheGraphics]], by default false
+   */
+  cacheGraphics?: boolean;
+}
+
+/**
+ * The ChunkedTileMap splits a very large or endless world into square [[TileMap|tile maps]] called chunks and only keeps the
+ * chunks around the viewport. Chunks are created as the camera gets close, filled by the [[ChunkProvider|provider]], and
+ * destroyed again once the camera moves away, so the cost of the map depends on the size of the screen and not of the world.
+ * Solid cells collide like those of any other tile map.
+ *
+ * Chunks are created again from scratch by the provider every time they come back into view, keep changes to cells in your
+ * own data to restore them. The provider can generate the world procedurally:
+ *
+ * ```typescript
+ * const noise = new ex.PerlinGenerator({ seed: 42, octaves: 4 });
+ * const world = new ex.ChunkedTileMap({
+ *   cellWidth: 16,
+ *   cellHeight: 16,
+ *   chunkSize: 32,
+ *   provider: (chunk, chunkX, chunkY) => {
+ *     for (const cell of chunk.data) {
+ *       const x = chunkX * 32 + (cell.index % 32);
+ *       const y = chunkY * 32 + Math.floor(cell.index / 32);
+ *       const height = noise.noise(x / 100, y / 100);
+ *       cell.addGraphic(height > 0.5 ? rock : grass);
+ *       cell.solid = height > 0.5;
+ *     }
+ *   }
+ * });
+ * ```
+ *
+ * or load it from level data, here a 2000x2000 array of tile indices:
+ *
+ * ```typescript
+ * const world = new ex.ChunkedTileMap({
+ *   cellWidth: 16,
+ *   cellHeight: 16,
+ *   chunkSize: 32,
+ *   rows: 2000,
+ *   cols: 2000,
+ *   cacheGraphics: true,
+ *   provider: (chunk, chunkX, chunkY) => {
+ *     for (const cell of chunk.data) {
+ *       const x = chunkX * 32 + (cell.index % chunk.cols);
+ *       const y = chunkY * 32 + Math.floor(cell.index / chunk.cols);
+ *       cell.addGraphic(sprites[level[y][x]]);
+ *     }
+ *   }
+ * });
+ * ```
+ */
+export class ChunkedTileMap extends Entity {
+  public readonly pos: Vector;
+  public readonly cellWidth: number;
+  public readonly cellHeight: number;
+  public readonly chunkSize: number;
+  public readonly rows: number;
+  public readonly cols: number;
+  public margin: number;
+  public provider: ChunkProvider;
+  public cacheGraphics: boolean;
+
+  private _chunks = new Map<string, TileMap>();
+
+  constructor(options: ChunkedTileMapOptions) {
+    super();
+    this.pos = options.pos ?? Vector.Zero;
+    this.cellWidth = options.cellWidth;
+    this.cellHeight = options.cellHeight;
+    this.chunkSize = options.chunkSize;
+    this.rows = options.rows ?? Infinity;
+    this.cols = options.cols ?? Infinity;
+    this.margin = options.margin ?? 1;
+    this.provider = options.provider;
+    this.cacheGraphics = !!options.cacheGraphics;
+  }
+
+  /**
+   * The chunks that currently exist
+   */
+  public get chunks(): TileMap[] {
+    return Array.from(this._chunks.values());
+  }
+
+  /**
+   * Returns the chunk at a column and row of chunks, or null if it does not exist right now
+   */
+  public getChunk(chunkX: number, chunkY: number): TileMap {
+    return this._chunks.get(chunkX + ',' + chunkY) ?? null;
+  }
+
+  /**
+   * Returns the [[Cell]] at a column and row of the whole map, or null if its chunk does not exist right now
+   */
+  public getCell(x: number, y: number): Cell {
+    const chunkX = Math.floor(x / this.chunkSize);
+    const chunkY = Math.floor(y / this.chunkSize);
+    const chunk = this.getChunk(chunkX, chunkY);
+    return chunk ? chunk.getCell(x - chunkX * this.chunkSize, y - chunkY * this.chunkSize) : null;
+  }
+
+  /**
+   * Returns the [[Cell]] containing a point in world space, or null if its chunk does not exist right now
+   */
+  public getCellByPoint(x: number, y: number): Cell {
+    return this.getCell(Math.floor((x - this.pos.x) / this.cellWidth), Math.floor((y - this.pos.y) / this.cellHeight));
+  }
+
+  /**
+   * Creates the chunks around an area and destroys the chunks that are more than a chunk further away than the margin, called
+   * with the viewport every update
+   * @param bounds  The area in world space that must be covered by chunks
+   */
+  public updateChunks(bounds: BoundingBox) {
+    const chunkWidth = this.chunkSize * this.cellWidth;
+    const chunkHeight = this.chunkSize * this.cellHeight;
+    const left = Math.floor((bounds.left - this.pos.x) / chunkWidth);
+    const top = Math.floor((bounds.top - this.pos.y) / chunkHeight);
+    const right = Math.floor((bounds.right - this.pos.x) / chunkWidth);
+    const bottom = Math.floor((bounds.bottom - this.pos.y) / chunkHeight);
+
+    // keep chunks a little longer than they are needed so moving back and forth over a chunk border does not rebuild them
+    const keep = this.margin + 1;
+    for (const [key, chunk] of this._chunks) {
+      const [chunkX, chunkY] = key.split(',').map(Number);
+      if (chunkX < left - keep || chunkX > right + keep || chunkY < top - keep || chunkY > bottom + keep) {
+        this._chunks.delete(key);
+        this.removeChild(chunk);
+        chunk.clearGraphicsCache();
+      }
+    }
+
+    const lastX = Math.ceil(this.cols / this.chunkSize) - 1;
+    const lastY = Math.ceil(this.rows / this.chunkSize) - 1;
+    for (let chunkY = top - this.margin; chunkY <= bottom + this.margin; chunkY++) {
+      for (let chunkX = left - this.margin; chunkX <= right + this.margin; chunkX++) {
+        const outside = (isFinite(this.cols) && (chunkX < 0 || chunkX > lastX)) || (isFinite(this.rows) && (chunkY < 0 || chunkY > lastY));
+        if (!outside && !this.getChunk(chunkX, chunkY)) {
+          this._createChunk(chunkX, chunkY);
+        }
+      }
+    }
+  }
+
+  private _createChunk(chunkX: number, chunkY: number) {
+    const x = chunkX * this.chunkSize;
+    const y = chunkY * this.chunkSize;
+    const chunk = new TileMap({
+      x: this.pos.x + x * this.cellWidth,
+      y: this.pos.y + y * this.cellHeight,
+      cellWidth: this.cellWidth,
+      cellHeight: this.cellHeight,
+      rows: Math.min(this.chunkSize, this.rows - y),
+      cols: Math.min(this.chunkSize, this.cols - x)
+    });
+    this.provider(chunk, chunkX, chunkY);
+    if (this.cacheGraphics) {
+      chunk.cacheGraphics();
+    }
+    this._chunks.set(chunkX + ',' + chunkY, chunk);
+    this.addChild(chunk);
+  }
+
+  public update(engine: Engine, delta: number) {
+    this._initialize(engine);
+    this._preupdate(engine, delta);
+    // the chunks are updated by the scene as entities of their own, so unlike Entity.update this does not update the children
+    this.updateChunks(engine.getWorldBounds());
+    this._postupdate(engine, delta);
+  }
+}
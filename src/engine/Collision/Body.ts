@@ -1,12 +1,15 @@
 import { vec, Vector } from '../Algebra';
-import { Actor } from '../Actor';
+import { Actor, isActor } from '../Actor';
+import { Entity } from '../EntityComponentSystem/Entity';
 import { Collider } from './Collider';
 import { CollisionType } from './CollisionType';
-import { Physics } from '../Physics';
-import { PreCollisionEvent, PostCollisionEvent, CollisionStartEvent, CollisionEndEvent } from '../Events';
+import { PhysicsConfig } from '../Physics';
+import { PreCollisionEvent, PostCollisionEvent, CollisionStartEvent, CollisionEndEvent, SleepEvent, WakeEvent } from '../Events';
 import { Clonable } from '../Interfaces/Clonable';
 import { Shape } from './Shape';
+import { CollisionShape } from './CollisionShape';
 import { TransformComponent } from '../EntityComponentSystem/Components/TransformComponent';
+import { canonicalizeAngle } from '../Util/Util';
 
 export interface BodyOptions {
   /**
@@ -23,8 +26,26 @@ export interface BodyOptions {
  * Body describes all the physical properties pos, vel, acc, rotation, angular velocity
  */
 export class Body implements Clonable<Body> {
+  /**
+   * The config of bodies that are not in a scene, it only holds the global [[Physics]] defaults
+   */
+  private static _DEFAULT_PHYSICS = new PhysicsConfig();
+
   private _collider: Collider;
-  public actor: Actor;
+  private _physics: PhysicsConfig = null;
+  /**
+   * The physics settings of the scene the body is simulated in, set by the [[MotionSystem]]
+   * @internal
+   */
+  public _scenePhysics: PhysicsConfig = null;
+  private _canSleep: boolean = null;
+  private _sleeping = false;
+
+  /**
+   * The entity this body moves, set when the body is added to an entity with a [[BodyComponent]]
+   */
+  public owner: Entity = null;
+
   /**
    * Constructs a new physics body associated with an actor
    */
@@ -33,7 +54,7 @@ export class Body implements Clonable<Body> {
       throw new Error('An actor or collider are required to create a body');
     }
 
-    this.actor = actor;
+    this.owner = actor;
     if (!collider && actor) {
       this.collider = this.useBoxCollider(actor.width, actor.height, actor.anchor);
     } else {
@@ -41,8 +62,19 @@ export class Body implements Clonable<Body> {
     }
   }
 
+  /**
+   * The actor this body moves, null if the body is owned by a plain [[Entity]]
+   */
+  public get actor(): Actor {
+    return isActor(this.owner) ? this.owner : null;
+  }
+
+  public set actor(actor: Actor) {
+    this.owner = actor;
+  }
+
   public get id() {
-    return this.actor ? this.actor.id : -1;
+    return this.owner ? this.owner.id : -1;
   }
 
   /**
@@ -56,7 +88,7 @@ export class Body implements Clonable<Body> {
   }
 
   public get active() {
-    return this.actor ? !this.actor.isKilled() : false;
+    return this.owner ? !this.owner.isKilled() : false;
   }
 
   public get center() {
@@ -76,8 +108,20 @@ export class Body implements Clonable<Body> {
     return this._collider;
   }
 
+  /**
+   * The physics settings this body is simulated with, by default the [[Scene.physics]] of the owner's scene if it is in one,
+   * otherwise the global [[Physics]] defaults. Setting it overrides the scene's settings for this body.
+   */
+  public get physics(): PhysicsConfig {
+    return this._physics ?? this._scenePhysics ?? this.actor?.scene?.physics ?? Body._DEFAULT_PHYSICS;
+  }
+
+  public set physics(config: PhysicsConfig) {
+    this._physics = config;
+  }
+
   public get transform(): TransformComponent {
-    return this.actor.get(TransformComponent);
+    return this.owner.get(TransformComponent);
   }
 
   /**
@@ -90,6 +134,10 @@ export class Body implements Clonable<Body> {
   }
 
   public set pos(val: Vector) {
+    // moving a sleeping body directly wakes it up so it is simulated from its new position
+    if (this._sleeping && !val.equals(this.pos)) {
+      this.setSleeping(false);
+    }
     this.transform.globalPos = val;
   }
 
@@ -98,10 +146,20 @@ export class Body implements Clonable<Body> {
    */
   public oldPos: Vector = new Vector(0, 0);
 
+  private _vel: Vector = new Vector(0, 0);
   /**
-   * The current velocity vector (vx, vy) of the actor in pixels/second
+   * The current velocity vector (vx, vy) of the actor in pixels/second, setting a different velocity wakes up a sleeping body
    */
-  public vel: Vector = new Vector(0, 0);
+  public get vel(): Vector {
+    return this._vel;
+  }
+
+  public set vel(val: Vector) {
+    if (this._sleeping && !val.equals(this._vel)) {
+      this.setSleeping(false);
+    }
+    this._vel = val;
+  }
 
   /**
    * The velocity of the actor last frame (vx, vy) in pixels/second
@@ -115,7 +173,7 @@ export class Body implements Clonable<Body> {
   public acc: Vector = new Vector(0, 0);
 
   /**
-   * Gets/sets the acceleration of the actor from the last frame. This does not include the global acc [[Physics.acc]].
+   * Gets/sets the acceleration of the actor from the last frame. This does not include the scene acc [[PhysicsConfig.acc]].
    */
   public oldAcc: Vector = Vector.Zero;
 
@@ -129,6 +187,112 @@ export class Body implements Clonable<Body> {
    */
   public motion: number = 10;
 
+  /**
+   * Whether the body is a fast moving bullet that must not pass through other colliders. Bullets are moved back to their first
+   * contact along their motion, including rotation, every update. This is more expensive than the ray cast used for fast bodies by
+   * [[PhysicsConfig.checkForFastBodies]], so only enable it for bodies that need it.
+   */
+  public bullet: boolean = false;
+
+  /**
+   * The time in milliseconds the body has been at rest, see [[PhysicsConfig.sleepVelocity]]
+   */
+  public sleepTime: number = 0;
+
+  /**
+   * Whether the body can fall asleep when it comes to rest, by default [[PhysicsConfig.bodiesCanSleepByDefault]]. Only
+   * [[CollisionType.Active|active]] bodies sleep.
+   */
+  public get canSleep(): boolean {
+    return this._canSleep ?? this.physics.bodiesCanSleepByDefault;
+  }
+
+  public set canSleep(canSleep: boolean) {
+    this._canSleep = canSleep;
+    if (!canSleep) {
+      this.setSleeping(false);
+    }
+  }
+
+  /**
+   * Whether the body is asleep. Sleeping bodies are not integrated and only collide with awake bodies, they wake up when an
+   * awake body touches their island, when a body of their island is removed, when an impulse is applied with [[applyImpulse]], or
+   * when [[pos]] or [[vel]] is set to a different value. A velocity changed in place, such as `body.vel.x = 100`, wakes the body
+   * on the next collision update.
+   */
+  public get sleeping(): boolean {
+    return this._sleeping;
+  }
+
+  /**
+   * Puts the body to sleep or wakes it up, emitting `sleep` or `wake` on the collider. A sleeping body has no velocity.
+   */
+  public setSleeping(sleeping: boolean) {
+    if (this._sleeping === sleeping) {
+      return;
+    }
+    this._sleeping = sleeping;
+    this.sleepTime = 0;
+    if (sleeping) {
+      this.vel.setTo(0, 0);
+      this.rx = 0;
+      this.collider.emit('sleep', new SleepEvent(this.collider));
+    } else {
+      this.collider.emit('wake', new WakeEvent(this.collider));
+    }
+  }
+
+  /**
+   * Whether the body has a velocity or angular velocity
+   */
+  public get isMoving(): boolean {
+    return this.vel.x !== 0 || this.vel.y !== 0 || this.rx !== 0;
+  }
+
+  /**
+   * Accumulates the time the body has been at rest, or resets it if the body is moving. The speed is measured from how far the
+   * body moved since [[captureOldTransform]], so bodies that jitter in place while resting can still fall asleep. A sleeping body
+   * that has been given a velocity in place, such as `body.vel.x = 100`, is woken up instead.
+   * @param delta  The time in milliseconds since the last update
+   */
+  public updateMotion(delta: number) {
+    if (this._sleeping) {
+      // sleeping bodies have no velocity, unless it was changed without the setter
+      if (this.isMoving) {
+        this.setSleeping(false);
+      }
+      return;
+    }
+    const physics = this.physics;
+    const seconds = delta / 1000;
+    const speed = this.pos.distance(this.oldPos) / seconds;
+    let turn = canonicalizeAngle(this.rotation - this.oldRotation);
+    turn = turn > Math.PI ? Math.PI * 2 - turn : turn;
+    const angularSpeed = turn / seconds;
+    if (speed <= physics.sleepVelocity && angularSpeed <= physics.sleepAngularVelocity) {
+      this.sleepTime += delta;
+    } else {
+      this.sleepTime = 0;
+    }
+  }
+
+  /**
+   * Applies an impulse at a point in world space, changing the velocity and angular velocity of the body and waking it up.
+   * Impulses have no effect on bodies that are not [[CollisionType.Active|active]].
+   * @param impulse  The impulse in mass * pixels/second
+   * @param point    Optionally the world point the impulse is applied at, by default the body's position
+   */
+  public applyImpulse(impulse: Vector, point: Vector = this.pos) {
+    if (this.collider.type !== CollisionType.Active) {
+      return;
+    }
+    this.setSleeping(false);
+    this.vel = this.vel.add(impulse.scale(1 / this.collider.mass));
+    if (this.physics.allowRigidBodyRotation) {
+      this.rx += point.sub(this.pos).cross(impulse) / this.collider.inertia;
+    }
+  }
+
   /**
    * Gets/sets the rotation of the body from the last frame.
    */
@@ -210,7 +374,8 @@ export class Body implements Clonable<Body> {
   }
 
   /**
-   * Sets the old versions of pos, vel, acc, and scale.
+   * Sets the old versions of pos, vel, acc, and scale. The local pose is also recorded on the [[TransformComponent]]
+   * so graphics can be interpolated between fixed updates.
    */
   public captureOldTransform() {
     // Capture old values before integration step updates them
@@ -219,6 +384,7 @@ export class Body implements Clonable<Body> {
     this.oldAcc.setTo(this.acc.x, this.acc.y);
     this.oldScale.setTo(this.scale.x, this.scale.y);
     this.oldRotation = this.rotation;
+    this.transform.captureOldTransform();
   }
 
   /**
@@ -231,7 +397,7 @@ export class Body implements Clonable<Body> {
     const totalAcc = this.acc.clone();
     // Only active vanilla actors are affected by global acceleration
     if (this.collider.type === CollisionType.Active) {
-      totalAcc.addEqual(Physics.acc);
+      totalAcc.addEqual(this.physics.acc);
     }
 
     this.vel.addEqual(totalAcc.scale(seconds));
@@ -306,27 +472,62 @@ export class Body implements Clonable<Body> {
     return this.collider;
   }
 
+  /**
+   * Sets up a [[Chain|chain collision geometry]] through a list of points relative to the anchor of the associated actor of this
+   * physics body. Chains are one-sided and smooth over the seams between their edges, which makes them a better fit for long
+   * terrain than separate edge colliders.
+   */
+  public useChainCollider(points: Vector[], loop: boolean = false): Collider {
+    this.collider.shape = Shape.Chain(points, loop);
+    return this.collider;
+  }
+
+  /**
+   * Sets up a [[CompositeShape|composite collision geometry]] made of several shapes relative to the anchor of the associated
+   * actor of this physics body, see [[Shape.Concave]] to build one from a concave outline.
+   */
+  public useCompositeCollider(shapes: CollisionShape[]): Collider {
+    this.collider.shape = Shape.Composite(shapes);
+    return this.collider;
+  }
+
   // TODO remove this, eventually events will stay local to the thing they are around
   private _wireColliderEventsToActor() {
     this.collider.clear();
     this.collider.on('precollision', (evt: PreCollisionEvent<Collider>) => {
-      if (this.actor) {
-        this.actor.emit('precollision', new PreCollisionEvent(evt.target.body.actor, evt.other.body.actor, evt.side, evt.intersection));
+      if (this.owner) {
+        this.owner.emit(
+          'precollision',
+          new PreCollisionEvent<Entity>(evt.target.body.owner, evt.other.body.owner, evt.side, evt.intersection)
+        );
       }
     });
     this.collider.on('postcollision', (evt: PostCollisionEvent<Collider>) => {
-      if (this.actor) {
-        this.actor.emit('postcollision', new PostCollisionEvent(evt.target.body.actor, evt.other.body.actor, evt.side, evt.intersection));
+      if (this.owner) {
+        this.owner.emit(
+          'postcollision',
+          new PostCollisionEvent<Entity>(evt.target.body.owner, evt.other.body.owner, evt.side, evt.intersection)
+        );
       }
     });
     this.collider.on('collisionstart', (evt: CollisionStartEvent<Collider>) => {
-      if (this.actor) {
-        this.actor.emit('collisionstart', new CollisionStartEvent(evt.target.body.actor, evt.other.body.actor, evt.pair));
+      if (this.owner) {
+        this.owner.emit('collisionstart', new CollisionStartEvent<Entity>(evt.target.body.owner, evt.other.body.owner, evt.pair));
       }
     });
     this.collider.on('collisionend', (evt: CollisionEndEvent<Collider>) => {
-      if (this.actor) {
-        this.actor.emit('collisionend', new CollisionEndEvent(evt.target.body.actor, evt.other.body.actor));
+      if (this.owner) {
+        this.owner.emit('collisionend', new CollisionEndEvent<Entity>(evt.target.body.owner, evt.other.body.owner));
+      }
+    });
+    this.collider.on('sleep', (evt: SleepEvent<Collider>) => {
+      if (this.owner) {
+        this.owner.emit('sleep', new SleepEvent<Entity>(evt.target.body.owner));
+      }
+    });
+    this.collider.on('wake', (evt: WakeEvent<Collider>) => {
+      if (this.owner) {
+        this.owner.emit('wake', new WakeEvent<Entity>(evt.target.body.owner));
       }
     });
   }
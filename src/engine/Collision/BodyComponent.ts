@@ -0,0 +1,56 @@
+import { Component } from '../EntityComponentSystem/Component';
+import { Entity } from '../EntityComponentSystem/Entity';
+import { TransformComponent } from '../EntityComponentSystem/Components/TransformComponent';
+import { Body } from './Body';
+import { Collider } from './Collider';
+import { Shape } from './Shape';
+
+/**
+ * The BodyComponent gives an [[Entity]] a physics [[Body]] that is integrated each update by the [[MotionSystem]]
+ *
+ * ```typescript
+ * const entity = new ex.Entity([new ex.TransformComponent(), new ex.BodyComponent()]);
+ * entity.get(ex.BodyComponent).body.vel = ex.vec(100, 0);
+ * ```
+ */
+export class BodyComponent extends Component<'ex.body'> {
+  public readonly type = 'ex.body';
+  public readonly dependencies = [TransformComponent];
+
+  private _body: Body;
+
+  /**
+   * @param body  Optionally the body to use, by default a body with an empty box collider is created
+   */
+  constructor(body?: Body) {
+    super();
+    this.body = body ?? new Body({ collider: new Collider({ shape: Shape.Box(0, 0) }) });
+  }
+
+  /**
+   * The physics body simulated for the owning entity
+   */
+  public get body(): Body {
+    return this._body;
+  }
+
+  public set body(body: Body) {
+    if (this._body && this._body.owner === this.owner) {
+      this._body.owner = null;
+    }
+    this._body = body;
+    this._body.owner = this.owner;
+  }
+
+  public onAdd = (owner: Entity) => {
+    this._body.owner = owner;
+  };
+
+  public onRemove = () => {
+    this._body.owner = null;
+  };
+
+  public clone(): this {
+    return new BodyComponent(this._body.clone()) as this;
+  }
+}
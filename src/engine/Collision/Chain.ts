@@ -0,0 +1,354 @@
+import { Color } from '../Drawing/Color';
+import { Physics } from '../Physics';
+import { BoundingBox } from './BoundingBox';
+import { Circle } from './Circle';
+import { CollisionContact } from './CollisionContact';
+import { CollisionJumpTable } from './CollisionJumpTable';
+import { CollisionShape } from './CollisionShape';
+import { CompositeShape } from './CompositeShape';
+import { ConvexPolygon } from './ConvexPolygon';
+import { Edge } from './Edge';
+import { Vector, Line, Ray, Projection } from '../Algebra';
+import { Collider } from './Collider';
+import { ClosestLineJumpTable } from './ClosestLineJumpTable';
+
+export interface ChainOptions {
+  /**
+   * Points of the chain in order in local coordinates, the solid side of every edge is on the left walking from one point to
+   * the next, which is up for points ordered left to right
+   */
+  points: Vector[];
+  /**
+   * Optionally connect the last point back to the first point, by default false
+   */
+  loop?: boolean;
+  /**
+   * Optional pixel offset relative to the collider, by default (0, 0)
+   */
+  offset?: Vector;
+  /**
+   * Optional collider to associate with this shape
+   */
+  collider?: Collider;
+}
+
+/**
+ * Returns the point on a line segment closest to a point
+ */
+const closestPointOnSegment = (segment: Line, point: Vector): Vector => {
+  const edge = segment.getEdge();
+  const time = Math.max(0, Math.min(1, point.sub(segment.begin).dot(edge) / edge.dot(edge)));
+  return segment.begin.add(edge.scale(time));
+};
+
+/**
+ * Directions within this distance of an edge normal are treated as the edge normal when a corner is not convex
+ */
+const NormalEpsilon = 0.001;
+
+/**
+ * Chain is a polyline collision shape for long terrain like hills or the outline of a level. Its edges are one-sided, bodies
+ * only collide with the solid side and pass through from behind. Contacts at the corners between edges are smoothed using the
+ * neighbouring edges, so bodies sliding along the chain do not catch on the seams like they would on separate [[Edge|edges]].
+ *
+ * Chains are meant for [[CollisionType.Fixed|fixed]] bodies, they collide with circles, polygons, and composite shapes but not
+ * with edges or other chains.
+ */
+export class Chain implements CollisionShape {
+  public offset: Vector;
+  public points: Vector[];
+  public loop: boolean;
+
+  /**
+   * Collider associated with this shape
+   */
+  public collider?: Collider;
+
+  private _transformedPoints: Vector[] = [];
+  private _segments: Line[] = [];
+
+  constructor(options: ChainOptions) {
+    this.offset = options.offset || Vector.Zero;
+    this.points = options.points || [];
+    this.loop = !!options.loop;
+    this.collider = options.collider || null;
+
+    if (this.points.length < 2) {
+      throw new Error('Chain needs at least 2 points');
+    }
+  }
+
+  /**
+   * Returns a clone of this Chain, not associated with any collider
+   */
+  public clone(): Chain {
+    return new Chain({
+      offset: this.offset.clone(),
+      points: this.points.map((p) => p.clone()),
+      loop: this.loop,
+      collider: null
+    });
+  }
+
+  public get worldPos(): Vector {
+    if (this.collider && this.collider.body) {
+      return this.collider.body.pos.add(this.offset);
+    }
+    return this.offset;
+  }
+
+  /**
+   * Get the center of the chain bounds in world coordinates
+   */
+  public get center(): Vector {
+    return this.bounds.center;
+  }
+
+  private _calculateTransformation() {
+    const body = this.collider ? this.collider.body : null;
+    const pos = body ? body.pos.add(this.offset) : this.offset;
+    const angle = body ? body.rotation : 0;
+    const scale = body ? body.scale : Vector.One;
+
+    this._transformedPoints.length = 0;
+    this._segments.length = 0;
+    for (let i = 0; i < this.points.length; i++) {
+      this._transformedPoints[i] = this.points[i].scale(scale).rotate(angle).add(pos);
+    }
+    const points = this._transformedPoints;
+    const count = this.loop ? points.length : points.length - 1;
+    for (let i = 0; i < count; i++) {
+      this._segments.push(new Line(points[i], points[(i + 1) % points.length]));
+    }
+  }
+
+  /**
+   * Gets the points of the chain in world space
+   */
+  public getTransformedPoints(): Vector[] {
+    if (
+      !this._transformedPoints.length ||
+      (this.collider &&
+        this.collider.body &&
+        (!this.collider.body.oldPos.equals(this.collider.body.pos) ||
+          this.collider.body.oldRotation !== this.collider.body.rotation ||
+          this.collider.body.oldScale !== this.collider.body.scale))
+    ) {
+      this._calculateTransformation();
+    }
+    return this._transformedPoints;
+  }
+
+  /**
+   * Gets the edges of the chain in world space, segment i runs from point i to point i + 1
+   */
+  public getSegments(): Line[] {
+    this.getTransformedPoints();
+    return this._segments;
+  }
+
+  /**
+   * Returns the edge of the chain closest to a point in world space
+   */
+  public getClosestSegment(point: Vector): Line {
+    let closest: Line = null;
+    let min = Infinity;
+    for (const segment of this.getSegments()) {
+      const distance = closestPointOnSegment(segment, point).distance(point);
+      if (distance < min) {
+        min = distance;
+        closest = segment;
+      }
+    }
+    return closest;
+  }
+
+  /**
+   * Whether a contact at a point of the chain may push a body along a direction. At a convex corner any direction between the
+   * normals of the 2 edges is allowed, at a flat or concave corner only the edge normals are, so bodies are never pushed back
+   * by the seam between 2 edges. The open ends of a chain allow any direction in front of their edge.
+   * @param index      The index of the point
+   * @param direction  The normalized direction from the chain towards the body
+   */
+  public acceptsNormal(index: number, direction: Vector): boolean {
+    const points = this.getTransformedPoints();
+    const segments = this.getSegments();
+    const len = points.length;
+    const incoming = index > 0 ? segments[index - 1] : this.loop ? segments[len - 1] : null;
+    const outgoing = index < segments.length ? segments[index] : null;
+
+    const normalIn = incoming ? incoming.normal() : outgoing.getSlope().negate();
+    const normalOut = outgoing ? outgoing.normal() : incoming.getSlope();
+    const convex = !incoming || !outgoing || normalIn.dot(outgoing.getEdge()) < 0;
+    if (!convex) {
+      return direction.dot(normalIn) > 1 - NormalEpsilon || direction.dot(normalOut) > 1 - NormalEpsilon;
+    }
+    const side = Math.sign(normalIn.cross(normalOut));
+    return (
+      side * normalIn.cross(direction) >= -NormalEpsilon &&
+      side * direction.cross(normalOut) >= -NormalEpsilon &&
+      direction.dot(normalIn.add(normalOut)) > 0
+    );
+  }
+
+  /**
+   * Tests if a point is contained in this collision shape, chains have no inside
+   */
+  public contains(): boolean {
+    return false;
+  }
+
+  /**
+   * Casts a ray at the edges of the chain and returns the nearest point of collision
+   */
+  public rayCast(ray: Ray, max: number = Infinity): Vector {
+    let minContactTime = Infinity;
+    for (const segment of this.getSegments()) {
+      const time = ray.intersect(segment);
+      if (time >= 0 && time <= max && time < minContactTime) {
+        minContactTime = time;
+      }
+    }
+    return minContactTime < Infinity ? ray.getPoint(minContactTime) : null;
+  }
+
+  public getClosestLineBetween(shape: CollisionShape): Line {
+    if (shape instanceof Circle) {
+      return ClosestLineJumpTable.CircleChainClosestLine(shape, this).flip();
+    } else if (shape instanceof ConvexPolygon) {
+      return ClosestLineJumpTable.PolygonChainClosestLine(shape, this).flip();
+    } else if (shape instanceof Edge) {
+      return ClosestLineJumpTable.EdgeChainClosestLine(shape, this).flip();
+    } else if (shape instanceof Chain) {
+      return ClosestLineJumpTable.ChainChainClosestLine(this, shape);
+    } else if (shape instanceof CompositeShape) {
+      return shape.getClosestLineBetween(this).flip();
+    } else {
+      throw new Error(`Chain could not collide with unknown CollisionShape ${typeof shape}`);
+    }
+  }
+
+  /**
+   * @inheritdoc
+   */
+  public collide(shape: CollisionShape): CollisionContact {
+    if (shape instanceof Circle) {
+      return CollisionJumpTable.CollideCircleChain(shape, this);
+    } else if (shape instanceof ConvexPolygon) {
+      return CollisionJumpTable.CollidePolygonChain(shape, this);
+    } else if (shape instanceof Edge || shape instanceof Chain) {
+      return CollisionJumpTable.CollideChainChain();
+    } else if (shape instanceof CompositeShape) {
+      return CollisionJumpTable.CollideCompositeShape(shape, this);
+    } else {
+      throw new Error(`Chain could not collide with unknown CollisionShape ${typeof shape}`);
+    }
+  }
+
+  /**
+   * Find the point on the chain furthest in the direction specified
+   */
+  public getFurthestPoint(direction: Vector): Vector {
+    const points = this.getTransformedPoints();
+    let furthestPoint = null;
+    let maxDistance = -Number.MAX_VALUE;
+    for (const point of points) {
+      const distance = direction.dot(point);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        furthestPoint = point;
+      }
+    }
+    return furthestPoint;
+  }
+
+  /**
+   * Get the axis aligned bounding box for the chain in world coordinates
+   */
+  public get bounds(): BoundingBox {
+    return BoundingBox.fromPoints(this.getTransformedPoints());
+  }
+
+  /**
+   * Get the axis aligned bounding box for the chain in local coordinates
+   */
+  public get localBounds(): BoundingBox {
+    return BoundingBox.fromPoints(this.points).translate(this.offset);
+  }
+
+  /**
+   * Get the normals of the edges
+   */
+  public get axes(): Vector[] {
+    return this.getSegments().map((segment) => segment.normal());
+  }
+
+  /**
+   * Get the moment of inertia of the edges as thin rods, the mass is shared between the edges by length
+   * https://en.wikipedia.org/wiki/List_of_moments_of_inertia
+   */
+  public get inertia(): number {
+    const mass = this.collider ? this.collider.mass : Physics.defaultMass;
+    const len = this.points.length;
+    const count = this.loop ? len : len - 1;
+    let length = 0;
+    let inertia = 0;
+    for (let i = 0; i < count; i++) {
+      const begin = this.points[i];
+      const end = this.points[(i + 1) % len];
+      const segmentLength = begin.distance(end);
+      const center = begin.average(end);
+      length += segmentLength;
+      inertia += segmentLength * ((segmentLength * segmentLength) / 12 + center.dot(center));
+    }
+    return length ? (mass * inertia) / length : 0;
+  }
+
+  public recalc(): void {
+    this._calculateTransformation();
+  }
+
+  /**
+   * Project the points of the chain along a specified axis
+   */
+  public project(axis: Vector): Projection {
+    let min = Number.MAX_VALUE;
+    let max = -Number.MAX_VALUE;
+    for (const point of this.getTransformedPoints()) {
+      const scalar = point.dot(axis);
+      min = Math.min(min, scalar);
+      max = Math.max(max, scalar);
+    }
+    return new Projection(min, max);
+  }
+
+  public draw(ctx: CanvasRenderingContext2D, color: Color = Color.Green, pos: Vector = Vector.Zero) {
+    const basePos = pos.add(this.offset);
+    ctx.strokeStyle = color.toString();
+    ctx.beginPath();
+    ctx.moveTo(this.points[0].x + basePos.x, this.points[0].y + basePos.y);
+    for (const point of this.points) {
+      ctx.lineTo(point.x + basePos.x, point.y + basePos.y);
+    }
+    if (this.loop) {
+      ctx.closePath();
+    }
+    ctx.stroke();
+  }
+
+  /* istanbul ignore next */
+  public debugDraw(ctx: CanvasRenderingContext2D, color: Color = Color.Red) {
+    ctx.strokeStyle = color.toString();
+    ctx.beginPath();
+    for (const segment of this.getSegments()) {
+      ctx.moveTo(segment.begin.x, segment.begin.y);
+      ctx.lineTo(segment.end.x, segment.end.y);
+      // mark the solid side of each edge
+      const middle = segment.midpoint;
+      const normal = segment.normal().scale(5);
+      ctx.moveTo(middle.x, middle.y);
+      ctx.lineTo(middle.x + normal.x, middle.y + normal.y);
+    }
+    ctx.stroke();
+  }
+}
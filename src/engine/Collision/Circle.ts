@@ -2,6 +2,8 @@ import { BoundingBox } from './BoundingBox';
 import { CollisionJumpTable } from './CollisionJumpTable';
 import { CollisionContact } from './CollisionContact';
 import { CollisionShape } from './CollisionShape';
+import { CompositeShape } from './CompositeShape';
+import { Chain } from './Chain';
 import { ConvexPolygon } from './ConvexPolygon';
 import { Edge } from './Edge';
 
@@ -84,11 +86,7 @@ export class Circle implements CollisionShape {
    * Tests if a point is contained in this collision shape
    */
   public contains(point: Vector): boolean {
-    let pos = this.offset;
-    if (this.collider && this.collider.body) {
-      pos = this.collider.body.pos;
-    }
-    const distance = pos.distance(point);
+    const distance = this.center.distance(point);
     if (distance <= this.radius) {
       return true;
     }
@@ -147,6 +145,10 @@ export class Circle implements CollisionShape {
       return ClosestLineJumpTable.PolygonCircleClosestLine(shape, this).flip();
     } else if (shape instanceof Edge) {
       return ClosestLineJumpTable.CircleEdgeClosestLine(this, shape).flip();
+    } else if (shape instanceof Chain) {
+      return ClosestLineJumpTable.CircleChainClosestLine(this, shape);
+    } else if (shape instanceof CompositeShape) {
+      return shape.getClosestLineBetween(this).flip();
     } else {
       throw new Error(`Polygon could not collide with unknown CollisionShape ${typeof shape}`);
     }
@@ -162,6 +164,10 @@ export class Circle implements CollisionShape {
       return CollisionJumpTable.CollideCirclePolygon(this, shape);
     } else if (shape instanceof Edge) {
       return CollisionJumpTable.CollideCircleEdge(this, shape);
+    } else if (shape instanceof Chain) {
+      return CollisionJumpTable.CollideCircleChain(this, shape);
+    } else if (shape instanceof CompositeShape) {
+      return CollisionJumpTable.CollideCompositeShape(shape, this);
     } else {
       throw new Error(`Circle could not collide with unknown CollisionShape ${typeof shape}`);
     }
@@ -222,11 +228,11 @@ export class Circle implements CollisionShape {
    * Tests the separating axis theorem for circles against polygons
    */
   public testSeparatingAxisTheorem(polygon: ConvexPolygon): Vector {
-    const axes = polygon.axes;
     const pc = polygon.center;
     // Special SAT with circles
     const closestPointOnPoly = polygon.getFurthestPoint(this.offset.sub(pc));
-    axes.push(this.offset.sub(closestPointOnPoly).normalize());
+    // the polygon caches its axes, so the circle axis is added to a copy
+    const axes = polygon.axes.concat(this.offset.sub(closestPointOnPoly).normalize());
 
     let minOverlap = Number.MAX_VALUE;
     let minAxis = null;
@@ -2,6 +2,7 @@ import { Line, Vector, Ray } from '../Algebra';
 import { ConvexPolygon } from './ConvexPolygon';
 import { Edge } from './Edge';
 import { Circle } from './Circle';
+import { Chain } from './Chain';
 
 /**
  * Finds the closes line between 2 line segments, were the magnitude of u, v are the lengths of each segment
@@ -98,90 +99,65 @@ export function ClosestLine(p0: Vector, u: Vector, q0: Vector, v: Vector) {
   return new Line(p0.add(u.scale(sClosest)), q0.add(v.scale(tClosest)));
 }
 
-export const ClosestLineJumpTable = {
-  PolygonPolygonClosestLine(polygonA: ConvexPolygon, polygonB: ConvexPolygon) {
-    // Find the 2 closest faces on each polygon
-    const otherWorldPos = polygonB.worldPos;
-    const otherDirection = otherWorldPos.sub(polygonA.worldPos);
-    const thisDirection = otherDirection.negate();
-
-    const rayTowardsOther = new Ray(polygonA.worldPos, otherDirection);
-    const rayTowardsThis = new Ray(otherWorldPos, thisDirection);
-
-    const thisPoint = polygonA.rayCast(rayTowardsOther).add(rayTowardsOther.dir.scale(0.1));
-    const otherPoint = polygonB.rayCast(rayTowardsThis).add(rayTowardsThis.dir.scale(0.1));
-
-    const thisFace = polygonA.getClosestFace(thisPoint);
-    const otherFace = polygonB.getClosestFace(otherPoint);
+/**
+ * Returns the shortest of several lines
+ */
+const shortest = (lines: Line[]): Line => {
+  return lines.reduce((min, line) => (line.getLength() < min.getLength() ? line : min));
+};
 
-    // L1 = P(s) = p0 + s * u, where s is time and p0 is the start of the line
-    const p0 = thisFace.face.begin;
-    const u = thisFace.face.getEdge();
+/**
+ * Returns the point on a line segment closest to a point
+ */
+const closestPointOnSegment = (segment: Line, point: Vector): Vector => {
+  const edge = segment.getEdge();
+  const time = Math.max(0, Math.min(1, point.sub(segment.begin).dot(edge) / edge.dot(edge)));
+  return segment.begin.add(edge.scale(time));
+};
 
-    // L2 = Q(t) = q0 + t * v, where t is time and q0 is the start of the line
-    const q0 = otherFace.face.begin;
-    const v = otherFace.face.getEdge();
+/**
+ * Finds the closest line between 2 line segments, unlike [[ClosestLine]] parallel segments are measured between their ends
+ */
+const SegmentSegmentClosestLine = (a: Line, b: Line): Line => {
+  const u = a.getEdge();
+  const v = b.getEdge();
+  // same threshold ClosestLine uses for parallel lines
+  if (Math.pow(u.cross(v), 2) > 0.01) {
+    return ClosestLine(a.begin, u, b.begin, v);
+  }
+  return shortest([
+    new Line(a.begin, closestPointOnSegment(b, a.begin)),
+    new Line(a.end, closestPointOnSegment(b, a.end)),
+    new Line(closestPointOnSegment(a, b.begin), b.begin),
+    new Line(closestPointOnSegment(a, b.end), b.end)
+  ]);
+};
 
-    return ClosestLine(p0, u, q0, v);
+export const ClosestLineJumpTable = {
+  PolygonPolygonClosestLine(polygonA: ConvexPolygon, polygonB: ConvexPolygon) {
+    // the closest points of 2 separate convex polygons lie on one of their sides
+    const lines: Line[] = [];
+    for (const sideA of polygonA.getSides()) {
+      for (const sideB of polygonB.getSides()) {
+        lines.push(SegmentSegmentClosestLine(sideA, sideB));
+      }
+    }
+    return shortest(lines);
   },
 
   PolygonEdgeClosestLine(polygon: ConvexPolygon, edge: Edge) {
-    // Find the 2 closest faces on each polygon
-    const otherWorldPos = edge.worldPos;
-    const otherDirection = otherWorldPos.sub(polygon.worldPos);
-
-    const rayTowardsOther = new Ray(polygon.worldPos, otherDirection);
-
-    const thisPoint = polygon.rayCast(rayTowardsOther).add(rayTowardsOther.dir.scale(0.1));
-
-    const thisFace = polygon.getClosestFace(thisPoint);
-
-    // L1 = P(s) = p0 + s * u, where s is time and p0 is the start of the line
-    const p0 = thisFace.face.begin;
-    const u = thisFace.face.getEdge();
-
-    // L2 = Q(t) = q0 + t * v, where t is time and q0 is the start of the line
     const edgeLine = edge.asLine();
-    const edgeStart = edgeLine.begin;
-    const edgeVector = edgeLine.getEdge();
-    const q0 = edgeStart;
-    const v = edgeVector;
-
-    return ClosestLine(p0, u, q0, v);
+    return shortest(polygon.getSides().map((side) => SegmentSegmentClosestLine(side, edgeLine)));
   },
 
   PolygonCircleClosestLine(polygon: ConvexPolygon, circle: Circle) {
-    // https://math.stackexchange.com/questions/1919177/how-to-find-point-on-line-closest-to-sphere
-    // Find the 2 closest faces on each polygon
-    const otherWorldPos = circle.worldPos;
-    const otherDirection = otherWorldPos.sub(polygon.worldPos);
-
-    const rayTowardsOther = new Ray(polygon.worldPos, otherDirection.normalize());
-
-    const thisPoint = polygon.rayCast(rayTowardsOther).add(rayTowardsOther.dir.scale(0.1));
-
-    const thisFace = polygon.getClosestFace(thisPoint);
-
-    // L1 = P(s) = p0 + s * u, where s is time and p0 is the start of the line
-    const p0 = thisFace.face.begin;
-    const u = thisFace.face.getEdge();
-
-    // Time of minimum distance
-    let t = (u.x * (otherWorldPos.x - p0.x) + u.y * (otherWorldPos.y - p0.y)) / (u.x * u.x + u.y * u.y);
-
-    // If time of minimum is past the edge clamp
-    if (t > 1) {
-      t = 1;
-    } else if (t < 0) {
-      t = 0;
-    }
-
-    // Minimum distance
-    const d = Math.sqrt(Math.pow(p0.x + u.x * t - otherWorldPos.x, 2) + Math.pow(p0.y + u.y * t - otherWorldPos.y, 2)) - circle.radius;
-
-    const circlex = ((p0.x + u.x * t - otherWorldPos.x) * circle.radius) / (circle.radius + d);
-    const circley = ((p0.y + u.y * t - otherWorldPos.y) * circle.radius) / (circle.radius + d);
-    return new Line(u.scale(t).add(p0), new Vector(otherWorldPos.x + circlex, otherWorldPos.y + circley));
+    const center = circle.worldPos;
+    return shortest(
+      polygon.getSides().map((side) => {
+        const point = closestPointOnSegment(side, center);
+        return new Line(point, center.add(point.sub(center).normalize().scale(circle.radius)));
+      })
+    );
   },
 
   CircleCircleClosestLine(circleA: Circle, circleB: Circle) {
@@ -231,20 +207,41 @@ export const ClosestLineJumpTable = {
   },
 
   EdgeEdgeClosestLine(edgeA: Edge, edgeB: Edge) {
-    // L1 = P(s) = p0 + s * u, where s is time and p0 is the start of the line
-    const edgeLineA = edgeA.asLine();
-    const edgeStartA = edgeLineA.begin;
-    const edgeVectorA = edgeLineA.getEdge();
-    const p0 = edgeStartA;
-    const u = edgeVectorA;
-
-    // L2 = Q(t) = q0 + t * v, where t is time and q0 is the start of the line
-    const edgeLineB = edgeB.asLine();
-    const edgeStartB = edgeLineB.begin;
-    const edgeVectorB = edgeLineB.getEdge();
-    const q0 = edgeStartB;
-    const v = edgeVectorB;
-
-    return ClosestLine(p0, u, q0, v);
+    return SegmentSegmentClosestLine(edgeA.asLine(), edgeB.asLine());
+  },
+
+  CircleChainClosestLine(circle: Circle, chain: Chain) {
+    const center = circle.worldPos;
+    return shortest(
+      chain.getSegments().map((segment) => {
+        const point = closestPointOnSegment(segment, center);
+        return new Line(center.add(point.sub(center).normalize().scale(circle.radius)), point);
+      })
+    );
+  },
+
+  PolygonChainClosestLine(polygon: ConvexPolygon, chain: Chain) {
+    const lines: Line[] = [];
+    for (const side of polygon.getSides()) {
+      for (const segment of chain.getSegments()) {
+        lines.push(SegmentSegmentClosestLine(side, segment));
+      }
+    }
+    return shortest(lines);
+  },
+
+  EdgeChainClosestLine(edge: Edge, chain: Chain) {
+    const edgeLine = edge.asLine();
+    return shortest(chain.getSegments().map((segment) => SegmentSegmentClosestLine(edgeLine, segment)));
+  },
+
+  ChainChainClosestLine(chainA: Chain, chainB: Chain) {
+    const lines: Line[] = [];
+    for (const a of chainA.getSegments()) {
+      for (const b of chainB.getSegments()) {
+        lines.push(SegmentSegmentClosestLine(a, b));
+      }
+    }
+    return shortest(lines);
   }
 };
@@ -14,6 +14,17 @@ import { CollisionContact } from './CollisionContact';
 import { EventDispatcher } from '../EventDispatcher';
 import { Pair } from './Pair';
 import { Clonable } from '../Interfaces/Clonable';
+import { Circle } from './Circle';
+import { CollisionJumpTable } from './CollisionJumpTable';
+import { ConvexPolygon } from './ConvexPolygon';
+import { CompositeShape } from './CompositeShape';
+
+/**
+ * Shapes that can be pushed by a polygon collider only along some directions
+ */
+const isDirectable = (shape: CollisionShape): shape is ConvexPolygon | Circle => {
+  return shape instanceof ConvexPolygon || shape instanceof Circle;
+};
 
 /**
  * Type guard function to determine whether something is a Collider
@@ -52,8 +63,31 @@ export interface ColliderOptions {
    * Optional flag to indicate moment of inertia from the shape should be used, by default it is true.
    */
   useShapeInertia?: boolean;
+  /**
+   * Optionally make the collider one-way, see [[Collider.oneWay]]
+   */
+  oneWay?: Vector;
+  /**
+   * Optionally the directions the collider never pushes other colliders in, see [[Collider.blockedNormals]]
+   */
+  blockedNormals?: Vector[];
 }
 
+/**
+ * Contacts with a one-way collider have to point within this cosine of its direction, about 45 degrees
+ */
+const OneWayCosine = 0.7;
+
+/**
+ * Extra depth in pixels allowed for contacts with a one-way collider, so bodies resting on it stay on top
+ */
+const OneWaySlop = 1;
+
+/**
+ * Contact normals within this distance of a blocked normal are blocked
+ */
+const NormalEpsilon = 0.001;
+
 /**
  * Collider describes material properties like shape,
  * bounds, friction of the physics object. Only **one** collider can be associated with a body at a time
@@ -64,7 +98,7 @@ export class Collider implements Eventable, Clonable<Collider> {
   public useShapeInertia: boolean;
   private _events: EventDispatcher<Collider> = new EventDispatcher<Collider>(this);
 
-  constructor({ body, type, group, shape, offset, useShapeInertia = true }: ColliderOptions) {
+  constructor({ body, type, group, shape, offset, useShapeInertia = true, oneWay, blockedNormals = [] }: ColliderOptions) {
     // If shape is not supplied see if the body has an existing collider with a shape
     if (body && body.collider && !shape) {
       this._shape = body.collider.shape;
@@ -77,6 +111,8 @@ export class Collider implements Eventable, Clonable<Collider> {
     this.type = type || this.type;
     this.group = group || this.group;
     this.offset = offset || Vector.Zero;
+    this.oneWay = oneWay || null;
+    this.blockedNormals = blockedNormals;
   }
 
   /**
@@ -88,7 +124,9 @@ export class Collider implements Eventable, Clonable<Collider> {
       type: this.type,
       shape: this._shape.clone(),
       group: this.group,
-      offset: this.offset
+      offset: this.offset,
+      oneWay: this.oneWay,
+      blockedNormals: this.blockedNormals
     });
   }
 
@@ -111,6 +149,55 @@ export class Collider implements Eventable, Clonable<Collider> {
    */
   public group: CollisionGroup = CollisionGroup.All;
 
+  /**
+   * Gets or sets the direction of a one-way collider in local space, or null for a collider that is solid from every side.
+   * A one-way collider only pushes other bodies in this direction, and only when they arrive from that side, so with
+   * [[Vector.Up]] bodies land on top of it but jump up through it from below and pass through its sides.
+   */
+  public oneWay: Vector = null;
+
+  /**
+   * Gets or sets the directions in local space this collider never pushes other colliders in. Use it for faces that are covered
+   * by a neighbouring collider, like the seams between the cells of a [[TileMap]], so bodies sliding across the seam do not
+   * catch on it.
+   */
+  public blockedNormals: Vector[] = [];
+
+  /**
+   * Whether this collider may push another collider along a direction, given its [[Collider.oneWay|one-way direction]] and
+   * [[Collider.blockedNormals|blocked normals]]
+   * @param normal  The normalized direction pointing away from this collider
+   */
+  public acceptsNormal(normal: Vector): boolean {
+    const rotation = this.body ? this.body.rotation : 0;
+    if (this.oneWay && normal.dot(this.oneWay.rotate(rotation)) < OneWayCosine) {
+      return false;
+    }
+    return !this.blockedNormals.some((blocked) => normal.dot(blocked.rotate(rotation)) > 1 - NormalEpsilon);
+  }
+
+  /**
+   * Whether a contact with another collider is allowed by the [[Collider.oneWay|one-way direction]] of this collider
+   * @param other   The other collider
+   * @param normal  The contact normal pointing away from this collider
+   * @param depth   The penetration depth of the contact
+   */
+  public acceptsContact(other: Collider, normal: Vector, depth: number): boolean {
+    if (!this.oneWay) {
+      return true;
+    }
+    // contacts along the sides of the collider are ignored
+    if (!this.acceptsNormal(normal)) {
+      return false;
+    }
+    const direction = this.oneWay.rotate(this.body ? this.body.rotation : 0);
+    // the other body must have been in front of the collider before this step, only the distance it moved towards the collider
+    // this step may be inside of it
+    const otherBody = other.body;
+    const approach = otherBody ? otherBody.oldPos.sub(otherBody.pos).dot(direction) : 0;
+    return depth <= Math.max(0, approach) + OneWaySlop;
+  }
+
   /*
    * Get the shape of the collider as a [[CollisionShape]]
    */
@@ -155,9 +242,39 @@ export class Collider implements Eventable, Clonable<Collider> {
    * @param other
    */
   public collide(other: Collider): CollisionContact | null {
+    if (this._isDirected() && isDirectable(other.shape)) {
+      return this._collideDirected(other.shape);
+    }
+    if (other._isDirected() && isDirectable(this.shape)) {
+      const contact = other._collideDirected(this.shape);
+      return contact ? new CollisionContact(this, other, contact.mtv.negate(), contact.point, contact.normal.negate()) : null;
+    }
     return this.shape.collide(other.shape);
   }
 
+  private _isDirected(): boolean {
+    return !!this.oneWay || this.blockedNormals.length > 0;
+  }
+
+  /**
+   * Collides the polygons of this collider with a shape, only pushing the shape along the normals this collider accepts. The
+   * parts of a [[CompositeShape]] are collided one by one and the deepest contact is returned, like for any composite.
+   */
+  private _collideDirected(shape: ConvexPolygon | Circle): CollisionContact | null {
+    const parts = this.shape instanceof CompositeShape ? this.shape.shapes : [this.shape];
+    let deepest: CollisionContact = null;
+    for (const part of parts) {
+      const contact =
+        part instanceof ConvexPolygon
+          ? CollisionJumpTable.CollidePolygonDirected(part, shape, (normal) => this.acceptsNormal(normal))
+          : part.collide(shape);
+      if (contact && (!deepest || contact.mtv.size > deepest.mtv.size)) {
+        deepest = contact;
+      }
+    }
+    return deepest;
+  }
+
   /**
    * Find the closest line between 2 colliders
    *
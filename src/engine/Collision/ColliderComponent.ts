@@ -0,0 +1,56 @@
+import { Component } from '../EntityComponentSystem/Component';
+import { Entity } from '../EntityComponentSystem/Entity';
+import { TransformComponent } from '../EntityComponentSystem/Components/TransformComponent';
+import { BodyComponent } from './BodyComponent';
+import { Collider } from './Collider';
+
+/**
+ * The ColliderComponent opts an [[Entity]] into collision detection and resolution by the [[CollisionSystem]]. The collider
+ * is attached to the [[Body]] of the entity's [[BodyComponent]], which is added automatically if missing.
+ *
+ * ```typescript
+ * const wall = new ex.Entity([
+ *   new ex.TransformComponent(),
+ *   new ex.ColliderComponent(new ex.Collider({ type: ex.CollisionType.Fixed, shape: ex.Shape.Box(100, 10) }))
+ * ]);
+ * ```
+ */
+export class ColliderComponent extends Component<'ex.collider'> {
+  public readonly type = 'ex.collider';
+  public readonly dependencies = [TransformComponent, BodyComponent];
+
+  private _collider: Collider;
+
+  /**
+   * @param collider  Optionally the collider to use, by default the collider already on the entity's body is used
+   */
+  constructor(collider?: Collider) {
+    super();
+    this._collider = collider;
+  }
+
+  /**
+   * The collider of the owning entity's body
+   */
+  public get collider(): Collider {
+    return this.owner?.get(BodyComponent)?.body.collider ?? this._collider;
+  }
+
+  public set collider(collider: Collider) {
+    this._collider = collider;
+    const bodyComponent = this.owner?.get(BodyComponent);
+    if (bodyComponent) {
+      bodyComponent.body.collider = collider;
+    }
+  }
+
+  public onAdd = (owner: Entity) => {
+    if (this._collider) {
+      owner.get(BodyComponent).body.collider = this._collider;
+    }
+  };
+
+  public clone(): this {
+    return new ColliderComponent(this.collider?.clone()) as this;
+  }
+}
@@ -1,6 +1,6 @@
 import { Body } from './Body';
 import { Vector } from '../Algebra';
-import { Physics, CollisionResolutionStrategy } from '../Physics';
+import { CollisionResolutionStrategy } from '../Physics';
 import { PostCollisionEvent, PreCollisionEvent } from '../Events';
 import * as Util from '../Util/Util';
 import { CollisionType } from './CollisionType';
@@ -124,6 +124,8 @@ export class CollisionContact {
 
     const coefFriction = Math.min(this.colliderA.friction, this.colliderB.friction);
 
+    const allowRotation = bodyA.physics.allowRigidBodyRotation;
+
     normal = normal.normalize();
     const tangent = normal.normal().normalize();
 
@@ -154,13 +156,13 @@ export class CollisionContact {
 
     if (this.colliderA.type === CollisionType.Fixed) {
       bodyB.vel = bodyB.vel.add(normal.scale(impulse * invMassB));
-      if (Physics.allowRigidBodyRotation) {
+      if (allowRotation) {
         bodyB.rx -= impulse * invMoiB * -rb.cross(normal);
       }
       bodyB.addMtv(mtv);
     } else if (this.colliderB.type === CollisionType.Fixed) {
       bodyA.vel = bodyA.vel.sub(normal.scale(impulse * invMassA));
-      if (Physics.allowRigidBodyRotation) {
+      if (allowRotation) {
         bodyA.rx += impulse * invMoiA * -ra.cross(normal);
       }
       bodyA.addMtv(mtv.negate());
@@ -168,7 +170,7 @@ export class CollisionContact {
       bodyB.vel = bodyB.vel.add(normal.scale(impulse * invMassB));
       bodyA.vel = bodyA.vel.sub(normal.scale(impulse * invMassA));
 
-      if (Physics.allowRigidBodyRotation) {
+      if (allowRotation) {
         bodyB.rx -= impulse * invMoiB * -rb.cross(normal);
         bodyA.rx += impulse * invMoiA * -ra.cross(normal);
       }
@@ -199,13 +201,13 @@ export class CollisionContact {
       if (this.colliderA.type === CollisionType.Fixed) {
         // apply frictional impulse
         bodyB.vel = bodyB.vel.add(frictionImpulse.scale(invMassB));
-        if (Physics.allowRigidBodyRotation) {
+        if (allowRotation) {
           bodyB.rx += frictionImpulse.dot(t) * invMoiB * rb.cross(t);
         }
       } else if (this.colliderB.type === CollisionType.Fixed) {
         // apply frictional impulse
         bodyA.vel = bodyA.vel.sub(frictionImpulse.scale(invMassA));
-        if (Physics.allowRigidBodyRotation) {
+        if (allowRotation) {
           bodyA.rx -= frictionImpulse.dot(t) * invMoiA * ra.cross(t);
         }
       } else {
@@ -214,7 +216,7 @@ export class CollisionContact {
         bodyA.vel = bodyA.vel.sub(frictionImpulse.scale(invMassA));
 
         // apply frictional impulse
-        if (Physics.allowRigidBodyRotation) {
+        if (allowRotation) {
           bodyB.rx += frictionImpulse.dot(t) * invMoiB * rb.cross(t);
           bodyA.rx -= frictionImpulse.dot(t) * invMoiA * ra.cross(t);
         }
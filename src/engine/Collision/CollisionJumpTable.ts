@@ -1,9 +1,12 @@
-﻿import { Circle } from './Circle';
+﻿import { Chain } from './Chain';
+import { Circle } from './Circle';
 import { CollisionContact } from './CollisionContact';
+import { CollisionShape } from './CollisionShape';
+import { CompositeShape } from './CompositeShape';
 import { ConvexPolygon } from './ConvexPolygon';
 import { Edge } from './Edge';
 
-import { vec, Vector } from '../Algebra';
+import { vec, Vector, Projection } from '../Algebra';
 
 export const CollisionJumpTable = {
   CollideCircleCircle(circleA: Circle, circleB: Circle): CollisionContact {
@@ -209,5 +212,151 @@ export const CollisionJumpTable = {
     const contact = verts.length === 2 ? verts[0].add(verts[1]).scale(0.5) : verts[0];
 
     return new CollisionContact(polyA.collider, polyB.collider, minAxis, contact, minAxis.normalize());
+  },
+
+  /**
+   * Collides a polygon that only pushes other shapes along the directions it accepts. Instead of the axis of least overlap the
+   * contact uses the accepted direction that needs the least movement to push the other shape out.
+   */
+  CollidePolygonDirected(polygon: ConvexPolygon, shape: ConvexPolygon | Circle, accepts: (normal: Vector) => boolean): CollisionContact {
+    let axes = polygon.axes;
+    if (shape instanceof Circle) {
+      const center = shape.center;
+      let closest = polygon.getTransformedPoints()[0];
+      for (const point of polygon.getTransformedPoints()) {
+        if (point.distance(center) < closest.distance(center)) {
+          closest = point;
+        }
+      }
+      axes = closest.equals(center) ? axes : axes.concat(center.sub(closest).normalize());
+    } else {
+      axes = axes.concat(shape.axes);
+    }
+
+    let minDepth = Infinity;
+    let minNormal: Vector = null;
+    for (const axis of axes) {
+      for (const normal of [axis, axis.negate()]) {
+        // how far the shape has to move along the normal to leave the polygon
+        const depth = polygon.project(normal).max - shape.project(normal).min;
+        if (depth <= 0) {
+          return null;
+        }
+        if (depth < minDepth && accepts(normal)) {
+          minDepth = depth;
+          minNormal = normal;
+        }
+      }
+    }
+    if (!minNormal) {
+      return null;
+    }
+    const point = shape.getFurthestPoint(minNormal.negate());
+    return new CollisionContact(polygon.collider, shape.collider, minNormal.scale(minDepth), point, minNormal);
+  },
+
+  CollideCircleChain(circle: Circle, chain: Chain): CollisionContact {
+    const cc = circle.center;
+    const points = chain.getTransformedPoints();
+    const segments = chain.getSegments();
+    let contact: CollisionContact = null;
+    let minDistance = circle.radius;
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const normal = segment.normal();
+      // edges are one-sided, circles behind an edge pass through it
+      if (cc.sub(segment.begin).dot(normal) < 0) {
+        continue;
+      }
+
+      const e = segment.getEdge();
+      const t = cc.sub(segment.begin).dot(e) / e.dot(e);
+      const pointOnEdge = segment.begin.add(e.scale(Math.max(0, Math.min(1, t))));
+      const d = cc.sub(pointOnEdge);
+      const distance = d.size;
+      if (distance > minDistance) {
+        continue;
+      }
+
+      let n = normal;
+      if (t <= 0 || t >= 1) {
+        // contacts with a point of the chain are limited by the neighbouring edges so circles roll over the seams
+        n = distance ? d.scale(1 / distance) : normal;
+        if (!chain.acceptsNormal(t <= 0 ? i : (i + 1) % points.length, n)) {
+          continue;
+        }
+      }
+      minDistance = distance;
+      contact = new CollisionContact(circle.collider, chain.collider, n.scale(circle.radius - distance).negate(), pointOnEdge, n.negate());
+    }
+    return contact;
+  },
+
+  CollidePolygonChain(polygon: ConvexPolygon, chain: Chain): CollisionContact {
+    const pc = polygon.center;
+    const points = chain.getTransformedPoints();
+    const segments = chain.getSegments();
+    let contact: CollisionContact = null;
+    let maxDepth = 0;
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const normal = segment.normal();
+      // edges are one-sided, polygons behind an edge pass through it
+      if (pc.sub(segment.begin).dot(normal) < 0) {
+        continue;
+      }
+      // only the solid side of the edge counts towards the depth
+      let depth = segment.begin.dot(normal) - polygon.project(normal).min;
+      if (depth <= 0) {
+        continue;
+      }
+
+      // SAT against the polygon axes, a shallower axis is only used if the neighbouring edges allow it so polygons sliding
+      // along the chain are not pushed back by the seams
+      let axis = normal;
+      let point = polygon.getFurthestPoint(normal.negate());
+      let separated = false;
+      for (const polygonAxis of polygon.axes) {
+        const ends = [segment.begin.dot(polygonAxis), segment.end.dot(polygonAxis)];
+        const overlap = polygon.project(polygonAxis).getOverlap(new Projection(Math.min(...ends), Math.max(...ends)));
+        if (overlap <= 0) {
+          separated = true;
+          break;
+        }
+        if (overlap < depth) {
+          // point the axis from the chain towards the polygon, the end of the edge furthest along it touches the polygon
+          const candidate = polygonAxis.dot(pc.sub(segment.midpoint)) < 0 ? polygonAxis.negate() : polygonAxis;
+          const index = segment.begin.dot(candidate) >= segment.end.dot(candidate) ? i : (i + 1) % points.length;
+          if (chain.acceptsNormal(index, candidate)) {
+            depth = overlap;
+            axis = candidate;
+            point = points[index];
+          }
+        }
+      }
+      if (separated || depth <= maxDepth) {
+        continue;
+      }
+      maxDepth = depth;
+      contact = new CollisionContact(polygon.collider, chain.collider, axis.scale(depth).negate(), point, axis.negate());
+    }
+    return contact;
+  },
+
+  CollideChainChain(): CollisionContact {
+    // Chains are fixed terrain, colliding them with other one dimensional shapes doesn't make sense
+    return null;
+  },
+
+  CollideCompositeShape(composite: CompositeShape, shape: CollisionShape): CollisionContact {
+    // a single contact is resolved per pair of colliders, the deepest part contact pushes the furthest
+    let deepest: CollisionContact = null;
+    for (const part of composite.shapes) {
+      const contact = part.collide(shape);
+      if (contact && (!deepest || contact.mtv.size > deepest.mtv.size)) {
+        deepest = contact;
+      }
+    }
+    return deepest;
   }
 };
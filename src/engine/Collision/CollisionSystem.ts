@@ -0,0 +1,178 @@
+import { Entity } from '../EntityComponentSystem/Entity';
+import { TransformComponent } from '../EntityComponentSystem/Components/TransformComponent';
+import { AddedEntity, isAddedSystemEntity, RemovedEntity, System, SystemType } from '../EntityComponentSystem/System';
+import { Scene } from '../Scene';
+import { Body } from './Body';
+import { BodyComponent } from './BodyComponent';
+import { ColliderComponent } from './ColliderComponent';
+import { CollisionType } from './CollisionType';
+import { DynamicTreeCollisionBroadphase } from './DynamicTreeCollisionBroadphase';
+import { Island } from './Island';
+import { Pair } from './Pair';
+
+/**
+ * The CollisionSystem runs the broadphase, narrowphase, resolution, and collision start/end events for every entity with a
+ * [[TransformComponent]] and [[ColliderComponent]] using the scene's [[PhysicsConfig]]. The scene's [[Joint]]s are solved on
+ * each collision pass. Afterwards the bodies are split into [[Island]]s that fall asleep and wake up together. It runs after the
+ * [[MotionSystem]].
+ */
+export class CollisionSystem extends System<TransformComponent | ColliderComponent> {
+  public readonly types = ['ex.transform', 'ex.collider'] as const;
+  public readonly systemType = SystemType.Update;
+  public priority = -1;
+  private _scene: Scene;
+  private _broadphase: DynamicTreeCollisionBroadphase;
+  private _bodies: Body[] = [];
+
+  public initialize(scene: Scene): void {
+    this._scene = scene;
+    this._broadphase = new DynamicTreeCollisionBroadphase(scene.physics);
+    scene.physics.query = this._broadphase.query;
+    // entities added before the system are not announced to it
+    for (const entity of scene.world.queryManager.getQuery(this.types).getEntities()) {
+      this.notify(new AddedEntity(entity));
+    }
+  }
+
+  /**
+   * The broadphase tracking the bodies of the colliding entities
+   */
+  public get broadphase(): DynamicTreeCollisionBroadphase {
+    return this._broadphase;
+  }
+
+  public notify(message: AddedEntity | RemovedEntity) {
+    const body = message.data.get(BodyComponent)?.body;
+    if (isAddedSystemEntity(message)) {
+      this._broadphase.track(body);
+    } else {
+      this._wakeIsland(body);
+      this._broadphase.untrack(body);
+    }
+  }
+
+  /**
+   * Wakes the sleeping bodies touching a body that leaves the scene and the rest of their islands, so bodies resting on it do not
+   * stay asleep in mid air
+   */
+  private _wakeIsland(body: Body) {
+    if (!body?.collider) {
+      return;
+    }
+    const tree = this._broadphase.query.tree;
+    const visited = new Set<Body>([body]);
+    const stack = [body];
+    const wake = (other: Body) => {
+      if (other && other.sleeping && !visited.has(other)) {
+        visited.add(other);
+        other.setSleeping(false);
+        stack.push(other);
+      }
+    };
+    while (stack.length) {
+      const current = stack.pop();
+      tree.boundsQuery(current.collider.bounds, (other: Body) => {
+        wake(other);
+        return false;
+      });
+      for (const joint of this._scene.joints) {
+        if (joint.bodyA === current) {
+          wake(joint.bodyB);
+        } else if (joint.bodyB === current) {
+          wake(joint.bodyA);
+        }
+      }
+    }
+  }
+
+  /**
+   * Wakes the sleeping bodies paired with a moving fixed body, so a crate sleeping on a moving platform does not stay behind
+   */
+  private _wakeOnMovingFixed(pairs: Pair[]) {
+    for (const { colliderA, colliderB } of pairs) {
+      if (colliderA.type === CollisionType.Fixed && colliderA.body.isMoving) {
+        colliderB.body.setSleeping(false);
+      } else if (colliderB.type === CollisionType.Fixed && colliderB.body.isMoving) {
+        colliderA.body.setSleeping(false);
+      }
+    }
+  }
+
+  public update(entities: Entity[], delta: number): void {
+    const engine = this._scene.engine;
+
+    if (!this._scene.physics.enabled) {
+      return;
+    }
+
+    this._bodies.length = entities.length;
+    for (let i = 0; i < entities.length; i++) {
+      this._bodies[i] = entities[i].get(BodyComponent).body;
+    }
+
+    const frame = engine?.stats.currFrame;
+
+    // Run the broadphase and narrowphase
+    const beforeBroadphase = Date.now();
+    this._broadphase.update(this._bodies);
+    let pairs = this._broadphase.broadphase(this._bodies, delta, frame);
+    this._wakeOnMovingFixed(pairs);
+    const afterBroadphase = Date.now();
+
+    const beforeNarrowphase = Date.now();
+    let iter: number = this._scene.physics.collisionPasses;
+    const collisionDelta = delta / iter;
+    // Later passes only check the pairs that are still colliding, so the first pass has every contact of the frame
+    let contacts: Pair[] = null;
+    while (iter > 0) {
+      // Run the narrowphase
+      pairs = this._broadphase.narrowphase(pairs, frame);
+      contacts = contacts ?? pairs;
+      // Run collision resolution strategy
+      pairs = this._broadphase.resolve(pairs, collisionDelta, this._scene.physics.collisionResolutionStrategy);
+      // Solve joints alongside the contacts
+      for (const joint of this._scene.joints) {
+        if (joint.active && !joint.sleeping) {
+          joint.solve(collisionDelta);
+        }
+      }
+
+      this._broadphase.runCollisionStartEnd(pairs);
+
+      iter--;
+    }
+
+    const afterNarrowphase = Date.now();
+
+    const islands = this._updateSleep(contacts ?? [], delta);
+
+    if (frame) {
+      frame.physics.broadphase = afterBroadphase - beforeBroadphase;
+      frame.physics.narrowphase = afterNarrowphase - beforeNarrowphase;
+      frame.physics.islands = islands.length;
+      frame.physics.sleepingBodies = this._bodies.filter((body) => body.sleeping).length;
+    }
+  }
+
+  /**
+   * Puts islands to sleep when all of their bodies have been at rest long enough, and wakes islands where an awake body touches
+   * a sleeping one
+   */
+  private _updateSleep(contacts: Pair[], delta: number): Island[] {
+    for (const body of this._bodies) {
+      body.updateMotion(delta);
+    }
+
+    const timeToSleep = this._scene.physics.timeToSleep;
+    const islands = Island.build(this._bodies, contacts, this._scene.joints);
+    for (const island of islands) {
+      island.setSleeping(island.isAtRest(timeToSleep));
+    }
+    return islands;
+  }
+
+  /* istanbul ignore next */
+  public debugDraw(ctx: CanvasRenderingContext2D) {
+    this._broadphase.debugDraw(ctx);
+  }
+}
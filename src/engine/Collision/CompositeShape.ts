@@ -0,0 +1,445 @@
+import { Color } from '../Drawing/Color';
+import { Physics } from '../Physics';
+import { BoundingBox } from './BoundingBox';
+import { Circle } from './Circle';
+import { CollisionContact } from './CollisionContact';
+import { CollisionJumpTable } from './CollisionJumpTable';
+import { CollisionShape } from './CollisionShape';
+import { ConvexPolygon } from './ConvexPolygon';
+import { Vector, Line, Ray, Projection } from '../Algebra';
+import { Collider } from './Collider';
+
+export interface CompositeShapeOptions {
+  /**
+   * The [[Circle]], [[ConvexPolygon]], [[Edge]], or nested [[CompositeShape]] parts of the shape, positioned by their own
+   * offsets or points in local coordinates
+   */
+  shapes: CollisionShape[];
+  /**
+   * Optional pixel offset that moves every part relative to the collider, by default (0, 0)
+   */
+  offset?: Vector;
+  /**
+   * Optional collider to associate with this shape
+   */
+  collider?: Collider;
+}
+
+/**
+ * Returns the area of a shape in pixels, edges have no area
+ */
+const getArea = (shape: CollisionShape): number => {
+  if (shape instanceof Circle) {
+    return Math.PI * shape.radius * shape.radius;
+  } else if (shape instanceof ConvexPolygon) {
+    return Math.abs(getSignedArea(shape.points));
+  } else if (shape instanceof CompositeShape) {
+    return shape.area;
+  }
+  return 0;
+};
+
+/**
+ * Returns the signed area of a polygon, positive for counter-clockwise points
+ */
+const getSignedArea = (points: Vector[]): number => {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    area += points[i].cross(points[(i + 1) % points.length]);
+  }
+  return area / 2;
+};
+
+/**
+ * Returns the centroid of a polygon
+ */
+const getCentroid = (points: Vector[]): Vector => {
+  const area = getSignedArea(points);
+  if (!area) {
+    return points.reduce((sum, p) => sum.add(p), Vector.Zero).scale(1 / points.length);
+  }
+  let x = 0;
+  let y = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const cross = a.cross(b);
+    x += (a.x + b.x) * cross;
+    y += (a.y + b.y) * cross;
+  }
+  return new Vector(x / (6 * area), y / (6 * area));
+};
+
+/**
+ * Whether the triangle abc turns counter-clockwise at b, collinear points do not turn
+ */
+const turn = (a: Vector, b: Vector, c: Vector): number => {
+  return b.sub(a).cross(c.sub(b));
+};
+
+const isInsideTriangle = (p: Vector, a: Vector, b: Vector, c: Vector): boolean => {
+  return turn(a, b, p) >= 0 && turn(b, c, p) >= 0 && turn(c, a, p) >= 0;
+};
+
+const isConvex = (points: Vector[]): boolean => {
+  const len = points.length;
+  for (let i = 0; i < len; i++) {
+    if (turn(points[(i - 1 + len) % len], points[i], points[(i + 1) % len]) < 0) {
+      return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * Whether any 2 sides of a polygon that do not share a point cross each other
+ */
+const crossesItself = (points: Vector[]): boolean => {
+  const len = points.length;
+  for (let i = 0; i < len; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % len];
+    for (let j = i + 2; j < len; j++) {
+      if ((j + 1) % len === i) {
+        continue;
+      }
+      const c = points[j];
+      const d = points[(j + 1) % len];
+      if (turn(a, b, c) * turn(a, b, d) < 0 && turn(c, d, a) * turn(c, d, b) < 0) {
+        return true;
+      }
+    }
+  }
+  return false;
+};
+
+/**
+ * Merges 2 polygons along a shared edge, the edge runs from a to b in the first polygon and from b to a in the second
+ */
+const mergeAlong = (first: Vector[], second: Vector[], a: Vector, b: Vector): Vector[] => {
+  const start = first.indexOf(b);
+  const merged: Vector[] = [];
+  for (let i = 0; i < first.length; i++) {
+    merged.push(first[(start + i) % first.length]);
+  }
+  // the first polygon ends with a, continue with the second polygon until just before it returns to b
+  const offset = second.indexOf(a);
+  for (let i = 1; i < second.length - 1; i++) {
+    merged.push(second[(offset + i) % second.length]);
+  }
+  return merged;
+};
+
+/**
+ * CompositeShape combines several collision shapes into one shape for a single [[Collider]], for example a character with a
+ * round bottom and a box top, or an L-shaped platform. Collisions are tested against every part and the deepest contact is
+ * resolved. Concave outlines can be split into convex parts with [[CompositeShape.decompose]] or [[Shape.Concave]].
+ *
+ * Like every other shape the offsets of circle parts do not rotate with the body, use polygon points for parts that need to
+ * rotate around the body.
+ */
+export class CompositeShape implements CollisionShape {
+  private _offset: Vector = Vector.Zero;
+  private _collider: Collider = null;
+
+  /**
+   * The parts of the shape
+   */
+  public readonly shapes: CollisionShape[];
+
+  constructor(options: CompositeShapeOptions) {
+    this.shapes = options.shapes || [];
+    this.offset = options.offset || Vector.Zero;
+    this.collider = options.collider || null;
+  }
+
+  /**
+   * Returns a clone of this shape and its parts, not associated with any collider
+   */
+  public clone(): CompositeShape {
+    const clone = new CompositeShape({
+      shapes: this.shapes.map((shape) => shape.clone())
+    });
+    clone._offset = this._offset.clone();
+    return clone;
+  }
+
+  /**
+   * The collider associated with this shape and its parts
+   */
+  public get collider(): Collider {
+    return this._collider;
+  }
+
+  public set collider(collider: Collider) {
+    this._collider = collider;
+    for (const shape of this.shapes) {
+      shape.collider = collider;
+    }
+  }
+
+  /**
+   * Pixel offset of the shape relative to the collider, moving the offset moves every part
+   */
+  public get offset(): Vector {
+    return this._offset;
+  }
+
+  public set offset(offset: Vector) {
+    const delta = offset.sub(this._offset);
+    for (const shape of this.shapes) {
+      shape.offset = shape.offset.add(delta);
+    }
+    this._offset = offset;
+  }
+
+  public get worldPos(): Vector {
+    if (this.collider && this.collider.body) {
+      return this.collider.body.pos.add(this.offset);
+    }
+    return this.offset;
+  }
+
+  /**
+   * Get the center of the collision shape in world coordinates
+   */
+  public get center(): Vector {
+    return this.worldPos;
+  }
+
+  /**
+   * The total area of the parts in pixels, edges have no area
+   */
+  public get area(): number {
+    return this.shapes.reduce((sum, shape) => sum + getArea(shape), 0);
+  }
+
+  /**
+   * Get the axis aligned bounding box around every part in world coordinates
+   */
+  public get bounds(): BoundingBox {
+    return this.shapes.map((shape) => shape.bounds).reduce((bounds, other) => bounds.combine(other));
+  }
+
+  /**
+   * Get the axis aligned bounding box around every part in local coordinates
+   */
+  public get localBounds(): BoundingBox {
+    return this.shapes.map((shape) => shape.localBounds).reduce((bounds, other) => bounds.combine(other));
+  }
+
+  /**
+   * Get the axes of every part
+   */
+  public get axes(): Vector[] {
+    return this.shapes.reduce((axes, shape) => axes.concat(shape.axes || []), []);
+  }
+
+  /**
+   * Returns the moment of inertia of the parts around the collider position. The mass of the collider is shared between the
+   * parts by area, or evenly when none of the parts have an area.
+   */
+  public get inertia(): number {
+    const mass = this.collider ? this.collider.mass : Physics.defaultMass;
+    const area = this.area;
+    let inertia = 0;
+    for (const shape of this.shapes) {
+      const share = area ? getArea(shape) / area : 1 / this.shapes.length;
+      const partMass = mass * share;
+      if (shape instanceof Circle) {
+        inertia += shape.inertia * share + partMass * shape.offset.dot(shape.offset);
+      } else if (shape instanceof ConvexPolygon) {
+        // move the inertia around the points origin to the offset with the parallel axis theorem
+        const centroid = getCentroid(shape.points);
+        const moved = centroid.add(shape.offset);
+        inertia += shape.inertia * share + partMass * (moved.dot(moved) - centroid.dot(centroid));
+      } else {
+        inertia += shape.inertia * share;
+      }
+    }
+    return inertia;
+  }
+
+  /**
+   * Tests if a point is contained in any of the parts
+   */
+  public contains(point: Vector): boolean {
+    return this.shapes.some((shape) => shape.contains(point));
+  }
+
+  /**
+   * Casts a ray at the parts and returns the nearest point of collision
+   */
+  public rayCast(ray: Ray, max: number = Infinity): Vector {
+    let closest: Vector = null;
+    let closestDistance = Infinity;
+    for (const shape of this.shapes) {
+      const point = shape.rayCast(ray, max);
+      if (point && point.distance(ray.pos) < closestDistance) {
+        closest = point;
+        closestDistance = point.distance(ray.pos);
+      }
+    }
+    return closest;
+  }
+
+  /**
+   * Returns the shortest of the closest lines between the parts and another shape
+   */
+  public getClosestLineBetween(shape: CollisionShape): Line {
+    let closest: Line = null;
+    for (const part of this.shapes) {
+      const line = part.getClosestLineBetween(shape);
+      if (line && (!closest || line.getLength() < closest.getLength())) {
+        closest = line;
+      }
+    }
+    return closest;
+  }
+
+  /**
+   * Returns the deepest collision contact between the parts and another shape, or null if none of the parts collide
+   */
+  public collide(shape: CollisionShape): CollisionContact {
+    return CollisionJumpTable.CollideCompositeShape(this, shape);
+  }
+
+  /**
+   * Find the point on any of the parts furthest in the direction specified
+   */
+  public getFurthestPoint(direction: Vector): Vector {
+    let furthestPoint: Vector = null;
+    let maxDistance = -Number.MAX_VALUE;
+    for (const shape of this.shapes) {
+      const point = shape.getFurthestPoint(direction);
+      const distance = direction.dot(point);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        furthestPoint = point;
+      }
+    }
+    return furthestPoint;
+  }
+
+  /**
+   * Project every part along a specified axis
+   */
+  public project(axis: Vector): Projection {
+    let min = Number.MAX_VALUE;
+    let max = -Number.MAX_VALUE;
+    for (const shape of this.shapes) {
+      const projection = shape.project(axis);
+      min = Math.min(min, projection.min);
+      max = Math.max(max, projection.max);
+    }
+    return new Projection(min, max);
+  }
+
+  public recalc(): void {
+    for (const shape of this.shapes) {
+      shape.recalc();
+    }
+  }
+
+  public draw(ctx: CanvasRenderingContext2D, color: Color = Color.Green, pos: Vector = Vector.Zero) {
+    for (const shape of this.shapes) {
+      shape.draw(ctx, color, pos);
+    }
+  }
+
+  /* istanbul ignore next */
+  public debugDraw(ctx: CanvasRenderingContext2D, color: Color = Color.Green) {
+    for (const shape of this.shapes) {
+      shape.debugDraw(ctx, color);
+    }
+  }
+
+  /**
+   * Splits a simple polygon, convex or concave, into as few convex polygons as it can find. The outline is cut into triangles
+   * that are merged back together while they stay convex.
+   *
+   * ```typescript
+   * const corner = [ex.vec(0, 0), ex.vec(30, 0), ex.vec(30, 10), ex.vec(10, 10), ex.vec(10, 30), ex.vec(0, 30)];
+   * const parts = ex.CompositeShape.decompose(corner); // 2 convex parts
+   * ```
+   * @param points            The outline of the polygon in local coordinates, it must not cross itself
+   * @param clockwiseWinding  Optionally whether the points are in clockwise order, by default false meaning counter-clockwise
+   * @returns The points of the convex polygons in counter-clockwise order
+   */
+  public static decompose(points: Vector[], clockwiseWinding: boolean = false): Vector[][] {
+    let remaining = clockwiseWinding ? points.slice().reverse() : points.slice();
+    // the winding is only a hint, the outline is clipped counter-clockwise either way
+    if (getSignedArea(remaining) < 0) {
+      remaining = remaining.reverse();
+    }
+    if (crossesItself(remaining)) {
+      throw new Error('CompositeShape could not decompose a polygon that crosses itself');
+    }
+    if (isConvex(remaining)) {
+      return [remaining];
+    }
+
+    // clip ears, triangles whose middle point turns counter-clockwise and contain no other point of the outline
+    const polygons: Vector[][] = [];
+    while (remaining.length > 3) {
+      const len = remaining.length;
+      let clipped = false;
+      for (let i = 0; i < len; i++) {
+        const a = remaining[(i - 1 + len) % len];
+        const b = remaining[i];
+        const c = remaining[(i + 1) % len];
+        const bend = turn(a, b, c);
+        if (bend < 0) {
+          continue;
+        }
+        if (bend > 0 && remaining.some((p) => p !== a && p !== b && p !== c && isInsideTriangle(p, a, b, c))) {
+          continue;
+        }
+        // collinear points are dropped without a triangle
+        if (bend > 0) {
+          polygons.push([a, b, c]);
+        }
+        remaining.splice(i, 1);
+        clipped = true;
+        break;
+      }
+      if (!clipped) {
+        throw new Error('CompositeShape could not find a convex corner to cut off, the polygon may cross itself');
+      }
+    }
+    if (turn(remaining[0], remaining[1], remaining[2]) > 0) {
+      polygons.push(remaining);
+    }
+
+    // merge neighbouring polygons across the cuts while the result stays convex
+    let merged = true;
+    while (merged) {
+      merged = false;
+      for (let i = 0; i < polygons.length && !merged; i++) {
+        for (let j = i + 1; j < polygons.length && !merged; j++) {
+          const first = polygons[i];
+          const second = polygons[j];
+          for (let k = 0; k < first.length && !merged; k++) {
+            const a = first[k];
+            const b = first[(k + 1) % first.length];
+            const shared = second.indexOf(b);
+            if (shared < 0 || second[(shared + 1) % second.length] !== a) {
+              continue;
+            }
+            const polygon = mergeAlong(first, second, a, b);
+            if (isConvex(polygon)) {
+              polygons[i] = polygon;
+              polygons.splice(j, 1);
+              merged = true;
+            }
+          }
+        }
+      }
+    }
+
+    // clean up points left in the middle of a straight side by a merge
+    return polygons.map((polygon) =>
+      polygon.filter((p, i) => turn(polygon[(i - 1 + polygon.length) % polygon.length], p, polygon[(i + 1) % polygon.length]) !== 0)
+    );
+  }
+}
@@ -6,6 +6,8 @@ import { CollisionJumpTable } from './CollisionJumpTable';
 import { Circle } from './Circle';
 import { CollisionContact } from './CollisionContact';
 import { CollisionShape } from './CollisionShape';
+import { CompositeShape } from './CompositeShape';
+import { Chain } from './Chain';
 import { Vector, Line, Ray, Projection } from '../Algebra';
 import { Collider } from './Collider';
 import { ClosestLineJumpTable } from './ClosestLineJumpTable';
@@ -172,6 +174,10 @@ export class ConvexPolygon implements CollisionShape {
       return ClosestLineJumpTable.PolygonPolygonClosestLine(this, shape);
     } else if (shape instanceof Edge) {
       return ClosestLineJumpTable.PolygonEdgeClosestLine(this, shape);
+    } else if (shape instanceof Chain) {
+      return ClosestLineJumpTable.PolygonChainClosestLine(this, shape);
+    } else if (shape instanceof CompositeShape) {
+      return shape.getClosestLineBetween(this).flip();
     } else {
       throw new Error(`Polygon could not collide with unknown CollisionShape ${typeof shape}`);
     }
@@ -189,6 +195,10 @@ export class ConvexPolygon implements CollisionShape {
       return CollisionJumpTable.CollidePolygonPolygon(this, shape);
     } else if (shape instanceof Edge) {
       return CollisionJumpTable.CollidePolygonEdge(this, shape);
+    } else if (shape instanceof Chain) {
+      return CollisionJumpTable.CollidePolygonChain(this, shape);
+    } else if (shape instanceof CompositeShape) {
+      return CollisionJumpTable.CollideCompositeShape(shape, this);
     } else {
       throw new Error(`Polygon could not collide with unknown CollisionShape ${typeof shape}`);
     }
@@ -252,7 +262,7 @@ export class ConvexPolygon implements CollisionShape {
    * Get the axis aligned bounding box for the polygon shape in local coordinates
    */
   public get localBounds(): BoundingBox {
-    return BoundingBox.fromPoints(this.points);
+    return BoundingBox.fromPoints(this.points).translate(this.offset);
   }
 
   /**
@@ -0,0 +1,70 @@
+import { Joint, JointOptions } from './Joint';
+
+export interface DistanceJointOptions extends JointOptions {
+  /**
+   * Optionally the distance to keep between the anchors, by default the distance between them when the joint is created
+   */
+  length?: number;
+}
+
+/**
+ * A distance joint keeps the anchors of 2 bodies at a fixed distance from each other like a rigid rod, the bodies are free
+ * to rotate around the anchors
+ *
+ * ```typescript
+ * const rod = new ex.DistanceJoint({ bodyA: wheel.body, bodyB: axle.body, length: 50 });
+ * scene.add(rod);
+ * ```
+ */
+export class DistanceJoint extends Joint {
+  /**
+   * The distance kept between the anchors
+   */
+  public length: number;
+
+  constructor(options: DistanceJointOptions) {
+    super(options);
+    this.length = options.length ?? this.worldAnchorB.distance(this.worldAnchorA);
+  }
+
+  public solve(_delta: number): void {
+    this._solveDistance(false);
+  }
+
+  /**
+   * Solves the distance constraint along the line between the anchors
+   * @param slack  Whether the anchors may be closer than [[length]], like a rope
+   */
+  protected _solveDistance(slack: boolean) {
+    const ra = this._ra;
+    const rb = this._rb;
+    const difference = this.worldAnchorB.sub(this.worldAnchorA);
+    const distance = difference.size;
+    if (distance === 0) {
+      return;
+    }
+
+    const error = distance - this.length;
+    if (slack && error <= 0) {
+      return;
+    }
+
+    const normal = difference.scale(1 / distance);
+    const invEffectiveMass = this._invEffectiveMass(normal, ra, rb);
+    if (!invEffectiveMass) {
+      return;
+    }
+
+    // Cancel the relative velocity of the anchors along the joint
+    const relativeVelocity = this._velocityAt(this.bodyB, rb).sub(this._velocityAt(this.bodyA, ra)).dot(normal);
+    let impulse = -relativeVelocity / invEffectiveMass;
+    if (slack) {
+      // a rope can only pull
+      impulse = Math.min(impulse, 0);
+    }
+    this._applyImpulse(normal.scale(impulse), ra, rb);
+
+    // Remove part of the accumulated distance error
+    this._applyPositionImpulse(normal.scale((-error * this.correctionFactor) / invEffectiveMass), ra, rb);
+  }
+}
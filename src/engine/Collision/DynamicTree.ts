@@ -1,4 +1,4 @@
-import { Physics } from './../Physics';
+import { PhysicsConfig } from './../Physics';
 import { BoundingBox } from './BoundingBox';
 import { Body } from './Body';
 
@@ -38,7 +38,14 @@ export class TreeNode {
 export class DynamicTree {
   public root: TreeNode;
   public nodes: { [key: number]: TreeNode };
-  constructor(public worldBounds: BoundingBox = new BoundingBox(-Number.MAX_VALUE, -Number.MAX_VALUE, Number.MAX_VALUE, Number.MAX_VALUE)) {
+  /**
+   * @param worldBounds  Bodies outside of the world bounds are no longer tracked
+   * @param config  Physics settings to use for bounds padding, by default the global [[Physics]] settings
+   */
+  constructor(
+    public worldBounds: BoundingBox = new BoundingBox(-Number.MAX_VALUE, -Number.MAX_VALUE, Number.MAX_VALUE, Number.MAX_VALUE),
+    public config: PhysicsConfig = new PhysicsConfig()
+  ) {
     this.root = null;
     this.nodes = {};
   }
@@ -232,13 +239,13 @@ export class DynamicTree {
     }
 
     this._remove(node);
-    b.left -= Physics.boundsPadding;
-    b.top -= Physics.boundsPadding;
-    b.right += Physics.boundsPadding;
-    b.bottom += Physics.boundsPadding;
+    b.left -= this.config.boundsPadding;
+    b.top -= this.config.boundsPadding;
+    b.right += this.config.boundsPadding;
+    b.bottom += this.config.boundsPadding;
 
-    const multdx = body.vel.x * Physics.dynamicTreeVelocityMultiplier;
-    const multdy = body.vel.y * Physics.dynamicTreeVelocityMultiplier;
+    const multdx = body.vel.x * this.config.dynamicTreeVelocityMultiplier;
+    const multdy = body.vel.y * this.config.dynamicTreeVelocityMultiplier;
 
     if (multdx < 0) {
       b.left += multdx;
@@ -447,6 +454,61 @@ export class DynamicTree {
     helper(this.root);
   }
 
+  /**
+   * Queries the Dynamic Axis Aligned Tree for bodies whose bounds overlap the provided bounds.
+   *
+   * Returning true from the callback indicates that you are complete with your query and you do not want to continue.
+   */
+  public boundsQuery(bounds: BoundingBox, callback: (other: Body) => boolean): void {
+    const helper = (currentNode: TreeNode): boolean => {
+      if (
+        currentNode &&
+        currentNode.bounds.left <= bounds.right &&
+        currentNode.bounds.right >= bounds.left &&
+        currentNode.bounds.top <= bounds.bottom &&
+        currentNode.bounds.bottom >= bounds.top
+      ) {
+        if (currentNode.isLeaf()) {
+          return callback.call(bounds, currentNode.body);
+        }
+        return helper(currentNode.left) || helper(currentNode.right);
+      }
+      return false;
+    };
+    helper(this.root);
+  }
+
+  /**
+   * Queries the Dynamic Axis Aligned Tree for bodies that could be touched by the provided bounds moving along a ray from its
+   * center, up to `max` pixels.
+   *
+   * Returning true from the callback indicates that you are complete with your query and you do not want to continue.
+   */
+  public sweepQuery(bounds: BoundingBox, ray: Ray, max: number = Infinity, callback: (other: Body) => boolean): void {
+    const halfWidth = bounds.width / 2;
+    const halfHeight = bounds.height / 2;
+    const helper = (currentNode: TreeNode): boolean => {
+      if (!currentNode) {
+        return false;
+      }
+      // moving the bounds is the same as moving its center against the node bounds grown by half the size
+      const grown = new BoundingBox(
+        currentNode.bounds.left - halfWidth,
+        currentNode.bounds.top - halfHeight,
+        currentNode.bounds.right + halfWidth,
+        currentNode.bounds.bottom + halfHeight
+      );
+      if (grown.contains(ray.pos) || grown.rayCast(ray, max)) {
+        if (currentNode.isLeaf()) {
+          return callback.call(ray, currentNode.body);
+        }
+        return helper(currentNode.left) || helper(currentNode.right);
+      }
+      return false;
+    };
+    helper(this.root);
+  }
+
   public getNodes(): TreeNode[] {
     const helper = (currentNode: TreeNode): TreeNode[] => {
       if (currentNode) {
@@ -1,4 +1,4 @@
-import { Physics } from './../Physics';
+import { Physics, PhysicsConfig } from './../Physics';
 import { CollisionBroadphase } from './CollisionResolver';
 import { DynamicTree } from './DynamicTree';
 import { Pair } from './Pair';
@@ -11,14 +11,37 @@ import { Logger } from '../Util/Log';
 import { CollisionStartEvent, CollisionEndEvent } from '../Events';
 import { CollisionType } from './CollisionType';
 import { Collider } from './Collider';
+import { BoundingBox } from './BoundingBox';
+import { PhysicsQuery } from './PhysicsQuery';
+import { findTimeOfImpact, TimeOfImpact } from './TimeOfImpact';
+import { canonicalizeAngle } from '../Util/Util';
+
+/**
+ * Sleeping bodies and fixed bodies without velocity do not move, so pairs of them never need to be checked. Fixed bodies with a
+ * velocity, like moving platforms, still pair with the bodies sleeping on them.
+ */
+const isResting = (collider: Collider) => collider.body.sleeping || (collider.type === CollisionType.Fixed && !collider.body.isMoving);
 
 export class DynamicTreeCollisionBroadphase implements CollisionBroadphase {
-  private _dynamicCollisionTree = new DynamicTree();
+  private _dynamicCollisionTree: DynamicTree;
   private _collisionHash: { [key: string]: boolean } = {};
   private _collisionPairCache: Pair[] = [];
   private _lastFramePairs: Pair[] = [];
   private _lastFramePairsHash: { [pairId: string]: Pair } = {};
 
+  /**
+   * Ray casts, shape casts, and overlap tests against the tracked bodies
+   */
+  public readonly query: PhysicsQuery;
+
+  /**
+   * @param config  Physics settings to use, by default the global [[Physics]] settings
+   */
+  constructor(public config: PhysicsConfig = new PhysicsConfig()) {
+    this._dynamicCollisionTree = new DynamicTree(undefined, config);
+    this.query = new PhysicsQuery(this._dynamicCollisionTree);
+  }
+
   /**
    * Tracks a physics body for collisions
    */
@@ -48,6 +71,10 @@ export class DynamicTreeCollisionBroadphase implements CollisionBroadphase {
       return false; // pair exists easy exit return false
     }
 
+    if (isResting(colliderA) && isResting(colliderB)) {
+      return false;
+    }
+
     return Pair.canCollide(colliderA, colliderB);
   }
 
@@ -57,11 +84,12 @@ export class DynamicTreeCollisionBroadphase implements CollisionBroadphase {
   public broadphase(targets: Body[], delta: number, stats?: FrameStats): Pair[] {
     const seconds = delta / 1000;
 
-    // Retrieve the list of potential colliders, exclude killed, prevented, and self
+    // Retrieve the list of potential colliders, exclude killed, prevented, sleeping, and self
+    // sleeping colliders are still found by the queries of awake colliders
     const potentialColliders = targets
       .map((t) => t.collider)
       .filter((other) => {
-        return other.active && other.type !== CollisionType.PreventCollision;
+        return other.active && other.type !== CollisionType.PreventCollision && !other.body.sleeping;
       });
 
     // clear old list of collision pairs
@@ -90,10 +118,10 @@ export class DynamicTreeCollisionBroadphase implements CollisionBroadphase {
 
     // Check dynamic tree for fast moving objects
     // Fast moving objects are those moving at least there smallest bound per frame
-    if (Physics.checkForFastBodies) {
+    if (this.config.checkForFastBodies) {
       for (const collider of potentialColliders) {
-        // Skip non-active objects. Does not make sense on other collision types
-        if (collider.type !== CollisionType.Active) {
+        // Skip non-active objects. Does not make sense on other collision types, bullets are swept below
+        if (collider.type !== CollisionType.Active || collider.body.bullet) {
           continue;
         }
 
@@ -104,7 +132,7 @@ export class DynamicTreeCollisionBroadphase implements CollisionBroadphase {
 
         // Find the minimum dimension
         const minDimension = Math.min(collider.bounds.height, collider.bounds.width);
-        if (Physics.disableMinimumSpeedForFastBody || updateDistance > minDimension / 2) {
+        if (this.config.disableMinimumSpeedForFastBody || updateDistance > minDimension / 2) {
           if (stats) {
             stats.physics.fastBodies++;
           }
@@ -119,12 +147,12 @@ export class DynamicTreeCollisionBroadphase implements CollisionBroadphase {
           const ray: Ray = new Ray(origin, collider.body.vel);
 
           // back the ray up by -2x surfaceEpsilon to account for fast moving objects starting on the surface
-          ray.pos = ray.pos.add(ray.dir.scale(-2 * Physics.surfaceEpsilon));
+          ray.pos = ray.pos.add(ray.dir.scale(-2 * this.config.surfaceEpsilon));
           let minBody: Body;
           let minTranslate: Vector = new Vector(Infinity, Infinity);
-          this._dynamicCollisionTree.rayCastQuery(ray, updateDistance + Physics.surfaceEpsilon * 2, (other: Body) => {
+          this._dynamicCollisionTree.rayCastQuery(ray, updateDistance + this.config.surfaceEpsilon * 2, (other: Body) => {
             if (collider.body !== other && other.collider.shape && Pair.canCollide(collider, other.collider)) {
-              const hitPoint = other.collider.shape.rayCast(ray, updateDistance + Physics.surfaceEpsilon * 10);
+              const hitPoint = other.collider.shape.rayCast(ray, updateDistance + this.config.surfaceEpsilon * 10);
               if (hitPoint) {
                 const translate = hitPoint.sub(origin);
                 if (translate.size < minTranslate.size) {
@@ -143,12 +171,12 @@ export class DynamicTreeCollisionBroadphase implements CollisionBroadphase {
               this._collisionPairCache.push(pair);
             }
             // move the fast moving object to the other body
-            // need to push into the surface by ex.Physics.surfaceEpsilon
+            // need to push into the surface by the configured surfaceEpsilon
             const shift = centerPoint.sub(furthestPoint);
             collider.body.pos = origin
               .add(shift)
               .add(minTranslate)
-              .add(ray.dir.scale(2 * Physics.surfaceEpsilon));
+              .add(ray.dir.scale(2 * this.config.surfaceEpsilon));
             collider.shape.recalc();
 
             if (stats) {
@@ -158,10 +186,84 @@ export class DynamicTreeCollisionBroadphase implements CollisionBroadphase {
         }
       }
     }
+    this._sweepBullets(potentialColliders, stats);
+
     // return cache
     return this._collisionPairCache;
   }
 
+  /**
+   * Moves bullet bodies back to their first contact with another collider between their old and new transform
+   */
+  private _sweepBullets(colliders: Collider[], stats?: FrameStats) {
+    for (const collider of colliders) {
+      const body = collider.body;
+      if (!body.bullet || collider.type !== CollisionType.Active) {
+        continue;
+      }
+
+      const oldPos = body.oldPos.clone();
+      const newPos = body.pos.clone();
+      const oldRotation = body.oldRotation;
+      const newRotation = body.rotation;
+      // turn the shorter way around
+      let turn = canonicalizeAngle(newRotation - oldRotation);
+      turn = turn > Math.PI ? turn - Math.PI * 2 : turn;
+      const moveTo = (time: number) => {
+        body.pos = oldPos.add(newPos.sub(oldPos).scale(time));
+        body.rotation = time === 1 ? newRotation : oldRotation + turn * time;
+        collider.update();
+      };
+
+      // how far any point of the collider moves, the farthest point is at most the bounds radius away from the position
+      const local = collider.localBounds;
+      const radius = Math.hypot(Math.max(-local.left, local.right), Math.max(-local.top, local.bottom));
+      const travel = newPos.distance(oldPos) + Math.abs(turn) * radius;
+      if (!travel) {
+        continue;
+      }
+      if (stats) {
+        stats.physics.fastBodies++;
+      }
+
+      const swept = new BoundingBox(
+        Math.min(oldPos.x, newPos.x) - radius,
+        Math.min(oldPos.y, newPos.y) - radius,
+        Math.max(oldPos.x, newPos.x) + radius,
+        Math.max(oldPos.y, newPos.y) + radius
+      );
+
+      let first: TimeOfImpact = null;
+      let firstOther: Collider = null;
+      this._dynamicCollisionTree.boundsQuery(swept, (other: Body) => {
+        if (other === body || !other.collider.shape || !Pair.canCollide(collider, other.collider)) {
+          return false;
+        }
+        const impact = findTimeOfImpact(collider, other.collider, 0, first ? first.time : 1, travel, moveTo);
+        // colliders touching at the start are resolved by the narrowphase
+        if (impact && impact.time > 0 && (!first || impact.time < first.time)) {
+          first = impact;
+          firstOther = other.collider;
+        }
+        return false;
+      });
+
+      if (!first) {
+        moveTo(1);
+        continue;
+      }
+      moveTo(first.time);
+      const pair = new Pair(collider, firstOther);
+      if (!this._collisionHash[pair.id]) {
+        this._collisionHash[pair.id] = true;
+        this._collisionPairCache.push(pair);
+      }
+      if (stats) {
+        stats.physics.fastBodyCollisions++;
+      }
+    }
+  }
+
   /**
    * Applies narrow phase on collision pairs to find actual area intersections
    * Adds actual colliding pairs to stats' Frame data
@@ -188,8 +290,8 @@ export class DynamicTreeCollisionBroadphase implements CollisionBroadphase {
         pair.colliderA.body.applyMtv();
         pair.colliderB.body.applyMtv();
         // todo still don't like this, this is a small integration step to resolve narrowphase collisions
-        pair.colliderA.body.integrate(delta * Physics.collisionShift);
-        pair.colliderB.body.integrate(delta * Physics.collisionShift);
+        pair.colliderA.body.integrate(delta * this.config.collisionShift);
+        pair.colliderB.body.integrate(delta * this.config.collisionShift);
       }
     }
 
@@ -198,6 +300,7 @@ export class DynamicTreeCollisionBroadphase implements CollisionBroadphase {
 
   public runCollisionStartEnd(pairs: Pair[]) {
     const currentFrameHash: { [pairId: string]: Pair } = {};
+    const currentFramePairs = pairs.slice();
 
     for (const p of pairs) {
       // load currentFrameHash
@@ -215,6 +318,12 @@ export class DynamicTreeCollisionBroadphase implements CollisionBroadphase {
     // find all old collisions
     for (const p of this._lastFramePairs) {
       if (!currentFrameHash[p.id]) {
+        // resting pairs are not checked anymore but the bodies are still in contact
+        if (isResting(p.colliderA) && isResting(p.colliderB) && p.canCollide) {
+          currentFrameHash[p.id] = p;
+          currentFramePairs.push(p);
+          continue;
+        }
         const actor1 = p.colliderA;
         const actor2 = p.colliderB;
         actor1.emit('collisionend', new CollisionEndEvent(actor1, actor2));
@@ -223,7 +332,7 @@ export class DynamicTreeCollisionBroadphase implements CollisionBroadphase {
     }
 
     // reset the last frame cache
-    this._lastFramePairs = pairs;
+    this._lastFramePairs = currentFramePairs;
     this._lastFramePairsHash = currentFrameHash;
   }
 
@@ -3,6 +3,8 @@ import { BoundingBox } from './BoundingBox';
 import { CollisionContact } from './CollisionContact';
 import { CollisionJumpTable } from './CollisionJumpTable';
 import { CollisionShape } from './CollisionShape';
+import { CompositeShape } from './CompositeShape';
+import { Chain } from './Chain';
 import { Circle } from './Circle';
 import { ConvexPolygon } from './ConvexPolygon';
 
@@ -157,6 +159,10 @@ export class Edge implements CollisionShape {
       return ClosestLineJumpTable.PolygonEdgeClosestLine(shape, this).flip();
     } else if (shape instanceof Edge) {
       return ClosestLineJumpTable.EdgeEdgeClosestLine(this, shape);
+    } else if (shape instanceof Chain) {
+      return ClosestLineJumpTable.EdgeChainClosestLine(this, shape);
+    } else if (shape instanceof CompositeShape) {
+      return shape.getClosestLineBetween(this).flip();
     } else {
       throw new Error(`Polygon could not collide with unknown CollisionShape ${typeof shape}`);
     }
@@ -172,6 +178,10 @@ export class Edge implements CollisionShape {
       return CollisionJumpTable.CollidePolygonEdge(shape, this);
     } else if (shape instanceof Edge) {
       return CollisionJumpTable.CollideEdgeEdge();
+    } else if (shape instanceof Chain) {
+      return CollisionJumpTable.CollideChainChain();
+    } else if (shape instanceof CompositeShape) {
+      return CollisionJumpTable.CollideCompositeShape(shape, this);
     } else {
       throw new Error(`Edge could not collide with unknown CollisionShape ${typeof shape}`);
     }
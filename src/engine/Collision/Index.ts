@@ -1,19 +1,35 @@
 export * from './Body';
+export * from './BodyComponent';
 export * from './Collider';
+export * from './ColliderComponent';
+export * from './CollisionSystem';
 export * from './BoundingBox';
+export * from './Chain';
 export * from './Circle';
 export * from './CollisionContact';
 export * from './CollisionJumpTable';
 export * from './ClosestLineJumpTable';
 export * from './CollisionGroup';
 export * from './CollisionGroupManager';
+export * from './DistanceJoint';
 export * from './DynamicTree';
 export * from './DynamicTreeCollisionBroadphase';
 export * from './Edge';
+export * from './Island';
 export * from './CollisionShape';
+export * from './CompositeShape';
 export * from './CollisionResolver';
+export * from './Joint';
 export * from './Physics';
+export * from './PhysicsQuery';
+export * from './MotionSystem';
 export * from './Pair';
+export * from './RevoluteJoint';
+export * from './RopeJoint';
+export * from './ScenePhysics';
 export * from './ConvexPolygon';
 export * from './Side';
 export * from './Shape';
+export * from './SpringJoint';
+export * from './TimeOfImpact';
+export * from './WeldJoint';
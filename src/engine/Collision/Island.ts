@@ -0,0 +1,104 @@
+import { Body } from './Body';
+import { CollisionType } from './CollisionType';
+import { Joint } from './Joint';
+import { Pair } from './Pair';
+
+/**
+ * An island is a group of [[CollisionType.Active|active]] bodies connected by contacts or [[Joint|joints]], the bodies of an
+ * island fall asleep and wake up together. Fixed bodies never join islands, so crates resting on the same floor are separate
+ * islands.
+ */
+export class Island {
+  /**
+   * The bodies in the island
+   */
+  public bodies: Body[] = [];
+
+  /**
+   * Whether every body in the island is asleep
+   */
+  public get sleeping(): boolean {
+    return this.bodies.every((body) => body.sleeping);
+  }
+
+  /**
+   * Whether every awake body in the island can sleep and has been at rest for at least the time to sleep
+   * @param timeToSleep  The time in milliseconds, see [[PhysicsConfig.timeToSleep]]
+   */
+  public isAtRest(timeToSleep: number): boolean {
+    return this.bodies.every((body) => body.sleeping || (body.canSleep && body.sleepTime >= timeToSleep));
+  }
+
+  /**
+   * Puts every body in the island to sleep or wakes every body up
+   */
+  public setSleeping(sleeping: boolean) {
+    for (const body of this.bodies) {
+      body.setSleeping(sleeping);
+    }
+  }
+
+  /**
+   * Splits the awake bodies into islands connected by the contact pairs and joints. Sleeping bodies only appear in an island
+   * if they are touched by an awake body, so islands that stay asleep cost nothing.
+   * @param bodies  The bodies to split, sleeping and non active bodies are skipped
+   * @param pairs   The contact pairs of the current frame
+   * @param joints  The joints connecting bodies
+   */
+  public static build(bodies: Body[], pairs: Pair[], joints: Joint[]): Island[] {
+    const parents = new Map<Body, Body>();
+    const canJoin = (body: Body) => body && body.active && body.collider.type === CollisionType.Active;
+    const find = (body: Body): Body => {
+      let root = body;
+      while (parents.get(root) !== root) {
+        root = parents.get(root);
+      }
+      // compress the path so later finds are fast
+      while (body !== root) {
+        const parent = parents.get(body);
+        parents.set(body, root);
+        body = parent;
+      }
+      return root;
+    };
+    const add = (body: Body) => {
+      if (!parents.has(body)) {
+        parents.set(body, body);
+      }
+    };
+    const union = (a: Body, b: Body) => {
+      if (!canJoin(a) || !canJoin(b) || (a.sleeping && b.sleeping)) {
+        return;
+      }
+      add(a);
+      add(b);
+      parents.set(find(a), find(b));
+    };
+
+    for (const body of bodies) {
+      if (canJoin(body) && !body.sleeping) {
+        add(body);
+      }
+    }
+    for (const pair of pairs) {
+      union(pair.colliderA.body, pair.colliderB.body);
+    }
+    for (const joint of joints) {
+      if (joint.active) {
+        union(joint.bodyA, joint.bodyB);
+      }
+    }
+
+    const islands = new Map<Body, Island>();
+    for (const body of parents.keys()) {
+      const root = find(body);
+      let island = islands.get(root);
+      if (!island) {
+        island = new Island();
+        islands.set(root, island);
+      }
+      island.bodies.push(body);
+    }
+    return Array.from(islands.values());
+  }
+}
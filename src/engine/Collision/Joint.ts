@@ -0,0 +1,217 @@
+import { Vector } from '../Algebra';
+import { canonicalizeAngle } from '../Util/Util';
+import { Body } from './Body';
+import { CollisionType } from './CollisionType';
+
+export interface JointOptions {
+  /**
+   * The first body connected by the joint
+   */
+  bodyA: Body;
+  /**
+   * Optionally the second body connected by the joint, if none is specified the joint connects bodyA to a fixed point in the world
+   */
+  bodyB?: Body;
+  /**
+   * Optionally the point the joint is attached to relative to bodyA's position, by default (0, 0)
+   */
+  anchorA?: Vector;
+  /**
+   * Optionally the point the joint is attached to relative to bodyB's position, by default (0, 0). If there is no bodyB this is
+   * the fixed world point the joint is attached to.
+   */
+  anchorB?: Vector;
+}
+
+/**
+ * Joints constrain the relative motion of 2 bodies, or of a body and a fixed point in the world. Add joints to a [[Scene]] with
+ * [[Scene.add]], the [[CollisionSystem]] solves them alongside collision contacts on every collision pass.
+ *
+ * Bodies connected by a joint still collide with each other, put them in the same [[CollisionGroup]] to prevent that.
+ */
+export abstract class Joint {
+  private static _ID = 0;
+
+  /**
+   * The unique identifier for the joint
+   */
+  public readonly id: number = Joint._ID++;
+
+  /**
+   * The first body connected by the joint
+   */
+  public bodyA: Body;
+
+  /**
+   * The second body connected by the joint, null if the joint is attached to a fixed world point
+   */
+  public bodyB: Body | null;
+
+  /**
+   * The attachment point relative to bodyA's position, rotates with the body
+   */
+  public anchorA: Vector;
+
+  /**
+   * The attachment point relative to bodyB's position, or the world point if there is no bodyB
+   */
+  public anchorB: Vector;
+
+  /**
+   * Whether the joint is solved, set to false to temporarily release the bodies
+   */
+  public enabled: boolean = true;
+
+  /**
+   * The fraction of the position error removed on each collision pass, higher values are stiffer but may overshoot
+   */
+  public correctionFactor: number = 0.2;
+
+  constructor({ bodyA, bodyB, anchorA, anchorB }: JointOptions) {
+    if (!bodyA) {
+      throw new Error('A joint requires at least one body');
+    }
+    this.bodyA = bodyA;
+    this.bodyB = bodyB ?? null;
+    this.anchorA = anchorA?.clone() ?? Vector.Zero;
+    this.anchorB = anchorB?.clone() ?? Vector.Zero;
+  }
+
+  /**
+   * Whether the joint is enabled and all of its bodies are active
+   */
+  public get active(): boolean {
+    return this.enabled && this.bodyA.active && (!this.bodyB || this.bodyB.active);
+  }
+
+  /**
+   * Whether every body connected by the joint is asleep or fixed, sleeping joints are not solved
+   */
+  public get sleeping(): boolean {
+    const isResting = (body: Body) => !body || body.sleeping || body.collider.type === CollisionType.Fixed;
+    return isResting(this.bodyA) && isResting(this.bodyB);
+  }
+
+  /**
+   * The attachment point on bodyA in world space
+   */
+  public get worldAnchorA(): Vector {
+    return this.bodyA.pos.add(this.anchorA.rotate(this.bodyA.rotation));
+  }
+
+  /**
+   * The attachment point on bodyB in world space
+   */
+  public get worldAnchorB(): Vector {
+    if (!this.bodyB) {
+      return this.anchorB.clone();
+    }
+    return this.bodyB.pos.add(this.anchorB.rotate(this.bodyB.rotation));
+  }
+
+  /**
+   * Applies the impulses and position corrections that move the bodies toward satisfying the joint, called by the
+   * [[CollisionSystem]] once per collision pass
+   * @param delta  The time in milliseconds of this collision pass
+   */
+  public abstract solve(delta: number): void;
+
+  protected _invMass(body: Body | null): number {
+    if (!body || body.collider.type === CollisionType.Fixed) {
+      return 0;
+    }
+    return 1 / body.collider.mass;
+  }
+
+  protected _invInertia(body: Body | null): number {
+    if (!body || body.collider.type === CollisionType.Fixed || !body.physics.allowRigidBodyRotation) {
+      return 0;
+    }
+    return 1 / body.collider.inertia;
+  }
+
+  /**
+   * Velocity of the point at offset r from the body's position, including the angular contribution
+   */
+  protected _velocityAt(body: Body | null, r: Vector): Vector {
+    if (!body) {
+      return Vector.Zero;
+    }
+    return body.vel.add(r.cross(-body.rx));
+  }
+
+  /**
+   * Applies a velocity impulse to bodyA in the negative direction and bodyB in the positive direction
+   */
+  protected _applyImpulse(impulse: Vector, ra: Vector, rb: Vector) {
+    const invMassA = this._invMass(this.bodyA);
+    const invMassB = this._invMass(this.bodyB);
+    if (invMassA) {
+      this.bodyA.vel = this.bodyA.vel.sub(impulse.scale(invMassA));
+      this.bodyA.rx -= this._invInertia(this.bodyA) * ra.cross(impulse);
+    }
+    if (invMassB) {
+      this.bodyB.vel = this.bodyB.vel.add(impulse.scale(invMassB));
+      this.bodyB.rx += this._invInertia(this.bodyB) * rb.cross(impulse);
+    }
+  }
+
+  /**
+   * Moves bodyA in the negative direction and bodyB in the positive direction of a position impulse
+   */
+  protected _applyPositionImpulse(impulse: Vector, ra: Vector, rb: Vector) {
+    const invMassA = this._invMass(this.bodyA);
+    const invMassB = this._invMass(this.bodyB);
+    if (invMassA) {
+      this.bodyA.pos = this.bodyA.pos.sub(impulse.scale(invMassA));
+      this.bodyA.rotation -= this._invInertia(this.bodyA) * ra.cross(impulse);
+    }
+    if (invMassB) {
+      this.bodyB.pos = this.bodyB.pos.add(impulse.scale(invMassB));
+      this.bodyB.rotation += this._invInertia(this.bodyB) * rb.cross(impulse);
+    }
+  }
+
+  /**
+   * The inverse effective mass of the joint along a direction for the anchor offsets ra and rb
+   */
+  protected _invEffectiveMass(direction: Vector, ra: Vector, rb: Vector): number {
+    const raCrossN = ra.cross(direction);
+    const rbCrossN = rb.cross(direction);
+    return (
+      this._invMass(this.bodyA) +
+      this._invMass(this.bodyB) +
+      this._invInertia(this.bodyA) * raCrossN * raCrossN +
+      this._invInertia(this.bodyB) * rbCrossN * rbCrossN
+    );
+  }
+
+  /**
+   * The rotation of bodyB, 0 when attached to the world
+   */
+  protected get _rotationB(): number {
+    return this.bodyB ? this.bodyB.rotation : 0;
+  }
+
+  /**
+   * The rotation of bodyB relative to bodyA measured from a reference angle, between -PI and PI
+   */
+  protected _relativeAngle(referenceAngle: number): number {
+    const angle = canonicalizeAngle(this._rotationB - this.bodyA.rotation - referenceAngle);
+    return angle > Math.PI ? angle - Math.PI * 2 : angle;
+  }
+
+  /**
+   * Offset of the world anchor from bodyA's position
+   */
+  protected get _ra(): Vector {
+    return this.anchorA.rotate(this.bodyA.rotation);
+  }
+
+  /**
+   * Offset of the world anchor from bodyB's position, zero when attached to the world
+   */
+  protected get _rb(): Vector {
+    return this.bodyB ? this.anchorB.rotate(this.bodyB.rotation) : Vector.Zero;
+  }
+}
@@ -0,0 +1,59 @@
+import { Entity } from '../EntityComponentSystem/Entity';
+import { TransformComponent } from '../EntityComponentSystem/Components/TransformComponent';
+import { AddedEntity, isAddedSystemEntity, RemovedEntity, System, SystemType } from '../EntityComponentSystem/System';
+import { PhysicsConfig } from '../Physics';
+import { Scene } from '../Scene';
+import { isActor } from '../Actor';
+import { Body } from './Body';
+import { BodyComponent } from './BodyComponent';
+
+/**
+ * The MotionSystem integrates the [[Body]] of every entity with a [[TransformComponent]] and [[BodyComponent]] using the
+ * scene's [[PhysicsConfig]], sleeping bodies are skipped. [[Actor|Actors]] are moved with [[MotionSystem.move]] during their own
+ * update so `postupdate` sees their new position, other entities are moved when the system updates. It runs before the
+ * [[CollisionSystem]] so collisions are resolved against the new positions.
+ */
+export class MotionSystem extends System<TransformComponent | BodyComponent> {
+  public readonly types = ['ex.transform', 'ex.body'] as const;
+  public readonly systemType = SystemType.Update;
+  public priority = -2;
+  private _physics: PhysicsConfig;
+
+  public initialize(scene: Scene): void {
+    this._physics = scene.physics;
+    // entities added before the system are not announced to it
+    for (const entity of scene.world.queryManager.getQuery(this.types).getEntities()) {
+      this.notify(new AddedEntity(entity));
+    }
+  }
+
+  public notify(message: AddedEntity | RemovedEntity) {
+    const bodyComponent = message.data.get(BodyComponent);
+    if (bodyComponent) {
+      // a config set on the body itself still takes precedence
+      bodyComponent.body._scenePhysics = isAddedSystemEntity(message) ? this._physics : null;
+    }
+  }
+
+  /**
+   * Captures the old transform of a body and integrates it unless it is asleep
+   * @param body   The body to move
+   * @param delta  The time in milliseconds since the last update
+   */
+  public move(body: Body, delta: number): void {
+    // capture old transform before integration step updates it
+    body.captureOldTransform();
+    if (!body.sleeping) {
+      body.integrate(delta);
+    }
+  }
+
+  public update(entities: Entity[], delta: number): void {
+    for (const entity of entities) {
+      // actors move themselves in their update, before postupdate
+      if (!isActor(entity)) {
+        this.move(entity.get(BodyComponent).body, delta);
+      }
+    }
+  }
+}
@@ -55,6 +55,16 @@ export class Pair {
    */
   public collide() {
     this.collision = this.colliderA.collide(this.colliderB);
+    if (this.collision) {
+      const { normal, mtv } = this.collision;
+      const depth = mtv.size;
+      if (
+        !this.colliderA.acceptsContact(this.colliderB, normal, depth) ||
+        !this.colliderB.acceptsContact(this.colliderA, normal.negate(), depth)
+      ) {
+        this.collision = null;
+      }
+    }
   }
 
   /**
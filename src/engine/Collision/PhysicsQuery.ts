@@ -0,0 +1,260 @@
+import { Ray, Vector } from '../Algebra';
+import { TransformComponent } from '../EntityComponentSystem/Components/TransformComponent';
+import { Entity } from '../EntityComponentSystem/Entity';
+import { Body } from './Body';
+import { BoundingBox } from './BoundingBox';
+import { Chain } from './Chain';
+import { Circle } from './Circle';
+import { Collider } from './Collider';
+import { CollisionGroup } from './CollisionGroup';
+import { CollisionShape } from './CollisionShape';
+import { CollisionType } from './CollisionType';
+import { CompositeShape } from './CompositeShape';
+import { ConvexPolygon } from './ConvexPolygon';
+import { DynamicTree } from './DynamicTree';
+import { Edge } from './Edge';
+import { findTimeOfImpact } from './TimeOfImpact';
+
+export interface RayCastOptions {
+  /**
+   * Optionally the maximum distance in pixels the ray or shape travels, by default Infinity
+   */
+  maxDistance?: number;
+  /**
+   * Optionally only hit colliders that can collide with this [[CollisionGroup]], by default every group is hit
+   */
+  collisionGroup?: CollisionGroup;
+  /**
+   * Optionally a filter called for every hit, return false to ignore the hit
+   */
+  filter?: (hit: RayCastHit) => boolean;
+  /**
+   * Optionally return every hit sorted by distance instead of only the nearest hit, by default false
+   */
+  searchAllColliders?: boolean;
+}
+
+export interface OverlapOptions {
+  /**
+   * Optionally only return colliders that can collide with this [[CollisionGroup]], by default every group is returned
+   */
+  collisionGroup?: CollisionGroup;
+  /**
+   * Optionally a filter called for every overlapping collider, return false to ignore the collider
+   */
+  filter?: (collider: Collider) => boolean;
+}
+
+/**
+ * A hit returned by [[PhysicsQuery.rayCast]] or [[PhysicsQuery.shapeCast]]
+ */
+export interface RayCastHit {
+  /**
+   * The collider that was hit
+   */
+  collider: Collider;
+  /**
+   * The body of the collider that was hit
+   */
+  body: Body;
+  /**
+   * The point of the hit in world space
+   */
+  point: Vector;
+  /**
+   * The surface normal at the hit point, pointing against the ray
+   */
+  normal: Vector;
+  /**
+   * The distance in pixels from the ray origin to the hit, for shape casts the distance the shape traveled
+   */
+  distance: number;
+}
+
+/**
+ * Returns the normal of a shape at a point on its surface, facing against the ray
+ */
+const getSurfaceNormal = (shape: CollisionShape, point: Vector, ray: Ray): Vector => {
+  let normal: Vector;
+  if (shape instanceof Circle) {
+    normal = point.sub(shape.center).normalize();
+  } else if (shape instanceof ConvexPolygon) {
+    normal = shape.getClosestFace(point).face.normal();
+  } else if (shape instanceof Edge) {
+    normal = shape.asLine().normal();
+  } else if (shape instanceof Chain) {
+    normal = shape.getClosestSegment(point).normal();
+  } else if (shape instanceof CompositeShape) {
+    const part = shape.shapes.find((s) => s.bounds.contains(point)) || shape.shapes[0];
+    return getSurfaceNormal(part, point, ray);
+  } else {
+    normal = ray.dir.negate();
+  }
+  return normal.dot(ray.dir) > 0 ? normal.negate() : normal;
+};
+
+/**
+ * Places a copy of the shape of a query at a position on a probe collider whose body is not part of any scene. The probe is
+ * created by the first query and reused afterwards, the shape is copied so the collider of the query's shape is not changed.
+ */
+const placeProbe = (probe: Collider | null, shape: CollisionShape, pos: Vector): Collider => {
+  if (probe) {
+    probe.shape = shape.clone();
+  } else {
+    probe = new Collider({ shape: shape.clone(), type: CollisionType.PreventCollision });
+    const body = new Body({ collider: probe });
+    body.owner = new Entity([new TransformComponent()]);
+  }
+  moveProbe(probe, pos);
+  return probe;
+};
+
+const moveProbe = (probe: Collider, pos: Vector) => {
+  probe.body.pos = pos;
+  probe.update();
+};
+
+/**
+ * The PhysicsQuery answers ray casts, shape casts, and overlap queries against the colliders tracked in a [[DynamicTree]].
+ * Every [[Scene]] has one, use it through [[ScenePhysics.rayCast]], [[ScenePhysics.shapeCast]], and [[ScenePhysics.overlap]].
+ */
+export class PhysicsQuery {
+  private _shapeCastProbe: Collider = null;
+  private _overlapProbe: Collider = null;
+
+  constructor(public tree: DynamicTree) {}
+
+  private _canHit(collider: Collider, collisionGroup?: CollisionGroup) {
+    if (!collider.active || collider.type === CollisionType.PreventCollision) {
+      return false;
+    }
+    return !collisionGroup || collisionGroup.canCollide(collider.group);
+  }
+
+  private _sortHits(hits: RayCastHit[], options: RayCastOptions): RayCastHit[] {
+    hits.sort((a, b) => a.distance - b.distance);
+    return options.searchAllColliders ? hits : hits.slice(0, 1);
+  }
+
+  /**
+   * Casts a ray into the scene and returns the colliders it hits, by default only the nearest hit
+   *
+   * ```typescript
+   * const [hit] = scene.physics.rayCast(new ex.Ray(guard.pos, player.pos.sub(guard.pos)), { maxDistance: 200 });
+   * const canSeePlayer = hit?.collider === player.body.collider;
+   * ```
+   * @param ray      The ray to cast
+   * @param options  Optionally the maximum distance, collision group, and filter of the hits
+   */
+  public rayCast(ray: Ray, options: RayCastOptions = {}): RayCastHit[] {
+    const maxDistance = options.maxDistance ?? Infinity;
+    const hits: RayCastHit[] = [];
+    this.tree.rayCastQuery(ray, maxDistance, (body: Body) => {
+      const collider = body.collider;
+      if (!this._canHit(collider, options.collisionGroup)) {
+        return false;
+      }
+      const point = collider.shape.rayCast(ray, maxDistance);
+      if (point) {
+        const hit: RayCastHit = {
+          collider,
+          body,
+          point,
+          normal: getSurfaceNormal(collider.shape, point, ray),
+          distance: point.distance(ray.pos)
+        };
+        if (!options.filter || options.filter(hit)) {
+          hits.push(hit);
+        }
+      }
+      return false;
+    });
+    return this._sortHits(hits, options);
+  }
+
+  /**
+   * Moves a shape along a ray and returns the colliders it would touch, by default only the first one. Hits report the distance
+   * the shape can travel before it touches a collider, the contact point, and the contact normal.
+   *
+   * ```typescript
+   * const [ground] = scene.physics.shapeCast(player.body.collider.shape, new ex.Ray(player.pos, ex.Vector.Down), { maxDistance: 2 });
+   * const isGrounded = !!ground;
+   * ```
+   * @param shape    The shape to move, its offset is relative to the ray origin
+   * @param ray      The start position and direction of the movement
+   * @param options  Optionally the maximum distance, collision group, and filter of the hits
+   */
+  public shapeCast(shape: CollisionShape, ray: Ray, options: RayCastOptions = {}): RayCastHit[] {
+    const maxDistance = options.maxDistance ?? Infinity;
+    // the probe is taken while it is in use, so a shape cast from a filter places its own
+    const probe = placeProbe(this._shapeCastProbe, shape, ray.pos);
+    this._shapeCastProbe = null;
+    const bounds = probe.bounds;
+    // the bounds may not be centered on the ray origin when the shape has an offset
+    const centerRay = new Ray(bounds.center, ray.dir);
+
+    const hits: RayCastHit[] = [];
+    this.tree.sweepQuery(bounds, centerRay, maxDistance, (body: Body) => {
+      const collider = body.collider;
+      if (!this._canHit(collider, options.collisionGroup) || !collider.shape) {
+        return false;
+      }
+      const other = collider.bounds;
+      const grown = new BoundingBox(
+        other.left - bounds.width / 2,
+        other.top - bounds.height / 2,
+        other.right + bounds.width / 2,
+        other.bottom + bounds.height / 2
+      );
+
+      // only the range where the bounds overlap needs to be searched
+      const enter = Math.max(0, grown.rayCastTime(centerRay));
+      if (enter > maxDistance) {
+        return false;
+      }
+      const exit = Math.min(maxDistance, enter + grown.width + grown.height);
+      // the time is the distance along the ray, so the probe moves 1 pixel per unit of time
+      const impact = findTimeOfImpact(probe, collider, enter, exit, 1, (distance) => moveProbe(probe, ray.getPoint(distance)));
+      if (!impact) {
+        return false;
+      }
+
+      const { contact, time: distance } = impact;
+      const normal = contact.normal.dot(ray.dir) > 0 ? contact.normal.negate() : contact.normal;
+      const hit: RayCastHit = { collider, body, point: contact.point, normal, distance };
+      if (!options.filter || options.filter(hit)) {
+        hits.push(hit);
+      }
+      return false;
+    });
+    this._shapeCastProbe = probe;
+    return this._sortHits(hits, options);
+  }
+
+  /**
+   * Returns the colliders that overlap a shape placed at a position
+   *
+   * ```typescript
+   * const inBlast = scene.physics.overlap(ex.Shape.Circle(50), bomb.pos);
+   * ```
+   * @param shape    The shape to test, its offset is relative to the position
+   * @param pos      The world position to place the shape at
+   * @param options  Optionally the collision group and filter of the colliders
+   */
+  public overlap(shape: CollisionShape, pos: Vector, options: OverlapOptions = {}): Collider[] {
+    const probe = placeProbe(this._overlapProbe, shape, pos);
+    this._overlapProbe = null;
+    const colliders: Collider[] = [];
+    this.tree.boundsQuery(probe.bounds, (body: Body) => {
+      const collider = body.collider;
+      if (this._canHit(collider, options.collisionGroup) && collider.shape && probe.collide(collider)) {
+        if (!options.filter || options.filter(collider)) {
+          colliders.push(collider);
+        }
+      }
+      return false;
+    });
+    this._overlapProbe = probe;
+    return colliders;
+  }
+}
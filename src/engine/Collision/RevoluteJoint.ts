@@ -0,0 +1,142 @@
+import { vec, Vector } from '../Algebra';
+import { Joint, JointOptions } from './Joint';
+
+export interface RevoluteJointOptions extends JointOptions {
+  /**
+   * Optionally the lowest rotation of bodyB relative to bodyA in radians, by default unlimited
+   */
+  lowerAngle?: number;
+  /**
+   * Optionally the highest rotation of bodyB relative to bodyA in radians, by default unlimited
+   */
+  upperAngle?: number;
+  /**
+   * Optionally the relative rotation the angle limits are measured from, by default the relative rotation when the joint
+   * is created
+   */
+  referenceAngle?: number;
+}
+
+/**
+ * A revolute joint pins the anchors of 2 bodies together so they can only rotate around the shared point, like a hinge.
+ * The relative rotation can optionally be limited with [[lowerAngle]] and [[upperAngle]], for example for ragdoll elbows. The
+ * limits are soft and may be exceeded slightly under load.
+ *
+ * ```typescript
+ * const elbow = new ex.RevoluteJoint({
+ *   bodyA: upperArm.body,
+ *   bodyB: forearm.body,
+ *   anchorA: ex.vec(0, 20),
+ *   anchorB: ex.vec(0, -20),
+ *   lowerAngle: 0,
+ *   upperAngle: Math.PI / 2
+ * });
+ * scene.add(elbow);
+ * ```
+ */
+export class RevoluteJoint extends Joint {
+  /**
+   * The lowest rotation of bodyB relative to bodyA in radians, null if unlimited
+   */
+  public lowerAngle: number | null;
+
+  /**
+   * The highest rotation of bodyB relative to bodyA in radians, null if unlimited
+   */
+  public upperAngle: number | null;
+
+  /**
+   * The relative rotation the angle limits are measured from
+   */
+  public referenceAngle: number;
+
+  constructor(options: RevoluteJointOptions) {
+    super(options);
+    this.lowerAngle = options.lowerAngle ?? null;
+    this.upperAngle = options.upperAngle ?? null;
+    this.referenceAngle = options.referenceAngle ?? this._rotationB - this.bodyA.rotation;
+  }
+
+  /**
+   * The current rotation of bodyB relative to bodyA measured from the [[referenceAngle]], between -PI and PI
+   */
+  public get angle(): number {
+    return this._relativeAngle(this.referenceAngle);
+  }
+
+  public solve(_delta: number): void {
+    this._solvePoint();
+    this._solveAngleLimits();
+  }
+
+  private get _angularVelocityB(): number {
+    return this.bodyB ? this.bodyB.rx : 0;
+  }
+
+  /**
+   * Solves the constraint that the world anchors coincide
+   */
+  private _solvePoint() {
+    const ra = this._ra;
+    const rb = this._rb;
+    const invMass = this._invMass(this.bodyA) + this._invMass(this.bodyB);
+    const invInertiaA = this._invInertia(this.bodyA);
+    const invInertiaB = this._invInertia(this.bodyB);
+
+    // 2x2 inverse effective mass matrix of the point constraint
+    const k11 = invMass + invInertiaA * ra.y * ra.y + invInertiaB * rb.y * rb.y;
+    const k12 = -invInertiaA * ra.x * ra.y - invInertiaB * rb.x * rb.y;
+    const k22 = invMass + invInertiaA * ra.x * ra.x + invInertiaB * rb.x * rb.x;
+    const det = k11 * k22 - k12 * k12;
+    if (!det) {
+      return;
+    }
+    const solve = (v: Vector) => vec((k22 * v.x - k12 * v.y) / det, (k11 * v.y - k12 * v.x) / det);
+
+    // Cancel the relative velocity of the anchors
+    const relativeVelocity = this._velocityAt(this.bodyB, rb).sub(this._velocityAt(this.bodyA, ra));
+    this._applyImpulse(solve(relativeVelocity).negate(), ra, rb);
+
+    // Remove part of the accumulated separation
+    const error = this.worldAnchorB.sub(this.worldAnchorA);
+    this._applyPositionImpulse(solve(error).scale(-this.correctionFactor), ra, rb);
+  }
+
+  /**
+   * Keeps the relative rotation between the angle limits, equal limits lock the rotation
+   */
+  private _solveAngleLimits() {
+    const invInertiaA = this._invInertia(this.bodyA);
+    const invInertiaB = this._invInertia(this.bodyB);
+    const invInertia = invInertiaA + invInertiaB;
+    if (!invInertia) {
+      return;
+    }
+
+    const angle = this.angle;
+    let limit: number;
+    if (this.lowerAngle !== null && angle <= this.lowerAngle) {
+      limit = this.lowerAngle;
+    } else if (this.upperAngle !== null && angle >= this.upperAngle) {
+      limit = this.upperAngle;
+    } else {
+      return;
+    }
+
+    let impulse = -(this._angularVelocityB - this.bodyA.rx) / invInertia;
+    if (this.lowerAngle !== this.upperAngle) {
+      // a single limit can only push the rotation back inside the range
+      impulse = limit === this.lowerAngle ? Math.max(impulse, 0) : Math.min(impulse, 0);
+    }
+    this.bodyA.rx -= impulse * invInertiaA;
+    if (this.bodyB) {
+      this.bodyB.rx += impulse * invInertiaB;
+    }
+
+    const correction = ((limit - angle) * this.correctionFactor) / invInertia;
+    this.bodyA.rotation -= correction * invInertiaA;
+    if (this.bodyB) {
+      this.bodyB.rotation += correction * invInertiaB;
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import { DistanceJoint } from './DistanceJoint';
+
+/**
+ * A rope joint keeps the anchors of 2 bodies from moving further apart than [[length]], but lets them move closer together
+ *
+ * ```typescript
+ * const rope = new ex.RopeJoint({ bodyA: lantern.body, anchorB: ex.vec(200, 0), length: 100 });
+ * scene.add(rope);
+ * ```
+ */
+export class RopeJoint extends DistanceJoint {
+  public solve(_delta: number): void {
+    this._solveDistance(true);
+  }
+}
@@ -0,0 +1,60 @@
+import { Ray, Vector } from '../Algebra';
+import { PhysicsConfig } from '../Physics';
+import { Logger } from '../Util/Log';
+import { Collider } from './Collider';
+import { CollisionShape } from './CollisionShape';
+import { OverlapOptions, PhysicsQuery, RayCastHit, RayCastOptions } from './PhysicsQuery';
+
+/**
+ * The [[Scene.physics]] of a scene, the scene's [[PhysicsConfig]] that can also query the colliders in the scene with ray casts,
+ * shape casts, and overlap tests.
+ *
+ * ```typescript
+ * const [hit] = scene.physics.rayCast(new ex.Ray(gun.pos, ex.Vector.fromAngle(gun.rotation)), { maxDistance: 500 });
+ * if (hit) {
+ *   spawnSpark(hit.point, hit.normal);
+ * }
+ * ```
+ */
+export class ScenePhysics extends PhysicsConfig {
+  /**
+   * The queries against the colliders in the scene, provided by the scene's [[CollisionSystem]]
+   */
+  public query: PhysicsQuery = null;
+
+  private _hasWarned = false;
+
+  /**
+   * Whether there is a query to run, scenes without an initialized [[CollisionSystem]] have none and return no hits
+   */
+  private _canQuery(): boolean {
+    if (!this.query && !this._hasWarned) {
+      Logger.getInstance().warn('Scene physics queries need the CollisionSystem of the scene, no colliders are returned');
+      this._hasWarned = true;
+    }
+    return !!this.query;
+  }
+
+  /**
+   * Casts a ray into the scene and returns the colliders it hits sorted by distance, by default only the nearest hit.
+   * See [[PhysicsQuery.rayCast]].
+   */
+  public rayCast(ray: Ray, options?: RayCastOptions): RayCastHit[] {
+    return this._canQuery() ? this.query.rayCast(ray, options) : [];
+  }
+
+  /**
+   * Moves a shape along a ray and returns the colliders it would touch sorted by distance, by default only the first one.
+   * See [[PhysicsQuery.shapeCast]].
+   */
+  public shapeCast(shape: CollisionShape, ray: Ray, options?: RayCastOptions): RayCastHit[] {
+    return this._canQuery() ? this.query.shapeCast(shape, ray, options) : [];
+  }
+
+  /**
+   * Returns the colliders in the scene that overlap a shape placed at a position. See [[PhysicsQuery.overlap]].
+   */
+  public overlap(shape: CollisionShape, pos: Vector, options?: OverlapOptions): Collider[] {
+    return this._canQuery() ? this.query.overlap(shape, pos, options) : [];
+  }
+}
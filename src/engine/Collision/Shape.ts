@@ -1,8 +1,11 @@
 import { ConvexPolygon } from './ConvexPolygon';
 import { Circle } from './Circle';
 import { Edge } from './Edge';
+import { Chain } from './Chain';
+import { CompositeShape } from './CompositeShape';
 import { BoundingBox } from './BoundingBox';
 import { Vector } from '../Algebra';
+import { CollisionShape } from './CollisionShape';
 
 /**
  * Excalibur shape helper for defining collision shapes quickly
@@ -59,4 +62,44 @@ export class Shape {
       end: end
     });
   }
+
+  /**
+   * Creates a new [[Chain|chain]] collision shape
+   * @param points Points of the chain in local coordinates to the collider, the solid side is up for points ordered left to right
+   * @param loop Optionally connect the last point back to the first point, by default false
+   * @param offset Optional offset relative to the collider in local coordinates
+   */
+  static Chain(points: Vector[], loop: boolean = false, offset: Vector = Vector.Zero): Chain {
+    return new Chain({
+      points: points,
+      loop: loop,
+      offset: offset
+    });
+  }
+
+  /**
+   * Creates a new [[CompositeShape|composite]] collision shape from several shapes
+   * @param shapes The parts of the shape, positioned in local coordinates to the collider
+   * @param offset Optional offset relative to the collider in local coordinates
+   */
+  static Composite(shapes: CollisionShape[], offset: Vector = Vector.Zero): CompositeShape {
+    return new CompositeShape({
+      shapes: shapes,
+      offset: offset
+    });
+  }
+
+  /**
+   * Creates a [[CompositeShape|composite]] collision shape from a concave outline, split into convex polygons with
+   * [[CompositeShape.decompose]]
+   * @param points Points of the outline, the outline must not cross itself
+   * @param clockwiseWinding Optionally changed the winding of points, by default false meaning counter-clockwise winding.
+   * @param offset Optional offset relative to the collider in local coordinates
+   */
+  static Concave(points: Vector[], clockwiseWinding: boolean = false, offset: Vector = Vector.Zero): CompositeShape {
+    return new CompositeShape({
+      shapes: CompositeShape.decompose(points, clockwiseWinding).map((polygon) => new ConvexPolygon({ points: polygon })),
+      offset: offset
+    });
+  }
 }
@@ -0,0 +1,64 @@
+import { Joint, JointOptions } from './Joint';
+
+export interface SpringJointOptions extends JointOptions {
+  /**
+   * Optionally the rest length of the spring, by default the distance between the anchors when the joint is created
+   */
+  length?: number;
+  /**
+   * Optionally the spring stiffness, the force applied per pixel of stretch, by default 10
+   */
+  stiffness?: number;
+  /**
+   * Optionally the damping, the force applied per pixel/second of relative velocity along the spring, by default 0.5
+   */
+  damping?: number;
+}
+
+/**
+ * A spring joint pulls or pushes the anchors of 2 bodies toward a rest length with a damped spring force
+ *
+ * ```typescript
+ * const suspension = new ex.SpringJoint({ bodyA: car.body, bodyB: wheel.body, anchorA: ex.vec(-20, 10), stiffness: 50 });
+ * scene.add(suspension);
+ * ```
+ */
+export class SpringJoint extends Joint {
+  /**
+   * The rest length of the spring
+   */
+  public length: number;
+
+  /**
+   * The force applied per pixel of stretch
+   */
+  public stiffness: number;
+
+  /**
+   * The force applied per pixel/second of relative velocity along the spring
+   */
+  public damping: number;
+
+  constructor(options: SpringJointOptions) {
+    super(options);
+    this.length = options.length ?? this.worldAnchorB.distance(this.worldAnchorA);
+    this.stiffness = options.stiffness ?? 10;
+    this.damping = options.damping ?? 0.5;
+  }
+
+  public solve(delta: number): void {
+    const ra = this._ra;
+    const rb = this._rb;
+    const difference = this.worldAnchorB.sub(this.worldAnchorA);
+    const distance = difference.size;
+    if (distance === 0) {
+      return;
+    }
+
+    const normal = difference.scale(1 / distance);
+    const relativeVelocity = this._velocityAt(this.bodyB, rb).sub(this._velocityAt(this.bodyA, ra)).dot(normal);
+    // Hooke's law with damping, positive force pushes the anchors apart
+    const force = -this.stiffness * (distance - this.length) - this.damping * relativeVelocity;
+    this._applyImpulse(normal.scale(force * (delta / 1000)), ra, rb);
+  }
+}
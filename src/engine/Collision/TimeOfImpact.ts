@@ -0,0 +1,81 @@
+import { Collider } from './Collider';
+import { CollisionContact } from './CollisionContact';
+
+/**
+ * The number of bisection steps used to refine a time of impact, each step halves the error
+ */
+const TimeOfImpactIterations = 16;
+
+/**
+ * The smallest distance in pixels a collider is advanced by, so colliders that touch without colliding are still passed
+ */
+const MinimumAdvance = 0.5;
+
+/**
+ * The earliest time a moving collider touches another collider, see [[findTimeOfImpact]]
+ */
+export interface TimeOfImpact {
+  /**
+   * The time of the first contact, slightly after the colliders start touching
+   */
+  time: number;
+  /**
+   * The contact between the colliders at that time
+   */
+  contact: CollisionContact;
+}
+
+/**
+ * Finds the earliest time between start and end where a moving collider touches another collider with conservative
+ * advancement. At each time the distance between the colliders is measured with [[Collider.getClosestLineBetween]], and since
+ * no point of the moving collider travels further than `speed` per unit of time, the colliders can not touch before the time it
+ * takes to cover that distance. The first touching time is refined with bisection. Thin colliders are not skipped, and only a
+ * few steps are needed unless the collider slides along another one closer than half a pixel.
+ * @param collider  The moving collider
+ * @param other     The collider it may touch
+ * @param start     The time to start searching from
+ * @param end       The time to stop searching at
+ * @param speed     The farthest any point of the moving collider travels per unit of time, in pixels
+ * @param moveTo    Moves the collider to a time
+ */
+export function findTimeOfImpact(
+  collider: Collider,
+  other: Collider,
+  start: number,
+  end: number,
+  speed: number,
+  moveTo: (time: number) => void
+): TimeOfImpact | null {
+  const collideAt = (time: number) => {
+    moveTo(time);
+    return collider.collide(other);
+  };
+
+  let free = start;
+  let time = start;
+  let contact = collideAt(time);
+  while (!contact && time < end) {
+    free = time;
+    const distance = collider.getClosestLineBetween(other)?.getLength() ?? 0;
+    time = Math.min(time + Math.max(distance, MinimumAdvance) / speed, end);
+    contact = collideAt(time);
+  }
+  if (!contact) {
+    return null;
+  }
+
+  // narrow down the time between the last free and the first touching time
+  if (time > start) {
+    for (let i = 0; i < TimeOfImpactIterations; i++) {
+      const middle = (free + time) / 2;
+      const middleContact = collideAt(middle);
+      if (middleContact) {
+        time = middle;
+        contact = middleContact;
+      } else {
+        free = middle;
+      }
+    }
+  }
+  return { time, contact };
+}
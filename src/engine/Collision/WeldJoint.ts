@@ -0,0 +1,86 @@
+import { vec, Vector } from '../Algebra';
+import { Joint, JointOptions } from './Joint';
+
+export interface WeldJointOptions extends JointOptions {
+  /**
+   * Optionally the rotation of bodyB relative to bodyA to keep, by default the relative rotation when the joint is created
+   */
+  referenceAngle?: number;
+}
+
+/**
+ * A weld joint pins the anchors of 2 bodies together and locks their relative rotation, so they move as if they were one body
+ *
+ * ```typescript
+ * const weld = new ex.WeldJoint({ bodyA: hull.body, bodyB: turret.body, anchorA: ex.vec(0, -10) });
+ * scene.add(weld);
+ * ```
+ */
+export class WeldJoint extends Joint {
+  /**
+   * The rotation of bodyB relative to bodyA that is kept
+   */
+  public referenceAngle: number;
+
+  constructor(options: WeldJointOptions) {
+    super(options);
+    this.referenceAngle = options.referenceAngle ?? this._rotationB - this.bodyA.rotation;
+  }
+
+  /**
+   * The current rotation of bodyB relative to bodyA measured from the [[referenceAngle]], between -PI and PI
+   */
+  public get angle(): number {
+    return this._relativeAngle(this.referenceAngle);
+  }
+
+  public solve(_delta: number): void {
+    const ra = this._ra;
+    const rb = this._rb;
+    const invMass = this._invMass(this.bodyA) + this._invMass(this.bodyB);
+    const invInertiaA = this._invInertia(this.bodyA);
+    const invInertiaB = this._invInertia(this.bodyB);
+
+    // 3x3 inverse effective mass matrix of the point and angle constraints solved together, solving them one after the
+    // other lets the point constraint twist the bodies
+    const k11 = invMass + invInertiaA * ra.y * ra.y + invInertiaB * rb.y * rb.y;
+    const k12 = -invInertiaA * ra.x * ra.y - invInertiaB * rb.x * rb.y;
+    const k13 = -invInertiaA * ra.y - invInertiaB * rb.y;
+    const k22 = invMass + invInertiaA * ra.x * ra.x + invInertiaB * rb.x * rb.x;
+    const k23 = invInertiaA * ra.x + invInertiaB * rb.x;
+    const k33 = invInertiaA + invInertiaB;
+
+    const c1 = k22 * k33 - k23 * k23;
+    const c2 = k12 * k33 - k23 * k13;
+    const c3 = k12 * k23 - k22 * k13;
+    const det = k11 * c1 - k12 * c2 + k13 * c3;
+    if (!det) {
+      return;
+    }
+    // Cramer's rule for the symmetric matrix
+    const solve = (v: Vector, w: number): [Vector, number] => {
+      const x = (v.x * c1 - k12 * (v.y * k33 - k23 * w) + k13 * (v.y * k23 - k22 * w)) / det;
+      const y = (k11 * (v.y * k33 - k23 * w) - v.x * c2 + k13 * (k12 * w - v.y * k13)) / det;
+      const z = (k11 * (k22 * w - k23 * v.y) - k12 * (k12 * w - k13 * v.y) + v.x * c3) / det;
+      return [vec(x, y), z];
+    };
+
+    // Cancel the relative velocity of the anchors and the relative angular velocity
+    const relativeVelocity = this._velocityAt(this.bodyB, rb).sub(this._velocityAt(this.bodyA, ra));
+    const relativeAngularVelocity = (this.bodyB ? this.bodyB.rx : 0) - this.bodyA.rx;
+    const [impulse, angularImpulse] = solve(relativeVelocity, relativeAngularVelocity);
+    this._applyImpulse(impulse.negate(), ra, rb);
+    this.bodyA.rx += angularImpulse * invInertiaA;
+    if (this.bodyB) {
+      this.bodyB.rx -= angularImpulse * invInertiaB;
+    }
+
+    // Remove part of the accumulated separation and twist
+    const [correction, angularCorrection] = solve(this.worldAnchorB.sub(this.worldAnchorA), this.angle);
+    this._applyPositionImpulse(correction.scale(-this.correctionFactor), ra, rb);
+    this.bodyA.rotation += angularCorrection * this.correctionFactor * invInertiaA;
+    if (this.bodyB) {
+      this.bodyB.rotation -= angularCorrection * this.correctionFactor * invInertiaB;
+    }
+  }
+}
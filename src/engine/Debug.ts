@@ -145,6 +145,16 @@ export interface PhysicsStatistics {
    * Gets the time it took to calculate the narrowphase
    */
   narrowphase: number;
+
+  /**
+   * Gets the number of islands of awake bodies connected by contacts or joints
+   */
+  islands: number;
+
+  /**
+   * Gets the number of sleeping bodies
+   */
+  sleepingBodies: number;
 }
 
 export interface GraphicsStatistics {
@@ -343,6 +353,8 @@ export class PhysicsStats implements PhysicsStatistics {
   private _fastBodyCollisions: number = 0;
   private _broadphase: number = 0;
   private _narrowphase: number = 0;
+  private _islands: number = 0;
+  private _sleepingBodies: number = 0;
 
   /**
    * Zero out values or clone other IPhysicsStats stats. Allows instance reuse.
@@ -358,9 +370,12 @@ export class PhysicsStats implements PhysicsStatistics {
       this.fastBodyCollisions = otherStats.fastBodyCollisions;
       this.broadphase = otherStats.broadphase;
       this.narrowphase = otherStats.narrowphase;
+      this.islands = otherStats.islands;
+      this.sleepingBodies = otherStats.sleepingBodies;
     } else {
       this.pairs = this.collisions = this.fastBodies = 0;
       this.fastBodyCollisions = this.broadphase = this.narrowphase = 0;
+      this.islands = this.sleepingBodies = 0;
       this.collidersHash = {};
     }
   }
@@ -431,4 +446,20 @@ export class PhysicsStats implements PhysicsStatistics {
   public set narrowphase(value: number) {
     this._narrowphase = value;
   }
+
+  public get islands(): number {
+    return this._islands;
+  }
+
+  public set islands(value: number) {
+    this._islands = value;
+  }
+
+  public get sleepingBodies(): number {
+    return this._sleepingBodies;
+  }
+
+  public set sleepingBodies(value: number) {
+    this._sleepingBodies = value;
+  }
 }
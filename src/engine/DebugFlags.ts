@@ -1,5 +1,6 @@
 ﻿import { Engine } from './Engine';
 import { ColorBlindCorrector, ColorBlindness } from './PostProcessing/Index';
+import { ColorBlindnessPass } from './Graphics/PostProcessing/ColorBlindnessPass';
 
 export interface DebugFlags {
   colorBlindMode: ColorBlindFlags;
@@ -13,10 +14,18 @@ export class ColorBlindFlags {
   }
 
   public correct(colorBlindness: ColorBlindness) {
-    this._engine.postProcessors.push(new ColorBlindCorrector(this._engine, false, colorBlindness));
+    this._add(colorBlindness, false);
   }
 
   public simulate(colorBlindness: ColorBlindness) {
-    this._engine.postProcessors.push(new ColorBlindCorrector(this._engine, true, colorBlindness));
+    this._add(colorBlindness, true);
+  }
+
+  private _add(colorBlindness: ColorBlindness, simulate: boolean) {
+    if (this._engine.postProcessPipeline.isSupported) {
+      this._engine.postProcessPipeline.passes.push(new ColorBlindnessPass({ mode: colorBlindness, simulate }));
+    } else {
+      this._engine.postProcessors.push(new ColorBlindCorrector(this._engine, simulate, colorBlindness));
+    }
   }
 }
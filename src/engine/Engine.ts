@@ -39,7 +39,8 @@ import * as Input from './Input/Index';
 import * as Events from './Events';
 import { BrowserEvents } from './Util/Browser';
 import { obsolete } from './Util/Decorators';
-import { ExcaliburGraphicsContext, ExcaliburGraphicsContext2DCanvas, ExcaliburGraphicsContextWebGL } from './Graphics';
+import { ExcaliburGraphicsContext, ExcaliburGraphicsContext2DCanvas, ExcaliburGraphicsContextWebGL, PostProcessPipeline } from './Graphics';
+import { PhysicsConfig, PhysicsConfigOptions } from './Physics';
 
 /**
  * Enum representing the different mousewheel event bubble prevention
@@ -165,6 +166,21 @@ export interface EngineOptions {
    * Optionally set the background color
    */
   backgroundColor?: Color;
+
+  /**
+   * Optionally run the update step of the engine on a fixed timestep, specified as updates per second. By default updates run once
+   * per frame with a variable elapsed time.
+   *
+   * When set, [[Scene.update]] is always given the same elapsed time (`1000 / fixedUpdateFps` milliseconds), running zero or more times
+   * per frame to catch up with real time. Drawing still happens once per frame, see [[Engine.fixedUpdateAlpha]].
+   */
+  fixedUpdateFps?: number;
+
+  /**
+   * Optionally configure the physics settings of this engine, any setting not specified uses the global [[Physics]] defaults.
+   * Each [[Scene]] inherits these settings and can override them with [[Scene.physics]].
+   */
+  physics?: PhysicsConfigOptions;
 }
 
 /**
@@ -287,10 +303,17 @@ export class Engine extends Class implements CanInitialize, CanUpdate, CanDraw {
   }
 
   /**
-   * Gets or sets the list of post processors to apply at the end of drawing a frame (such as [[ColorBlindCorrector]])
+   * Gets or sets the list of post processors to apply at the end of drawing a frame (such as [[ColorBlindCorrector]]), they
+   * process the 2D canvas, use [[Engine.postProcessPipeline]] with the WebGL graphics context
    */
   public postProcessors: PostProcessor[] = [];
 
+  /**
+   * The full screen [[PostProcessPass|passes]] applied to the scene every frame in the WebGL graphics context, such as
+   * [[BloomPass]] or [[CrtPass]]
+   */
+  public postProcessPipeline: PostProcessPipeline;
+
   /**
    * The current [[Scene]] being drawn and updated on screen
    */
@@ -385,6 +408,30 @@ export class Engine extends Class implements CanInitialize, CanUpdate, CanDraw {
 
   private _isInitialized: boolean = false;
 
+  /**
+   * Optionally run the update step on a fixed timestep, specified as updates per second. See [[EngineOptions.fixedUpdateFps]].
+   *
+   * Set to `undefined` or `0` to go back to a variable timestep.
+   */
+  public fixedUpdateFps?: number;
+
+  private _fixedUpdateAlpha: number = 1;
+
+  /**
+   * The physics settings of this engine, scenes inherit these settings through [[Scene.physics]]
+   */
+  public readonly physics: PhysicsConfig = new PhysicsConfig();
+
+  /**
+   * The fraction (between 0 and 1) of a fixed update step that has elapsed past the last update when the current frame is drawn.
+   * Useful to interpolate drawing between the previous and current simulation state.
+   *
+   * Always 1 when [[fixedUpdateFps]] is not set.
+   */
+  public get fixedUpdateAlpha(): number {
+    return this._fixedUpdateAlpha;
+  }
+
   private _deferredGoTo: string = null;
 
   public on(eventName: Events.initialize, handler: (event: Events.InitializeEvent<Engine>) => void): void;
@@ -589,6 +636,7 @@ O|===|* >________________>\n\
       this.graphicsContext = ex2dCtx;
       this.ctx = ex2dCtx.__ctx;
     }
+    this.postProcessPipeline = new PostProcessPipeline(this.graphicsContext);
 
     this.screen = new Screen({
       canvas: this.canvas,
@@ -610,6 +658,10 @@ O|===|* >________________>\n\
 
     this.enableCanvasTransparency = options.enableCanvasTransparency;
 
+    this.fixedUpdateFps = options.fixedUpdateFps;
+
+    this.physics = new PhysicsConfig(options.physics);
+
     this._loader = new Loader();
     this.debug = new Debug(this);
 
@@ -1038,8 +1090,10 @@ O|===|* >________________>\n\
   /**
    * Draws the entire game
    * @param delta  Number of milliseconds elapsed since the last draw.
+   * @param alpha  Fraction of a fixed update step elapsed since the last update, see [[fixedUpdateAlpha]]
    */
-  private _draw(delta: number) {
+  private _draw(delta: number, alpha: number = 1) {
+    this._fixedUpdateAlpha = alpha;
     const ctx = this.ctx;
     this._predraw(ctx, delta);
 
@@ -1053,7 +1107,9 @@ O|===|* >________________>\n\
     // TODO move to graphics systems?
     this.graphicsContext.backgroundColor = this.backgroundColor;
 
+    this.postProcessPipeline.begin();
     this.currentScene.draw(this.ctx, delta);
+    this.postProcessPipeline.end();
 
     // todo needs to be a better way of doing this
     let a = 0;
@@ -1169,6 +1225,8 @@ O|===|* >________________>\n\
 
   public static createMainLoop(game: Engine, raf: (func: Function) => number, nowFn: () => number) {
     let lastTime = nowFn();
+    // milliseconds of simulation time owed to the fixed update step
+    let lagMs = 0;
 
     return function mainloop() {
       if (!game._hasStarted) {
@@ -1198,9 +1256,21 @@ O|===|* >________________>\n\
         game.stats.currFrame.fps = 1.0 / (delta / 1000);
 
         const beforeUpdate = nowFn();
-        game._update(delta);
+        let alpha = 1;
+        if (game.fixedUpdateFps) {
+          const fixedTimestepMs = 1000 / game.fixedUpdateFps;
+          lagMs += delta;
+          while (lagMs >= fixedTimestepMs) {
+            game._update(fixedTimestepMs);
+            lagMs -= fixedTimestepMs;
+          }
+          alpha = lagMs / fixedTimestepMs;
+        } else {
+          lagMs = 0;
+          game._update(delta);
+        }
         const afterUpdate = nowFn();
-        game._draw(delta);
+        game._draw(delta, alpha);
         const afterDraw = nowFn();
 
         game.stats.currFrame.duration.update = afterUpdate - beforeUpdate;
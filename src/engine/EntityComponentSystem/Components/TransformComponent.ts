@@ -230,4 +230,73 @@ export class TransformComponent extends Component<'ex.transform'> {
       this.scale = vec(val.x / parentTransform.globalScale.x, val.y / parentTransform.globalScale.y);
     }
   }
+
+  private _oldPos = vec(0, 0);
+  private _oldRotation = 0;
+  private _oldScale = vec(1, 1);
+  private _oldTransformCaptured = false;
+
+  /**
+   * Records the current local pos, rotation, and scale as the previous pose. Called before each simulation step so that drawing
+   * can blend between the previous and current pose when running with [[Engine.fixedUpdateFps]].
+   */
+  public captureOldTransform(): void {
+    this._oldPos.setTo(this.pos.x, this.pos.y);
+    this._oldRotation = this.rotation;
+    this._oldScale.setTo(this.scale.x, this.scale.y);
+    this._oldTransformCaptured = true;
+  }
+
+  /**
+   * The local position before the last simulation step, or the current position if none has been captured
+   */
+  public get oldPos(): Vector {
+    return this._oldTransformCaptured ? this._oldPos : this.pos;
+  }
+
+  /**
+   * The local rotation before the last simulation step, or the current rotation if none has been captured
+   */
+  public get oldRotation(): number {
+    return this._oldTransformCaptured ? this._oldRotation : this.rotation;
+  }
+
+  /**
+   * The local scale before the last simulation step, or the current scale if none has been captured
+   */
+  public get oldScale(): Vector {
+    return this._oldTransformCaptured ? this._oldScale : this.scale;
+  }
+
+  /**
+   * Returns the local position blended between the previous and current pose
+   * @param alpha  Blend factor where 0 is the previous pose and 1 is the current pose
+   */
+  public getInterpolatedPos(alpha: number): Vector {
+    const oldPos = this.oldPos;
+    const pos = this.pos;
+    return vec(oldPos.x + (pos.x - oldPos.x) * alpha, oldPos.y + (pos.y - oldPos.y) * alpha);
+  }
+
+  /**
+   * Returns the local rotation blended between the previous and current pose along the shortest arc
+   * @param alpha  Blend factor where 0 is the previous pose and 1 is the current pose
+   */
+  public getInterpolatedRotation(alpha: number): number {
+    const oldRotation = this.oldRotation;
+    const twoPi = Math.PI * 2;
+    // wrap the difference into [-PI, PI) so rotations crossing PI do not spin the long way around
+    const diff = ((((this.rotation - oldRotation + Math.PI) % twoPi) + twoPi) % twoPi) - Math.PI;
+    return oldRotation + diff * alpha;
+  }
+
+  /**
+   * Returns the local scale blended between the previous and current pose
+   * @param alpha  Blend factor where 0 is the previous pose and 1 is the current pose
+   */
+  public getInterpolatedScale(alpha: number): Vector {
+    const oldScale = this.oldScale;
+    const scale = this.scale;
+    return vec(oldScale.x + (scale.x - oldScale.x) * alpha, oldScale.y + (scale.y - oldScale.y) * alpha);
+  }
 }
@@ -33,6 +33,14 @@ export class SystemManager<ContextType> {
     }
   }
 
+  /**
+   * Returns the first system in the manager that is an instance of a system type, or null if there is none
+   * @param systemType
+   */
+  public get<T extends System<any, ContextType>>(systemType: new (...args: any[]) => T): T {
+    return (this.systems.find((s) => s instanceof systemType) as T) ?? null;
+  }
+
   /**
    * Removes a system from the manager, it will no longer be updated
    * @param system
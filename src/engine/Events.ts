@@ -33,6 +33,8 @@ export enum EventTypes {
   CollisionStart = 'collisionstart',
   CollisionEnd = 'collisionend',
   PostCollision = 'postcollision',
+  Sleep = 'sleep',
+  Wake = 'wake',
 
   Initialize = 'initialize',
   Activate = 'activate',
@@ -106,6 +108,8 @@ export type precollision = 'precollision';
 export type collisionstart = 'collisionstart';
 export type collisionend = 'collisionend';
 export type postcollision = 'postcollision';
+export type sleep = 'sleep';
+export type wake = 'wake';
 
 export type initialize = 'initialize';
 export type activate = 'activate';
@@ -493,6 +497,42 @@ export class CollisionEndEvent<T extends Collider | Entity = Actor> extends Game
   }
 }
 
+/**
+ * Event thrown when the [[Body|physics body]] of an [[Actor|actor]] falls asleep after coming to rest
+ */
+export class SleepEvent<T extends Collider | Entity = Actor> extends GameEvent<T> {
+  constructor(actor: T) {
+    super();
+    this.target = actor;
+  }
+
+  public get actor() {
+    return this.target;
+  }
+
+  public set actor(actor: T) {
+    this.target = actor;
+  }
+}
+
+/**
+ * Event thrown when the sleeping [[Body|physics body]] of an [[Actor|actor]] wakes up because of a contact or an impulse
+ */
+export class WakeEvent<T extends Collider | Entity = Actor> extends GameEvent<T> {
+  constructor(actor: T) {
+    super();
+    this.target = actor;
+  }
+
+  public get actor() {
+    return this.target;
+  }
+
+  public set actor(actor: T) {
+    this.target = actor;
+  }
+}
+
 /**
  * Event thrown on an [[Actor]] and a [[Scene]] only once before the first update call
  */
@@ -1,5 +1,7 @@
 import { Vector } from '../../Algebra';
 import { Color } from '../../Drawing/Color';
+import { Material } from '../Material';
+import { RenderTarget } from '../RenderTarget';
 
 export type HTMLImageSource = HTMLImageElement | HTMLCanvasElement;
 
@@ -11,8 +13,33 @@ export interface ExcaliburGraphicsContextOptions {
   backgroundColor?: Color;
 }
 
+/**
+ * How the colors of a drawing combine with the colors already drawn below it
+ */
+export enum BlendMode {
+  /**
+   * Draws on top of what is below, the default
+   */
+  Normal = 'normal',
+  /**
+   * Adds the colors to what is below, for glows, fire, and lights
+   */
+  Add = 'add',
+  /**
+   * Multiplies the colors with what is below, for shadows and darkening
+   */
+  Multiply = 'multiply',
+  /**
+   * Inverts, multiplies, and inverts again the colors with what is below, lightens without blowing out like [[BlendMode.Add]]
+   */
+  Screen = 'screen'
+}
+
 export interface ExcaliburGraphicsContextState {
   opacity: number;
+  tint: Color;
+  blendMode: BlendMode;
+  material: Material;
 }
 export interface LineGraphicsOptions {
   color: Color;
@@ -53,7 +80,13 @@ export interface DebugDraw {
 }
 
 export interface ExcaliburGraphicsContext {
+  /**
+   * The width of the surface being drawn to, the current [[RenderTarget]] or the screen
+   */
   width: number;
+  /**
+   * The height of the surface being drawn to, the current [[RenderTarget]] or the screen
+   */
   height: number;
 
   /**
@@ -76,6 +109,22 @@ export interface ExcaliburGraphicsContext {
    */
   opacity: number;
 
+  /**
+   * Sets the color the current [[Graphic]] being drawn is multiplied by, default is [[Color.White]] which leaves it unchanged
+   */
+  tint: Color;
+
+  /**
+   * Sets how the current [[Graphic]] being drawn blends with what is below it, default is [[BlendMode.Normal]]
+   */
+  blendMode: BlendMode;
+
+  /**
+   * Sets the [[Material]] the current [[Graphic]] is drawn with, default is null which draws it as is. Only the WebGL context
+   * supports materials.
+   */
+  material: Material;
+
   /**
    * Resets the current transform to the identity matrix
    */
@@ -118,7 +167,7 @@ export interface ExcaliburGraphicsContext {
   ): void;
 
   /**
-   * Save the current state of the canvas to the stack (transforms and opacity)
+   * Save the current state of the canvas to the stack (transforms, opacity, tint, blend mode, and material)
    */
   save(): void;
 
@@ -147,7 +196,18 @@ export interface ExcaliburGraphicsContext {
   scale(x: number, y: number): void;
 
   /**
-   * Clears the screen with the current background color
+   * Draws to a [[RenderTarget]] instead of the screen until it is popped, the current transform and state carry over
+   * @param target
+   */
+  pushRenderTarget(target: RenderTarget): void;
+
+  /**
+   * Stops drawing to the current [[RenderTarget]] and goes back to the previous render target or the screen
+   */
+  popRenderTarget(): void;
+
+  /**
+   * Clears the screen with the current background color, or the current [[RenderTarget]] with its background color
    */
   clear(): void;
 
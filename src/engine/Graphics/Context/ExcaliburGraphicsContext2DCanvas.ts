@@ -4,12 +4,23 @@ import {
   PointGraphicsOptions,
   ExcaliburGraphicsContextOptions,
   DebugDraw,
-  HTMLImageSource
+  HTMLImageSource,
+  BlendMode
 } from './ExcaliburGraphicsContext';
 import { Vector } from '../../Algebra';
 import { Color } from '../../Drawing/Color';
 import { StateStack } from './state-stack';
+import { Material } from '../Material';
+import { RenderTarget } from '../RenderTarget';
 import { GraphicsDiagnostics } from '../GraphicsDiagnostics';
+import { Logger } from '../../Util/Log';
+
+const compositeOperations: { [mode in BlendMode]: string } = {
+  [BlendMode.Normal]: 'source-over',
+  [BlendMode.Add]: 'lighter',
+  [BlendMode.Multiply]: 'multiply',
+  [BlendMode.Screen]: 'screen'
+};
 
 class ExcaliburGraphicsContext2DCanvasDebug implements DebugDraw {
   constructor(private _ex: ExcaliburGraphicsContext2DCanvas) {}
@@ -87,6 +98,44 @@ export class ExcaliburGraphicsContext2DCanvas implements ExcaliburGraphicsContex
     this._state.current.opacity = value;
   }
 
+  public get tint(): Color {
+    return this._state.current.tint;
+  }
+
+  public set tint(value: Color) {
+    this._state.current.tint = value;
+  }
+
+  public get blendMode(): BlendMode {
+    return this._state.current.blendMode;
+  }
+
+  public set blendMode(value: BlendMode) {
+    this._state.current.blendMode = value;
+  }
+
+  /**
+   * The canvas has no shaders, graphics with a material are drawn as usual
+   */
+  public get material(): Material {
+    return this._state.current.material;
+  }
+
+  public set material(value: Material) {
+    this._state.current.material = value;
+  }
+
+  /**
+   * Scratch canvas that tinted images are drawn to before they are drawn to the context
+   */
+  private _tintCanvas: HTMLCanvasElement = null;
+
+  /**
+   * The contexts that were drawn to before the current [[RenderTarget]] was pushed, the first is the screen
+   */
+  private _previousContexts: CanvasRenderingContext2D[] = [];
+  private _renderTargets: RenderTarget[] = [];
+
   public snapToPixel: boolean = true;
 
   public get smoothing(): boolean {
@@ -160,22 +209,56 @@ export class ExcaliburGraphicsContext2DCanvas implements ExcaliburGraphicsContex
       return; // zero dimension source exit early
     }
 
-    this.__ctx.globalAlpha = this.opacity;
-    const args = [image, sx, sy, swidth, sheight, dx, dy, dwidth, dheight]
-      .filter((a) => a !== undefined)
-      .map((a) => (typeof a === 'number' && this.snapToPixel ? ~~a : a));
+    const tint = this.tint;
+    this.__ctx.globalAlpha = this.opacity * tint.a;
+    this.__ctx.globalCompositeOperation = compositeOperations[this.blendMode];
+    let args = [image, sx, sy, swidth, sheight, dx, dy, dwidth, dheight].filter((a) => a !== undefined);
+    if (tint.r !== 255 || tint.g !== 255 || tint.b !== 255) {
+      args = this._tintImage(image, args.slice(1) as number[], tint);
+    }
+    args = args.map((a) => (typeof a === 'number' && this.snapToPixel ? ~~a : a));
     this.__ctx.drawImage.apply(this.__ctx, args);
+    this.__ctx.globalCompositeOperation = compositeOperations[BlendMode.Normal];
     GraphicsDiagnostics.DrawCallCount++;
     GraphicsDiagnostics.DrawnImagesCount = 1;
   }
 
+  /**
+   * The canvas has no tint so the part of the image being drawn is multiplied by the tint on a scratch canvas, the alpha of
+   * the image is kept by masking the result with the image again. Returns the drawImage arguments for the scratch canvas.
+   */
+  private _tintImage(image: HTMLImageSource, args: number[], tint: Color): (HTMLImageSource | number)[] {
+    let [sx, sy, swidth, sheight, dx, dy, dwidth, dheight] = args;
+    if (args.length <= 4) {
+      // only a destination was given, the whole image is drawn
+      [dx, dy, dwidth, dheight] = [sx, sy, swidth ?? image.width, sheight ?? image.height];
+      [sx, sy, swidth, sheight] = [0, 0, image.width, image.height];
+    }
+
+    if (!this._tintCanvas) {
+      this._tintCanvas = document.createElement('canvas');
+    }
+    const canvas = this._tintCanvas;
+    canvas.width = swidth;
+    canvas.height = sheight;
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(image, sx, sy, swidth, sheight, 0, 0, swidth, sheight);
+    ctx.globalCompositeOperation = 'multiply';
+    ctx.fillStyle = Color.fromRGB(tint.r, tint.g, tint.b).toString();
+    ctx.fillRect(0, 0, swidth, sheight);
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(image, sx, sy, swidth, sheight, 0, 0, swidth, sheight);
+    return [canvas, 0, 0, swidth, sheight, dx, dy, dwidth, dheight];
+  }
+
   debug = new ExcaliburGraphicsContext2DCanvasDebug(this);
 
   /**
-   * Save the current state of the canvas to the stack (transforms and opacity)
+   * Save the current state of the canvas to the stack (transforms, opacity, tint, blend mode, and material)
    */
   save(): void {
     this.__ctx.save();
+    this._state.save();
   }
 
   /**
@@ -183,6 +266,7 @@ export class ExcaliburGraphicsContext2DCanvas implements ExcaliburGraphicsContex
    */
   restore(): void {
     this.__ctx.restore();
+    this._state.restore();
   }
 
   /**
@@ -210,7 +294,35 @@ export class ExcaliburGraphicsContext2DCanvas implements ExcaliburGraphicsContex
     this.__ctx.scale(x, y);
   }
 
+  pushRenderTarget(target: RenderTarget): void {
+    const ctx = target.image.getContext('2d');
+    // the transform carries over like in the WebGL context
+    ctx.setTransform(this.__ctx.getTransform());
+    ctx.imageSmoothingEnabled = this.__ctx.imageSmoothingEnabled;
+    this._previousContexts.push(this.__ctx);
+    this._renderTargets.push(target);
+    this.__ctx = ctx;
+  }
+
+  popRenderTarget(): void {
+    if (!this._previousContexts.length) {
+      Logger.getInstance().warn('Cannot pop a render target, none was pushed');
+      return;
+    }
+    this.__ctx = this._previousContexts.pop();
+    this._renderTargets.pop();
+  }
+
   clear(): void {
+    if (this._renderTargets.length) {
+      this.__ctx.save();
+      this.__ctx.resetTransform();
+      this.__ctx.clearRect(0, 0, this.width, this.height);
+      this.__ctx.fillStyle = this._renderTargets[this._renderTargets.length - 1].backgroundColor.toString();
+      this.__ctx.fillRect(0, 0, this.width, this.height);
+      this.__ctx.restore();
+      return;
+    }
     // Clear frame
     this.__ctx.clearRect(0, 0, this.width, this.height);
     this.__ctx.fillStyle = this.backgroundColor.toString();
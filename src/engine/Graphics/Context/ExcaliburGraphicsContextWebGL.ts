@@ -5,7 +5,8 @@ import {
   PointGraphicsOptions,
   ExcaliburGraphicsContextOptions,
   DebugDraw,
-  HTMLImageSource
+  HTMLImageSource,
+  BlendMode
 } from './ExcaliburGraphicsContext';
 
 import { Matrix } from '../../Math/matrix';
@@ -13,6 +14,10 @@ import { TransformStack } from './transform-stack';
 import { Vector, vec } from '../../Algebra';
 import { Color } from '../../Drawing/Color';
 import { StateStack } from './state-stack';
+import { Material } from '../Material';
+import { RenderTarget } from '../RenderTarget';
+import { TextureLoader } from './texture-loader';
+import { ensurePowerOfTwo } from './webgl-util';
 import { Logger } from '../../Util/Log';
 import { LineRenderer } from './line-renderer';
 import { ImageRenderer } from './image-renderer';
@@ -57,6 +62,16 @@ class ExcaliburGraphicsContextWebGLDebug implements DebugDraw {
   }
 }
 
+/**
+ * The framebuffer a [[RenderTarget]] is drawn to and the size its texture was allocated for
+ */
+interface RenderTargetFramebuffer {
+  framebuffer: WebGLFramebuffer;
+  texture: WebGLTexture;
+  width: number;
+  height: number;
+}
+
 export interface WebGLGraphicsContextInfo {
   transform: TransformStack;
   state: StateStack;
@@ -83,6 +98,8 @@ export class ExcaliburGraphicsContextWebGL implements ExcaliburGraphicsContext {
   private _transform = new TransformStack();
   private _state = new StateStack();
   private _ortho!: Matrix;
+  private _renderTargets: RenderTarget[] = [];
+  private _framebuffers = new Map<RenderTarget, RenderTargetFramebuffer>();
 
   /**
    * Meant for internal use only. Access the internal context at your own risk and no guarantees this will exist in the future.
@@ -116,12 +133,40 @@ export class ExcaliburGraphicsContextWebGL implements ExcaliburGraphicsContext {
     this._state.current.opacity = value;
   }
 
+  public get tint(): Color {
+    return this._state.current.tint;
+  }
+
+  public set tint(value: Color) {
+    this._state.current.tint = value;
+  }
+
+  public get blendMode(): BlendMode {
+    return this._state.current.blendMode;
+  }
+
+  public set blendMode(value: BlendMode) {
+    this._state.current.blendMode = value;
+  }
+
+  public get material(): Material {
+    return this._state.current.material;
+  }
+
+  public set material(value: Material) {
+    this._state.current.material = value;
+  }
+
   public get width() {
-    return this.__gl.canvas.width;
+    return this._currentRenderTarget?.width ?? this.__gl.canvas.width;
   }
 
   public get height() {
-    return this.__gl.canvas.height;
+    return this._currentRenderTarget?.height ?? this.__gl.canvas.height;
+  }
+
+  private get _currentRenderTarget(): RenderTarget | undefined {
+    return this._renderTargets[this._renderTargets.length - 1];
   }
 
   constructor(options: ExcaliburGraphicsContextOptions) {
@@ -171,16 +216,83 @@ export class ExcaliburGraphicsContextWebGL implements ExcaliburGraphicsContext {
 
   public updateViewport(): void {
     const gl = this.__gl;
-    this._ortho = this._ortho = Matrix.ortho(0, gl.canvas.width, gl.canvas.height, 0, 400, -400);
-    this.__pointRenderer.shader.addUniformMatrix('u_matrix', this._ortho.data);
-    this.__lineRenderer.shader.addUniformMatrix('u_matrix', this._ortho.data);
-    this.__imageRenderer.shader.addUniformMatrix('u_matrix', this._ortho.data);
+    this._updateProjection();
 
     // 2D ctx shim
     this._canvas.width = gl.canvas.width;
     this._canvas.height = gl.canvas.height;
   }
 
+  /**
+   * Projects drawings onto the surface being drawn to, framebuffer textures are read bottom row first so render targets are
+   * projected upside down to read like images
+   */
+  private _updateProjection() {
+    this._ortho = this._currentRenderTarget
+      ? Matrix.ortho(0, this.width, 0, this.height, 400, -400)
+      : Matrix.ortho(0, this.width, this.height, 0, 400, -400);
+    this.__pointRenderer.shader.addUniformMatrix('u_matrix', this._ortho.data);
+    this.__lineRenderer.shader.addUniformMatrix('u_matrix', this._ortho.data);
+    this.__imageRenderer.shader.addUniformMatrix('u_matrix', this._ortho.data);
+  }
+
+  pushRenderTarget(target: RenderTarget): void {
+    // draw what was batched to the previous surface first
+    this.flush();
+    this._renderTargets.push(target);
+    this._bindRenderTarget();
+  }
+
+  popRenderTarget(): void {
+    if (!this._renderTargets.length) {
+      Logger.getInstance().warn('Cannot pop a render target, none was pushed');
+      return;
+    }
+    this.flush();
+    this._renderTargets.pop();
+    this._bindRenderTarget();
+  }
+
+  private _bindRenderTarget() {
+    const gl = this.__gl;
+    const target = this._currentRenderTarget;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target ? this._getFramebuffer(target) : null);
+    this._updateProjection();
+  }
+
+  /**
+   * Returns the framebuffer of a render target, its texture is allocated again when the render target was resized. The
+   * texture is associated with the image of the render target so sprites of it draw the texture. It holds the premultiplied
+   * colors written by the image shader, so they are not premultiplied again when it is drawn.
+   */
+  private _getFramebuffer(target: RenderTarget): WebGLFramebuffer {
+    const gl = this.__gl;
+    let renderTarget = this._framebuffers.get(target);
+    if (!renderTarget) {
+      renderTarget = { framebuffer: gl.createFramebuffer(), texture: gl.createTexture(), width: 0, height: 0 };
+      this._framebuffers.set(target, renderTarget);
+    }
+
+    if (renderTarget.width !== target.width || renderTarget.height !== target.height) {
+      gl.bindTexture(gl.TEXTURE_2D, renderTarget.texture);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+      // the image renderer expects power of two textures
+      const width = ensurePowerOfTwo(target.width);
+      const height = ensurePowerOfTwo(target.height);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+
+      gl.bindFramebuffer(gl.FRAMEBUFFER, renderTarget.framebuffer);
+      gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, renderTarget.texture, 0);
+      TextureLoader.set(target.image, renderTarget.texture, true);
+      renderTarget.width = target.width;
+      renderTarget.height = target.height;
+    }
+    return renderTarget.framebuffer;
+  }
+
   drawImage(image: HTMLImageSource, x: number, y: number): void;
   drawImage(image: HTMLImageSource, x: number, y: number, width: number, height: number): void;
   drawImage(
@@ -255,6 +367,13 @@ export class ExcaliburGraphicsContextWebGL implements ExcaliburGraphicsContext {
 
   clear() {
     const gl = this.__gl;
+    if (this._currentRenderTarget) {
+      const color = this._currentRenderTarget.backgroundColor;
+      // render targets hold premultiplied colors
+      gl.clearColor((color.r / 255) * color.a, (color.g / 255) * color.a, (color.b / 255) * color.a, color.a);
+      gl.clear(gl.COLOR_BUFFER_BIT);
+      return;
+    }
     gl.clearColor(this.backgroundColor.r / 255, this.backgroundColor.g / 255, this.backgroundColor.b / 255, this.backgroundColor.a);
     // Clear the context with the newly set color. This is
     // the function call that actually does the drawing.
@@ -267,7 +386,7 @@ export class ExcaliburGraphicsContextWebGL implements ExcaliburGraphicsContext {
    */
   flush() {
     const gl = this.__gl;
-    gl.viewport(0, 0, gl.canvas.width, gl.canvas.height);
+    gl.viewport(0, 0, this.width, this.height);
 
     this.__imageRenderer.render();
     this.__lineRenderer.render();
@@ -12,7 +12,7 @@ export class BatchCommand<T> implements Poolable {
     return false;
   }
 
-  canAdd() {
+  canAdd(_cmd?: T) {
     return !this.isFull();
   }
 
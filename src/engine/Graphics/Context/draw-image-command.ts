@@ -2,7 +2,8 @@ import { Matrix } from '../../Math/matrix';
 import { BoundingBox } from '../../Collision/Index';
 import { Color } from '../../Drawing/Color';
 import { Pool, Poolable } from '../../Util/Pool';
-import { HTMLImageSource } from './ExcaliburGraphicsContext';
+import { BlendMode, HTMLImageSource } from './ExcaliburGraphicsContext';
+import { Material } from '../Material';
 
 export class DrawImageCommand implements Poolable {
   _pool: Pool<this> = undefined;
@@ -10,6 +11,9 @@ export class DrawImageCommand implements Poolable {
   public snapToPixel: boolean = true;
   public image: HTMLImageSource;
   public opacity: number = 1;
+  public tint: Color = Color.White;
+  public blendMode: BlendMode = BlendMode.Normal;
+  public material: Material = null;
   public width: number = 0;
   public height: number = 0;
   public dest: [number, number] = [0, 0]; // x, y
@@ -92,6 +96,10 @@ export class DrawImageCommand implements Poolable {
 
   public dispose() {
     this.image = null;
+    this.opacity = 1;
+    this.tint = Color.White;
+    this.blendMode = BlendMode.Normal;
+    this.material = null;
     this.width = 0;
     this.height = 0;
     this.view = [0, 0, 0, 0];
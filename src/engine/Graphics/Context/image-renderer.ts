@@ -8,11 +8,70 @@ import { ensurePowerOfTwo } from './webgl-util';
 import { BatchRenderer } from './renderer';
 import { WebGLGraphicsContextInfo } from './ExcaliburGraphicsContextWebGL';
 import { TextureLoader } from './texture-loader';
-import { HTMLImageSource } from './ExcaliburGraphicsContext';
+import { BlendMode, HTMLImageSource } from './ExcaliburGraphicsContext';
+import { Material, UniformValue } from '../Material';
+import { Vector } from '../../Algebra';
+import { Color } from '../../Drawing/Color';
+import { Logger } from '../../Util/Log';
+
+/**
+ * Declares the inputs of the fragment shader of a [[Material]]
+ */
+const materialHeader = `precision mediump float;
+varying vec2 v_texcoord;
+varying float v_opacity;
+varying vec4 v_tint;
+uniform sampler2D u_graphic;
+uniform float u_time;
+uniform vec2 u_resolution;
+`;
+
+/**
+ * Returns the numbers of a float uniform of a material
+ */
+const toFloats = (value: UniformValue): number[] => {
+  if (value instanceof Vector) {
+    return [value.x, value.y];
+  }
+  if (value instanceof Color) {
+    return [value.r / 255, value.g / 255, value.b / 255, value.a];
+  }
+  if (Array.isArray(value)) {
+    return value;
+  }
+  return [+value];
+};
+
+/**
+ * Sets the WebGL blend function of a blend mode, the image shader outputs colors premultiplied by their alpha
+ */
+const applyBlendMode = (gl: WebGLRenderingContext, blendMode: BlendMode) => {
+  switch (blendMode) {
+    case BlendMode.Add:
+      gl.blendFunc(gl.ONE, gl.ONE);
+      break;
+    case BlendMode.Multiply:
+      gl.blendFunc(gl.DST_COLOR, gl.ONE_MINUS_SRC_ALPHA);
+      break;
+    case BlendMode.Screen:
+      gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_COLOR);
+      break;
+    default:
+      gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+  }
+};
 
 export class BatchImage extends BatchCommand<DrawImageCommand> {
   public textures: WebGLTexture[] = [];
   public commands: DrawImageCommand[] = [];
+  /**
+   * The blend mode of every command in the batch, a command with another blend mode starts a new batch
+   */
+  public blendMode: BlendMode = BlendMode.Normal;
+  /**
+   * The material of every command in the batch, a batch with a material holds a single texture
+   */
+  public material: Material = null;
   private _graphicMap: { [id: string]: Graphic } = {};
 
   constructor(public maxDraws: number, public maxTextures: number) {
@@ -29,11 +88,21 @@ export class BatchImage extends BatchCommand<DrawImageCommand> {
     return false;
   }
 
-  canAdd() {
+  canAdd(command?: DrawImageCommand) {
     if (this.commands.length >= this.maxDraws) {
       return false;
     }
 
+    if (command && this.commands.length) {
+      if (command.blendMode !== this.blendMode || command.material !== this.material) {
+        return false;
+      }
+      // the material shader samples one texture
+      if (this.material && this.textures.indexOf(TextureLoader.load(command.image)) === -1) {
+        return false;
+      }
+    }
+
     if (this.textures.length < this.maxTextures) {
       return true;
     }
@@ -63,6 +132,10 @@ export class BatchImage extends BatchCommand<DrawImageCommand> {
   }
 
   add(command: DrawImageCommand) {
+    if (!this.commands.length) {
+      this.blendMode = command.blendMode;
+      this.material = command.material;
+    }
     const texture = TextureLoader.load(command.image);
     if (this.textures.indexOf(texture) === -1) {
       this.textures.push(texture);
@@ -94,11 +167,16 @@ export class BatchImage extends BatchCommand<DrawImageCommand> {
   clear() {
     this.commands.length = 0;
     this.textures.length = 0;
+    this.blendMode = BlendMode.Normal;
+    this.material = null;
     this._graphicMap = {};
   }
 }
 
 export class ImageRenderer extends BatchRenderer<DrawImageCommand> {
+  private _materialShaders = new Map<Material, Shader>();
+  private _startTime = Date.now();
+
   constructor(gl: WebGLRenderingContext, private _contextInfo: WebGLGraphicsContextInfo) {
     super({
       gl,
@@ -116,10 +194,7 @@ export class ImageRenderer extends BatchRenderer<DrawImageCommand> {
     // Initialilze default batch rendering shader
     const maxGPUTextures = gl.getParameter(gl.MAX_TEXTURE_IMAGE_UNITS);
     const shader = new Shader(gl, imageVertexSource, this._transformFragmentSource(imageFragmentSource, maxGPUTextures));
-    shader.addAttribute('a_position', 3, gl.FLOAT);
-    shader.addAttribute('a_texcoord', 2, gl.FLOAT);
-    shader.addAttribute('a_textureIndex', 1, gl.FLOAT);
-    shader.addAttribute('a_opacity', 1, gl.FLOAT);
+    this._addAttributes(gl, shader);
     shader.addUniformMatrix('u_matrix', this._contextInfo.matrix.data);
     // Initialize texture slots to [0, 1, 2, 3, 4, .... maxGPUTextures]
     shader.addUniformIntegerArray(
@@ -129,13 +204,42 @@ export class ImageRenderer extends BatchRenderer<DrawImageCommand> {
     return shader;
   }
 
+  private _addAttributes(gl: WebGLRenderingContext, shader: Shader) {
+    shader.addAttribute('a_position', 3, gl.FLOAT);
+    shader.addAttribute('a_texcoord', 2, gl.FLOAT);
+    shader.addAttribute('a_textureIndex', 1, gl.FLOAT);
+    shader.addAttribute('a_opacity', 1, gl.FLOAT);
+    shader.addAttribute('a_tint', 4, gl.FLOAT);
+    shader.addAttribute('a_premultiplied', 1, gl.FLOAT);
+  }
+
+  /**
+   * Returns the shader of a material, it is compiled the first time the material is drawn. Returns null if the material does
+   * not compile, its graphics are then drawn with the default shader.
+   */
+  private _getMaterialShader(gl: WebGLRenderingContext, material: Material): Shader {
+    if (!this._materialShaders.has(material)) {
+      let shader: Shader = null;
+      try {
+        shader = new Shader(gl, imageVertexSource, materialHeader + material.fragmentSource);
+        // material shaders read the same vertices as the default shader
+        this._addAttributes(gl, shader);
+        shader.addUniformInteger('u_graphic', 0);
+        Object.keys(material.images).forEach((name, i) => shader.addUniformInteger(name, i + 1));
+      } catch (e) {
+        Logger.getInstance().error(`Material ${material.id} could not be compiled, its graphics are drawn without it`, e);
+      }
+      this._materialShaders.set(material, shader);
+    }
+    return this._materialShaders.get(material);
+  }
+
   private _transformFragmentSource(source: string, maxTextures: number): string {
     let newSource = source.replace('%%count%%', maxTextures.toString());
     let texturePickerBuilder = '';
     for (let i = 0; i < maxTextures; i++) {
       texturePickerBuilder += `   } else if (v_textureIndex <= ${i}.5) {\n
-                gl_FragColor = texture2D(u_textures[${i}], v_texcoord);\n
-                gl_FragColor.w = gl_FragColor.w * v_opacity;\n`;
+                color = texture2D(u_textures[${i}], v_texcoord);\n`;
     }
     newSource = newSource.replace('%%texture_picker%%', texturePickerBuilder);
     return newSource;
@@ -153,15 +257,51 @@ export class ImageRenderer extends BatchRenderer<DrawImageCommand> {
     dheight?: number
   ) {
     const command = this.commands.get().init(graphic, sx, sy, swidth, sheight, dx, dy, dwidth, dheight);
-    command.applyTransform(this._contextInfo.transform.current, this._contextInfo.state.current.opacity);
+    const state = this._contextInfo.state.current;
+    command.applyTransform(this._contextInfo.transform.current, state.opacity);
+    command.tint = state.tint;
+    command.blendMode = state.blendMode;
+    command.material = state.material;
     this.addCommand(command);
   }
 
   public renderBatch(gl: WebGLRenderingContext, batch: BatchImage, vertexCount: number) {
-    // Bind textures in the correct order
-    batch.bindTextures(gl);
+    const materialShader = batch.material ? this._getMaterialShader(gl, batch.material) : null;
+    if (materialShader) {
+      this._useMaterial(gl, batch, materialShader);
+    } else {
+      // Bind textures in the correct order
+      batch.bindTextures(gl);
+    }
+    applyBlendMode(gl, batch.blendMode);
     // draw the quads
     gl.drawArrays(gl.TRIANGLES, 0, vertexCount);
+    // the other renderers draw colors that are not premultiplied
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+    if (materialShader) {
+      this.shader.use();
+    }
+  }
+
+  /**
+   * Switches to the program of a material and binds the texture of the batch and the images of the material
+   */
+  private _useMaterial(gl: WebGLRenderingContext, batch: BatchImage, shader: Shader) {
+    const material = batch.material;
+    shader.addUniformMatrix('u_matrix', this.shader.uniforms.u_matrix.data);
+    shader.addUniformFloat('u_time', [(Date.now() - this._startTime) / 1000]);
+    shader.addUniformFloat('u_resolution', [gl.canvas.width, gl.canvas.height]);
+    for (const name in material.uniforms) {
+      shader.addUniformFloat(name, toFloats(material.uniforms[name]));
+    }
+    shader.use();
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, batch.textures[0]);
+    Object.keys(material.images).forEach((name, i) => {
+      gl.activeTexture(gl.TEXTURE0 + i + 1);
+      gl.bindTexture(gl.TEXTURE_2D, TextureLoader.load(material.images[name]));
+    });
   }
 
   buildBatchVertices(vertexBuffer: Float32Array, batch: BatchImage): number {
@@ -173,7 +313,16 @@ export class ImageRenderer extends BatchRenderer<DrawImageCommand> {
     let potWidth: number = 0;
     let potHeight: number = 0;
     let textureId = 0;
+    let tintR = 1;
+    let tintG = 1;
+    let tintB = 1;
+    let tintA = 1;
+    let premultiplied = 0;
     for (const command of batch.commands) {
+      tintR = command.tint.r / 255;
+      tintG = command.tint.g / 255;
+      tintB = command.tint.b / 255;
+      tintA = command.tint.a;
       sx = command.view[0];
       sy = command.view[1];
       sw = command.view[2];
@@ -183,6 +332,7 @@ export class ImageRenderer extends BatchRenderer<DrawImageCommand> {
       potHeight = ensurePowerOfTwo(command.image.height || command.height);
 
       textureId = batch.getBatchTextureId(command);
+      premultiplied = TextureLoader.isPremultiplied(command.image) ? 1 : 0;
 
       // potential optimization when divding by 2 (bitshift)
       // Modifying the images to poweroftwo images warp the UV coordinates
@@ -204,6 +354,13 @@ export class ImageRenderer extends BatchRenderer<DrawImageCommand> {
       vertexBuffer[vertIndex++] = textureId;
       // opacity
       vertexBuffer[vertIndex++] = command.opacity;
+      // tint
+      vertexBuffer[vertIndex++] = tintR;
+      vertexBuffer[vertIndex++] = tintG;
+      vertexBuffer[vertIndex++] = tintB;
+      vertexBuffer[vertIndex++] = tintA;
+      // premultiplied
+      vertexBuffer[vertIndex++] = premultiplied;
 
       // (0, 1)
       vertexBuffer[vertIndex++] = command.geometry[1][0]; // x + 0 * width;
@@ -217,6 +374,13 @@ export class ImageRenderer extends BatchRenderer<DrawImageCommand> {
       vertexBuffer[vertIndex++] = textureId;
       // opacity
       vertexBuffer[vertIndex++] = command.opacity;
+      // tint
+      vertexBuffer[vertIndex++] = tintR;
+      vertexBuffer[vertIndex++] = tintG;
+      vertexBuffer[vertIndex++] = tintB;
+      vertexBuffer[vertIndex++] = tintA;
+      // premultiplied
+      vertexBuffer[vertIndex++] = premultiplied;
 
       // (1, 0)
       vertexBuffer[vertIndex++] = command.geometry[2][0]; // x + 1 * width;
@@ -230,6 +394,13 @@ export class ImageRenderer extends BatchRenderer<DrawImageCommand> {
       vertexBuffer[vertIndex++] = textureId;
       // opacity
       vertexBuffer[vertIndex++] = command.opacity;
+      // tint
+      vertexBuffer[vertIndex++] = tintR;
+      vertexBuffer[vertIndex++] = tintG;
+      vertexBuffer[vertIndex++] = tintB;
+      vertexBuffer[vertIndex++] = tintA;
+      // premultiplied
+      vertexBuffer[vertIndex++] = premultiplied;
 
       // (1, 0)
       vertexBuffer[vertIndex++] = command.geometry[3][0]; // x + 1 * width;
@@ -243,6 +414,13 @@ export class ImageRenderer extends BatchRenderer<DrawImageCommand> {
       vertexBuffer[vertIndex++] = textureId;
       // opacity
       vertexBuffer[vertIndex++] = command.opacity;
+      // tint
+      vertexBuffer[vertIndex++] = tintR;
+      vertexBuffer[vertIndex++] = tintG;
+      vertexBuffer[vertIndex++] = tintB;
+      vertexBuffer[vertIndex++] = tintA;
+      // premultiplied
+      vertexBuffer[vertIndex++] = premultiplied;
 
       // (0, 1)
       vertexBuffer[vertIndex++] = command.geometry[4][0]; // x + 0 * width;
@@ -256,6 +434,13 @@ export class ImageRenderer extends BatchRenderer<DrawImageCommand> {
       vertexBuffer[vertIndex++] = textureId;
       // opacity
       vertexBuffer[vertIndex++] = command.opacity;
+      // tint
+      vertexBuffer[vertIndex++] = tintR;
+      vertexBuffer[vertIndex++] = tintG;
+      vertexBuffer[vertIndex++] = tintB;
+      vertexBuffer[vertIndex++] = tintA;
+      // premultiplied
+      vertexBuffer[vertIndex++] = premultiplied;
 
       // (1, 1)
       vertexBuffer[vertIndex++] = command.geometry[5][0]; // x + 1 * width;
@@ -269,6 +454,13 @@ export class ImageRenderer extends BatchRenderer<DrawImageCommand> {
       vertexBuffer[vertIndex++] = textureId;
       // opacity
       vertexBuffer[vertIndex++] = command.opacity;
+      // tint
+      vertexBuffer[vertIndex++] = tintR;
+      vertexBuffer[vertIndex++] = tintG;
+      vertexBuffer[vertIndex++] = tintB;
+      vertexBuffer[vertIndex++] = tintA;
+      // premultiplied
+      vertexBuffer[vertIndex++] = premultiplied;
     }
 
     return vertIndex / this.vertexSize;
@@ -84,7 +84,7 @@ export abstract class BatchRenderer<T extends Poolable> implements Renderer {
     }
 
     const lastBatch = this._batches[this._batches.length - 1];
-    if (lastBatch.canAdd()) {
+    if (lastBatch.canAdd(cmd)) {
       lastBatch.add(cmd);
     } else {
       const newBatch = this._batchPool.get();
@@ -117,6 +117,42 @@ export class Shader {
     };
   }
 
+  /**
+   * Add a uniform float or float vector to the shader, it is set again if it was added before
+   * @param name Name of the uniform in the shader source
+   * @param data 1 to 4 numbers for a `float` to a `vec4`
+   */
+  public addUniformFloat(name: string, data: number[]) {
+    if (!data) {
+      throw Error(`Shader Uniform Float '${name}' was set to null or undefined`);
+    }
+    const gl = this._gl;
+    this.uniforms[name] = {
+      name,
+      type: 'float',
+      location: this.uniforms[name]?.location ?? gl.getUniformLocation(this.program, name),
+      data: data
+    };
+  }
+
+  /**
+   * Add a uniform integer to the shader, like the texture unit of a `sampler2D`, it is set again if it was added before
+   * @param name Name of the uniform in the shader source
+   * @param data The number
+   */
+  public addUniformInteger(name: string, data: number) {
+    if (data === null || data === undefined) {
+      throw Error(`Shader Uniform Integer '${name}' was set to null or undefined`);
+    }
+    const gl = this._gl;
+    this.uniforms[name] = {
+      name,
+      type: 'integer',
+      location: this.uniforms[name]?.location ?? gl.getUniformLocation(this.program, name),
+      data: data
+    };
+  }
+
   /**
    * Add attributes in the order they appear in the VBO
    * @param name Name of the attribute in the shader source
@@ -198,8 +234,11 @@ export class Shader {
     gl.useProgram(this.program);
     let offset = 0;
     for (const vert of this.layout) {
-      gl.vertexAttribPointer(vert.location, vert.size, vert.glType, vert.normalized, this.totalVertexSizeBytes, offset);
-      gl.enableVertexAttribArray(vert.location);
+      // attributes the program does not read have no location but still take up space in the vertex
+      if (vert.location !== -1) {
+        gl.vertexAttribPointer(vert.location, vert.size, vert.glType, vert.normalized, this.totalVertexSizeBytes, offset);
+        gl.enableVertexAttribArray(vert.location);
+      }
       offset += this.getAttributeSize(vert.name);
     }
 
@@ -214,6 +253,30 @@ export class Shader {
           gl.uniform1iv(uniform.location, uniform.data);
           break;
         }
+        case 'integer': {
+          gl.uniform1i(uniform.location, uniform.data);
+          break;
+        }
+        case 'float': {
+          switch (uniform.data.length) {
+            case 1: {
+              gl.uniform1f(uniform.location, uniform.data[0]);
+              break;
+            }
+            case 2: {
+              gl.uniform2fv(uniform.location, uniform.data);
+              break;
+            }
+            case 3: {
+              gl.uniform3fv(uniform.location, uniform.data);
+              break;
+            }
+            default: {
+              gl.uniform4fv(uniform.location, uniform.data);
+            }
+          }
+          break;
+        }
       }
     }
   }
@@ -9,6 +9,12 @@ varying lowp float v_textureIndex;
 // Opacity
 varying float v_opacity;
 
+// Tint
+varying vec4 v_tint;
+
+// Whether the texture is premultiplied by alpha
+varying float v_premultiplied;
+
 uniform sampler2D u_textures[%%count%%];
 
 void main() {
@@ -21,10 +27,17 @@ void main() {
 
    // Always at least 1 texture at 0
    if (v_textureIndex <= .5) {
-      gl_FragColor = texture2D(u_textures[0], v_texcoord);
-      gl_FragColor.w = gl_FragColor.w * v_opacity;
+      color = texture2D(u_textures[0], v_texcoord);
       %%texture_picker%%
+   }
+
+   if (v_premultiplied > .5) {
+      // Render target textures already hold premultiplied colors, so the opacity and tint alpha scale every channel
+      gl_FragColor = color * vec4(v_tint.rgb, 1.0) * (v_opacity * v_tint.a);
    } else {
-      gl_FragColor = color;
+      color.w = color.w * v_opacity;
+      gl_FragColor = color * v_tint;
+      // Premultiply the alpha so the blend modes can be expressed as blend functions
+      gl_FragColor.rgb = gl_FragColor.rgb * gl_FragColor.a;
    }
 }
\ No newline at end of file
@@ -4,6 +4,10 @@ attribute vec4 a_position;
 attribute float a_opacity;
 varying float v_opacity;
 
+// Tint
+attribute vec4 a_tint;
+varying vec4 v_tint;
+
 // UV coordinate
 attribute vec2 a_texcoord;
 varying vec2 v_texcoord;
@@ -12,6 +16,10 @@ varying vec2 v_texcoord;
 attribute lowp float a_textureIndex;
 varying lowp float v_textureIndex;
 
+// Whether the texture is premultiplied by alpha
+attribute float a_premultiplied;
+varying float v_premultiplied;
+
 uniform mat4 u_matrix;
 
 
@@ -21,8 +29,12 @@ void main() {
 
    // Pass through the Opacity to the fragment shader
    v_opacity = a_opacity;
+   // Pass through the tint to the fragment shader
+   v_tint = a_tint;
    // Pass through the UV coord to the fragment shader
    v_texcoord = a_texcoord;
    // Pass through the texture number to the fragment shader
    v_textureIndex = a_textureIndex;
+   // Pass through whether the texture is premultiplied to the fragment shader
+   v_premultiplied = a_premultiplied;
 }
\ No newline at end of file
@@ -1,18 +1,25 @@
-import { ExcaliburGraphicsContextState } from './ExcaliburGraphicsContext';
+import { Color } from '../../Drawing/Color';
+import { BlendMode, ExcaliburGraphicsContextState } from './ExcaliburGraphicsContext';
 
 export class StateStack {
   private _states: ExcaliburGraphicsContextState[] = [];
   private _currentState: ExcaliburGraphicsContextState = this._getDefaultState();
 
-  private _getDefaultState() {
+  private _getDefaultState(): ExcaliburGraphicsContextState {
     return {
-      opacity: 1
+      opacity: 1,
+      tint: Color.White,
+      blendMode: BlendMode.Normal,
+      material: null
     };
   }
 
   private _cloneState() {
     return {
-      opacity: this._currentState.opacity
+      opacity: this._currentState.opacity,
+      tint: this._currentState.tint,
+      blendMode: this._currentState.blendMode,
+      material: this._currentState.material
     };
   }
 
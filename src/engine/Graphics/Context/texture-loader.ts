@@ -11,6 +11,7 @@ export class TextureLoader {
   private static _GL: WebGLRenderingContext;
 
   private static _TEXTURE_MAP = new Map<HTMLImageSource, WebGLTexture>();
+  private static _PREMULTIPLIED = new Set<HTMLImageSource>();
 
   public static registerContext(context: WebGLRenderingContext): void {
     TextureLoader._GL = context;
@@ -24,6 +25,29 @@ export class TextureLoader {
     return TextureLoader._TEXTURE_MAP.get(image);
   }
 
+  /**
+   * Associates an existing texture with a source image, for example the texture a [[RenderTarget]] is drawn to
+   * @param image
+   * @param texture
+   * @param premultiplied  Whether the texture holds colors premultiplied by their alpha, like everything drawn by the image shader
+   */
+  public static set(image: HTMLImageSource, texture: WebGLTexture, premultiplied = false): void {
+    TextureLoader._TEXTURE_MAP.set(image, texture);
+    if (premultiplied) {
+      TextureLoader._PREMULTIPLIED.add(image);
+    } else {
+      TextureLoader._PREMULTIPLIED.delete(image);
+    }
+  }
+
+  /**
+   * Returns whether the texture of a source image holds colors premultiplied by their alpha, see [[TextureLoader.set]]
+   * @param image
+   */
+  public static isPremultiplied(image: HTMLImageSource): boolean {
+    return TextureLoader._PREMULTIPLIED.has(image);
+  }
+
   /**
    * Returns whether a source image has been loaded as a texture
    * @param image
@@ -32,6 +56,20 @@ export class TextureLoader {
     return TextureLoader._TEXTURE_MAP.has(image);
   }
 
+  /**
+   * Deletes the texture of a source image from webgl, for example when a cached graphic is no longer drawn. The texture is loaded
+   * again if the image is drawn later.
+   * @param image
+   */
+  public static delete(image: HTMLImageSource): void {
+    const tex = TextureLoader._TEXTURE_MAP.get(image);
+    if (tex) {
+      TextureLoader._GL?.deleteTexture(tex);
+      TextureLoader._TEXTURE_MAP.delete(image);
+      TextureLoader._PREMULTIPLIED.delete(image);
+    }
+  }
+
   /**
    * Loads a graphic into webgl and returns it's texture info, a webgl context must be previously registered
    * @param image Source graphic
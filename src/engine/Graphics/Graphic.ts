@@ -1,6 +1,8 @@
 import { Vector, vec } from '../Algebra';
-import { ExcaliburGraphicsContext } from './Context/ExcaliburGraphicsContext';
+import { BlendMode, ExcaliburGraphicsContext } from './Context/ExcaliburGraphicsContext';
 import { BoundingBox } from '../Collision/BoundingBox';
+import { Color } from '../Drawing/Color';
+import { Material } from './Material';
 
 export interface GraphicOptions {
   /**
@@ -31,6 +33,18 @@ export interface GraphicOptions {
    * The opacity of the graphic
    */
   opacity?: number;
+  /**
+   * The color the graphic is multiplied by, for example [[Color.Red]] to flash a sprite red
+   */
+  tint?: Color;
+  /**
+   * How the graphic blends with what is drawn below it, for example [[BlendMode.Add]] to make a sprite glow
+   */
+  blendMode?: BlendMode;
+  /**
+   * The [[Material]] the graphic is drawn with in the WebGL context
+   */
+  material?: Material;
   /**
    * The origin of the drawing in pixels to use when applying transforms, by default it will be the center of the image
    */
@@ -74,6 +88,23 @@ export abstract class Graphic {
    */
   public opacity: number = 1;
 
+  /**
+   * Gets or sets the color the graphic is multiplied by, the tint of the context is multiplied too. Null leaves the colors
+   * unchanged.
+   */
+  public tint: Color | null = null;
+
+  /**
+   * Gets or sets how the graphic blends with what is drawn below it. Null uses the blend mode of the context, by default
+   * [[BlendMode.Normal]].
+   */
+  public blendMode: BlendMode | null = null;
+
+  /**
+   * Gets or sets the [[Material]] the graphic is drawn with. Null uses the material of the context, by default none.
+   */
+  public material: Material | null = null;
+
   /**
    * Gets or sets the scale of the graphic, this affects the width and
    */
@@ -91,6 +122,9 @@ export abstract class Graphic {
       this.flipVertical = options.flipVertical ?? this.flipVertical;
       this.rotation = options.rotation ?? this.rotation;
       this.opacity = options.opacity ?? this.opacity;
+      this.tint = options.tint ?? this.tint;
+      this.blendMode = options.blendMode ?? this.blendMode;
+      this.material = options.material ?? this.material;
       this.scale = options.scale ?? this.scale;
     }
   }
@@ -102,6 +136,9 @@ export abstract class Graphic {
       flipVertical: this.flipVertical,
       rotation: this.rotation,
       opacity: this.opacity,
+      tint: this.tint ? this.tint.clone() : null,
+      blendMode: this.blendMode,
+      material: this.material,
       scale: this.scale ? this.scale.clone() : null
     };
   }
@@ -175,6 +212,15 @@ export abstract class Graphic {
     this._flip(ex);
     // it is important to multiply alphas so graphics respect the current context
     ex.opacity = ex.opacity * this.opacity;
+    if (this.tint) {
+      ex.tint = ex.tint.multiply(this.tint);
+    }
+    if (this.blendMode) {
+      ex.blendMode = this.blendMode;
+    }
+    if (this.material) {
+      ex.material = this.material;
+    }
   }
 
   protected _rotate(ex: ExcaliburGraphicsContext) {
@@ -5,6 +5,7 @@ import { ExcaliburGraphicsContext } from './Context/ExcaliburGraphicsContext';
 import { Logger } from '../Util/Log';
 import { BoundingBox } from '../Collision/Index';
 import { Component } from '../EntityComponentSystem/Component';
+import { Material } from './Material';
 
 export function hasGraphicsTick(graphic: Graphic): graphic is Graphic & HasTick {
   return !!(graphic as unknown as HasTick).tick;
@@ -39,6 +40,11 @@ export interface GraphicsComponentOptions {
    */
   opacity?: number;
 
+  /**
+   * Optional [[Material]] all graphics are drawn with
+   */
+  material?: Material;
+
   /**
    * List of graphics
    */
@@ -251,6 +257,11 @@ export class GraphicsComponent extends Component<'ex.graphics'> {
    */
   public opacity: number = 1;
 
+  /**
+   * Sets or gets the [[Material]] all drawings are drawn with in the WebGL context, a material on a graphic takes precedence
+   */
+  public material: Material | null = null;
+
   /**
    * Offset to apply to graphics by default
    */
@@ -274,11 +285,12 @@ export class GraphicsComponent extends Component<'ex.graphics'> {
       ...options
     };
 
-    const { current, anchor, opacity, visible, graphics, offset, copyGraphics, onPreDraw, onPostDraw } = options;
+    const { current, anchor, opacity, material, visible, graphics, offset, copyGraphics, onPreDraw, onPostDraw } = options;
 
     this._graphics = graphics || {};
     this.offset = offset ?? this.offset;
     this.opacity = opacity ?? this.opacity;
+    this.material = material ?? this.material;
     this.anchor = anchor ?? this.anchor;
     this.copyGraphics = copyGraphics ?? this.copyGraphics;
     this.onPreDraw = onPreDraw ?? this.onPreDraw;
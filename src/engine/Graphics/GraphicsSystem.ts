@@ -76,6 +76,9 @@ export class GraphicsSystem extends System<TransformComponent | GraphicsComponen
       this._graphicsPositionDebugDraw();
 
       this._graphicsContext.opacity = graphics.opacity * ((entity as any).opacity ?? 1);
+      if (graphics.material) {
+        this._graphicsContext.material = graphics.material;
+      }
 
       // Draw the graphics component
       this._drawGraphicsComponent(graphics);
@@ -141,17 +144,27 @@ export class GraphicsSystem extends System<TransformComponent | GraphicsComponen
   }
 
   /**
-   * This applies the current entity transform to the graphics context
+   * This applies the current entity transform to the graphics context. When running with a fixed update step the pose is
+   * blended between the previous and current update by [[Engine.fixedUpdateAlpha]].
    * @param entity
    */
   private _applyTransform(entity: Entity): void {
     const ancestors = entity.getAncestors();
+    const alpha = this._engine?.fixedUpdateAlpha ?? 1;
     for (const ancestor of ancestors) {
       const transform = ancestor?.get(TransformComponent);
       if (transform) {
-        this._graphicsContext.translate(transform.pos.x, transform.pos.y);
-        this._graphicsContext.scale(transform.scale.x, transform.scale.y);
-        this._graphicsContext.rotate(transform.rotation);
+        if (alpha < 1) {
+          const pos = transform.getInterpolatedPos(alpha);
+          const scale = transform.getInterpolatedScale(alpha);
+          this._graphicsContext.translate(pos.x, pos.y);
+          this._graphicsContext.scale(scale.x, scale.y);
+          this._graphicsContext.rotate(transform.getInterpolatedRotation(alpha));
+        } else {
+          this._graphicsContext.translate(transform.pos.x, transform.pos.y);
+          this._graphicsContext.scale(transform.scale.x, transform.scale.y);
+          this._graphicsContext.rotate(transform.rotation);
+        }
       }
     }
   }
@@ -0,0 +1,82 @@
+import { Vector } from '../Algebra';
+import { Color } from '../Drawing/Color';
+import { HTMLImageSource } from './Context/ExcaliburGraphicsContext';
+
+/**
+ * A value of a uniform of a [[Material]], numbers and booleans are `float` uniforms, [[Vector|vectors]] are `vec2`, [[Color|colors]]
+ * are `vec4` with components from 0 to 1, and arrays of 2 to 4 numbers are `vec2` to `vec4`
+ */
+export type UniformValue = number | boolean | Vector | Color | number[];
+
+export interface MaterialOptions {
+  /**
+   * The GLSL source of the fragment shader, see [[Material]] for the inputs it is given
+   */
+  fragmentSource: string;
+  /**
+   * Optionally the values of the uniforms declared in the fragment shader
+   */
+  uniforms?: { [name: string]: UniformValue };
+  /**
+   * Optionally extra images the fragment shader samples, by the name of their `sampler2D` uniform
+   */
+  images?: { [name: string]: HTMLImageSource };
+}
+
+/**
+ * A Material draws [[Graphic|graphics]] through a custom fragment shader in the [[ExcaliburGraphicsContextWebGL]], for effects
+ * like outlines, dissolves, or water. The 2D canvas context has no shaders and draws graphics with a material as usual.
+ *
+ * The fragment shader is given these inputs, they are declared before the source so it only declares its own uniforms:
+ *
+ * - `varying vec2 v_texcoord` the texture coordinate of the fragment
+ * - `varying float v_opacity` the opacity of the graphic
+ * - `varying vec4 v_tint` the tint of the graphic
+ * - `uniform sampler2D u_graphic` the image of the graphic
+ * - `uniform float u_time` the seconds since the context was created
+ * - `uniform vec2 u_resolution` the size of the canvas in pixels
+ *
+ * The color written to `gl_FragColor` must be premultiplied by its alpha so it works with every [[BlendMode]]:
+ *
+ * ```typescript
+ * const flash = new ex.Graphics.Material({
+ *   fragmentSource: `
+ *     uniform vec4 u_color;
+ *     void main() {
+ *       vec4 color = texture2D(u_graphic, v_texcoord) * v_tint;
+ *       color.rgb = mix(color.rgb, u_color.rgb, abs(sin(u_time * 10.0)));
+ *       color.a *= v_opacity;
+ *       gl_FragColor = vec4(color.rgb * color.a, color.a);
+ *     }`,
+ *   uniforms: { u_color: ex.Color.White }
+ * });
+ * player.graphics.material = flash;
+ * ```
+ *
+ * A material can be shared by many graphics, changing its uniforms changes all of them.
+ */
+export class Material {
+  private static _ID: number = 0;
+  readonly id = Material._ID++;
+
+  /**
+   * The GLSL source of the fragment shader
+   */
+  public readonly fragmentSource: string;
+
+  /**
+   * The values of the uniforms declared in the fragment shader, they are sent to the shader every time it draws
+   */
+  public uniforms: { [name: string]: UniformValue };
+
+  /**
+   * The extra images the fragment shader samples by the name of their `sampler2D` uniform
+   */
+  public images: { [name: string]: HTMLImageSource };
+
+  constructor(options: MaterialOptions) {
+    this.fragmentSource = options.fragmentSource;
+    this.uniforms = { ...options.uniforms };
+    this.images = { ...options.images };
+  }
+}
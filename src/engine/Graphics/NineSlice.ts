@@ -0,0 +1,195 @@
+import { Vector } from '../Algebra';
+import { BoundingBox } from '../Collision/BoundingBox';
+import { Graphic, GraphicOptions } from './Graphic';
+import { ImageSource } from './ImageSource';
+import { SourceView } from './Sprite';
+import { ExcaliburGraphicsContext } from './Context/ExcaliburGraphicsContext';
+
+/**
+ * How the edges or the center of a [[NineSlice]] fill their space
+ */
+export enum NineSliceMode {
+  /**
+   * Stretches the image to fill the space
+   */
+  Stretch = 'stretch',
+  /**
+   * Repeats the image at its size to fill the space, the last repetition is cut off
+   */
+  Tile = 'tile'
+}
+
+/**
+ * The size in pixels of the borders of a [[NineSlice]] in its image
+ */
+export interface NineSliceInsets {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+export interface NineSliceOptions {
+  /**
+   * Image to slice
+   */
+  image: ImageSource;
+  /**
+   * The size of the borders in the image, the corners are the size of the borders and are never stretched
+   */
+  insets: NineSliceInsets;
+  /**
+   * Optionally the part of the image to slice, for example a frame in a sprite sheet, by default the whole image
+   */
+  sourceView?: SourceView;
+  /**
+   * Optionally how the edges fill their space, by default [[NineSliceMode.Stretch]]
+   */
+  edges?: NineSliceMode;
+  /**
+   * Optionally how the center fills its space, by default [[NineSliceMode.Stretch]]
+   */
+  center?: NineSliceMode;
+}
+
+/**
+ * A NineSlice [[Graphic]] draws an image at any size without distorting its borders, for panels, buttons, and dialog boxes. The
+ * image is sliced into 9 parts by its insets, the corners are drawn as they are, the top and bottom edges fill the width, the left
+ * and right edges fill the height, and the center fills the rest:
+ *
+ * ```typescript
+ * const panel = new ex.Graphics.NineSlice({
+ *   image: Resources.Panel,
+ *   insets: { left: 8, right: 8, top: 8, bottom: 8 },
+ *   center: ex.Graphics.NineSliceMode.Tile,
+ *   width: 300,
+ *   height: 200
+ * });
+ *
+ * // resize the panel at any time
+ * panel.width = 400;
+ * ```
+ *
+ * When the graphic is smaller than the borders, the borders shrink to fit.
+ */
+export class NineSlice extends Graphic {
+  public image: ImageSource;
+  public insets: NineSliceInsets;
+  public sourceView: SourceView | null;
+  public edges: NineSliceMode;
+  public center: NineSliceMode;
+
+  constructor(options: GraphicOptions & NineSliceOptions) {
+    super(options);
+    this.image = options.image;
+    this.insets = { ...options.insets };
+    this.sourceView = options.sourceView ? { ...options.sourceView } : null;
+    this.edges = options.edges ?? NineSliceMode.Stretch;
+    this.center = options.center ?? NineSliceMode.Stretch;
+    this._destinationWidth = options.width;
+    this._destinationHeight = options.height;
+  }
+
+  private _destinationWidth: number | undefined;
+  /**
+   * Gets or sets the width the nine slice is drawn at, by default the width of the image
+   */
+  public get width() {
+    return this._destinationWidth ?? this._getSourceView().width;
+  }
+
+  public set width(value: number) {
+    this._destinationWidth = value;
+  }
+
+  private _destinationHeight: number | undefined;
+  /**
+   * Gets or sets the height the nine slice is drawn at, by default the height of the image
+   */
+  public get height() {
+    return this._destinationHeight ?? this._getSourceView().height;
+  }
+
+  public set height(value: number) {
+    this._destinationHeight = value;
+  }
+
+  /**
+   * Returns the local bounds of the nine slice including scale
+   */
+  public get localBounds() {
+    return BoundingBox.fromDimension(this.width * this.scale.x, this.height * this.scale.y, Vector.Zero);
+  }
+
+  private _getSourceView(): SourceView {
+    return this.sourceView ?? { x: 0, y: 0, width: this.image.width, height: this.image.height };
+  }
+
+  public _drawImage(ex: ExcaliburGraphicsContext, x: number, y: number): void {
+    if (!this.image.isLoaded()) {
+      return;
+    }
+    const source = this._getSourceView();
+    const { left, right, top, bottom } = this.insets;
+    const columns = this._slice(source.x, source.width, left, right, x, this.width);
+    const rows = this._slice(source.y, source.height, top, bottom, y, this.height);
+    const tileEdges = this.edges === NineSliceMode.Tile;
+    const tileCenter = this.center === NineSliceMode.Tile;
+
+    for (let row = 0; row < 3; row++) {
+      for (let column = 0; column < 3; column++) {
+        // the top and bottom edges fill the width, the left and right edges fill the height
+        const tileX = column === 1 && (row === 1 ? tileCenter : tileEdges);
+        const tileY = row === 1 && (column === 1 ? tileCenter : tileEdges);
+        this._drawPart(ex, columns[column], rows[row], tileX, tileY);
+      }
+    }
+  }
+
+  /**
+   * Splits one axis into the start border, the middle, and the end border, returns their source position, source size,
+   * destination position, and destination size. The borders shrink to fit a destination smaller than them.
+   */
+  private _slice(sourceStart: number, sourceSize: number, startInset: number, endInset: number, start: number, size: number) {
+    const shrink = Math.min(1, size / (startInset + endInset || 1));
+    const startSize = startInset * shrink;
+    const endSize = endInset * shrink;
+    return [
+      [sourceStart, startInset, start, startSize],
+      [sourceStart + startInset, sourceSize - startInset - endInset, start + startSize, size - startSize - endSize],
+      [sourceStart + sourceSize - endInset, endInset, start + size - endSize, endSize]
+    ];
+  }
+
+  private _drawPart(ex: ExcaliburGraphicsContext, column: number[], row: number[], tileX: boolean, tileY: boolean) {
+    const [sx, sw, dx, dw] = column;
+    const [sy, sh, dy, dh] = row;
+    if (sw <= 0 || sh <= 0 || dw <= 0 || dh <= 0) {
+      return;
+    }
+
+    // a tiled part is drawn at the size of its source, the last tile is cut off
+    const stepX = tileX ? sw : dw;
+    const stepY = tileY ? sh : dh;
+    for (let offsetY = 0; offsetY < dh; offsetY += stepY) {
+      const height = Math.min(stepY, dh - offsetY);
+      for (let offsetX = 0; offsetX < dw; offsetX += stepX) {
+        const width = Math.min(stepX, dw - offsetX);
+        ex.drawImage(this.image.image, sx, sy, tileX ? width : sw, tileY ? height : sh, dx + offsetX, dy + offsetY, width, height);
+      }
+    }
+  }
+
+  public clone(): NineSlice {
+    return new NineSlice({
+      image: this.image,
+      insets: { ...this.insets },
+      sourceView: this.sourceView ? { ...this.sourceView } : null,
+      edges: this.edges,
+      center: this.center,
+      width: this._destinationWidth,
+      height: this._destinationHeight,
+      ...this.cloneGraphicOptions()
+    });
+  }
+}
@@ -0,0 +1,107 @@
+import { vec } from '../../Algebra';
+import { ExcaliburGraphicsContext } from '../Context/ExcaliburGraphicsContext';
+import { Material } from '../Material';
+import { RenderTarget } from '../RenderTarget';
+import { drawWithMaterial, PostProcessPass, PostProcessPassOptions } from './PostProcessPass';
+
+export interface BloomPassOptions extends PostProcessPassOptions {
+  /**
+   * Optionally the brightness from 0 to 1 above which colors glow, by default 0.7
+   */
+  threshold?: number;
+  /**
+   * Optionally how strong the glow is, by default 1
+   */
+  intensity?: number;
+  /**
+   * Optionally how far the glow spreads in pixels per blur sample, by default 2
+   */
+  radius?: number;
+}
+
+/**
+ * Makes the bright parts of the screen glow. The bright colors are drawn to a render target, blurred horizontally and vertically,
+ * and added to the screen.
+ */
+export class BloomPass extends PostProcessPass {
+  public threshold: number;
+  public intensity: number;
+  public radius: number;
+
+  private _bright = new RenderTarget({ width: 1, height: 1 });
+  private _blurred = new RenderTarget({ width: 1, height: 1 });
+
+  private _brightMaterial = new Material({
+    fragmentSource: `
+      uniform float u_threshold;
+      void main() {
+        vec4 color = texture2D(u_graphic, v_texcoord);
+        float brightness = dot(color.rgb, vec3(0.2126, 0.7152, 0.0722));
+        gl_FragColor = color * smoothstep(u_threshold, u_threshold + 0.1, brightness);
+      }`
+  });
+
+  private _blurMaterial = new Material({
+    fragmentSource: `
+      uniform vec2 u_texelSize;
+      uniform vec2 u_direction;
+      uniform float u_radius;
+      void main() {
+        vec2 offset = u_direction * u_texelSize * u_radius;
+        vec4 sum = texture2D(u_graphic, v_texcoord) * 0.227027;
+        sum += (texture2D(u_graphic, v_texcoord + offset) + texture2D(u_graphic, v_texcoord - offset)) * 0.1945946;
+        sum += (texture2D(u_graphic, v_texcoord + offset * 2.0) + texture2D(u_graphic, v_texcoord - offset * 2.0)) * 0.1216216;
+        sum += (texture2D(u_graphic, v_texcoord + offset * 3.0) + texture2D(u_graphic, v_texcoord - offset * 3.0)) * 0.054054;
+        sum += (texture2D(u_graphic, v_texcoord + offset * 4.0) + texture2D(u_graphic, v_texcoord - offset * 4.0)) * 0.016216;
+        gl_FragColor = sum;
+      }`
+  });
+
+  private _combineMaterial = new Material({
+    fragmentSource: `
+      uniform sampler2D u_bloom;
+      uniform float u_intensity;
+      void main() {
+        vec4 color = texture2D(u_graphic, v_texcoord);
+        vec4 bloom = texture2D(u_bloom, v_texcoord) * u_intensity;
+        gl_FragColor = vec4(color.rgb + bloom.rgb, min(color.a + bloom.a, 1.0));
+      }`,
+    images: { u_bloom: this._bright.image }
+  });
+
+  constructor(options: BloomPassOptions = {}) {
+    super(options);
+    this.threshold = options.threshold ?? 0.7;
+    this.intensity = options.intensity ?? 1;
+    this.radius = options.radius ?? 2;
+  }
+
+  public draw(ctx: ExcaliburGraphicsContext, source: RenderTarget): void {
+    for (const target of [this._bright, this._blurred]) {
+      if (target.width !== source.width || target.height !== source.height) {
+        target.resize(source.width, source.height);
+      }
+    }
+
+    this._brightMaterial.uniforms.u_threshold = this.threshold;
+    this._drawTo(ctx, this._bright, source, this._brightMaterial);
+
+    // the blur is separable, blurring across and then down is as good as blurring both ways at once and much cheaper
+    this._blurMaterial.uniforms.u_radius = this.radius;
+    this._blurMaterial.uniforms.u_direction = vec(1, 0);
+    this._drawTo(ctx, this._blurred, this._bright, this._blurMaterial);
+    this._blurMaterial.uniforms.u_direction = vec(0, 1);
+    this._drawTo(ctx, this._bright, this._blurred, this._blurMaterial);
+
+    this._combineMaterial.uniforms.u_intensity = this.intensity;
+    drawWithMaterial(ctx, source, this._combineMaterial);
+  }
+
+  private _drawTo(ctx: ExcaliburGraphicsContext, target: RenderTarget, source: RenderTarget, material: Material) {
+    ctx.pushRenderTarget(target);
+    ctx.clear();
+    drawWithMaterial(ctx, source, material);
+    // popping draws the batch while the uniforms of the material are still the ones of this step
+    ctx.popRenderTarget();
+  }
+}
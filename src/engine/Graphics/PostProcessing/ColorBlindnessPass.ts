@@ -0,0 +1,83 @@
+import { ColorBlindness } from '../../PostProcessing/ColorBlindCorrector';
+import { PostProcessPassOptions, ShaderPass } from './PostProcessPass';
+
+/**
+ * The rows of the matrix that simulates each color blindness in LMS color space
+ */
+const simulations: { [mode in ColorBlindness]: number[][] } = {
+  [ColorBlindness.Protanope]: [
+    [0.0, 2.02344, -2.52581],
+    [0.0, 1.0, 0.0],
+    [0.0, 0.0, 1.0]
+  ],
+  [ColorBlindness.Deuteranope]: [
+    [1.0, 0.0, 0.0],
+    [0.494207, 0.0, 1.24827],
+    [0.0, 0.0, 1.0]
+  ],
+  [ColorBlindness.Tritanope]: [
+    [1.0, 0.0, 0.0],
+    [0.0, 1.0, 0.0],
+    [-0.395913, 0.801109, 0.0]
+  ]
+};
+
+export interface ColorBlindnessPassOptions extends PostProcessPassOptions {
+  /**
+   * Optionally the color blindness to correct or simulate, by default [[ColorBlindness.Protanope]]
+   */
+  mode?: ColorBlindness;
+  /**
+   * Optionally simulate how the screen looks with the color blindness instead of correcting it, by default false
+   */
+  simulate?: boolean;
+}
+
+/**
+ * Corrects the colors of the screen for a color blindness, or simulates it to check a game while developing it. The
+ * [[ColorBlindCorrector]] of the 2D canvas does the same.
+ */
+export class ColorBlindnessPass extends ShaderPass {
+  public mode: ColorBlindness;
+  public simulate: boolean;
+
+  constructor(options: ColorBlindnessPassOptions = {}) {
+    super({
+      ...options,
+      fragmentSource: `
+        uniform vec3 u_l;
+        uniform vec3 u_m;
+        uniform vec3 u_s;
+        uniform float u_simulate;
+        void main() {
+          vec4 o = texture2D(u_graphic, v_texcoord);
+          // RGB to LMS
+          vec3 lms = vec3(
+            dot(vec3(17.8824, 43.5161, 4.11935), o.rgb),
+            dot(vec3(3.45565, 27.1554, 3.86714), o.rgb),
+            dot(vec3(0.0299566, 0.184309, 1.46709), o.rgb)
+          );
+          vec3 simulated = vec3(dot(u_l, lms), dot(u_m, lms), dot(u_s, lms));
+          // LMS to RGB
+          vec3 error = vec3(
+            dot(vec3(0.0809444479, -0.130504409, 0.116721066), simulated),
+            dot(vec3(-0.0102485335, 0.0540193266, -0.113614708), simulated),
+            dot(vec3(-0.000365296938, -0.00412161469, 0.693511405), simulated)
+          );
+          vec3 diff = o.rgb - error;
+          vec3 correction = o.rgb + vec3(0.0, diff.r * 0.7 + diff.g, diff.r * 0.7 + diff.b);
+          gl_FragColor = vec4(clamp(mix(correction, error, u_simulate), 0.0, o.a), o.a);
+        }`
+    });
+    this.mode = options.mode ?? ColorBlindness.Protanope;
+    this.simulate = options.simulate ?? false;
+  }
+
+  protected _updateUniforms(): void {
+    const [l, m, s] = simulations[this.mode];
+    this.material.uniforms.u_l = l;
+    this.material.uniforms.u_m = m;
+    this.material.uniforms.u_s = s;
+    this.material.uniforms.u_simulate = this.simulate;
+  }
+}
@@ -0,0 +1,74 @@
+import { vec } from '../../Algebra';
+import { ExcaliburGraphicsContext } from '../Context/ExcaliburGraphicsContext';
+import { ensurePowerOfTwo } from '../Context/webgl-util';
+import { ImageSource } from '../ImageSource';
+import { RenderTarget } from '../RenderTarget';
+import { drawWithMaterial, PostProcessPassOptions, ShaderPass } from './PostProcessPass';
+
+export interface ColorGradingPassOptions extends PostProcessPassOptions {
+  /**
+   * The color lookup table, a strip of `size` squares of `size` by `size` pixels. Red increases to the right in every square,
+   * green increases downwards, and blue increases from square to square.
+   */
+  lut: ImageSource;
+  /**
+   * Optionally the number of colors per channel of the lookup table, by default 16 for a 256 by 16 pixels strip
+   */
+  size?: number;
+  /**
+   * Optionally how much of the graded color is used from 0 to 1, by default 1
+   */
+  intensity?: number;
+}
+
+/**
+ * Changes every color of the screen to the color a lookup table maps it to, to give a scene a mood like a film. A lookup table
+ * is made by grading an image of the neutral table in any image editor.
+ */
+export class ColorGradingPass extends ShaderPass {
+  public lut: ImageSource;
+  public size: number;
+  public intensity: number;
+
+  constructor(options: ColorGradingPassOptions) {
+    super({
+      ...options,
+      fragmentSource: `
+        uniform sampler2D u_lut;
+        uniform float u_size;
+        uniform vec2 u_lutScale;
+        uniform float u_intensity;
+
+        vec3 lookup(vec3 color, float square) {
+          vec2 texel = color.rg * (u_size - 1.0) + 0.5;
+          vec2 coord = vec2(square * u_size + texel.x, texel.y) / vec2(u_size * u_size, u_size);
+          return texture2D(u_lut, coord * u_lutScale).rgb;
+        }
+
+        void main() {
+          vec4 color = texture2D(u_graphic, v_texcoord);
+          // the table maps colors that are not premultiplied
+          vec3 straight = color.a > 0.0 ? color.rgb / color.a : color.rgb;
+          float blue = straight.b * (u_size - 1.0);
+          float square = floor(blue);
+          vec3 graded = mix(lookup(straight, square), lookup(straight, min(square + 1.0, u_size - 1.0)), blue - square);
+          gl_FragColor = vec4(mix(straight, graded, u_intensity) * color.a, color.a);
+        }`,
+      images: { u_lut: options.lut.image }
+    });
+    this.lut = options.lut;
+    this.size = options.size ?? 16;
+    this.intensity = options.intensity ?? 1;
+  }
+
+  public draw(ctx: ExcaliburGraphicsContext, source: RenderTarget): void {
+    const loaded = this.lut.isLoaded();
+    // the frame is drawn as is until the lookup table is loaded
+    const lut = loaded ? this.lut.image : source.image;
+    this.material.images.u_lut = lut;
+    this.material.uniforms.u_size = this.size;
+    this.material.uniforms.u_lutScale = vec(lut.width / ensurePowerOfTwo(lut.width), lut.height / ensurePowerOfTwo(lut.height));
+    this.material.uniforms.u_intensity = loaded ? this.intensity : 0;
+    drawWithMaterial(ctx, source, this.material);
+  }
+}
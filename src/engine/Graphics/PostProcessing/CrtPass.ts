@@ -0,0 +1,57 @@
+import { PostProcessPassOptions, ShaderPass } from './PostProcessPass';
+
+export interface CrtPassOptions extends PostProcessPassOptions {
+  /**
+   * Optionally how much the screen bulges like the glass of a tube, 0 is flat, by default 0.1
+   */
+  curvature?: number;
+  /**
+   * Optionally how dark the scanlines are from 0 to 1, by default 0.25
+   */
+  scanlineIntensity?: number;
+  /**
+   * Optionally the number of scanlines from the top to the bottom of the screen, by default 240
+   */
+  scanlineCount?: number;
+}
+
+/**
+ * Makes the screen look like an old CRT television with curved glass and scanlines
+ */
+export class CrtPass extends ShaderPass {
+  public curvature: number;
+  public scanlineIntensity: number;
+  public scanlineCount: number;
+
+  constructor(options: CrtPassOptions = {}) {
+    super({
+      ...options,
+      fragmentSource: `
+        uniform float u_curvature;
+        uniform float u_scanlineIntensity;
+        uniform float u_scanlineCount;
+        void main() {
+          vec2 scale = u_texelSize * u_resolution;
+          vec2 uv = v_texcoord / scale * 2.0 - 1.0;
+          uv += uv * uv.yx * uv.yx * u_curvature;
+          uv = uv * 0.5 + 0.5;
+          if (uv.x < 0.0 || uv.x > 1.0 || uv.y < 0.0 || uv.y > 1.0) {
+            gl_FragColor = vec4(0.0, 0.0, 0.0, 1.0);
+            return;
+          }
+          vec4 color = texture2D(u_graphic, uv * scale);
+          float scanline = 1.0 - u_scanlineIntensity * (0.5 + 0.5 * sin(uv.y * u_scanlineCount * 6.2831853));
+          gl_FragColor = vec4(color.rgb * scanline, color.a);
+        }`
+    });
+    this.curvature = options.curvature ?? 0.1;
+    this.scanlineIntensity = options.scanlineIntensity ?? 0.25;
+    this.scanlineCount = options.scanlineCount ?? 240;
+  }
+
+  protected _updateUniforms(): void {
+    this.material.uniforms.u_curvature = this.curvature;
+    this.material.uniforms.u_scanlineIntensity = this.scanlineIntensity;
+    this.material.uniforms.u_scanlineCount = this.scanlineCount;
+  }
+}
@@ -0,0 +1,34 @@
+import { PostProcessPassOptions, ShaderPass } from './PostProcessPass';
+
+export interface PixelatePassOptions extends PostProcessPassOptions {
+  /**
+   * Optionally the size of the blocks the screen is drawn with in pixels, by default 4
+   */
+  pixelSize?: number;
+}
+
+/**
+ * Draws the screen with large blocks of color, for a retro look or to transition between scenes by growing the blocks
+ */
+export class PixelatePass extends ShaderPass {
+  public pixelSize: number;
+
+  constructor(options: PixelatePassOptions = {}) {
+    super({
+      ...options,
+      fragmentSource: `
+        uniform float u_pixelSize;
+        void main() {
+          vec2 block = u_texelSize * max(u_pixelSize, 1.0);
+          // sample the middle of the block without leaving the screen
+          vec2 coord = min((floor(v_texcoord / block) + 0.5) * block, (u_resolution - 0.5) * u_texelSize);
+          gl_FragColor = texture2D(u_graphic, coord);
+        }`
+    });
+    this.pixelSize = options.pixelSize ?? 4;
+  }
+
+  protected _updateUniforms(): void {
+    this.material.uniforms.u_pixelSize = this.pixelSize;
+  }
+}
@@ -0,0 +1,91 @@
+import { vec } from '../../Algebra';
+import { ExcaliburGraphicsContext } from '../Context/ExcaliburGraphicsContext';
+import { ensurePowerOfTwo } from '../Context/webgl-util';
+import { Material, MaterialOptions } from '../Material';
+import { RenderTarget } from '../RenderTarget';
+
+export interface PostProcessPassOptions {
+  /**
+   * Optionally whether the pass is applied, by default true
+   */
+  enabled?: boolean;
+}
+
+/**
+ * A PostProcessPass is a full screen effect applied to every frame by a [[PostProcessPipeline]], for example [[BloomPass]] or
+ * [[VignettePass]]. Passes are applied in order, each one draws the result of the previous one.
+ */
+export abstract class PostProcessPass {
+  /**
+   * Whether the pass is applied, disabled passes are skipped so a pass can be toggled at any time
+   */
+  public enabled: boolean = true;
+
+  constructor(options: PostProcessPassOptions = {}) {
+    this.enabled = options.enabled ?? this.enabled;
+  }
+
+  /**
+   * Draws the source processed by the pass to the surface the context is drawing to. The source and the surface are the size of
+   * the screen and the context has no transform.
+   * @param ctx  The graphics context
+   * @param source  The frame so far
+   */
+  public abstract draw(ctx: ExcaliburGraphicsContext, source: RenderTarget): void;
+}
+
+/**
+ * Draws a render target with a [[Material]], the `u_texelSize` uniform of the material is set to the size of a pixel of the
+ * render target in texture coordinates
+ * @internal
+ */
+export const drawWithMaterial = (ctx: ExcaliburGraphicsContext, source: RenderTarget, material: Material) => {
+  material.uniforms.u_texelSize = vec(1 / ensurePowerOfTwo(source.width), 1 / ensurePowerOfTwo(source.height));
+  ctx.material = material;
+  ctx.drawImage(source.image, 0, 0);
+  ctx.material = null;
+};
+
+export interface ShaderPassOptions extends PostProcessPassOptions, MaterialOptions {}
+
+/**
+ * A ShaderPass is a [[PostProcessPass]] that draws the frame through the fragment shader of a [[Material]], `u_graphic` is the
+ * frame so far and holds premultiplied colors. Besides the inputs of every material the shader is given
+ * `uniform vec2 u_texelSize`, the size of a pixel in texture coordinates:
+ *
+ * ```typescript
+ * const invert = new ex.Graphics.ShaderPass({
+ *   fragmentSource: `
+ *     void main() {
+ *       vec4 color = texture2D(u_graphic, v_texcoord);
+ *       gl_FragColor = vec4(color.a - color.rgb, color.a);
+ *     }`
+ * });
+ * engine.postProcessPipeline.passes.push(invert);
+ * ```
+ *
+ * The position of a fragment on the screen from 0 to 1 is `v_texcoord / (u_texelSize * u_resolution)`.
+ */
+export class ShaderPass extends PostProcessPass {
+  /**
+   * The material the frame is drawn with, its uniforms can be changed at any time
+   */
+  public readonly material: Material;
+
+  constructor(options: ShaderPassOptions) {
+    super(options);
+    this.material = new Material({ ...options, fragmentSource: 'uniform vec2 u_texelSize;\n' + options.fragmentSource });
+  }
+
+  /**
+   * Called before every draw to copy the settings of a built in pass to the uniforms of its material
+   */
+  protected _updateUniforms(): void {
+    // Override me
+  }
+
+  public draw(ctx: ExcaliburGraphicsContext, source: RenderTarget): void {
+    this._updateUniforms();
+    drawWithMaterial(ctx, source, this.material);
+  }
+}
@@ -0,0 +1,108 @@
+import { Color } from '../../Drawing/Color';
+import { Logger } from '../../Util/Log';
+import { ExcaliburGraphicsContext, BlendMode } from '../Context/ExcaliburGraphicsContext';
+import { ExcaliburGraphicsContextWebGL } from '../Context/ExcaliburGraphicsContextWebGL';
+import { RenderTarget } from '../RenderTarget';
+import { PostProcessPass } from './PostProcessPass';
+
+/**
+ * The PostProcessPipeline applies full screen [[PostProcessPass|passes]] to every frame drawn with the
+ * [[ExcaliburGraphicsContextWebGL]]. Between [[PostProcessPipeline.begin]] and [[PostProcessPipeline.end]] the frame is drawn to a
+ * [[RenderTarget]], then the enabled passes are applied in order and the last one draws to the screen. The engine runs its
+ * pipeline around drawing the scene:
+ *
+ * ```typescript
+ * const crt = new ex.Graphics.CrtPass();
+ * game.postProcessPipeline.passes.push(new ex.Graphics.BloomPass(), crt, new ex.Graphics.VignettePass());
+ *
+ * // toggle a pass at runtime
+ * crt.enabled = false;
+ * ```
+ *
+ * The 2D canvas context has no shaders, its frames are drawn without the passes.
+ */
+export class PostProcessPipeline {
+  /**
+   * The passes applied to every frame in order
+   */
+  public passes: PostProcessPass[] = [];
+
+  private _scene = new RenderTarget({ width: 1, height: 1 });
+  private _targets = [new RenderTarget({ width: 1, height: 1 }), new RenderTarget({ width: 1, height: 1 })];
+  private _isProcessing = false;
+  private _hasWarned = false;
+
+  constructor(private _context: ExcaliburGraphicsContext, passes: PostProcessPass[] = []) {
+    this.passes = passes;
+  }
+
+  /**
+   * Whether the graphics context can apply the passes, only the [[ExcaliburGraphicsContextWebGL]] can
+   */
+  public get isSupported(): boolean {
+    return this._context instanceof ExcaliburGraphicsContextWebGL;
+  }
+
+  /**
+   * Starts drawing the frame to a render target if any pass is enabled
+   */
+  public begin(): void {
+    const enabled = this.passes.some((pass) => pass.enabled);
+    if (enabled && !this.isSupported && !this._hasWarned) {
+      Logger.getInstance().warn('Post processing passes are only applied in the WebGL graphics context');
+      this._hasWarned = true;
+    }
+    this._isProcessing = enabled && this.isSupported;
+    if (!this._isProcessing) {
+      return;
+    }
+
+    const ctx = this._context;
+    for (const target of [this._scene, ...this._targets]) {
+      if (target.width !== ctx.width || target.height !== ctx.height) {
+        target.resize(ctx.width, ctx.height);
+      }
+    }
+    // the frame is cleared with the background of the screen so the passes process it too
+    this._scene.backgroundColor = ctx.backgroundColor;
+    ctx.pushRenderTarget(this._scene);
+  }
+
+  /**
+   * Applies the enabled passes to the frame drawn since [[PostProcessPipeline.begin]] and draws the result to the screen
+   */
+  public end(): void {
+    if (!this._isProcessing) {
+      return;
+    }
+    this._isProcessing = false;
+
+    const ctx = this._context;
+    ctx.popRenderTarget();
+    ctx.save();
+    ctx.resetTransform();
+    ctx.opacity = 1;
+    ctx.tint = Color.White;
+    ctx.blendMode = BlendMode.Normal;
+    ctx.material = null;
+
+    const passes = this.passes.filter((pass) => pass.enabled);
+    let source = this._scene;
+    passes.forEach((pass, i) => {
+      // the passes take turns drawing to the two targets, the last one draws to the screen
+      const destination = i < passes.length - 1 ? this._targets[i % 2] : null;
+      if (destination) {
+        ctx.pushRenderTarget(destination);
+      }
+      ctx.clear();
+      pass.draw(ctx, source);
+      if (destination) {
+        ctx.popRenderTarget();
+        source = destination;
+      }
+    });
+
+    ctx.restore();
+    ctx.flush();
+  }
+}
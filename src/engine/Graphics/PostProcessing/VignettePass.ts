@@ -0,0 +1,59 @@
+import { Color } from '../../Drawing/Color';
+import { PostProcessPassOptions, ShaderPass } from './PostProcessPass';
+
+export interface VignettePassOptions extends PostProcessPassOptions {
+  /**
+   * Optionally how much the edges are darkened from 0 to 1, by default 0.5
+   */
+  intensity?: number;
+  /**
+   * Optionally the distance from the center where the vignette ends, 0.5 is the middle of the edges, by default 0.75
+   */
+  radius?: number;
+  /**
+   * Optionally the distance over which the vignette fades in, by default 0.45
+   */
+  softness?: number;
+  /**
+   * Optionally the color of the vignette, by default black
+   */
+  color?: Color;
+}
+
+/**
+ * Darkens the edges of the screen to draw the eye to the center
+ */
+export class VignettePass extends ShaderPass {
+  public intensity: number;
+  public radius: number;
+  public softness: number;
+  public color: Color;
+
+  constructor(options: VignettePassOptions = {}) {
+    super({
+      ...options,
+      fragmentSource: `
+        uniform float u_intensity;
+        uniform float u_radius;
+        uniform float u_softness;
+        uniform vec4 u_color;
+        void main() {
+          vec4 color = texture2D(u_graphic, v_texcoord);
+          vec2 uv = v_texcoord / (u_texelSize * u_resolution);
+          float vignette = 1.0 - smoothstep(u_radius - u_softness, u_radius, distance(uv, vec2(0.5)));
+          gl_FragColor = vec4(mix(color.rgb, u_color.rgb * color.a, (1.0 - vignette) * u_intensity), color.a);
+        }`
+    });
+    this.intensity = options.intensity ?? 0.5;
+    this.radius = options.radius ?? 0.75;
+    this.softness = options.softness ?? 0.45;
+    this.color = options.color ?? Color.Black;
+  }
+
+  protected _updateUniforms(): void {
+    this.material.uniforms.u_intensity = this.intensity;
+    this.material.uniforms.u_radius = this.radius;
+    this.material.uniforms.u_softness = this.softness;
+    this.material.uniforms.u_color = this.color;
+  }
+}
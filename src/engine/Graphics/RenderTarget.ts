@@ -0,0 +1,122 @@
+import { Sprite } from './Sprite';
+import { Screen } from '../Screen';
+import { Color } from '../Drawing/Color';
+
+export interface RenderTargetOptions {
+  /**
+   * The width of the render target in pixels
+   */
+  width: number;
+  /**
+   * The height of the render target in pixels
+   */
+  height: number;
+  /**
+   * Optionally the color the render target is cleared with, by default transparent
+   */
+  backgroundColor?: Color;
+}
+
+/**
+ * A RenderTarget is an offscreen surface the [[ExcaliburGraphicsContext]] can draw to instead of the screen, for minimaps,
+ * mirrors, split screens, or layers that are expensive to draw and rarely change. In the WebGL context it is drawn to with a
+ * framebuffer, in the 2D canvas context with a canvas.
+ *
+ * Drawings go to the most recently pushed render target until it is popped, the transform and state of the context carry over:
+ *
+ * ```typescript
+ * const minimap = new ex.Graphics.RenderTarget({ width: 200, height: 150 });
+ * const minimapSprite = minimap.toSprite();
+ *
+ * ctx.pushRenderTarget(minimap);
+ * ctx.clear();
+ * ctx.save();
+ * ctx.scale(0.25, 0.25);
+ * level.draw(ctx, 0, 0);
+ * ctx.restore();
+ * ctx.popRenderTarget();
+ *
+ * minimapSprite.draw(ctx, 600, 0);
+ * ```
+ *
+ * A render target can be the image of a [[Sprite]] like an [[ImageSource]].
+ */
+export class RenderTarget {
+  private static _ID: number = 0;
+  readonly id = RenderTarget._ID++;
+
+  /**
+   * The canvas of the render target, the 2D canvas context draws to it and the WebGL context associates its framebuffer with it
+   */
+  public readonly image: HTMLCanvasElement = document.createElement('canvas');
+
+  /**
+   * A render target is always ready to be drawn, like the promise of an [[ImageSource]] it resolves with the image
+   */
+  public readonly ready: Promise<HTMLCanvasElement> = Promise.resolve(this.image);
+
+  /**
+   * The color the render target is filled with when the context is cleared while drawing to it
+   */
+  public backgroundColor: Color = Color.Transparent;
+
+  constructor(options: RenderTargetOptions) {
+    this.resize(options.width, options.height);
+    this.backgroundColor = options.backgroundColor ?? this.backgroundColor;
+  }
+
+  /**
+   * The width of the render target in pixels
+   */
+  public get width(): number {
+    return this.image.width;
+  }
+
+  /**
+   * The height of the render target in pixels
+   */
+  public get height(): number {
+    return this.image.height;
+  }
+
+  /**
+   * A render target is always loaded
+   */
+  public isLoaded(): boolean {
+    return true;
+  }
+
+  /**
+   * Changes the size of the render target, resizing clears what was drawn to it. Sprites of the render target keep their size,
+   * make a new sprite with [[RenderTarget.toSprite]] to draw the whole render target.
+   * @param width  The new width in pixels
+   * @param height  The new height in pixels
+   */
+  public resize(width: number, height: number): void {
+    this.image.width = width;
+    this.image.height = height;
+  }
+
+  /**
+   * Resizes the render target to the resolution of a [[Screen]] if it does not match already, call it before drawing to keep a
+   * full screen render target in sync with the screen. Returns true if the render target was resized.
+   * @param screen  The screen to match
+   */
+  public matchResolution(screen: Screen): boolean {
+    const { width, height } = screen.resolution;
+    if (this.width === width && this.height === height) {
+      return false;
+    }
+    this.resize(width, height);
+    return true;
+  }
+
+  /**
+   * Build a sprite of the whole render target
+   */
+  public toSprite(): Sprite {
+    return new Sprite({
+      image: this
+    });
+  }
+}
@@ -1,5 +1,6 @@
 import { Graphic, GraphicOptions } from './Graphic';
 import { ImageSource } from './ImageSource';
+import { RenderTarget } from './RenderTarget';
 import { ExcaliburGraphicsContext } from './Context/ExcaliburGraphicsContext';
 
 import { Sprite as LegacySprite } from '../Drawing/Sprite';
@@ -10,9 +11,9 @@ export type DestinationSize = { width: number; height: number };
 
 export interface SpriteOptions {
   /**
-   * Image to create a sprite from
+   * Image to create a sprite from, an [[ImageSource]] or a [[RenderTarget]]
    */
-  image: ImageSource;
+  image: ImageSource | RenderTarget;
   /**
    * By default the source is the entire dimension of the [[ImageSource]]
    */
@@ -24,7 +25,7 @@ export interface SpriteOptions {
 }
 
 export class Sprite extends Graphic {
-  public image: ImageSource;
+  public image: ImageSource | RenderTarget;
   public sourceView: SourceView;
   public destSize: DestinationSize;
 
@@ -105,8 +106,9 @@ export class Sprite extends Graphic {
 
   public static toLegacySprite(sprite: Sprite): LegacySprite {
     const image = sprite.image;
-    const tex = new Texture(image.path);
-    tex.data = image.image;
+    const tex = new Texture(image instanceof ImageSource ? image.path : '');
+    // legacy sprites draw canvases as well as images
+    tex.data = image.image as HTMLImageElement;
 
     return new LegacySprite(tex, sprite.sourceView.x, sprite.sourceView.y, sprite.sourceView.width, sprite.sourceView.height);
   }
@@ -2,9 +2,22 @@
 export * from './Graphic';
 export * from './Sprite';
 export * from './SpriteSheet';
+export * from './NineSlice';
 export * from './GraphicsGroup';
 export * from './ImageSource';
 export * from './Animation';
+export * from './Material';
+export * from './RenderTarget';
+
+// Post processing
+export { PostProcessPassOptions, PostProcessPass, ShaderPassOptions, ShaderPass } from './PostProcessing/PostProcessPass';
+export * from './PostProcessing/PostProcessPipeline';
+export * from './PostProcessing/BloomPass';
+export * from './PostProcessing/CrtPass';
+export * from './PostProcessing/VignettePass';
+export * from './PostProcessing/PixelatePass';
+export * from './PostProcessing/ColorGradingPass';
+export * from './PostProcessing/ColorBlindnessPass';
 
 // Graphics ECS
 export * from './GraphicsComponent';
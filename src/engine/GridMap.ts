@@ -0,0 +1,318 @@
+import { Vector } from './Algebra';
+import { BoundingBox } from './Collision/BoundingBox';
+import { Engine } from './Engine';
+import { Entity } from './EntityComponentSystem/Entity';
+import { TransformComponent } from './EntityComponentSystem/Components/TransformComponent';
+import { ExcaliburGraphicsContext, GraphicsComponent, hasGraphicsTick } from './Graphics';
+import * as Graphics from './Graphics';
+import { removeItemFromArray } from './Util/Util';
+
+export interface GridMapOptions {
+  /**
+   * Optionally the position of the map in world space, by default (0, 0)
+   */
+  pos?: Vector;
+  /**
+   * The width of a tile in pixels
+   */
+  tileWidth: number;
+  /**
+   * The height of a tile in pixels
+   */
+  tileHeight: number;
+  /**
+   * The number of rows of tiles
+   */
+  rows: number;
+  /**
+   * The number of columns of tiles
+   */
+  cols: number;
+}
+
+/**
+ * A tile of an [[IsometricMap]] or a [[HexMap]]
+ */
+export class GridTile {
+  /**
+   * Current list of graphics for this tile, drawn in order with their bottom center on the bottom center of the tile so tall
+   * graphics like walls and trees stand up out of the tile
+   */
+  public readonly graphics: Graphics.Graphic[] = [];
+
+  /**
+   * Whether this tile is solid, for example to block movement in a tactics game
+   */
+  public solid = false;
+
+  /**
+   * Abitrary data storage per tile, useful for any game specific data
+   */
+  public data = new Map<string, any>();
+
+  /**
+   * @param x    The column of the tile
+   * @param y    The row of the tile
+   * @param map  The map the tile belongs to
+   */
+  constructor(public readonly x: number, public readonly y: number, public readonly map: GridMap) {}
+
+  /**
+   * The center of the tile in world space
+   */
+  public get pos(): Vector {
+    return this.map.tileToWorld(this.x, this.y);
+  }
+
+  /**
+   * The outline of the tile in world space
+   */
+  public get points(): Vector[] {
+    const pos = this.pos;
+    return this.map.getTileOutline().map((point) => point.add(pos));
+  }
+
+  /**
+   * Returns the tiles next to this tile, see [[GridMap.getNeighbors]]
+   */
+  public getNeighbors(): GridTile[] {
+    return this.map.getNeighbors(this.x, this.y);
+  }
+
+  /**
+   * Add another [[Graphic]] to this tile
+   */
+  public addGraphic(graphic: Graphics.Graphic) {
+    this.graphics.push(graphic);
+  }
+
+  /**
+   * Remove an instance of a [[Graphic]] from this tile
+   */
+  public removeGraphic(graphic: Graphics.Graphic) {
+    removeItemFromArray(graphic, this.graphics);
+  }
+
+  /**
+   * Clear all graphics from this tile
+   */
+  public clearGraphics() {
+    this.graphics.length = 0;
+  }
+}
+
+/**
+ * Whether a point is inside of a convex outline, in either winding
+ */
+const containsPoint = (outline: Vector[], point: Vector): boolean => {
+  let sign = 0;
+  for (let i = 0; i < outline.length; i++) {
+    const begin = outline[i];
+    const end = outline[(i + 1) % outline.length];
+    const cross = end.sub(begin).cross(point.sub(begin));
+    if (cross !== 0) {
+      if (sign !== 0 && Math.sign(cross) !== sign) {
+        return false;
+      }
+      sign = Math.sign(cross);
+    }
+  }
+  return true;
+};
+
+/**
+ * GridMap is the base of the tile maps whose tiles are not laid out on an axis aligned grid, the [[IsometricMap]] and the
+ * [[HexMap]]. Tiles are addressed by their column and row, the map converts between tile and world coordinates, finds the
+ * neighbours of a tile, and draws the tiles back to front so tiles lower on the screen overlap the tiles behind them.
+ */
+export abstract class GridMap extends Entity {
+  public readonly tileWidth: number;
+  public readonly tileHeight: number;
+  public readonly rows: number;
+  public readonly cols: number;
+
+  /**
+   * The tiles of the map in row major order
+   */
+  public readonly tiles: GridTile[] = [];
+
+  private _transform: TransformComponent;
+  private _drawOrder: GridTile[] = null;
+  private _visibleBounds: BoundingBox = null;
+  private _token = 0;
+
+  constructor(options: GridMapOptions) {
+    super([
+      new TransformComponent(),
+      new GraphicsComponent({
+        onPostDraw: (ctx, delta) => this.draw(ctx, delta)
+      })
+    ]);
+    this._transform = this.get(TransformComponent);
+    this._transform.pos = options.pos ?? Vector.Zero;
+    this.tileWidth = options.tileWidth;
+    this.tileHeight = options.tileHeight;
+    this.rows = options.rows;
+    this.cols = options.cols;
+    for (let y = 0; y < this.rows; y++) {
+      for (let x = 0; x < this.cols; x++) {
+        this.tiles.push(new GridTile(x, y, this));
+      }
+    }
+  }
+
+  public get pos(): Vector {
+    return this._transform.pos;
+  }
+
+  public set pos(val: Vector) {
+    this._transform.pos = val;
+  }
+
+  /**
+   * Returns the center of a tile relative to the position of the map
+   */
+  protected abstract _getLocalCenter(x: number, y: number): Vector;
+
+  /**
+   * Returns a tile close to a point relative to the position of the map, the tile containing the point is either this tile or
+   * one of its neighbours
+   */
+  protected abstract _getNearbyTile(point: Vector): Vector;
+
+  /**
+   * Returns the offsets to the neighbours of a tile
+   */
+  protected abstract _getNeighborOffsets(x: number, y: number): Vector[];
+
+  /**
+   * Returns the outline of a tile relative to its center
+   */
+  public abstract getTileOutline(): Vector[];
+
+  /**
+   * Returns the tile at a column and row, or null outside of the map
+   */
+  public getTile(x: number, y: number): GridTile {
+    if (x < 0 || y < 0 || x >= this.cols || y >= this.rows) {
+      return null;
+    }
+    return this.tiles[x + y * this.cols];
+  }
+
+  /**
+   * Returns the center of a tile in world space
+   * @param x  The column of the tile
+   * @param y  The row of the tile
+   */
+  public tileToWorld(x: number, y: number): Vector {
+    return this._getLocalCenter(x, y).add(this.pos);
+  }
+
+  /**
+   * Returns the column and row of the tile containing a point in world space, the tile may be outside of the map. Convert
+   * screen coordinates with [[Screen.screenToWorldCoordinates]] first.
+   * @param point  The point in world space
+   */
+  public worldToTile(point: Vector): Vector {
+    const local = point.sub(this.pos);
+    const nearby = this._getNearbyTile(local);
+    const outline = this.getTileOutline();
+    const candidates = [nearby, ...this._getNeighborOffsets(nearby.x, nearby.y).map((offset) => nearby.add(offset))];
+    for (const candidate of candidates) {
+      const center = this._getLocalCenter(candidate.x, candidate.y);
+      if (containsPoint(outline, local.sub(center))) {
+        return candidate;
+      }
+    }
+    return nearby;
+  }
+
+  /**
+   * Returns the tile containing a point in world space, or null if the point is outside of the map. Use it to pick the tile
+   * under a pointer:
+   *
+   * ```typescript
+   * engine.input.pointers.primary.on('down', (evt) => {
+   *   const tile = map.getTileByPoint(evt.worldPos);
+   * });
+   * ```
+   * @param point  The point in world space
+   */
+  public getTileByPoint(point: Vector): GridTile {
+    const { x, y } = this.worldToTile(point);
+    return this.getTile(x, y);
+  }
+
+  /**
+   * Returns the tiles sharing an edge with a tile, without the positions outside of the map
+   * @param x  The column of the tile
+   * @param y  The row of the tile
+   */
+  public getNeighbors(x: number, y: number): GridTile[] {
+    return this._getNeighborOffsets(x, y)
+      .map((offset) => this.getTile(x + offset.x, y + offset.y))
+      .filter((tile) => !!tile);
+  }
+
+  /**
+   * Sorts the tiles into draw order and measures the map, the layout of the subclass is not known yet in the constructor
+   */
+  private _arrange() {
+    // tiles lower on the screen are in front
+    this._drawOrder = this.tiles.slice().sort((a, b) => {
+      const centerA = this._getLocalCenter(a.x, a.y);
+      const centerB = this._getLocalCenter(b.x, b.y);
+      return centerA.y - centerB.y || centerA.x - centerB.x;
+    });
+
+    const outline = this.getTileOutline();
+    const points: Vector[] = [];
+    for (const tile of this.tiles) {
+      const center = this._getLocalCenter(tile.x, tile.y);
+      points.push(...outline.map((point) => point.add(center)));
+    }
+    this.get(GraphicsComponent).localBounds = BoundingBox.fromPoints(points);
+  }
+
+  public update(engine: Engine, delta: number) {
+    if (!this._drawOrder) {
+      this._arrange();
+    }
+    this._token++;
+    const worldBounds = engine.getWorldBounds();
+    this._visibleBounds = worldBounds.translate(this.pos.negate());
+    super.update(engine, delta);
+  }
+
+  private _isVisible(left: number, top: number, width: number, height: number) {
+    const bounds = this._visibleBounds;
+    return !bounds || (left < bounds.right && left + width > bounds.left && top < bounds.bottom && top + height > bounds.top);
+  }
+
+  /**
+   * Draws the visible tiles back to front, called by the [[GraphicsSystem]]
+   * @param ctx    The graphics context
+   * @param delta  The number of milliseconds since the last draw
+   */
+  public draw(ctx: ExcaliburGraphicsContext, delta: number): void {
+    if (!this._drawOrder) {
+      this._arrange();
+    }
+    const bottom = this.getTileOutline().reduce((max, point) => Math.max(max, point.y), 0);
+    for (const tile of this._drawOrder) {
+      const center = this._getLocalCenter(tile.x, tile.y);
+      for (const graphic of tile.graphics) {
+        const left = center.x - graphic.width / 2;
+        const top = center.y + bottom - graphic.height;
+        if (!this._isVisible(left, top, graphic.width, graphic.height)) {
+          continue;
+        }
+        if (hasGraphicsTick(graphic)) {
+          graphic.tick(delta, this._token);
+        }
+        graphic.draw(ctx, left, top);
+      }
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { vec, Vector } from './Algebra';
+import { GridMap, GridMapOptions } from './GridMap';
+
+/**
+ * How the hexagons of a [[HexMap]] are oriented
+ */
+export enum HexOrientation {
+  /**
+   * Hexagons have a corner at the top, rows are shifted so every odd row sits half a tile to the right
+   */
+  Pointy = 'pointy',
+  /**
+   * Hexagons have an edge at the top, columns are shifted so every odd column sits half a tile lower
+   */
+  Flat = 'flat'
+}
+
+export interface HexMapOptions extends GridMapOptions {
+  /**
+   * Optionally the orientation of the hexagons, by default [[HexOrientation.Pointy]]
+   */
+  orientation?: HexOrientation;
+}
+
+const isOdd = (value: number) => (value & 1) === 1;
+
+/**
+ * The HexMap draws hexagonal tiles of width `tileWidth` and height `tileHeight`, addressed by column and row with every odd row
+ * or column shifted by half a tile depending on the [[HexOrientation|orientation]]. The position of the map is the top left
+ * of the bounds of tile (0, 0). Every tile has 6 neighbours.
+ *
+ * ```typescript
+ * const map = new ex.HexMap({ tileWidth: 56, tileHeight: 64, rows: 8, cols: 12, orientation: ex.HexOrientation.Pointy });
+ * const tile = map.getTileByPoint(pointer.lastWorldPos);
+ * const reachable = tile.getNeighbors().filter((neighbor) => !neighbor.solid);
+ * ```
+ */
+export class HexMap extends GridMap {
+  public readonly orientation: HexOrientation;
+
+  constructor(options: HexMapOptions) {
+    super(options);
+    this.orientation = options.orientation ?? HexOrientation.Pointy;
+  }
+
+  protected _getLocalCenter(x: number, y: number): Vector {
+    const halfWidth = this.tileWidth / 2;
+    const halfHeight = this.tileHeight / 2;
+    if (this.orientation === HexOrientation.Flat) {
+      return vec(x * this.tileWidth * 0.75 + halfWidth, y * this.tileHeight + halfHeight + (isOdd(x) ? halfHeight : 0));
+    }
+    return vec(x * this.tileWidth + halfWidth + (isOdd(y) ? halfWidth : 0), y * this.tileHeight * 0.75 + halfHeight);
+  }
+
+  protected _getNearbyTile(point: Vector): Vector {
+    const halfWidth = this.tileWidth / 2;
+    const halfHeight = this.tileHeight / 2;
+    if (this.orientation === HexOrientation.Flat) {
+      const x = Math.round((point.x - halfWidth) / (this.tileWidth * 0.75));
+      return vec(x, Math.round((point.y - halfHeight - (isOdd(x) ? halfHeight : 0)) / this.tileHeight));
+    }
+    const y = Math.round((point.y - halfHeight) / (this.tileHeight * 0.75));
+    return vec(Math.round((point.x - halfWidth - (isOdd(y) ? halfWidth : 0)) / this.tileWidth), y);
+  }
+
+  protected _getNeighborOffsets(x: number, y: number): Vector[] {
+    if (this.orientation === HexOrientation.Flat) {
+      const shift = isOdd(x) ? 1 : 0;
+      return [vec(0, -1), vec(1, shift - 1), vec(1, shift), vec(0, 1), vec(-1, shift), vec(-1, shift - 1)];
+    }
+    const shift = isOdd(y) ? 1 : 0;
+    return [vec(1, 0), vec(shift, 1), vec(shift - 1, 1), vec(-1, 0), vec(shift - 1, -1), vec(shift, -1)];
+  }
+
+  public getTileOutline(): Vector[] {
+    const halfWidth = this.tileWidth / 2;
+    const halfHeight = this.tileHeight / 2;
+    if (this.orientation === HexOrientation.Flat) {
+      const quarterWidth = this.tileWidth / 4;
+      return [
+        vec(-halfWidth, 0),
+        vec(-quarterWidth, -halfHeight),
+        vec(quarterWidth, -halfHeight),
+        vec(halfWidth, 0),
+        vec(quarterWidth, halfHeight),
+        vec(-quarterWidth, halfHeight)
+      ];
+    }
+    const quarterHeight = this.tileHeight / 4;
+    return [
+      vec(0, -halfHeight),
+      vec(halfWidth, -quarterHeight),
+      vec(halfWidth, quarterHeight),
+      vec(0, halfHeight),
+      vec(-halfWidth, quarterHeight),
+      vec(-halfWidth, -quarterHeight)
+    ];
+  }
+}
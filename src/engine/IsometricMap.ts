@@ -0,0 +1,82 @@
+import { vec, Vector } from './Algebra';
+import { GridMap, GridMapOptions } from './GridMap';
+
+/**
+ * How the tiles of an [[IsometricMap]] are laid out
+ */
+export enum IsometricLayout {
+  /**
+   * Columns run down to the right and rows run down to the left, the map forms one large diamond
+   */
+  Diamond = 'diamond',
+  /**
+   * Rows are stacked half a tile apart with every odd row shifted right by half a tile, the map forms a rectangle
+   */
+  Staggered = 'staggered'
+}
+
+export interface IsometricMapOptions extends GridMapOptions {
+  /**
+   * Optionally the layout of the tiles, by default [[IsometricLayout.Diamond]]
+   */
+  layout?: IsometricLayout;
+}
+
+const isOdd = (value: number) => (value & 1) === 1;
+
+/**
+ * The IsometricMap draws diamond shaped tiles of width `tileWidth` and height `tileHeight`, usually twice as wide as they are
+ * high. In the [[IsometricLayout.Diamond|diamond layout]] the position of the map is the top corner of tile (0, 0), in the
+ * [[IsometricLayout.Staggered|staggered layout]] it is the top left of the bounds of tile (0, 0).
+ *
+ * ```typescript
+ * const map = new ex.IsometricMap({ pos: ex.vec(400, 50), tileWidth: 64, tileHeight: 32, rows: 10, cols: 10 });
+ * for (const tile of map.tiles) {
+ *   tile.addGraphic(grass);
+ * }
+ * game.add(map);
+ * ```
+ */
+export class IsometricMap extends GridMap {
+  public readonly layout: IsometricLayout;
+
+  constructor(options: IsometricMapOptions) {
+    super(options);
+    this.layout = options.layout ?? IsometricLayout.Diamond;
+  }
+
+  protected _getLocalCenter(x: number, y: number): Vector {
+    const halfWidth = this.tileWidth / 2;
+    const halfHeight = this.tileHeight / 2;
+    if (this.layout === IsometricLayout.Staggered) {
+      return vec(x * this.tileWidth + halfWidth + (isOdd(y) ? halfWidth : 0), y * halfHeight + halfHeight);
+    }
+    return vec((x - y) * halfWidth, (x + y) * halfHeight + halfHeight);
+  }
+
+  protected _getNearbyTile(point: Vector): Vector {
+    const halfWidth = this.tileWidth / 2;
+    const halfHeight = this.tileHeight / 2;
+    if (this.layout === IsometricLayout.Staggered) {
+      const y = Math.floor(point.y / halfHeight);
+      return vec(Math.floor((point.x - (isOdd(y) ? halfWidth : 0)) / this.tileWidth), y);
+    }
+    const across = point.x / halfWidth;
+    const down = point.y / halfHeight;
+    return vec(Math.floor((down + across) / 2), Math.floor((down - across) / 2));
+  }
+
+  protected _getNeighborOffsets(_x: number, y: number): Vector[] {
+    if (this.layout === IsometricLayout.Staggered) {
+      const shift = isOdd(y) ? 1 : 0;
+      return [vec(shift, -1), vec(shift, 1), vec(shift - 1, 1), vec(shift - 1, -1)];
+    }
+    return [vec(0, -1), vec(1, 0), vec(0, 1), vec(-1, 0)];
+  }
+
+  public getTileOutline(): Vector[] {
+    const halfWidth = this.tileWidth / 2;
+    const halfHeight = this.tileHeight / 2;
+    return [vec(0, -halfHeight), vec(halfWidth, 0), vec(0, halfHeight), vec(-halfWidth, 0)];
+  }
+}
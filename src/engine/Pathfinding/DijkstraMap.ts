@@ -0,0 +1,62 @@
+import { Vector } from '../Algebra';
+import { GridGraph } from './GridGraph';
+
+/**
+ * A DijkstraMap holds the cost of the cheapest path from every cell of a [[GridGraph]] to the closest of its goals, created with
+ * [[GridGraph.createDijkstraMap]]. Actors anywhere on the map can walk to the goals without a search of their own, and the costs
+ * tell how far away the goals are, for example to flee from the player by moving to cells with higher costs.
+ *
+ * The map is a snapshot, create it again after the goals or the cells change.
+ */
+export class DijkstraMap {
+  public readonly graph: GridGraph;
+  private _costs: Float64Array;
+  private _next: Int32Array;
+
+  /**
+   * @param graph  The graph of the map
+   * @param costs  The cost from every cell index to the closest goal
+   * @param next   The index of the next cell towards the closest goal for every cell index, -1 at the goals or if unreachable
+   */
+  constructor(graph: GridGraph, costs: Float64Array, next: Int32Array) {
+    this.graph = graph;
+    this._costs = costs;
+    this._next = next;
+  }
+
+  /**
+   * Returns the cost of the cheapest path from the cell at a column and row to the closest goal, 0 at the goals or Infinity if no
+   * goal can be reached
+   */
+  public getCost(x: number, y: number): number {
+    if (!this.graph.tileMap.getCell(x, y)) {
+      return Infinity;
+    }
+    return this._costs[x + y * this.graph.tileMap.cols];
+  }
+
+  /**
+   * Returns the column and row of the next cell on the cheapest path from the cell at a column and row to the closest goal, or
+   * null at the goals or if no goal can be reached
+   */
+  public getNext(x: number, y: number): Vector {
+    if (!this.graph.tileMap.getCell(x, y)) {
+      return null;
+    }
+    const next = this._next[x + y * this.graph.tileMap.cols];
+    const cols = this.graph.tileMap.cols;
+    return next === -1 ? null : new Vector(next % cols, Math.floor(next / cols));
+  }
+
+  /**
+   * Returns the cheapest path from a point in world space to the closest goal, from the center of the cell of the point to the
+   * center of the cell of the goal. The path is empty if no goal can be reached.
+   */
+  public getPath(from: Vector): Vector[] {
+    const cell = this.graph.worldToCell(from);
+    if (!cell || this.getCost(cell.x, cell.y) === Infinity) {
+      return [];
+    }
+    return this.graph._toPath(cell.x + cell.y * this.graph.tileMap.cols, this._next);
+  }
+}
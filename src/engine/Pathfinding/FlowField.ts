@@ -0,0 +1,45 @@
+import { Vector } from '../Algebra';
+import { DijkstraMap } from './DijkstraMap';
+
+/**
+ * A FlowField points every cell of a [[GridGraph]] in the direction of the cheapest path to the closest of its goals, created
+ * with [[GridGraph.createFlowField]]. Crowds of actors steer along the field by looking up the direction at their position every
+ * frame:
+ *
+ * ```typescript
+ * const field = graph.createFlowField([player.pos]);
+ * for (const enemy of enemies) {
+ *   enemy.vel = field.getDirectionByPoint(enemy.pos).scale(80);
+ * }
+ * ```
+ *
+ * The field is a snapshot, create it again after the goals or the cells change.
+ */
+export class FlowField {
+  public readonly dijkstraMap: DijkstraMap;
+
+  constructor(dijkstraMap: DijkstraMap) {
+    this.dijkstraMap = dijkstraMap;
+  }
+
+  /**
+   * Returns the unit vector in world space from the center of the cell at a column and row to the center of the next cell on the
+   * cheapest path to the closest goal, or the zero vector at the goals or if no goal can be reached
+   */
+  public getDirection(x: number, y: number): Vector {
+    const next = this.dijkstraMap.getNext(x, y);
+    if (!next) {
+      return Vector.Zero;
+    }
+    const graph = this.dijkstraMap.graph;
+    return graph.cellToWorld(next.x, next.y).sub(graph.cellToWorld(x, y)).normalize();
+  }
+
+  /**
+   * Returns the direction of the cell containing a point in world space, see [[FlowField.getDirection]]
+   */
+  public getDirectionByPoint(pos: Vector): Vector {
+    const cell = this.dijkstraMap.graph.worldToCell(pos);
+    return cell ? this.getDirection(cell.x, cell.y) : Vector.Zero;
+  }
+}
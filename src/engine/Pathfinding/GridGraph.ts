@@ -0,0 +1,282 @@
+import { Vector } from '../Algebra';
+import { Cell, TileMap } from '../TileMap';
+import { DijkstraMap } from './DijkstraMap';
+import { FlowField } from './FlowField';
+import { PriorityQueue } from './PriorityQueue';
+
+/**
+ * How paths on a [[GridGraph]] may move diagonally between cells
+ */
+export enum DiagonalMovement {
+  /**
+   * Only move up, down, left and right
+   */
+  Never = 'Never',
+  /**
+   * Move diagonally when both cells next to the diagonal are walkable, paths never cut the corners of walls
+   */
+  NoObstacles = 'NoObstacles',
+  /**
+   * Move diagonally when at most one of the cells next to the diagonal is blocked, paths cut corners but never squeeze between
+   * two blocked cells touching at a corner
+   */
+  AtMostOneObstacle = 'AtMostOneObstacle',
+  /**
+   * Always move diagonally between walkable cells
+   */
+  Always = 'Always'
+}
+
+export interface GridGraphOptions {
+  /**
+   * Optionally how paths may move diagonally, by default [[DiagonalMovement.Never]]
+   */
+  diagonalMovement?: DiagonalMovement;
+  /**
+   * Optionally the key of the cost of a cell in [[Cell.data]], by default `'cost'`
+   */
+  costKey?: string;
+  /**
+   * Optionally decides which cells can be walked through, by default every cell that is not solid
+   */
+  walkable?: (cell: Cell) => boolean;
+}
+
+const offsets = [
+  [0, -1],
+  [1, 0],
+  [0, 1],
+  [-1, 0],
+  [1, -1],
+  [1, 1],
+  [-1, 1],
+  [-1, -1]
+];
+
+/**
+ * The GridGraph finds paths between the cells of a [[TileMap]]. Every walkable cell is a node connected to its 4 neighbors, or
+ * its 8 neighbors with [[DiagonalMovement|diagonal movement]]. Paths are found in world space and are a list of waypoints at the
+ * centers of the cells along the way:
+ *
+ * ```typescript
+ * const graph = new ex.GridGraph(tileMap, { diagonalMovement: ex.DiagonalMovement.NoObstacles });
+ * const path = graph.findPath(enemy.pos, player.pos);
+ * enemy.actions.followPath(path, 100);
+ * ```
+ *
+ * Entering a cell costs the number stored in its data under the [[GridGraphOptions.costKey|cost key]], 1 by default and √2 times
+ * as much diagonally, so paths go around cells like mud or water with a higher cost when that is cheaper. Costs must not be
+ * lower than 1. The graph reads the cells on every search, changes to the tile map are picked up right away.
+ *
+ * When many actors move to the same goals, a [[DijkstraMap]] or [[FlowField]] computed once for all of them is cheaper than a
+ * path per actor.
+ */
+export class GridGraph {
+  public readonly tileMap: TileMap;
+  public diagonalMovement: DiagonalMovement;
+  public costKey: string;
+  private _walkable: (cell: Cell) => boolean;
+
+  constructor(tileMap: TileMap, options: GridGraphOptions = {}) {
+    this.tileMap = tileMap;
+    this.diagonalMovement = options.diagonalMovement ?? DiagonalMovement.Never;
+    this.costKey = options.costKey ?? 'cost';
+    this._walkable = options.walkable ?? ((cell) => !cell.solid);
+  }
+
+  /**
+   * Whether a path can go through the cell at a column and row, false outside of the tile map
+   */
+  public isWalkable(x: number, y: number): boolean {
+    const cell = this.tileMap.getCell(x, y);
+    return !!cell && this._walkable(cell);
+  }
+
+  /**
+   * Returns the cost of entering the cell at a column and row, or Infinity if it is not walkable
+   */
+  public getCost(x: number, y: number): number {
+    const cell = this.tileMap.getCell(x, y);
+    if (!cell || !this._walkable(cell)) {
+      return Infinity;
+    }
+    return cell.data.get(this.costKey) ?? 1;
+  }
+
+  /**
+   * Returns the walkable cells that a path can move to from the cell at a column and row
+   */
+  public getNeighbors(x: number, y: number): Cell[] {
+    const neighbors: Cell[] = [];
+    this._forEachNeighbor(x + y * this.tileMap.cols, (neighbor) => neighbors.push(this.tileMap.getCellByIndex(neighbor)));
+    return neighbors;
+  }
+
+  /**
+   * Returns the center of the cell at a column and row in world space
+   */
+  public cellToWorld(x: number, y: number): Vector {
+    return new Vector(this.tileMap.x + (x + 0.5) * this.tileMap.cellWidth, this.tileMap.y + (y + 0.5) * this.tileMap.cellHeight);
+  }
+
+  /**
+   * Returns the column and row of the cell containing a point in world space, or null outside of the tile map
+   */
+  public worldToCell(pos: Vector): Vector {
+    const x = Math.floor((pos.x - this.tileMap.x) / this.tileMap.cellWidth);
+    const y = Math.floor((pos.y - this.tileMap.y) / this.tileMap.cellHeight);
+    return this.tileMap.getCell(x, y) ? new Vector(x, y) : null;
+  }
+
+  /**
+   * Finds the cheapest path between two points in world space with A*. The path starts at the center of the cell of `from` and
+   * ends at the center of the cell of `to`, it is empty when there is no path or either point is outside of the tile map.
+   * @param from  The start of the path in world space, its cell does not need to be walkable
+   * @param to    The goal of the path in world space
+   */
+  public findPath(from: Vector, to: Vector): Vector[] {
+    const start = this._getIndex(from);
+    const goal = this._getIndex(to);
+    if (start === -1 || goal === -1 || !this._walkable(this.tileMap.getCellByIndex(goal))) {
+      return [];
+    }
+
+    const cols = this.tileMap.cols;
+    const goalX = goal % cols;
+    const goalY = Math.floor(goal / cols);
+    const heuristic = (node: number) => {
+      const dx = Math.abs((node % cols) - goalX);
+      const dy = Math.abs(Math.floor(node / cols) - goalY);
+      if (this.diagonalMovement === DiagonalMovement.Never) {
+        return dx + dy;
+      }
+      return dx + dy + (Math.SQRT2 - 2) * Math.min(dx, dy);
+    };
+
+    const costs = new Float64Array(this.tileMap.data.length).fill(Infinity);
+    const previous = new Int32Array(this.tileMap.data.length).fill(-1);
+    const closed = new Uint8Array(this.tileMap.data.length);
+    const open = new PriorityQueue();
+    costs[start] = 0;
+    open.push(start, heuristic(start));
+
+    while (open.length) {
+      const node = open.pop();
+      if (node === goal) {
+        return this._toPath(node, previous).reverse();
+      }
+      if (closed[node]) {
+        continue;
+      }
+      closed[node] = 1;
+
+      this._forEachNeighbor(node, (neighbor, distance) => {
+        const cost = costs[node] + distance * this._getCostByIndex(neighbor);
+        if (cost < costs[neighbor]) {
+          costs[neighbor] = cost;
+          previous[neighbor] = node;
+          open.push(neighbor, cost + heuristic(neighbor));
+        }
+      });
+    }
+    return [];
+  }
+
+  /**
+   * Computes the cost of the cheapest path from every cell to the closest of some goals with Dijkstra's algorithm
+   * @param goals  The goals in world space, goals outside of the tile map or in cells that are not walkable are ignored
+   */
+  public createDijkstraMap(goals: Vector[]): DijkstraMap {
+    const costs = new Float64Array(this.tileMap.data.length).fill(Infinity);
+    const next = new Int32Array(this.tileMap.data.length).fill(-1);
+    const closed = new Uint8Array(this.tileMap.data.length);
+    const open = new PriorityQueue();
+    for (const goal of goals) {
+      const node = this._getIndex(goal);
+      if (node !== -1 && this._walkable(this.tileMap.getCellByIndex(node))) {
+        costs[node] = 0;
+        open.push(node, 0);
+      }
+    }
+
+    // search backwards from the goals, the cost of a step is the cost of entering the cell closer to the goals
+    while (open.length) {
+      const node = open.pop();
+      if (closed[node]) {
+        continue;
+      }
+      closed[node] = 1;
+
+      const nodeCost = this._getCostByIndex(node);
+      this._forEachNeighbor(node, (neighbor, distance) => {
+        const cost = costs[node] + distance * nodeCost;
+        if (cost < costs[neighbor]) {
+          costs[neighbor] = cost;
+          next[neighbor] = node;
+          open.push(neighbor, cost);
+        }
+      });
+    }
+    return new DijkstraMap(this, costs, next);
+  }
+
+  /**
+   * Computes the direction to move in from every cell to get to the closest of some goals
+   * @param goals  The goals in world space, goals outside of the tile map or in cells that are not walkable are ignored
+   */
+  public createFlowField(goals: Vector[]): FlowField {
+    return new FlowField(this.createDijkstraMap(goals));
+  }
+
+  /**
+   * Calls back with the index of every neighbor a path can move to from a cell and the length of the step
+   * @internal
+   */
+  public _forEachNeighbor(node: number, callback: (neighbor: number, distance: number) => void) {
+    const cols = this.tileMap.cols;
+    const x = node % cols;
+    const y = Math.floor(node / cols);
+    const count = this.diagonalMovement === DiagonalMovement.Never ? 4 : 8;
+    for (let i = 0; i < count; i++) {
+      const [dx, dy] = offsets[i];
+      if (!this.isWalkable(x + dx, y + dy)) {
+        continue;
+      }
+      if (i < 4) {
+        callback(x + dx + (y + dy) * cols, 1);
+        continue;
+      }
+
+      const obstacles = (this.isWalkable(x + dx, y) ? 0 : 1) + (this.isWalkable(x, y + dy) ? 0 : 1);
+      if (
+        (this.diagonalMovement === DiagonalMovement.NoObstacles && obstacles > 0) ||
+        (this.diagonalMovement === DiagonalMovement.AtMostOneObstacle && obstacles > 1)
+      ) {
+        continue;
+      }
+      callback(x + dx + (y + dy) * cols, Math.SQRT2);
+    }
+  }
+
+  /**
+   * Returns the waypoints of the cells along a chain of links starting at a cell
+   * @internal
+   */
+  public _toPath(node: number, links: Int32Array): Vector[] {
+    const path: Vector[] = [];
+    const cols = this.tileMap.cols;
+    for (; node !== -1; node = links[node]) {
+      path.push(this.cellToWorld(node % cols, Math.floor(node / cols)));
+    }
+    return path;
+  }
+
+  private _getCostByIndex(node: number) {
+    return this.tileMap.getCellByIndex(node).data.get(this.costKey) ?? 1;
+  }
+
+  private _getIndex(pos: Vector) {
+    const cell = this.worldToCell(pos);
+    return cell ? cell.x + cell.y * this.tileMap.cols : -1;
+  }
+}
@@ -0,0 +1,4 @@
+export * from './GridGraph';
+export * from './DijkstraMap';
+export * from './FlowField';
+export * from './NavMesh';
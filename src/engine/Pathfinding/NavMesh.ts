@@ -0,0 +1,466 @@
+import { Line, Vector } from '../Algebra';
+import { Circle } from '../Collision/Circle';
+import { Collider } from '../Collision/Collider';
+import { CollisionShape } from '../Collision/CollisionShape';
+import { CompositeShape } from '../Collision/CompositeShape';
+import { ConvexPolygon } from '../Collision/ConvexPolygon';
+import { Edge } from '../Collision/Edge';
+import { PriorityQueue } from './PriorityQueue';
+
+export interface NavMeshOptions {
+  /**
+   * The areas that can be walked on in world space, either outlines that may be concave or the colliders of the floor. Areas
+   * that touch along an edge are connected, areas should not overlap.
+   */
+  walkable: (Vector[] | Collider)[];
+  /**
+   * Optionally the colliders that block the walkable areas, like walls and rocks
+   */
+  obstacles?: Collider[];
+  /**
+   * Optionally the radius of the agents walking on the mesh, obstacles are grown by it so paths keep agents clear of them, by
+   * default 0
+   */
+  agentRadius?: number;
+}
+
+/**
+ * A triangle of a [[NavMesh]]
+ */
+export interface NavMeshTriangle {
+  /**
+   * The index of the triangle in [[NavMesh.triangles]]
+   */
+  readonly index: number;
+  /**
+   * The corners of the triangle in world space
+   */
+  readonly points: Vector[];
+  /**
+   * The edges this triangle shares with its neighbors
+   */
+  readonly portals: NavMeshPortal[];
+}
+
+/**
+ * An edge, or part of an edge, shared by two triangles of a [[NavMesh]] that paths can cross
+ */
+export interface NavMeshPortal {
+  /**
+   * The triangle on the other side of the portal
+   */
+  readonly triangle: NavMeshTriangle;
+  /**
+   * The shared edge, with the triangle the portal belongs to on the positive side of `begin` to `end`
+   */
+  readonly line: Line;
+}
+
+/**
+ * Distance in pixels under which points are considered to be the same
+ */
+const Epsilon = 0.001;
+
+/**
+ * Number of sides of the polygons approximating circles and the rounded corners of grown obstacles
+ */
+const CircleSides = 8;
+
+const cross = (origin: Vector, a: Vector, b: Vector) => (a.x - origin.x) * (b.y - origin.y) - (a.y - origin.y) * (b.x - origin.x);
+
+/**
+ * Whether a point is on a line segment
+ */
+const onLine = (line: Line, point: Vector) => {
+  const length = line.getLength();
+  const t = point.sub(line.begin).dot(line.end.sub(line.begin)) / (length * length);
+  return t >= 0 && t <= 1 && Math.abs(cross(line.begin, line.end, point)) / length < Epsilon;
+};
+
+const signedArea = (points: Vector[]) => {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    area += points[i].cross(points[(i + 1) % points.length]);
+  }
+  return area / 2;
+};
+
+/**
+ * Returns the convex hull of points with a positive [[signedArea]]
+ */
+const convexHull = (points: Vector[]): Vector[] => {
+  const sorted = points.slice().sort((a, b) => a.x - b.x || a.y - b.y);
+  const lower: Vector[] = [];
+  const upper: Vector[] = [];
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) {
+      lower.pop();
+    }
+    lower.push(point);
+  }
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], sorted[i]) <= 0) {
+      upper.pop();
+    }
+    upper.push(sorted[i]);
+  }
+  return lower.slice(0, -1).concat(upper.slice(0, -1));
+};
+
+/**
+ * Removes repeated points and points on a straight line between their neighbors
+ */
+const simplify = (points: Vector[]): Vector[] => {
+  const result = points.slice();
+  for (let i = 0; i < result.length && result.length > 2; ) {
+    const previous = result[(i + result.length - 1) % result.length];
+    const next = result[(i + 1) % result.length];
+    const length = previous.distance(next);
+    if (result[i].distance(previous) < Epsilon || length < Epsilon || Math.abs(cross(previous, result[i], next)) / length < Epsilon) {
+      result.splice(i, 1);
+      i = Math.max(0, i - 1);
+    } else {
+      i++;
+    }
+  }
+  return result;
+};
+
+/**
+ * Returns the part of a convex polygon on the positive or negative side of the line through `a` and `b`
+ */
+const clip = (points: Vector[], a: Vector, b: Vector, sign: number): Vector[] => {
+  const result: Vector[] = [];
+  for (let i = 0; i < points.length; i++) {
+    const current = points[i];
+    const next = points[(i + 1) % points.length];
+    const currentSide = cross(a, b, current) * sign;
+    const nextSide = cross(a, b, next) * sign;
+    if (currentSide >= 0) {
+      result.push(current);
+    }
+    if ((currentSide > 0 && nextSide < 0) || (currentSide < 0 && nextSide > 0)) {
+      result.push(current.add(next.sub(current).scale(currentSide / (currentSide - nextSide))));
+    }
+  }
+  return result;
+};
+
+/**
+ * Whether two convex polygons overlap by more than touching, by looking for a separating axis
+ */
+const overlaps = (a: Vector[], b: Vector[]) => {
+  for (const polygon of [a, b]) {
+    for (let i = 0; i < polygon.length; i++) {
+      const start = polygon[i];
+      const end = polygon[(i + 1) % polygon.length];
+      const other = polygon === a ? b : a;
+      if (other.every((point) => cross(start, end, point) <= Epsilon)) {
+        return false;
+      }
+    }
+  }
+  return true;
+};
+
+/**
+ * Returns the convex pieces of a convex polygon that are outside of a convex obstacle
+ */
+const subtract = (points: Vector[], obstacle: Vector[]): Vector[][] => {
+  if (!overlaps(points, obstacle)) {
+    return [points];
+  }
+  const pieces: Vector[][] = [];
+  let inside = points;
+  for (let i = 0; i < obstacle.length && inside.length >= 3; i++) {
+    const a = obstacle[i];
+    const b = obstacle[(i + 1) % obstacle.length];
+    const outside = simplify(clip(inside, a, b, -1));
+    if (outside.length >= 3 && signedArea(outside) > Epsilon) {
+      pieces.push(outside);
+    }
+    inside = simplify(clip(inside, a, b, 1));
+  }
+  return pieces;
+};
+
+/**
+ * Splits a simple polygon with a positive [[signedArea]] into triangles by clipping its ears
+ */
+const triangulate = (points: Vector[]): Vector[][] => {
+  const remaining = simplify(points);
+  const triangles: Vector[][] = [];
+  while (remaining.length > 3) {
+    let ear = -1;
+    for (let i = 0; i < remaining.length && ear === -1; i++) {
+      const previous = remaining[(i + remaining.length - 1) % remaining.length];
+      const current = remaining[i];
+      const next = remaining[(i + 1) % remaining.length];
+      if (cross(previous, current, next) <= 0) {
+        continue;
+      }
+      const blocked = remaining.some(
+        (point) =>
+          point !== previous &&
+          point !== current &&
+          point !== next &&
+          cross(previous, current, point) >= 0 &&
+          cross(current, next, point) >= 0 &&
+          cross(next, previous, point) >= 0
+      );
+      if (!blocked) {
+        ear = i;
+      }
+    }
+    if (ear === -1) {
+      // not a simple polygon, give up on the rest of it
+      break;
+    }
+    triangles.push([remaining[(ear + remaining.length - 1) % remaining.length], remaining[ear], remaining[(ear + 1) % remaining.length]]);
+    remaining.splice(ear, 1);
+  }
+  if (remaining.length === 3) {
+    triangles.push(remaining);
+  }
+  return triangles;
+};
+
+/**
+ * Returns the outlines in world space of a collision shape, grown by a radius
+ */
+const getOutlines = (shape: CollisionShape, radius: number): Vector[][] => {
+  let points: Vector[];
+  if (shape instanceof CompositeShape) {
+    return [].concat(...shape.shapes.map((child) => getOutlines(child, radius)));
+  } else if (shape instanceof ConvexPolygon) {
+    points = shape.getTransformedPoints();
+  } else if (shape instanceof Circle) {
+    points = [shape.worldPos];
+    radius += shape.radius;
+  } else if (shape instanceof Edge) {
+    const line = shape.asLine();
+    points = [line.begin, line.end];
+  } else {
+    return [];
+  }
+
+  if (radius > 0) {
+    // the polygon around the circle of the radius contains the circle
+    const corner = radius / Math.cos(Math.PI / CircleSides);
+    const offsets: Vector[] = [];
+    for (let i = 0; i < CircleSides; i++) {
+      offsets.push(Vector.fromAngle(((i + 0.5) * 2 * Math.PI) / CircleSides).scale(corner));
+    }
+    points = [].concat(...points.map((point) => offsets.map((offset) => point.add(offset))));
+  }
+  const hull = convexHull(points);
+  return hull.length >= 3 ? [hull] : [];
+};
+
+/**
+ * The NavMesh finds paths through levels that are not built from tiles. It covers the walkable areas minus the obstacles with
+ * triangles, and paths go from triangle to triangle through the portals they share:
+ *
+ * ```typescript
+ * scene.navMesh = new ex.NavMesh({
+ *   walkable: [floor.body.collider, bridge.body.collider],
+ *   obstacles: rocks.map((rock) => rock.body.collider),
+ *   agentRadius: 16
+ * });
+ * const path = scene.findPath(enemy.pos, player.pos);
+ * enemy.actions.followPath(path, 100);
+ * ```
+ *
+ * Paths are pulled tight around the corners of the obstacles with the funnel algorithm, so they are the shortest way through the
+ * triangles that A* picked. Obstacles are grown by the agent radius but the edges of the walkable areas are not, leave room
+ * along walls or add them as obstacles. The mesh is a snapshot, create it again when obstacles move.
+ */
+export class NavMesh {
+  public readonly triangles: NavMeshTriangle[] = [];
+
+  constructor(options: NavMeshOptions) {
+    const radius = options.agentRadius ?? 0;
+    const obstacles: Vector[][] = [].concat(...(options.obstacles ?? []).map((collider) => getOutlines(collider.shape, radius)));
+
+    let pieces: Vector[][] = [];
+    for (const area of options.walkable) {
+      if (area instanceof Collider) {
+        pieces.push(...getOutlines(area.shape, 0));
+      } else {
+        pieces.push(...triangulate(signedArea(area) < 0 ? area.slice().reverse() : area));
+      }
+    }
+    for (const obstacle of obstacles) {
+      pieces = [].concat(...pieces.map((piece) => subtract(piece, obstacle)));
+    }
+
+    for (const piece of pieces) {
+      const points = simplify(piece);
+      for (let i = 1; i < points.length - 1; i++) {
+        this.triangles.push({ index: this.triangles.length, points: [points[0], points[i], points[i + 1]], portals: [] });
+      }
+    }
+    this._connect();
+  }
+
+  /**
+   * Returns the triangle containing a point in world space, or null if the point is not on the mesh
+   */
+  public getTriangle(point: Vector): NavMeshTriangle {
+    for (const triangle of this.triangles) {
+      const [a, b, c] = triangle.points;
+      if (cross(a, b, point) >= -Epsilon && cross(b, c, point) >= -Epsilon && cross(c, a, point) >= -Epsilon) {
+        return triangle;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Finds the shortest path between two points in world space, from `from` to `to` around the corners in between. The path is
+   * empty if either point is not on the mesh or there is no way between them.
+   */
+  public findPath(from: Vector, to: Vector): Vector[] {
+    const start = this.getTriangle(from);
+    const goal = this.getTriangle(to);
+    if (!start || !goal) {
+      return [];
+    }
+
+    // A* between the triangles, moving through the middle of the portals
+    const costs = new Float64Array(this.triangles.length).fill(Infinity);
+    const previous = new Int32Array(this.triangles.length).fill(-1);
+    const entries: Vector[] = [];
+    const portals: Line[] = [];
+    const closed = new Uint8Array(this.triangles.length);
+    const open = new PriorityQueue();
+    costs[start.index] = 0;
+    entries[start.index] = from;
+    open.push(start.index, from.distance(to));
+
+    while (open.length) {
+      const node = open.pop();
+      if (node === goal.index) {
+        break;
+      }
+      if (closed[node]) {
+        continue;
+      }
+      closed[node] = 1;
+
+      for (const portal of this.triangles[node].portals) {
+        const neighbor = portal.triangle.index;
+        const entry = portal.line.midpoint;
+        const cost = costs[node] + entries[node].distance(entry);
+        if (cost < costs[neighbor]) {
+          costs[neighbor] = cost;
+          previous[neighbor] = node;
+          entries[neighbor] = entry;
+          portals[neighbor] = portal.line;
+          open.push(neighbor, cost + entry.distance(to));
+        }
+      }
+    }
+    if (costs[goal.index] === Infinity) {
+      return [];
+    }
+
+    const crossed: Line[] = [];
+    for (let node = goal.index; node !== start.index; node = previous[node]) {
+      // points on a portal are in the triangles on both sides of it, crossing it does not narrow the funnel
+      if (!onLine(portals[node], from) && !onLine(portals[node], to)) {
+        crossed.push(portals[node]);
+      }
+    }
+    return this._pull(from, to, crossed.reverse());
+  }
+
+  /**
+   * Pulls the path through a list of portals tight with the "simple stupid funnel algorithm"
+   * http://digestingduck.blogspot.com/2010/03/simple-stupid-funnel-algorithm.html
+   */
+  private _pull(from: Vector, to: Vector, crossed: Line[]): Vector[] {
+    const lefts = [from, ...crossed.map((line) => line.end), to];
+    const rights = [from, ...crossed.map((line) => line.begin), to];
+    const path = [from.clone()];
+
+    let apex = from;
+    let left = from;
+    let right = from;
+    let apexIndex = 0;
+    let leftIndex = 0;
+    let rightIndex = 0;
+    for (let i = 1; i < lefts.length; i++) {
+      // narrow the funnel from the right
+      if (cross(apex, right, rights[i]) >= 0) {
+        if (apex.equals(right) || cross(apex, left, rights[i]) < 0) {
+          right = rights[i];
+          rightIndex = i;
+        } else {
+          // the right side crossed over the left, the left corner is on the path
+          path.push(left.clone());
+          apex = right = left;
+          apexIndex = rightIndex = leftIndex;
+          i = apexIndex;
+          continue;
+        }
+      }
+      // narrow the funnel from the left
+      if (cross(apex, left, lefts[i]) <= 0) {
+        if (apex.equals(left) || cross(apex, right, lefts[i]) > 0) {
+          left = lefts[i];
+          leftIndex = i;
+        } else {
+          path.push(right.clone());
+          apex = left = right;
+          apexIndex = leftIndex = rightIndex;
+          i = apexIndex;
+          continue;
+        }
+      }
+    }
+    if (!path[path.length - 1].equals(to)) {
+      path.push(to.clone());
+    }
+    return path;
+  }
+
+  /**
+   * Adds a portal between every two triangles sharing an edge, or part of an edge where pieces of the mesh meet
+   */
+  private _connect() {
+    for (let i = 0; i < this.triangles.length; i++) {
+      for (let j = i + 1; j < this.triangles.length; j++) {
+        const a = this.triangles[i];
+        const b = this.triangles[j];
+        for (let edgeA = 0; edgeA < 3; edgeA++) {
+          for (let edgeB = 0; edgeB < 3; edgeB++) {
+            const line = this._getSharedLine(a.points[edgeA], a.points[(edgeA + 1) % 3], b.points[edgeB], b.points[(edgeB + 1) % 3]);
+            if (line) {
+              a.portals.push({ triangle: b, line });
+              b.portals.push({ triangle: a, line: line.flip() });
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Returns the part of edge `a` to `b` that is shared with the opposite edge `c` to `d`, if any
+   */
+  private _getSharedLine(a: Vector, b: Vector, c: Vector, d: Vector): Line {
+    const length = a.distance(b);
+    const direction = b.sub(a).scale(1 / length);
+    if (Math.abs(cross(a, b, c)) / length > Epsilon || Math.abs(cross(a, b, d)) / length > Epsilon || direction.dot(d.sub(c)) >= 0) {
+      return null;
+    }
+    // the shared part starts and ends at corners of the triangles
+    const begin = direction.dot(d.sub(a)) > 0 ? d : a;
+    const end = direction.dot(c.sub(a)) < length ? c : b;
+    if (direction.dot(end.sub(begin)) < Epsilon) {
+      return null;
+    }
+    return new Line(begin, end);
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Binary min heap of node indices used by the path finders, the node with the lowest priority is popped first.
+ *
+ * A node can be pushed again with a lower priority instead of updating it in place, the path finders skip nodes they already
+ * visited when they are popped a second time.
+ * @internal
+ */
+export class PriorityQueue {
+  private _nodes: number[] = [];
+  private _priorities: number[] = [];
+
+  public get length(): number {
+    return this._nodes.length;
+  }
+
+  public push(node: number, priority: number) {
+    let index = this._nodes.length;
+    this._nodes.push(node);
+    this._priorities.push(priority);
+
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this._priorities[parent] <= priority) {
+        break;
+      }
+      this._swap(index, parent);
+      index = parent;
+    }
+  }
+
+  public pop(): number {
+    const top = this._nodes[0];
+    const lastNode = this._nodes.pop();
+    const lastPriority = this._priorities.pop();
+    if (this._nodes.length === 0) {
+      return top;
+    }
+
+    this._nodes[0] = lastNode;
+    this._priorities[0] = lastPriority;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < this._nodes.length && this._priorities[left] < this._priorities[smallest]) {
+        smallest = left;
+      }
+      if (right < this._nodes.length && this._priorities[right] < this._priorities[smallest]) {
+        smallest = right;
+      }
+      if (smallest === index) {
+        return top;
+      }
+      this._swap(index, smallest);
+      index = smallest;
+    }
+  }
+
+  private _swap(a: number, b: number) {
+    const node = this._nodes[a];
+    this._nodes[a] = this._nodes[b];
+    this._nodes[b] = node;
+    const priority = this._priorities[a];
+    this._priorities[a] = this._priorities[b];
+    this._priorities[b] = priority;
+  }
+}
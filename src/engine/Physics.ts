@@ -189,4 +189,291 @@ export class Physics {
    * Excalibur will always perform the fast body raycast regardless of speed.
    */
   public static disableMinimumSpeedForFastBody = false;
+
+  /**
+   * Whether [[CollisionType.Active|active]] bodies fall asleep when they come to rest, see [[Body.canSleep]]. Sleeping bodies are not
+   * integrated and only collide with awake bodies, which makes large piles of resting bodies cheap to simulate.
+   */
+  public static bodiesCanSleepByDefault = false;
+
+  /**
+   * The speed in pixels/second below which a body is considered at rest
+   */
+  public static sleepVelocity = 5;
+
+  /**
+   * The angular speed in radians/second below which a body is considered at rest
+   */
+  public static sleepAngularVelocity = 0.1;
+
+  /**
+   * The time in milliseconds all bodies of an island must be at rest before the island falls asleep
+   */
+  public static timeToSleep = 500;
+}
+
+/**
+ * Physics settings that can be configured per [[Engine]] or per [[Scene]], see [[PhysicsConfig]].
+ */
+export interface PhysicsConfigOptions {
+  /**
+   * Acceleration applied to all [[CollisionType.Active|active]] bodies, see [[Physics.acc]]
+   */
+  acc?: Vector;
+  /**
+   * Switches physics simulation on or off, see [[Physics.enabled]]
+   */
+  enabled?: boolean;
+  /**
+   * Number of collision passes per update, see [[Physics.collisionPasses]]
+   */
+  collisionPasses?: number;
+  /**
+   * Collision resolution strategy (narrowphase), see [[Physics.collisionResolutionStrategy]]
+   */
+  collisionResolutionStrategy?: CollisionResolutionStrategy;
+  /**
+   * Whether rigid body collisions, impulses, and joints rotate bodies, see [[Physics.allowRigidBodyRotation]]
+   */
+  allowRigidBodyRotation?: boolean;
+  /**
+   * Broadphase pair identification strategy, see [[Physics.broadphaseStrategy]]
+   */
+  broadphaseStrategy?: BroadphaseStrategy;
+  /**
+   * Small value to help collision passes settle, see [[Physics.collisionShift]]
+   */
+  collisionShift?: number;
+  /**
+   * Velocity factor to grow bounds in the dynamic tree, see [[Physics.dynamicTreeVelocityMultiplier]]
+   */
+  dynamicTreeVelocityMultiplier?: number;
+  /**
+   * Constant padding of bounds in the dynamic tree, see [[Physics.boundsPadding]]
+   */
+  boundsPadding?: number;
+  /**
+   * Surface epsilon to deal with surface penetration, see [[Physics.surfaceEpsilon]]
+   */
+  surfaceEpsilon?: number;
+  /**
+   * Enable fast moving body checking, see [[Physics.checkForFastBodies]]
+   */
+  checkForFastBodies?: boolean;
+  /**
+   * Always perform the fast body check regardless of speed, see [[Physics.disableMinimumSpeedForFastBody]]
+   */
+  disableMinimumSpeedForFastBody?: boolean;
+  /**
+   * Whether active bodies fall asleep when they come to rest, see [[Physics.bodiesCanSleepByDefault]]
+   */
+  bodiesCanSleepByDefault?: boolean;
+  /**
+   * Speed below which a body is at rest, see [[Physics.sleepVelocity]]
+   */
+  sleepVelocity?: number;
+  /**
+   * Angular speed below which a body is at rest, see [[Physics.sleepAngularVelocity]]
+   */
+  sleepAngularVelocity?: number;
+  /**
+   * Time an island must be at rest before it falls asleep, see [[Physics.timeToSleep]]
+   */
+  timeToSleep?: number;
+}
+
+/**
+ * The [[PhysicsConfig]] holds the physics settings of a single [[Engine]] or [[Scene]], so scenes can have different gravity and two
+ * engines on the same page do not interfere with each other.
+ *
+ * Any setting that is not configured falls back to the parent config, and finally to the global [[Physics]] defaults. A scene's config
+ * uses its engine's config as parent, which means existing games that configure the static [[Physics]] class keep working.
+ * Vectors such as [[PhysicsConfig.acc]] are copied when they are assigned, changing an inherited vector in place changes it on the
+ * config it is inherited from, assign a new value to change it on one config only.
+ *
+ * ```typescript
+ * const game = new ex.Engine({ physics: { acc: ex.vec(0, 800) } });
+ * const space = new ex.Scene();
+ * space.physics.acc = ex.vec(0, 0);
+ * ```
+ */
+export class PhysicsConfig implements PhysicsConfigOptions {
+  /**
+   * Optional parent config used for any setting not configured on this config
+   */
+  public parent: PhysicsConfig = null;
+
+  private _options: PhysicsConfigOptions;
+
+  constructor(options: PhysicsConfigOptions = {}, parent: PhysicsConfig = null) {
+    this._options = { ...options, acc: options.acc?.clone() };
+    this.parent = parent;
+  }
+
+  private _get<K extends keyof PhysicsConfigOptions>(key: K, globalDefault: PhysicsConfigOptions[K]): PhysicsConfigOptions[K] {
+    if (this._options[key] !== undefined) {
+      return this._options[key];
+    }
+    return this.parent ? this.parent._get(key, globalDefault) : globalDefault;
+  }
+
+  /**
+   * Returns whether a setting is configured on this config, as opposed to inherited from the parent or [[Physics]] defaults
+   */
+  public isConfigured(key: keyof PhysicsConfigOptions): boolean {
+    return this._options[key] !== undefined;
+  }
+
+  /**
+   * Removes a setting from this config so that it is inherited again, or all settings if no key is given
+   */
+  public reset(key?: keyof PhysicsConfigOptions): void {
+    if (key) {
+      delete this._options[key];
+    } else {
+      this._options = {};
+    }
+  }
+
+  public get acc(): Vector {
+    return this._get('acc', Physics.acc);
+  }
+
+  public set acc(value: Vector) {
+    this._options.acc = value?.clone();
+  }
+
+  public get enabled(): boolean {
+    return this._get('enabled', Physics.enabled);
+  }
+
+  public set enabled(value: boolean) {
+    this._options.enabled = value;
+  }
+
+  public get collisionPasses(): number {
+    return this._get('collisionPasses', Physics.collisionPasses);
+  }
+
+  public set collisionPasses(value: number) {
+    this._options.collisionPasses = value;
+  }
+
+  public get collisionResolutionStrategy(): CollisionResolutionStrategy {
+    return this._get('collisionResolutionStrategy', Physics.collisionResolutionStrategy);
+  }
+
+  public set collisionResolutionStrategy(value: CollisionResolutionStrategy) {
+    this._options.collisionResolutionStrategy = value;
+  }
+
+  public get allowRigidBodyRotation(): boolean {
+    return this._get('allowRigidBodyRotation', Physics.allowRigidBodyRotation);
+  }
+
+  public set allowRigidBodyRotation(value: boolean) {
+    this._options.allowRigidBodyRotation = value;
+  }
+
+  public get broadphaseStrategy(): BroadphaseStrategy {
+    return this._get('broadphaseStrategy', Physics.broadphaseStrategy);
+  }
+
+  public set broadphaseStrategy(value: BroadphaseStrategy) {
+    this._options.broadphaseStrategy = value;
+  }
+
+  public get collisionShift(): number {
+    return this._get('collisionShift', Physics.collisionShift);
+  }
+
+  public set collisionShift(value: number) {
+    this._options.collisionShift = value;
+  }
+
+  public get dynamicTreeVelocityMultiplier(): number {
+    return this._get('dynamicTreeVelocityMultiplier', Physics.dynamicTreeVelocityMultiplier);
+  }
+
+  public set dynamicTreeVelocityMultiplier(value: number) {
+    this._options.dynamicTreeVelocityMultiplier = value;
+  }
+
+  public get boundsPadding(): number {
+    return this._get('boundsPadding', Physics.boundsPadding);
+  }
+
+  public set boundsPadding(value: number) {
+    this._options.boundsPadding = value;
+  }
+
+  public get surfaceEpsilon(): number {
+    return this._get('surfaceEpsilon', Physics.surfaceEpsilon);
+  }
+
+  public set surfaceEpsilon(value: number) {
+    this._options.surfaceEpsilon = value;
+  }
+
+  public get checkForFastBodies(): boolean {
+    return this._get('checkForFastBodies', Physics.checkForFastBodies);
+  }
+
+  public set checkForFastBodies(value: boolean) {
+    this._options.checkForFastBodies = value;
+  }
+
+  public get disableMinimumSpeedForFastBody(): boolean {
+    return this._get('disableMinimumSpeedForFastBody', Physics.disableMinimumSpeedForFastBody);
+  }
+
+  public set disableMinimumSpeedForFastBody(value: boolean) {
+    this._options.disableMinimumSpeedForFastBody = value;
+  }
+
+  public get bodiesCanSleepByDefault(): boolean {
+    return this._get('bodiesCanSleepByDefault', Physics.bodiesCanSleepByDefault);
+  }
+
+  public set bodiesCanSleepByDefault(value: boolean) {
+    this._options.bodiesCanSleepByDefault = value;
+  }
+
+  public get sleepVelocity(): number {
+    return this._get('sleepVelocity', Physics.sleepVelocity);
+  }
+
+  public set sleepVelocity(value: number) {
+    this._options.sleepVelocity = value;
+  }
+
+  public get sleepAngularVelocity(): number {
+    return this._get('sleepAngularVelocity', Physics.sleepAngularVelocity);
+  }
+
+  public set sleepAngularVelocity(value: number) {
+    this._options.sleepAngularVelocity = value;
+  }
+
+  public get timeToSleep(): number {
+    return this._get('timeToSleep', Physics.timeToSleep);
+  }
+
+  public set timeToSleep(value: number) {
+    this._options.timeToSleep = value;
+  }
+
+  /**
+   * Configures this config to use box physics, see [[Physics.useBoxPhysics]]
+   */
+  public useBoxPhysics(): void {
+    this.collisionResolutionStrategy = CollisionResolutionStrategy.Box;
+  }
+
+  /**
+   * Configures this config to use rigid body physics, see [[Physics.useRigidBodyPhysics]]
+   */
+  public useRigidBodyPhysics(): void {
+    this.collisionResolutionStrategy = CollisionResolutionStrategy.RigidBody;
+  }
 }
@@ -2,3 +2,4 @@ export * from './Resource';
 export * from './Sound/Index';
 export * from './Texture';
 export * from './Gif';
+export * from './Tiled/Index';
@@ -0,0 +1,2 @@
+export * from './TiledData';
+export * from './TiledResource';
@@ -0,0 +1,299 @@
+/**
+ * A custom property set in the Tiled editor
+ */
+export interface TiledProperty {
+  name: string;
+  type: 'string' | 'int' | 'float' | 'bool' | 'color' | 'file' | 'object' | 'class';
+  value: any;
+}
+
+export interface TiledTilesetTileData {
+  id: number;
+  type?: string;
+  image?: string;
+  imagewidth?: number;
+  imageheight?: number;
+  properties?: TiledProperty[];
+  /**
+   * Collision shapes drawn with the tile collision editor
+   */
+  objectgroup?: TiledLayerData;
+}
+
+export interface TiledTilesetData {
+  firstgid: number;
+  /**
+   * Path to an external tileset file, relative to the map
+   */
+  source?: string;
+  name?: string;
+  tilewidth?: number;
+  tileheight?: number;
+  tilecount?: number;
+  columns?: number;
+  margin?: number;
+  spacing?: number;
+  /**
+   * Path to the tileset image, relative to the tileset file, missing for image collection tilesets
+   */
+  image?: string;
+  imagewidth?: number;
+  imageheight?: number;
+  tiles?: TiledTilesetTileData[];
+  properties?: TiledProperty[];
+}
+
+export interface TiledObjectData {
+  id: number;
+  name?: string;
+  type?: string;
+  /**
+   * Replaces type since Tiled 1.9
+   */
+  class?: string;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  /**
+   * Rotation in degrees clockwise around the position of the object
+   */
+  rotation?: number;
+  visible?: boolean;
+  gid?: number;
+  point?: boolean;
+  ellipse?: boolean;
+  polygon?: { x: number; y: number }[];
+  polyline?: { x: number; y: number }[];
+  text?: any;
+  properties?: TiledProperty[];
+}
+
+export interface TiledLayerData {
+  id?: number;
+  name?: string;
+  type: 'tilelayer' | 'objectgroup' | 'imagelayer' | 'group';
+  visible?: boolean;
+  opacity?: number;
+  offsetx?: number;
+  offsety?: number;
+  width?: number;
+  height?: number;
+  /**
+   * Global tile ids of a tile layer, either an array or a base64 string depending on the encoding
+   */
+  data?: number[] | string;
+  encoding?: 'csv' | 'base64';
+  compression?: '' | 'zlib' | 'gzip' | 'zstd';
+  objects?: TiledObjectData[];
+  layers?: TiledLayerData[];
+  properties?: TiledProperty[];
+}
+
+/**
+ * The map format written by the Tiled editor, see https://doc.mapeditor.org/en/stable/reference/json-map-format/
+ */
+export interface TiledMapData {
+  orientation: 'orthogonal' | 'isometric' | 'staggered' | 'hexagonal';
+  infinite?: boolean;
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  layers: TiledLayerData[];
+  tilesets: TiledTilesetData[];
+  properties?: TiledProperty[];
+}
+
+const numberAttributes = [
+  'id',
+  'firstgid',
+  'width',
+  'height',
+  'tilewidth',
+  'tileheight',
+  'tilecount',
+  'columns',
+  'margin',
+  'spacing',
+  'x',
+  'y',
+  'rotation',
+  'gid',
+  'opacity',
+  'offsetx',
+  'offsety'
+];
+
+/**
+ * Copies the attributes of an element, converting the numeric attributes of the format to numbers
+ */
+const readAttributes = (element: Element): any => {
+  const result: any = {};
+  for (let i = 0; i < element.attributes.length; i++) {
+    const { name, value } = element.attributes[i];
+    result[name] = numberAttributes.indexOf(name) > -1 ? +value : value;
+  }
+  return result;
+};
+
+const children = (element: Element, tagName?: string): Element[] => {
+  const result: Element[] = [];
+  for (let i = 0; i < element.children.length; i++) {
+    const child = element.children[i];
+    if (!tagName || child.tagName === tagName) {
+      result.push(child);
+    }
+  }
+  return result;
+};
+
+const readProperties = (element: Element): TiledProperty[] => {
+  const properties = children(element, 'properties')[0];
+  if (!properties) {
+    return undefined;
+  }
+  return children(properties, 'property').map((property) => {
+    const type = property.getAttribute('type') || 'string';
+    const raw = property.hasAttribute('value') ? property.getAttribute('value') : property.textContent;
+    let value: any = raw;
+    if (type === 'int' || type === 'float' || type === 'object') {
+      value = +raw;
+    } else if (type === 'bool') {
+      value = raw === 'true';
+    }
+    return { name: property.getAttribute('name'), type, value } as TiledProperty;
+  });
+};
+
+const readPoints = (element: Element) => {
+  return element
+    .getAttribute('points')
+    .trim()
+    .split(/\s+/)
+    .map((pair) => {
+      const [x, y] = pair.split(',');
+      return { x: +x, y: +y };
+    });
+};
+
+const readObject = (element: Element): TiledObjectData => {
+  const object: TiledObjectData = readAttributes(element);
+  object.visible = element.getAttribute('visible') !== '0';
+  object.properties = readProperties(element);
+  for (const child of children(element)) {
+    if (child.tagName === 'point') {
+      object.point = true;
+    } else if (child.tagName === 'ellipse') {
+      object.ellipse = true;
+    } else if (child.tagName === 'polygon') {
+      object.polygon = readPoints(child);
+    } else if (child.tagName === 'polyline') {
+      object.polyline = readPoints(child);
+    } else if (child.tagName === 'text') {
+      object.text = { ...readAttributes(child), text: child.textContent };
+    }
+  }
+  return object;
+};
+
+const readLayer = (element: Element): TiledLayerData => {
+  const types: { [tagName: string]: TiledLayerData['type'] } = {
+    layer: 'tilelayer',
+    objectgroup: 'objectgroup',
+    imagelayer: 'imagelayer',
+    group: 'group'
+  };
+  const layer: TiledLayerData = { ...readAttributes(element), type: types[element.tagName] };
+  layer.visible = element.getAttribute('visible') !== '0';
+  layer.properties = readProperties(element);
+
+  if (layer.type === 'tilelayer') {
+    const data = children(element, 'data')[0];
+    const encoding = data.getAttribute('encoding');
+    if (encoding === 'base64') {
+      layer.encoding = 'base64';
+      layer.compression = (data.getAttribute('compression') || '') as TiledLayerData['compression'];
+      layer.data = data.textContent.trim();
+    } else if (encoding === 'csv') {
+      layer.data = data.textContent
+        .trim()
+        .split(/\s*,\s*/)
+        .map(Number);
+    } else if (children(data, 'chunk').length) {
+      throw new Error('Infinite Tiled maps are not supported');
+    } else {
+      layer.data = children(data, 'tile').map((tile) => +(tile.getAttribute('gid') || 0));
+    }
+  } else if (layer.type === 'objectgroup') {
+    layer.objects = children(element, 'object').map(readObject);
+  } else if (layer.type === 'group') {
+    layer.layers = children(element)
+      .map(readLayer)
+      .filter((child) => !!child.type);
+  }
+  return layer;
+};
+
+const parseXml = (xml: string): Element => {
+  const document = new DOMParser().parseFromString(xml, 'text/xml');
+  const error = document.getElementsByTagName('parsererror')[0];
+  if (error) {
+    throw new Error('Could not parse Tiled file: ' + error.textContent);
+  }
+  return document.documentElement;
+};
+
+/**
+ * Parses a tileset element of a .tmx or .tsx file
+ */
+const readTileset = (element: Element): TiledTilesetData => {
+  const tileset: TiledTilesetData = readAttributes(element);
+  tileset.properties = readProperties(element);
+  const image = children(element, 'image')[0];
+  if (image) {
+    tileset.image = image.getAttribute('source');
+    tileset.imagewidth = +image.getAttribute('width');
+    tileset.imageheight = +image.getAttribute('height');
+  }
+  tileset.tiles = children(element, 'tile').map((tileElement) => {
+    const tile: TiledTilesetTileData = readAttributes(tileElement);
+    tile.properties = readProperties(tileElement);
+    const tileImage = children(tileElement, 'image')[0];
+    if (tileImage) {
+      tile.image = tileImage.getAttribute('source');
+      tile.imagewidth = +tileImage.getAttribute('width');
+      tile.imageheight = +tileImage.getAttribute('height');
+    }
+    const objectgroup = children(tileElement, 'objectgroup')[0];
+    if (objectgroup) {
+      tile.objectgroup = readLayer(objectgroup);
+    }
+    return tile;
+  });
+  return tileset;
+};
+
+/**
+ * Parses the XML map format of the Tiled editor (.tmx) into the equivalent JSON map format
+ * @param xml  The contents of the .tmx file
+ */
+export function parseTmx(xml: string): TiledMapData {
+  const map = parseXml(xml);
+  const data: TiledMapData = readAttributes(map);
+  data.infinite = map.getAttribute('infinite') === '1';
+  data.properties = readProperties(map);
+  data.tilesets = children(map, 'tileset').map(readTileset);
+  data.layers = children(map)
+    .filter((element) => ['layer', 'objectgroup', 'imagelayer', 'group'].indexOf(element.tagName) > -1)
+    .map(readLayer);
+  return data;
+}
+
+/**
+ * Parses the XML tileset format of the Tiled editor (.tsx) into the equivalent JSON tileset format
+ * @param xml  The contents of the .tsx file
+ */
+export function parseTsx(xml: string): TiledTilesetData {
+  return readTileset(parseXml(xml));
+}
@@ -0,0 +1,498 @@
+import { Vector, vec } from '../../Algebra';
+import { Entity } from '../../EntityComponentSystem/Entity';
+import { TransformComponent } from '../../EntityComponentSystem/Components/TransformComponent';
+import { Graphic } from '../../Graphics/Graphic';
+import { GraphicsComponent } from '../../Graphics/GraphicsComponent';
+import { ImageSource } from '../../Graphics/ImageSource';
+import { SpriteSheet } from '../../Graphics/SpriteSheet';
+import { Loadable } from '../../Interfaces/Loadable';
+import { Scene } from '../../Scene';
+import { Side } from '../../Collision/Side';
+import { CellShape, getCellShapePoints, TileMap } from '../../TileMap';
+import { Resource } from '../Resource';
+import {
+  parseTmx,
+  parseTsx,
+  TiledLayerData,
+  TiledMapData,
+  TiledObjectData,
+  TiledProperty,
+  TiledTilesetData,
+  TiledTilesetTileData
+} from './TiledData';
+
+const FlippedHorizontallyFlag = 0x80000000;
+const FlippedVerticallyFlag = 0x40000000;
+const FlippedDiagonallyFlag = 0x20000000;
+// only used by hexagonal maps, masked out with the other flags
+const RotatedHexagonalFlag = 0x10000000;
+const GidMask = ~(FlippedHorizontallyFlag | FlippedVerticallyFlag | FlippedDiagonallyFlag | RotatedHexagonalFlag);
+
+/**
+ * An object placed on an object layer in Tiled, use the type to decide what to spawn for it
+ */
+export interface TiledObject {
+  id: number;
+  name: string;
+  /**
+   * The type of the object set in Tiled, named class since Tiled 1.9
+   */
+  type: string;
+  /**
+   * The shape of the object
+   */
+  shape: 'rectangle' | 'ellipse' | 'point' | 'polygon' | 'polyline' | 'tile' | 'text';
+  /**
+   * World position of the top left of the object before rotation
+   */
+  pos: Vector;
+  /**
+   * World position of the center of the object
+   */
+  center: Vector;
+  width: number;
+  height: number;
+  /**
+   * Rotation in radians clockwise
+   */
+  rotation: number;
+  visible: boolean;
+  /**
+   * World positions of the points of polygon and polyline objects
+   */
+  points?: Vector[];
+  /**
+   * The graphic of tile objects
+   */
+  graphic?: Graphic;
+  properties: Map<string, any>;
+}
+
+/**
+ * An object layer in Tiled
+ */
+export interface TiledObjectLayer {
+  name: string;
+  visible: boolean;
+  properties: Map<string, any>;
+  objects: TiledObject[];
+}
+
+/**
+ * A tile layer in Tiled and the [[TileMap]] built for it
+ */
+export interface TiledTileLayer {
+  name: string;
+  properties: Map<string, any>;
+  tileMap: TileMap;
+}
+
+interface Tile {
+  graphic: Graphic;
+  solid: boolean;
+  shape: CellShape | Vector[];
+  oneWay: Side;
+  properties: Map<string, any>;
+}
+
+const oneWaySides: { [name: string]: Side } = {
+  top: Side.Top,
+  bottom: Side.Bottom,
+  left: Side.Left,
+  right: Side.Right
+};
+
+/**
+ * Returns the outline in tile space of the first collision shape drawn with the tile collision editor
+ */
+const getCollisionOutline = (tile: TiledTilesetTileData): Vector[] => {
+  const object = tile?.objectgroup?.objects?.[0];
+  if (!object) {
+    return null;
+  }
+  const points = object.polygon ?? [
+    { x: 0, y: 0 },
+    { x: object.width ?? 0, y: 0 },
+    { x: object.width ?? 0, y: object.height ?? 0 },
+    { x: 0, y: object.height ?? 0 }
+  ];
+  return points.map((p) => vec(object.x + p.x, object.y + p.y));
+};
+
+/**
+ * Applies the flip flags of a global tile id to the collision shape of a tile
+ */
+const flipShape = (shape: CellShape | Vector[], gid: number, width: number, height: number): CellShape | Vector[] => {
+  if (!(gid & (FlippedHorizontallyFlag | FlippedVerticallyFlag | FlippedDiagonallyFlag))) {
+    return shape;
+  }
+  return getCellShapePoints(shape, width, height).map((point) => {
+    let { x, y } = point;
+    if (gid & FlippedDiagonallyFlag) {
+      [x, y] = [(y * width) / height, (x * height) / width];
+    }
+    if (gid & FlippedHorizontallyFlag) {
+      x = width - x;
+    }
+    if (gid & FlippedVerticallyFlag) {
+      y = height - y;
+    }
+    return vec(x, y);
+  });
+};
+
+const toMap = (properties: TiledProperty[] = []): Map<string, any> => {
+  return new Map(properties.map((p) => [p.name, p.value] as [string, any]));
+};
+
+const resolvePath = (base: string, path: string): string => {
+  if (/^([a-z]+:|\/)/i.test(path)) {
+    return path;
+  }
+  return base.substring(0, base.lastIndexOf('/') + 1) + path;
+};
+
+const isTmx = (path: string) => /\.(tmx|tsx|xml)(\?.*)?$/i.test(path);
+
+const decompress = async (bytes: Uint8Array, compression: TiledLayerData['compression']): Promise<Uint8Array> => {
+  if (!compression) {
+    return bytes;
+  }
+  if (compression === 'zstd') {
+    throw new Error('zstd compressed Tiled layers are not supported, use zlib or gzip compression');
+  }
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error(`${compression} compressed Tiled layers are not supported by this browser, use csv or uncompressed base64`);
+  }
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream(compression === 'zlib' ? 'deflate' : 'gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Returns the global tile ids of a tile layer, including the flip flags
+ */
+const decodeLayer = async (layer: TiledLayerData): Promise<number[]> => {
+  if (typeof layer.data !== 'string') {
+    return layer.data;
+  }
+  const binary = atob(layer.data.trim());
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  const decompressed = await decompress(bytes, layer.compression);
+  const view = new DataView(decompressed.buffer, decompressed.byteOffset, decompressed.byteLength);
+  const gids: number[] = [];
+  for (let i = 0; i + 4 <= decompressed.byteLength; i += 4) {
+    gids.push(view.getUint32(i, true));
+  }
+  return gids;
+};
+
+/**
+ * The [[TiledResource]] loads maps made with the [Tiled editor](https://www.mapeditor.org/) in the JSON (.json, .tmj) or XML
+ * (.tmx) format, along with their tilesets and images. It is a [[Loadable]] so it can be passed to a [[Loader]].
+ *
+ * Orthogonal maps with csv, base64, and zlib or gzip compressed tile layers are supported. Every tile layer becomes a [[TileMap]],
+ * cells are solid when their tile or layer has a `solid` custom property set to true or their tile has collision shapes, and the
+ * custom properties of the tile are copied to [[Cell.data]]. The [[Cell.shape]] of a cell is the first shape drawn in the tile
+ * collision editor or a [[CellShape]] named by a `shape` property of the tile like `slope-up`, and a `oneWay` property of `top`,
+ * `bottom`, `left`, or `right` sets [[Cell.oneWay]]. Object layers are kept as plain [[TiledObject|objects]] to spawn actors from.
+ *
+ * ```typescript
+ * const level = new ex.TiledResource('./levels/level1.tmx');
+ * loader.addResource(level);
+ *
+ * level.addToScene(scene, {
+ *   player: (object) => new Player(object.center),
+ *   door: (object) => new ex.Trigger({ pos: object.center, width: object.width, height: object.height, action: openDoor })
+ * });
+ * ```
+ */
+export class TiledResource implements Loadable<TiledMapData> {
+  public data: TiledMapData = null;
+
+  /**
+   * The tile layers of the map in drawing order
+   */
+  public tileLayers: TiledTileLayer[] = [];
+
+  /**
+   * The object layers of the map in drawing order
+   */
+  public objectLayers: TiledObjectLayer[] = [];
+
+  /**
+   * The custom properties of the map
+   */
+  public properties = new Map<string, any>();
+
+  private _tiles: Tile[] = [];
+  private _graphics = new Map<number, Graphic>();
+
+  /**
+   * @param path       Path to the .tmx or .json map
+   * @param bustCache  Optionally load the map, tilesets, and images with cache busting
+   */
+  constructor(public path: string, public bustCache = false) {}
+
+  /**
+   * The tile maps built for the tile layers in drawing order
+   */
+  public get tileMaps(): TileMap[] {
+    return this.tileLayers.map((layer) => layer.tileMap);
+  }
+
+  /**
+   * Begins loading the map, its tilesets, and their images and returns a promise to be resolved on completion
+   */
+  public async load(): Promise<TiledMapData> {
+    // loading again starts from fresh tile and graphic tables so nothing from the previous load is kept
+    this._tiles = [];
+    this._graphics = new Map<number, Graphic>();
+    const map = await this._loadFile<TiledMapData>(this.path, parseTmx);
+    if (map.orientation !== 'orthogonal') {
+      throw new Error(`Only orthogonal Tiled maps are supported, ${this.path} is ${map.orientation}`);
+    }
+    if (map.infinite) {
+      throw new Error(`Infinite Tiled maps are not supported, ${this.path} is infinite`);
+    }
+
+    const tilesets = await Promise.all(
+      map.tilesets.map(async (tileset) => {
+        if (!tileset.source) {
+          return { tileset, path: this.path };
+        }
+        const path = resolvePath(this.path, tileset.source);
+        const external = await this._loadFile<TiledTilesetData>(path, parseTsx);
+        return { tileset: { ...external, firstgid: tileset.firstgid }, path };
+      })
+    );
+    await Promise.all(tilesets.map(({ tileset, path }) => this._loadTileset(tileset, path)));
+
+    this.properties = toMap(map.properties);
+    this.tileLayers = [];
+    this.objectLayers = [];
+    await this._loadLayers(map, map.layers, Vector.Zero);
+    return (this.data = map);
+  }
+
+  public isLoaded(): boolean {
+    return !!this.data;
+  }
+
+  /**
+   * Returns the objects of every object layer with a type, in drawing order
+   */
+  public getObjectsByType(type: string): TiledObject[] {
+    return this._getObjects().filter((object) => object.type === type);
+  }
+
+  /**
+   * Returns the objects of every object layer with a name, in drawing order
+   */
+  public getObjectsByName(name: string): TiledObject[] {
+    return this._getObjects().filter((object) => object.name === name);
+  }
+
+  /**
+   * Adds the tile maps to a scene, and the entities created by the factories for the objects of their type
+   * @param scene      The scene to add the map to
+   * @param factories  Optionally functions creating an entity for an object, by object type
+   */
+  public addToScene(scene: Scene, factories: { [type: string]: (object: TiledObject) => Entity } = {}): void {
+    for (const tileMap of this.tileMaps) {
+      scene.add(tileMap);
+    }
+    for (const object of this._getObjects()) {
+      const factory = factories[object.type];
+      if (factory) {
+        scene.add(factory(object));
+      }
+    }
+  }
+
+  private _getObjects(): TiledObject[] {
+    return this.objectLayers.reduce((objects, layer) => objects.concat(layer.objects), [] as TiledObject[]);
+  }
+
+  private async _loadFile<T>(path: string, parseXml: (xml: string) => T): Promise<T> {
+    if (isTmx(path)) {
+      return parseXml(await new Resource<string>(path, 'text', this.bustCache).load());
+    }
+    return new Resource<T>(path, 'json', this.bustCache).load();
+  }
+
+  private async _loadTileset(tileset: TiledTilesetData, path: string) {
+    const tiles = new Map<number, TiledTilesetTileData>((tileset.tiles ?? []).map((t) => [t.id, t] as [number, TiledTilesetTileData]));
+    const setTile = (id: number, graphic: Graphic) => {
+      const tile = tiles.get(id);
+      const properties = toMap(tile?.properties);
+      const outline = getCollisionOutline(tile);
+      const solid = properties.get('solid') === true || !!outline;
+      const namedShape = Object.values(CellShape).includes(properties.get('shape')) ? properties.get('shape') : null;
+      const shape = namedShape ?? outline ?? CellShape.Full;
+      const oneWay = oneWaySides[String(properties.get('oneWay')).toLowerCase()] ?? Side.None;
+      this._tiles[tileset.firstgid + id] = { graphic, solid, shape, oneWay, properties };
+    };
+
+    if (tileset.image) {
+      const image = new ImageSource(resolvePath(path, tileset.image), this.bustCache);
+      await image.load();
+      const margin = tileset.margin ?? 0;
+      const spacing = tileset.spacing ?? 0;
+      const columns = tileset.columns || Math.floor((image.width - 2 * margin + spacing) / (tileset.tilewidth + spacing));
+      const count = tileset.tilecount ?? columns * Math.floor((image.height - 2 * margin + spacing) / (tileset.tileheight + spacing));
+      const sheet = SpriteSheet.fromGrid({
+        image,
+        grid: { rows: Math.ceil(count / columns), columns, spriteWidth: tileset.tilewidth, spriteHeight: tileset.tileheight },
+        spacing: { originOffset: { x: margin, y: margin }, margin: { x: spacing, y: spacing } }
+      });
+      for (let id = 0; id < count; id++) {
+        setTile(id, sheet.sprites[id]);
+      }
+    } else {
+      // image collection tilesets have an image per tile
+      await Promise.all(
+        Array.from(tiles.values())
+          .filter((tile) => tile.image)
+          .map(async (tile) => {
+            const image = new ImageSource(resolvePath(path, tile.image), this.bustCache);
+            await image.load();
+            setTile(tile.id, image.toSprite());
+          })
+      );
+    }
+  }
+
+  /**
+   * Returns the graphic of a global tile id with the flip flags applied
+   */
+  private _getGraphic(gid: number): Graphic {
+    if (this._graphics.has(gid)) {
+      return this._graphics.get(gid);
+    }
+    const tile = this._tiles[gid & GidMask];
+    let graphic = tile?.graphic ?? null;
+    const horizontal = !!(gid & FlippedHorizontallyFlag);
+    const vertical = !!(gid & FlippedVerticallyFlag);
+    const diagonal = !!(gid & FlippedDiagonallyFlag);
+    if (graphic && (horizontal || vertical || diagonal)) {
+      graphic = graphic.clone();
+      if (diagonal) {
+        // a diagonal flip swaps x and y before the other flips, which is a quarter turn combined with a flip
+        graphic.rotation = vertical && !horizontal ? -Math.PI / 2 : Math.PI / 2;
+        graphic.flipHorizontal = horizontal && vertical;
+        graphic.flipVertical = !horizontal && !vertical;
+      } else {
+        graphic.flipHorizontal = horizontal;
+        graphic.flipVertical = vertical;
+      }
+    }
+    this._graphics.set(gid, graphic);
+    return graphic;
+  }
+
+  private async _loadLayers(map: TiledMapData, layers: TiledLayerData[], offset: Vector) {
+    for (const layer of layers) {
+      const layerOffset = offset.add(vec(layer.offsetx ?? 0, layer.offsety ?? 0));
+      if (layer.type === 'tilelayer') {
+        this.tileLayers.push(await this._createTileLayer(map, layer, layerOffset));
+      } else if (layer.type === 'objectgroup') {
+        this.objectLayers.push(this._createObjectLayer(layer, layerOffset));
+      } else if (layer.type === 'group') {
+        await this._loadLayers(map, layer.layers ?? [], layerOffset);
+      }
+    }
+  }
+
+  private async _createTileLayer(map: TiledMapData, layer: TiledLayerData, offset: Vector): Promise<TiledTileLayer> {
+    const properties = toMap(layer.properties);
+    const tileMap = new TileMap({
+      x: offset.x,
+      y: offset.y,
+      cellWidth: map.tilewidth,
+      cellHeight: map.tileheight,
+      rows: layer.height ?? map.height,
+      cols: layer.width ?? map.width
+    });
+    tileMap.visible = layer.visible ?? true;
+    tileMap.get(TransformComponent).z = this.tileLayers.length + this.objectLayers.length;
+    tileMap.get(GraphicsComponent).opacity = layer.opacity ?? 1;
+
+    const gids = await decodeLayer(layer);
+    const solidLayer = properties.get('solid') === true;
+    for (let i = 0; i < gids.length && i < tileMap.data.length; i++) {
+      const gid = gids[i];
+      const tile = this._tiles[gid & GidMask];
+      if (!gid || !tile) {
+        continue;
+      }
+      const cell = tileMap.data[i];
+      cell.solid = solidLayer || tile.solid;
+      cell.shape = flipShape(tile.shape, gid, map.tilewidth, map.tileheight);
+      cell.oneWay = tile.oneWay;
+      tile.properties.forEach((value, key) => cell.data.set(key, value));
+      const graphic = this._getGraphic(gid);
+      if (graphic) {
+        cell.addGraphic(graphic);
+      }
+    }
+    return { name: layer.name ?? '', properties, tileMap };
+  }
+
+  private _createObjectLayer(layer: TiledLayerData, offset: Vector): TiledObjectLayer {
+    return {
+      name: layer.name ?? '',
+      visible: layer.visible ?? true,
+      properties: toMap(layer.properties),
+      objects: (layer.objects ?? []).map((object) => this._createObject(object, offset))
+    };
+  }
+
+  private _createObject(object: TiledObjectData, offset: Vector): TiledObject {
+    const width = object.width ?? 0;
+    const height = object.height ?? 0;
+    const rotation = ((object.rotation ?? 0) * Math.PI) / 180;
+    const origin = offset.add(vec(object.x, object.y));
+    // tile objects are positioned by their bottom left corner, every other object by its top left
+    const topLeft = object.gid ? vec(0, -height) : Vector.Zero;
+
+    let shape: TiledObject['shape'] = 'rectangle';
+    if (object.gid) {
+      shape = 'tile';
+    } else if (object.point) {
+      shape = 'point';
+    } else if (object.ellipse) {
+      shape = 'ellipse';
+    } else if (object.polygon) {
+      shape = 'polygon';
+    } else if (object.polyline) {
+      shape = 'polyline';
+    } else if (object.text) {
+      shape = 'text';
+    }
+
+    const result: TiledObject = {
+      id: object.id,
+      name: object.name ?? '',
+      type: object.type || object.class || '',
+      shape,
+      pos: origin.add(topLeft.rotate(rotation)),
+      center: origin.add(topLeft.add(vec(width / 2, height / 2)).rotate(rotation)),
+      width,
+      height,
+      rotation,
+      visible: object.visible ?? true,
+      properties: toMap(object.properties)
+    };
+    const points = object.polygon ?? object.polyline;
+    if (points) {
+      result.points = points.map((p) => origin.add(vec(p.x, p.y).rotate(rotation)));
+    }
+    if (object.gid) {
+      result.graphic = this._getGraphic(object.gid);
+    }
+    return result;
+  }
+}
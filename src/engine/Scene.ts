@@ -1,5 +1,5 @@
 import { ScreenElement } from './ScreenElement';
-import { Physics } from './Physics';
+import { ScenePhysics } from './Collision/ScenePhysics';
 import {
   InitializeEvent,
   ActivateEvent,
@@ -14,8 +14,6 @@ import {
 } from './Events';
 import { Logger } from './Util/Log';
 import { Timer } from './Timer';
-import { DynamicTreeCollisionBroadphase } from './Collision/DynamicTreeCollisionBroadphase';
-import { CollisionBroadphase } from './Collision/CollisionResolver';
 import { Engine } from './Engine';
 import { TileMap } from './TileMap';
 import { Camera } from './Camera';
@@ -26,7 +24,6 @@ import * as Util from './Util/Util';
 import * as Events from './Events';
 import * as ActorUtils from './Util/Actors';
 import { Trigger } from './Trigger';
-import { Body } from './Collision/Body';
 import { SystemType } from './EntityComponentSystem/System';
 // import { CanvasDrawingSystem } from './Drawing/CanvasDrawingSystem';
 import { obsolete } from './Util/Decorators';
@@ -34,6 +31,12 @@ import { World } from './EntityComponentSystem/World';
 import { Entity } from './EntityComponentSystem/Entity';
 import { GraphicsSystem } from './Graphics/GraphicsSystem';
 import { CanvasDrawingSystem } from './Drawing/CanvasDrawingSystem';
+import { MotionSystem } from './Collision/MotionSystem';
+import { CollisionSystem } from './Collision/CollisionSystem';
+import { SteeringSystem } from './Steering/SteeringSystem';
+import { Joint } from './Collision/Joint';
+import { NavMesh } from './Pathfinding/NavMesh';
+import { Vector } from './Algebra';
 import { Flags, Legacy } from './Flags';
 /**
  * [[Actor|Actors]] are composed together into groupings called Scenes in
@@ -59,9 +62,11 @@ export class Scene extends Class implements CanInitialize, CanActivate, CanDeact
   public world = new World(this);
 
   /**
-   * Physics bodies in the current scene
+   * The physics settings for this scene, any setting not configured here is inherited from [[Engine.physics]]
+   * and then the global [[Physics]] defaults. Also queries the colliders in the scene with [[ScenePhysics.rayCast]],
+   * [[ScenePhysics.shapeCast]], and [[ScenePhysics.overlap]].
    */
-  private _bodies: Body[] = [];
+  public readonly physics: ScenePhysics = new ScenePhysics();
 
   /**
    * The triggers in the current scene
@@ -73,6 +78,16 @@ export class Scene extends Class implements CanInitialize, CanActivate, CanDeact
    */
   public tileMaps: TileMap[] = [];
 
+  /**
+   * The [[Joint]]s connecting bodies in the scene, if any
+   */
+  public joints: Joint[] = [];
+
+  /**
+   * The navigation mesh of the scene used by [[Scene.findPath]], if any
+   */
+  public navMesh: NavMesh = null;
+
   /**
    * Access to the Excalibur engine
    */
@@ -92,8 +107,6 @@ export class Scene extends Class implements CanInitialize, CanActivate, CanDeact
 
   private _isInitialized: boolean = false;
 
-  private _broadphase: CollisionBroadphase = new DynamicTreeCollisionBroadphase();
-
   private _killQueue: Actor[] = [];
   private _triggerKillQueue: Trigger[] = [];
   private _timers: Timer[] = [];
@@ -103,8 +116,13 @@ export class Scene extends Class implements CanInitialize, CanActivate, CanDeact
   constructor(_engine?: Engine) {
     super();
     this.camera = new Camera();
+    // Physics systems are added up front so they observe every entity added to the scene
+    this.world.add(new SteeringSystem());
+    this.world.add(new MotionSystem());
+    this.world.add(new CollisionSystem());
     if (_engine) {
       this.engine = _engine;
+      this.physics.parent = _engine.physics;
       this.camera.x = this.engine.halfDrawWidth;
       this.camera.y = this.engine.halfDrawHeight;
     }
@@ -238,6 +256,7 @@ export class Scene extends Class implements CanInitialize, CanActivate, CanDeact
   public _initialize(engine: Engine) {
     if (!this.isInitialized) {
       this.engine = engine;
+      this.physics.parent = engine.physics;
       if (this.camera) {
         this.camera.x = engine.halfDrawWidth;
         this.camera.y = engine.halfDrawHeight;
@@ -336,7 +355,6 @@ export class Scene extends Class implements CanInitialize, CanActivate, CanDeact
    */
   public update(engine: Engine, delta: number) {
     this._preupdate(engine, delta);
-    this.world.update(SystemType.Update, delta);
 
     if (this.camera) {
       this.camera.update(engine, delta);
@@ -358,41 +376,13 @@ export class Scene extends Class implements CanInitialize, CanActivate, CanDeact
       entity.update(engine, delta);
     }
 
-    // Cycle through actors updating actors
-    for (i = 0, len = this.actors.length; i < len; i++) {
-      this._bodies[i] = this.actors[i].body;
-    }
+    // Run the update systems, including motion and collision
+    this.world.update(SystemType.Update, delta);
 
     this._collectActorStats(engine);
 
     engine.input.pointers.dispatchPointerEvents();
 
-    // Run the broadphase and narrowphase
-    if (this._broadphase && Physics.enabled) {
-      const beforeBroadphase = Date.now();
-      this._broadphase.update(this._bodies, delta);
-      let pairs = this._broadphase.broadphase(this._bodies, delta, engine.stats.currFrame);
-      const afterBroadphase = Date.now();
-
-      const beforeNarrowphase = Date.now();
-      let iter: number = Physics.collisionPasses;
-      const collisionDelta = delta / iter;
-      while (iter > 0) {
-        // Run the narrowphase
-        pairs = this._broadphase.narrowphase(pairs, engine.stats.currFrame);
-        // Run collision resolution strategy
-        pairs = this._broadphase.resolve(pairs, collisionDelta, Physics.collisionResolutionStrategy);
-
-        this._broadphase.runCollisionStartEnd(pairs);
-
-        iter--;
-      }
-
-      const afterNarrowphase = Date.now();
-      engine.stats.currFrame.physics.broadphase = afterBroadphase - beforeBroadphase;
-      engine.stats.currFrame.physics.narrowphase = afterNarrowphase - beforeNarrowphase;
-    }
-
     engine.stats.currFrame.actors.killed = this._killQueue.length + this._triggerKillQueue.length;
 
     this._processKillQueue(this._killQueue, this.actors);
@@ -438,7 +428,11 @@ export class Scene extends Class implements CanInitialize, CanActivate, CanDeact
   /* istanbul ignore next */
   public debugDraw(ctx: CanvasRenderingContext2D) {
     this.emit('predebugdraw', new PreDebugDrawEvent(ctx, this));
-    this._broadphase.debugDraw(ctx, 20);
+    for (const system of this.world.systemManager.systems) {
+      if (system.debugDraw) {
+        system.debugDraw(ctx, 20);
+      }
+    }
     this.emit('postdebugdraw', new PostDebugDrawEvent(ctx, this));
   }
 
@@ -460,6 +454,12 @@ export class Scene extends Class implements CanInitialize, CanActivate, CanDeact
    */
   public add(tileMap: TileMap): void;
 
+  /**
+   * Adds a [[Joint]] to the [[Scene]], once this is done the joint will be solved with the scene's collisions.
+   * @param joint
+   */
+  public add(joint: Joint): void;
+
   /**
    * Adds a [[Trigger]] to the [[Scene]], once this is done the [[Trigger]] will listen for interactions with other actors.
    * @param trigger
@@ -486,7 +486,6 @@ export class Scene extends Class implements CanInitialize, CanActivate, CanDeact
     }
     if (entity instanceof Actor) {
       if (!Util.contains(this.actors, entity)) {
-        this._broadphase.track(entity.body);
         entity.scene = this;
         if (entity instanceof Trigger) {
           this.triggers.push(entity);
@@ -519,6 +518,11 @@ export class Scene extends Class implements CanInitialize, CanActivate, CanDeact
         this.addTileMap(entity);
       }
     }
+    if (entity instanceof Joint) {
+      if (!Util.contains(this.joints, entity)) {
+        this.joints.push(entity);
+      }
+    }
   }
 
   /**
@@ -533,6 +537,12 @@ export class Scene extends Class implements CanInitialize, CanActivate, CanDeact
    */
   public remove(tileMap: TileMap): void;
 
+  /**
+   * Removes a [[Joint]] from the scene, the connected bodies wake up and will move freely.
+   * @param joint
+   */
+  public remove(joint: Joint): void;
+
   /**
    * Removes an actor from the scene, it will no longer be drawn or updated.
    * @param actor  The actor to remove from the current scene.
@@ -552,7 +562,6 @@ export class Scene extends Class implements CanInitialize, CanActivate, CanDeact
       if (!Util.contains(this.actors, entity)) {
         return;
       }
-      this._broadphase.untrack(entity.body);
       if (entity instanceof Trigger) {
         this._triggerKillQueue.push(entity);
       } else {
@@ -568,6 +577,12 @@ export class Scene extends Class implements CanInitialize, CanActivate, CanDeact
     if (entity instanceof TileMap) {
       this.removeTileMap(entity);
     }
+    if (entity instanceof Joint) {
+      Util.removeItemFromArray(entity, this.joints);
+      // the bodies held by the joint may have to move now
+      entity.bodyA?.setSleeping(false);
+      entity.bodyB?.setSleeping(false);
+    }
   }
 
   /**
@@ -659,6 +674,14 @@ export class Scene extends Class implements CanInitialize, CanActivate, CanDeact
     return false;
   }
 
+  /**
+   * Finds the shortest path between two points in world space on the [[Scene.navMesh|navigation mesh]] of the scene, see
+   * [[NavMesh.findPath]]. The path is empty if the scene has no navigation mesh.
+   */
+  public findPath(from: Vector, to: Vector): Vector[] {
+    return this.navMesh ? this.navMesh.findPath(from, to) : [];
+  }
+
   private _collectActorStats(engine: Engine) {
     for (const _ui of this.screenElements) {
       engine.stats.currFrame.actors.ui++;
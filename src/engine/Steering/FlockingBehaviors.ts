@@ -0,0 +1,89 @@
+import { Vector } from '../Algebra';
+import { seek, SteeringAgent, SteeringBehavior, SteeringBehaviorOptions, SteeringContext } from './SteeringBehavior';
+
+export interface FlockingBehaviorOptions extends SteeringBehaviorOptions {
+  /**
+   * Optionally the distance in pixels within which neighbors are taken into account
+   */
+  radius?: number;
+}
+
+const getNeighbors = (context: SteeringContext, radius: number): SteeringAgent[] =>
+  context.neighbors.filter((neighbor) => neighbor !== context.agent && neighbor.pos.distance(context.agent.pos) <= radius);
+
+/**
+ * Moves the agent away from its neighbors so a crowd does not bunch up, the closer a neighbor the stronger it pushes
+ */
+export class SeparationBehavior extends SteeringBehavior {
+  public radius: number;
+
+  /**
+   * @param options  The options of the behavior, by default neighbors within 30 pixels push the agent away
+   */
+  constructor(options: FlockingBehaviorOptions = {}) {
+    super(options);
+    this.radius = options.radius ?? 30;
+  }
+
+  public calculate(context: SteeringContext): Vector {
+    let away = Vector.Zero;
+    for (const neighbor of getNeighbors(context, this.radius)) {
+      const offset = context.agent.pos.sub(neighbor.pos);
+      const distance = offset.size;
+      // agents on top of each other split up in an arbitrary direction
+      away = away.add(distance > 0 ? offset.scale(1 / (distance * distance)) : Vector.Up);
+    }
+    if (away.size === 0) {
+      return Vector.Zero;
+    }
+    return away.normalize().scale(context.maxSpeed).sub(context.agent.vel);
+  }
+}
+
+/**
+ * Moves the agent towards the center of its neighbors so a crowd stays together
+ */
+export class CohesionBehavior extends SteeringBehavior {
+  public radius: number;
+
+  /**
+   * @param options  The options of the behavior, by default neighbors within 100 pixels pull the agent in
+   */
+  constructor(options: FlockingBehaviorOptions = {}) {
+    super(options);
+    this.radius = options.radius ?? 100;
+  }
+
+  public calculate(context: SteeringContext): Vector {
+    const neighbors = getNeighbors(context, this.radius);
+    if (!neighbors.length) {
+      return Vector.Zero;
+    }
+    const center = neighbors.reduce((sum, neighbor) => sum.add(neighbor.pos), Vector.Zero).scale(1 / neighbors.length);
+    return seek(context, center);
+  }
+}
+
+/**
+ * Turns the agent to move like its neighbors so a crowd heads the same way
+ */
+export class AlignmentBehavior extends SteeringBehavior {
+  public radius: number;
+
+  /**
+   * @param options  The options of the behavior, by default the agent aligns with neighbors within 100 pixels
+   */
+  constructor(options: FlockingBehaviorOptions = {}) {
+    super(options);
+    this.radius = options.radius ?? 100;
+  }
+
+  public calculate(context: SteeringContext): Vector {
+    const neighbors = getNeighbors(context, this.radius);
+    if (!neighbors.length) {
+      return Vector.Zero;
+    }
+    const vel = neighbors.reduce((sum, neighbor) => sum.add(neighbor.vel), Vector.Zero).scale(1 / neighbors.length);
+    return vel.sub(context.agent.vel);
+  }
+}
@@ -0,0 +1,8 @@
+export { SteeringAgent, SteeringContext, SteeringBehaviorOptions, SteeringOptions, SteeringBehavior } from './SteeringBehavior';
+export * from './TargetBehaviors';
+export * from './WanderBehavior';
+export * from './PathFollowingBehavior';
+export * from './FlockingBehaviors';
+export * from './ObstacleAvoidanceBehavior';
+export * from './SteeringComponent';
+export * from './SteeringSystem';
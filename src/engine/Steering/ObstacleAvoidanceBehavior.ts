@@ -0,0 +1,66 @@
+import { Ray, Vector } from '../Algebra';
+import { Collider } from '../Collision/Collider';
+import { SteeringBehavior, SteeringBehaviorOptions, SteeringContext } from './SteeringBehavior';
+
+export interface ObstacleAvoidanceBehaviorOptions extends SteeringBehaviorOptions {
+  /**
+   * The colliders to steer around
+   */
+  obstacles: Collider[];
+  /**
+   * Optionally how far ahead in pixels the agent looks for obstacles at top speed, by default 100
+   */
+  distance?: number;
+  /**
+   * Optionally the radius of the agent in pixels, obstacles closer than it to the side of its heading are avoided too, by
+   * default 0
+   */
+  radius?: number;
+}
+
+/**
+ * Turns the agent aside from the obstacles ahead of it. The agent looks ahead in the direction it moves, further the faster
+ * it goes, and the closer the obstacle it sees the harder it turns away from the center of the obstacle.
+ */
+export class ObstacleAvoidanceBehavior extends SteeringBehavior {
+  public obstacles: Collider[];
+  public distance: number;
+  public radius: number;
+
+  constructor(options: ObstacleAvoidanceBehaviorOptions) {
+    super(options);
+    this.obstacles = options.obstacles;
+    this.distance = options.distance ?? 100;
+    this.radius = options.radius ?? 0;
+  }
+
+  public calculate(context: SteeringContext): Vector {
+    const speed = context.agent.vel.size;
+    if (speed === 0) {
+      return Vector.Zero;
+    }
+    const heading = context.agent.vel.normalize();
+    const side = heading.perpendicular();
+    const lookAhead = (this.distance * speed) / context.maxSpeed;
+    const feelers = this.radius > 0 ? [Vector.Zero, side.scale(this.radius), side.scale(-this.radius)] : [Vector.Zero];
+
+    let closest: Collider = null;
+    let closestDistance = lookAhead;
+    for (const obstacle of this.obstacles) {
+      for (const feeler of feelers) {
+        const start = context.agent.pos.add(feeler);
+        const hit = obstacle.shape.rayCast(new Ray(start, heading), lookAhead);
+        if (hit && hit.distance(start) < closestDistance) {
+          closest = obstacle;
+          closestDistance = hit.distance(start);
+        }
+      }
+    }
+    if (!closest) {
+      return Vector.Zero;
+    }
+
+    const away = side.dot(closest.shape.center.sub(context.agent.pos)) > 0 ? side.negate() : side;
+    return away.scale(context.maxSpeed * (1 - closestDistance / lookAhead));
+  }
+}
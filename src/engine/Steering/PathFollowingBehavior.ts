@@ -0,0 +1,71 @@
+import { Vector } from '../Algebra';
+import { seek, SteeringBehavior, SteeringBehaviorOptions, SteeringContext } from './SteeringBehavior';
+
+export interface PathFollowingBehaviorOptions extends SteeringBehaviorOptions {
+  /**
+   * Optionally the distance in pixels from a waypoint where the agent moves on to the next one, by default 10
+   */
+  radius?: number;
+  /**
+   * Optionally the distance in pixels from the last waypoint where the agent starts to slow down, by default 50
+   */
+  slowRadius?: number;
+  /**
+   * Optionally the distance in pixels from the last waypoint where the agent has arrived, by default 1
+   */
+  tolerance?: number;
+}
+
+/**
+ * Moves the agent along a path, for example one found by [[GridGraph.findPath]] or [[Scene.findPath]]. The agent rounds the
+ * corners of the path and stops at its end, the behavior completes once the agent arrived at the last waypoint.
+ */
+export class PathFollowingBehavior extends SteeringBehavior {
+  public radius: number;
+  public slowRadius: number;
+  public tolerance: number;
+  private _index = 0;
+
+  /**
+   * @param path     The waypoints to move through in world space
+   * @param options  The options of the behavior
+   */
+  constructor(public path: Vector[], options: PathFollowingBehaviorOptions = {}) {
+    super(options);
+    this.radius = options.radius ?? 10;
+    this.slowRadius = options.slowRadius ?? 50;
+    this.tolerance = options.tolerance ?? 1;
+  }
+
+  /**
+   * The index of the waypoint the agent is moving to
+   */
+  public get index(): number {
+    return this._index;
+  }
+
+  public calculate(context: SteeringContext): Vector {
+    if (!this.path.length) {
+      return Vector.Zero;
+    }
+    const last = this.path.length - 1;
+    while (this._index < last && context.agent.pos.distance(this.path[this._index]) <= this.radius) {
+      this._index++;
+    }
+    if (this._index < last) {
+      return seek(context, this.path[this._index]);
+    }
+
+    // slow down to stop at the end of the path
+    const offset = this.path[last].sub(context.agent.pos);
+    if (offset.size <= this.tolerance) {
+      return context.agent.vel.negate();
+    }
+    const speed = context.maxSpeed * Math.min(1, offset.size / this.slowRadius);
+    return offset.normalize().scale(speed).sub(context.agent.vel);
+  }
+
+  public isComplete(context: SteeringContext): boolean {
+    return !this.path.length || context.agent.pos.distance(this.path[this.path.length - 1]) <= this.tolerance;
+  }
+}
@@ -0,0 +1,132 @@
+import { Vector } from '../Algebra';
+import { BoundingBox } from '../Collision/BoundingBox';
+import { Body } from '../Collision/Body';
+import { DynamicTree } from '../Collision/DynamicTree';
+
+/**
+ * Anything that moves and can be steered, or steered towards, like an [[Actor]] or a [[Body]]
+ */
+export interface SteeringAgent {
+  pos: Vector;
+  vel: Vector;
+}
+
+/**
+ * What a [[SteeringBehavior]] knows about the agent it steers
+ */
+export interface SteeringContext {
+  /**
+   * The agent being steered
+   */
+  agent: SteeringAgent;
+  /**
+   * The top speed of the agent in pixels per second
+   */
+  maxSpeed: number;
+  /**
+   * The other agents around the agent, used by the flocking behaviors
+   */
+  neighbors: SteeringAgent[];
+  /**
+   * The time elapsed since the last update in milliseconds
+   */
+  delta: number;
+}
+
+export interface SteeringBehaviorOptions {
+  /**
+   * Optionally how much the behavior counts when it is combined with others, by default 1
+   */
+  weight?: number;
+}
+
+export interface SteeringOptions {
+  /**
+   * The top speed of the agent in pixels per second
+   */
+  maxSpeed: number;
+  /**
+   * Optionally how quickly the agent can change its velocity in pixels per second squared, by default it turns instantly
+   */
+  maxAcceleration?: number;
+  /**
+   * Optionally the distance in pixels within which other agents are neighbors for the flocking behaviors, by default 100
+   */
+  neighborRadius?: number;
+}
+
+/**
+ * A steering behavior moves an agent towards a goal by asking for a change of its velocity every frame. Behaviors are combined
+ * by adding up their changes scaled by their weights, for example a flock seeks a target while keeping apart:
+ *
+ * ```typescript
+ * actor.actions.steer([new ex.ArriveBehavior(target), new ex.SeparationBehavior({ weight: 2 })], { maxSpeed: 120 });
+ * ```
+ *
+ * Behaviors keep state about the agent they steer, like the position on a path, give every agent its own instances.
+ */
+export abstract class SteeringBehavior {
+  public weight: number;
+
+  constructor(options: SteeringBehaviorOptions = {}) {
+    this.weight = options.weight ?? 1;
+  }
+
+  /**
+   * Returns the change of velocity in pixels per second this behavior asks for, usually the velocity it wants for the agent minus
+   * the velocity of the agent, or the zero vector when it has nothing to do
+   */
+  public abstract calculate(context: SteeringContext): Vector;
+
+  /**
+   * Whether the behavior reached its goal, behaviors that go on forever are never complete
+   */
+  public isComplete(_context: SteeringContext): boolean {
+    return false;
+  }
+}
+
+/**
+ * Returns the velocity of an agent steered by some behaviors
+ * @internal
+ */
+export function steer(behaviors: SteeringBehavior[], context: SteeringContext, maxAcceleration: number = Infinity): Vector {
+  let change = Vector.Zero;
+  for (const behavior of behaviors) {
+    change = change.add(behavior.calculate(context).scale(behavior.weight));
+  }
+
+  const maxChange = (maxAcceleration * context.delta) / 1000;
+  if (change.size > maxChange) {
+    change = change.normalize().scale(maxChange);
+  }
+  const vel = context.agent.vel.add(change);
+  return vel.size > context.maxSpeed ? vel.normalize().scale(context.maxSpeed) : vel;
+}
+
+/**
+ * Returns the bodies in a [[DynamicTree]] within a radius of a body, found by querying the bounds around it instead of checking
+ * every body in the scene
+ * @internal
+ */
+export function queryNeighbors(tree: DynamicTree, body: Body, radius: number): Body[] {
+  const { x, y } = body.pos;
+  const neighbors: Body[] = [];
+  tree.boundsQuery(new BoundingBox(x - radius, y - radius, x + radius, y + radius), (other: Body) => {
+    if (other !== body && other.pos.distance(body.pos) <= radius) {
+      neighbors.push(other);
+    }
+    return false;
+  });
+  return neighbors;
+}
+
+/**
+ * Returns the change of velocity that moves an agent straight to a point at top speed
+ * @internal
+ */
+export function seek(context: SteeringContext, pos: Vector): Vector {
+  const offset = pos.sub(context.agent.pos);
+  const desired = offset.size > 0 ? offset.normalize().scale(context.maxSpeed) : Vector.Zero;
+  return desired.sub(context.agent.vel);
+}
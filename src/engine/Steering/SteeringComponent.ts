@@ -0,0 +1,65 @@
+import { Component } from '../EntityComponentSystem/Component';
+import { TransformComponent } from '../EntityComponentSystem/Components/TransformComponent';
+import { BodyComponent } from '../Collision/BodyComponent';
+import { SteeringBehavior, SteeringOptions } from './SteeringBehavior';
+
+export interface SteeringComponentOptions extends Partial<SteeringOptions> {
+  /**
+   * Optionally the behaviors steering the entity
+   */
+  behaviors?: SteeringBehavior[];
+}
+
+/**
+ * The SteeringComponent steers the [[Body]] of an entity with [[SteeringBehavior|steering behaviors]], the [[SteeringSystem]]
+ * sets the velocity of the body every update. The other steered entities in the scene are the neighbors of the flocking
+ * behaviors, so a flock is a group of entities with steering components:
+ *
+ * ```typescript
+ * for (let i = 0; i < 20; i++) {
+ *   const bird = new ex.Actor({ x: Math.random() * 800, y: Math.random() * 600 });
+ *   bird.addComponent(
+ *     new ex.SteeringComponent({
+ *       maxSpeed: 150,
+ *       behaviors: [
+ *         new ex.WanderBehavior(),
+ *         new ex.SeparationBehavior({ weight: 2 }),
+ *         new ex.CohesionBehavior(),
+ *         new ex.AlignmentBehavior()
+ *       ]
+ *     })
+ *   );
+ *   scene.add(bird);
+ * }
+ * ```
+ */
+export class SteeringComponent extends Component<'ex.steering'> {
+  public readonly type = 'ex.steering';
+  public readonly dependencies = [TransformComponent, BodyComponent];
+
+  public behaviors: SteeringBehavior[];
+  /**
+   * The top speed of the entity in pixels per second
+   */
+  public maxSpeed: number;
+  /**
+   * How quickly the entity can change its velocity in pixels per second squared
+   */
+  public maxAcceleration: number;
+  /**
+   * The distance in pixels within which other steered entities are neighbors
+   */
+  public neighborRadius: number;
+
+  /**
+   * @param options  The behaviors and limits of the entity, by default it has no behaviors and a top speed of 100 pixels per
+   * second
+   */
+  constructor(options: SteeringComponentOptions = {}) {
+    super();
+    this.behaviors = options.behaviors ?? [];
+    this.maxSpeed = options.maxSpeed ?? 100;
+    this.maxAcceleration = options.maxAcceleration ?? Infinity;
+    this.neighborRadius = options.neighborRadius ?? 100;
+  }
+}
@@ -0,0 +1,43 @@
+import { Entity } from '../EntityComponentSystem/Entity';
+import { System, SystemType } from '../EntityComponentSystem/System';
+import { BodyComponent } from '../Collision/BodyComponent';
+import { Scene } from '../Scene';
+import { queryNeighbors, steer } from './SteeringBehavior';
+import { SteeringComponent } from './SteeringComponent';
+
+/**
+ * The SteeringSystem sets the velocity of the [[Body]] of every entity with a [[SteeringComponent]] from its behaviors. It runs
+ * before the [[MotionSystem]] so plain entities move with their new velocities in the same update, [[Actor|actors]] move during
+ * their own update and pick up the new velocity on the next one. Use [[ActionContext.steer]] to steer an actor without the delay.
+ *
+ * Neighbors are found in the [[DynamicTree]] of the scene's [[CollisionSystem]], only the bodies it does not track, like those of
+ * entities without a collider, are checked one by one.
+ */
+export class SteeringSystem extends System<SteeringComponent | BodyComponent> {
+  public readonly types = ['ex.steering', 'ex.body'] as const;
+  public readonly systemType = SystemType.Update;
+  public priority = -3;
+  private _scene: Scene;
+
+  public initialize(scene: Scene): void {
+    this._scene = scene;
+  }
+
+  public update(entities: Entity[], delta: number): void {
+    const bodies = entities.map((entity) => entity.get(BodyComponent).body);
+    const steered = new Set(bodies);
+    const tree = this._scene?.physics.query?.tree;
+    const untracked = tree ? bodies.filter((body) => !tree.nodes[body.id]) : bodies;
+    // every entity is steered by where the others were before any of them changed course
+    const velocities = entities.map((entity, i) => {
+      const steering = entity.get(SteeringComponent);
+      const body = bodies[i];
+      const neighbors = [
+        ...(tree ? queryNeighbors(tree, body, steering.neighborRadius).filter((other) => steered.has(other)) : []),
+        ...untracked.filter((other) => other !== body && other.pos.distance(body.pos) <= steering.neighborRadius)
+      ];
+      return steer(steering.behaviors, { agent: body, maxSpeed: steering.maxSpeed, neighbors, delta }, steering.maxAcceleration);
+    });
+    bodies.forEach((body, i) => (body.vel = velocities[i]));
+  }
+}
@@ -0,0 +1,172 @@
+import { Vector } from '../Algebra';
+import { seek, SteeringAgent, SteeringBehavior, SteeringBehaviorOptions, SteeringContext } from './SteeringBehavior';
+
+const getPos = (target: Vector | SteeringAgent) => (target instanceof Vector ? target : target.pos);
+
+/**
+ * Returns the change of velocity that moves an agent straight away from a point at top speed
+ */
+const flee = (context: SteeringContext, pos: Vector) => {
+  const offset = context.agent.pos.sub(pos);
+  const desired = offset.size > 0 ? offset.normalize() : Vector.Up;
+  return desired.scale(context.maxSpeed).sub(context.agent.vel);
+};
+
+/**
+ * Returns where a moving target will be by the time an agent reaches it, looking no further ahead than a number of seconds
+ */
+const predict = (context: SteeringContext, target: SteeringAgent, maxPrediction: number) => {
+  const time = Math.min(maxPrediction, context.agent.pos.distance(target.pos) / context.maxSpeed);
+  return target.pos.add(target.vel.scale(time));
+};
+
+export interface FleeBehaviorOptions extends SteeringBehaviorOptions {
+  /**
+   * Optionally the distance in pixels from the target under which the agent flees, by default it always flees
+   */
+  panicDistance?: number;
+}
+
+export interface ArriveBehaviorOptions extends SteeringBehaviorOptions {
+  /**
+   * Optionally the distance in pixels from the target where the agent starts to slow down, by default 100
+   */
+  slowRadius?: number;
+  /**
+   * Optionally the distance in pixels from the target where the agent has arrived, by default 1
+   */
+  tolerance?: number;
+}
+
+export interface PursueBehaviorOptions extends SteeringBehaviorOptions {
+  /**
+   * Optionally the most seconds the agent looks ahead at where the target is going, by default 1
+   */
+  maxPrediction?: number;
+}
+
+export interface EvadeBehaviorOptions extends FleeBehaviorOptions {
+  /**
+   * Optionally the most seconds the agent looks ahead at where the target is going, by default 1
+   */
+  maxPrediction?: number;
+}
+
+/**
+ * Moves the agent straight towards a target at top speed, it overshoots and comes back when it gets there, see
+ * [[ArriveBehavior]] to stop at the target
+ */
+export class SeekBehavior extends SteeringBehavior {
+  /**
+   * @param target   The point or agent to move to
+   * @param options  The options of the behavior
+   */
+  constructor(public target: Vector | SteeringAgent, options: SteeringBehaviorOptions = {}) {
+    super(options);
+  }
+
+  public calculate(context: SteeringContext): Vector {
+    return seek(context, getPos(this.target));
+  }
+}
+
+/**
+ * Moves the agent straight away from a target at top speed
+ */
+export class FleeBehavior extends SteeringBehavior {
+  public panicDistance: number;
+
+  /**
+   * @param target   The point or agent to get away from
+   * @param options  The options of the behavior
+   */
+  constructor(public target: Vector | SteeringAgent, options: FleeBehaviorOptions = {}) {
+    super(options);
+    this.panicDistance = options.panicDistance ?? Infinity;
+  }
+
+  public calculate(context: SteeringContext): Vector {
+    const pos = getPos(this.target);
+    if (context.agent.pos.distance(pos) > this.panicDistance) {
+      return Vector.Zero;
+    }
+    return flee(context, pos);
+  }
+}
+
+/**
+ * Moves the agent towards a target and slows it down to stop on the target, completes once the agent arrived
+ */
+export class ArriveBehavior extends SteeringBehavior {
+  public slowRadius: number;
+  public tolerance: number;
+
+  /**
+   * @param target   The point or agent to arrive at
+   * @param options  The options of the behavior
+   */
+  constructor(public target: Vector | SteeringAgent, options: ArriveBehaviorOptions = {}) {
+    super(options);
+    this.slowRadius = options.slowRadius ?? 100;
+    this.tolerance = options.tolerance ?? 1;
+  }
+
+  public calculate(context: SteeringContext): Vector {
+    const offset = getPos(this.target).sub(context.agent.pos);
+    const distance = offset.size;
+    if (distance <= this.tolerance) {
+      return context.agent.vel.negate();
+    }
+    const speed = context.maxSpeed * Math.min(1, distance / this.slowRadius);
+    return offset.normalize().scale(speed).sub(context.agent.vel);
+  }
+
+  public isComplete(context: SteeringContext): boolean {
+    return context.agent.pos.distance(getPos(this.target)) <= this.tolerance;
+  }
+}
+
+/**
+ * Moves the agent towards where a moving target is going to intercept it
+ */
+export class PursueBehavior extends SteeringBehavior {
+  public maxPrediction: number;
+
+  /**
+   * @param target   The agent to chase
+   * @param options  The options of the behavior
+   */
+  constructor(public target: SteeringAgent, options: PursueBehaviorOptions = {}) {
+    super(options);
+    this.maxPrediction = options.maxPrediction ?? 1;
+  }
+
+  public calculate(context: SteeringContext): Vector {
+    return seek(context, predict(context, this.target, this.maxPrediction));
+  }
+}
+
+/**
+ * Moves the agent away from where a moving target is going
+ */
+export class EvadeBehavior extends SteeringBehavior {
+  public panicDistance: number;
+  public maxPrediction: number;
+
+  /**
+   * @param target   The agent to get away from
+   * @param options  The options of the behavior
+   */
+  constructor(public target: SteeringAgent, options: EvadeBehaviorOptions = {}) {
+    super(options);
+    this.panicDistance = options.panicDistance ?? Infinity;
+    this.maxPrediction = options.maxPrediction ?? 1;
+  }
+
+  public calculate(context: SteeringContext): Vector {
+    if (context.agent.pos.distance(this.target.pos) > this.panicDistance) {
+      return Vector.Zero;
+    }
+    return flee(context, predict(context, this.target, this.maxPrediction));
+  }
+}
@@ -0,0 +1,51 @@
+import { Vector } from '../Algebra';
+import { Random } from '../Math/Random';
+import { seek, SteeringBehavior, SteeringBehaviorOptions, SteeringContext } from './SteeringBehavior';
+
+export interface WanderBehaviorOptions extends SteeringBehaviorOptions {
+  /**
+   * Optionally the radius in pixels of the circle ahead of the agent that the wander target moves on, by default 20
+   */
+  radius?: number;
+  /**
+   * Optionally how far in pixels the circle is ahead of the agent, by default 40
+   */
+  distance?: number;
+  /**
+   * Optionally how far the wander target can move around the circle in radians per second, by default π
+   */
+  jitter?: number;
+  /**
+   * Optionally the random number generator, to wander the same way every time with a seed
+   */
+  random?: Random;
+}
+
+/**
+ * Moves the agent around aimlessly by seeking a target that drifts around a circle ahead of it, so it turns smoothly instead
+ * of jittering from side to side
+ */
+export class WanderBehavior extends SteeringBehavior {
+  public radius: number;
+  public distance: number;
+  public jitter: number;
+  public random: Random;
+  private _angle = 0;
+
+  constructor(options: WanderBehaviorOptions = {}) {
+    super(options);
+    this.radius = options.radius ?? 20;
+    this.distance = options.distance ?? 40;
+    this.jitter = options.jitter ?? Math.PI;
+    this.random = options.random ?? new Random();
+  }
+
+  public calculate(context: SteeringContext): Vector {
+    this._angle += (this.random.floating(-1, 1) * this.jitter * context.delta) / 1000;
+    const heading = context.agent.vel.size > 0 ? context.agent.vel.normalize() : Vector.Right;
+    const target = context.agent.pos
+      .add(heading.scale(this.distance))
+      .add(Vector.fromAngle(heading.toAngle() + this._angle).scale(this.radius));
+    return seek(context, target);
+  }
+}
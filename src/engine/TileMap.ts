@@ -11,10 +11,109 @@ import { Entity } from './EntityComponentSystem/Entity';
 import { TransformComponent } from './EntityComponentSystem/Components/TransformComponent';
 import { ExcaliburGraphicsContext, GraphicsComponent, hasGraphicsTick } from './Graphics';
 import * as Graphics from './Graphics';
+import { TextureLoader } from './Graphics/Context/texture-loader';
 import { CanvasDrawComponent, Sprite } from './Drawing/Index';
 import { Sprite as LegacySprite } from './Drawing/Index';
 import { removeItemFromArray } from './Util/Util';
 import { obsolete } from './Util/Decorators';
+import { Body } from './Collision/Body';
+import { BodyComponent } from './Collision/BodyComponent';
+import { Collider } from './Collision/Collider';
+import { ColliderComponent } from './Collision/ColliderComponent';
+import { CollisionType } from './Collision/CollisionType';
+import { Shape } from './Collision/Shape';
+import { Side } from './Collision/Side';
+import { CollisionShape } from './Collision/CollisionShape';
+import { CompositeShape } from './Collision/CompositeShape';
+import { ConvexPolygon } from './Collision/ConvexPolygon';
+
+/**
+ * The collision shape of a solid [[Cell]]. Slopes are named by the direction they rise walking left to right, the low and high
+ * variants are the 2 halves of a 22.5 degree slope spanning 2 cells.
+ */
+export enum CellShape {
+  Full = 'full',
+  HalfTop = 'half-top',
+  HalfBottom = 'half-bottom',
+  HalfLeft = 'half-left',
+  HalfRight = 'half-right',
+  SlopeUp = 'slope-up',
+  SlopeDown = 'slope-down',
+  SlopeUpLow = 'slope-up-low',
+  SlopeUpHigh = 'slope-up-high',
+  SlopeDownHigh = 'slope-down-high',
+  SlopeDownLow = 'slope-down-low'
+}
+
+/**
+ * Returns the outline of a cell shape in cell space, from (0, 0) at the top left to (width, height) at the bottom right
+ * @param shape   A cell shape or a custom outline in cell space
+ * @param width   The width of the cell
+ * @param height  The height of the cell
+ */
+export function getCellShapePoints(shape: CellShape | Vector[], width: number, height: number): Vector[] {
+  if (Array.isArray(shape)) {
+    return shape;
+  }
+  const w = width;
+  const h = height;
+  const outlines: { [shape in CellShape]: number[] } = {
+    [CellShape.Full]: [0, 0, w, 0, w, h, 0, h],
+    [CellShape.HalfTop]: [0, 0, w, 0, w, h / 2, 0, h / 2],
+    [CellShape.HalfBottom]: [0, h / 2, w, h / 2, w, h, 0, h],
+    [CellShape.HalfLeft]: [0, 0, w / 2, 0, w / 2, h, 0, h],
+    [CellShape.HalfRight]: [w / 2, 0, w, 0, w, h, w / 2, h],
+    [CellShape.SlopeUp]: [0, h, w, 0, w, h],
+    [CellShape.SlopeDown]: [0, 0, w, h, 0, h],
+    [CellShape.SlopeUpLow]: [0, h, w, h / 2, w, h],
+    [CellShape.SlopeUpHigh]: [0, h / 2, w, 0, w, h, 0, h],
+    [CellShape.SlopeDownHigh]: [0, 0, w, h / 2, w, h, 0, h],
+    [CellShape.SlopeDownLow]: [0, h / 2, w, h, 0, h]
+  };
+  const outline = outlines[shape];
+  const points: Vector[] = [];
+  for (let i = 0; i < outline.length; i += 2) {
+    points.push(vec(outline[i], outline[i + 1]));
+  }
+  return points;
+}
+
+const oneWayDirections: { [side in Side]: Vector } = {
+  [Side.None]: null,
+  [Side.Top]: Vector.Up,
+  [Side.Bottom]: Vector.Down,
+  [Side.Left]: Vector.Left,
+  [Side.Right]: Vector.Right
+};
+
+const oppositeSides: { [side in Side]: Side } = {
+  [Side.None]: Side.None,
+  [Side.Top]: Side.Bottom,
+  [Side.Bottom]: Side.Top,
+  [Side.Left]: Side.Right,
+  [Side.Right]: Side.Left
+};
+
+/**
+ * Whether an outline in cell space has an edge along the whole of a side of the cell
+ */
+const coversSide = (points: Vector[], side: Side, width: number, height: number): boolean => {
+  const corners: { [side in Side]?: Vector[] } = {
+    [Side.Top]: [vec(0, 0), vec(width, 0)],
+    [Side.Bottom]: [vec(0, height), vec(width, height)],
+    [Side.Left]: [vec(0, 0), vec(0, height)],
+    [Side.Right]: [vec(width, 0), vec(width, height)]
+  };
+  const [begin, end] = corners[side];
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    if ((a.equals(begin) && b.equals(end)) || (a.equals(end) && b.equals(begin))) {
+      return true;
+    }
+  }
+  return false;
+};
 
 /**
  * @hidden
@@ -30,6 +129,7 @@ export class TileMapImpl extends Entity {
   private _spriteSheets: { [key: string]: Graphics.SpriteSheet } = {};
 
   private _legacySpriteMap = new Map<Graphics.Sprite, Sprite>();
+  private _graphicsCache: Graphics.Canvas = null;
   public logger: Logger = Logger.getInstance();
   public readonly data: Cell[] = [];
   private _rows: Cell[][] = [];
@@ -42,6 +142,8 @@ export class TileMapImpl extends Entity {
   public readonly cols: number;
 
   private _transform: TransformComponent;
+  private _colliders: Entity[] = [];
+  private _collidersDirty = true;
 
   public get x(): number {
     return this._transform.pos.x ?? 0;
@@ -148,6 +250,7 @@ export class TileMapImpl extends Entity {
     for (let i = 0; i < cols; i++) {
       for (let j = 0; j < rows; j++) {
         const cd = new Cell(i * cellWidth + <number>xOrConfig, j * cellHeight + y, cellWidth, cellHeight, i + j * cols);
+        cd.tileMap = this;
         this.data[i + j * cols] = cd;
         currentCol.push(cd);
         if (!this._rows[j]) {
@@ -188,9 +291,143 @@ export class TileMapImpl extends Entity {
     }
   }
 
+  /**
+   * The colliders of the solid cells. Neighbouring [[CellShape.Full|full]] cells with the same one-way side are merged into as
+   * few boxes as possible, every other cell gets a collider with its own shape. They are rebuilt on the next update after the
+   * [[Cell.solid]], [[Cell.shape]], or [[Cell.oneWay]] of a cell changes.
+   */
+  public get colliders(): readonly Collider[] {
+    this.updateColliders();
+    return this._colliders.map((entity) => entity.get(BodyComponent).body.collider);
+  }
+
+  /**
+   * Rebuilds the colliders of the solid cells if a cell changed, called every update
+   */
+  public updateColliders() {
+    if (!this._collidersDirty) {
+      return;
+    }
+    this._collidersDirty = false;
+    for (const entity of this._colliders) {
+      this.removeChild(entity);
+    }
+    this._colliders.length = 0;
+
+    // greedily grow each box to the right first, then down as long as every cell of the next row can join it
+    const merged: boolean[] = new Array(this.data.length);
+    const canMerge = (cell: Cell, x: number, y: number) => {
+      const other = this.data[x + y * this.cols];
+      return other.solid && other.shape === CellShape.Full && other.oneWay === cell.oneWay && !merged[other.index];
+    };
+    for (let y = 0; y < this.rows; y++) {
+      for (let x = 0; x < this.cols; x++) {
+        const cell = this.data[x + y * this.cols];
+        if (!cell.solid || merged[cell.index]) {
+          continue;
+        }
+        if (cell.shape !== CellShape.Full) {
+          this._addCollider(x, y, 1, 1, this._createCellShape(cell), cell);
+          continue;
+        }
+        let width = 1;
+        while (x + width < this.cols && canMerge(cell, x + width, y)) {
+          width++;
+        }
+        let height = 1;
+        while (y + height < this.rows) {
+          let rowFree = true;
+          for (let i = 0; i < width && rowFree; i++) {
+            rowFree = canMerge(cell, x + i, y + height);
+          }
+          if (!rowFree) {
+            break;
+          }
+          height++;
+        }
+        for (let j = 0; j < height; j++) {
+          for (let i = 0; i < width; i++) {
+            merged[x + i + (y + j) * this.cols] = true;
+          }
+        }
+        this._addCollider(x, y, width, height, Shape.Box(width * this.cellWidth, height * this.cellHeight, Vector.Zero), cell);
+      }
+    }
+  }
+
+  private _createCellShape(cell: Cell): CollisionShape {
+    const parts = CompositeShape.decompose(getCellShapePoints(cell.shape, this.cellWidth, this.cellHeight));
+    if (parts.length === 1) {
+      return new ConvexPolygon({ points: parts[0] });
+    }
+    return new CompositeShape({ shapes: parts.map((points) => new ConvexPolygon({ points })) });
+  }
+
+  /**
+   * Returns the directions a collider spanning a block of cells must not push bodies in, the sides where the collider lines up
+   * with solid neighbouring cells. Bodies moving across the seam would otherwise catch on the edge of the collider.
+   */
+  private _getBlockedNormals(x: number, y: number, width: number, height: number, cell: Cell): Vector[] {
+    const outline =
+      width === 1 && height === 1
+        ? getCellShapePoints(cell.shape, this.cellWidth, this.cellHeight)
+        : getCellShapePoints(CellShape.Full, width * this.cellWidth, height * this.cellHeight);
+    const neighbours: { [side in Side]?: [number, number][] } = { [Side.Top]: [], [Side.Bottom]: [], [Side.Left]: [], [Side.Right]: [] };
+    for (let i = 0; i < width; i++) {
+      neighbours[Side.Top].push([x + i, y - 1]);
+      neighbours[Side.Bottom].push([x + i, y + height]);
+    }
+    for (let j = 0; j < height; j++) {
+      neighbours[Side.Left].push([x - 1, y + j]);
+      neighbours[Side.Right].push([x + width, y + j]);
+    }
+
+    const blocked: Vector[] = [];
+    for (const side of [Side.Top, Side.Bottom, Side.Left, Side.Right]) {
+      if (!coversSide(outline, side, width * this.cellWidth, height * this.cellHeight)) {
+        continue;
+      }
+      const covered = neighbours[side].every(([nx, ny]) => {
+        const other = this.getCell(nx, ny);
+        return (
+          other &&
+          other.solid &&
+          other.oneWay === Side.None &&
+          coversSide(getCellShapePoints(other.shape, this.cellWidth, this.cellHeight), oppositeSides[side], this.cellWidth, this.cellHeight)
+        );
+      });
+      if (covered) {
+        blocked.push(oneWayDirections[side]);
+      }
+    }
+    return blocked;
+  }
+
+  private _addCollider(x: number, y: number, width: number, height: number, shape: CollisionShape, cell: Cell) {
+    const collider = new Collider({
+      type: CollisionType.Fixed,
+      shape,
+      oneWay: oneWayDirections[cell.oneWay],
+      blockedNormals: this._getBlockedNormals(x, y, width, height, cell)
+    });
+    const entity = new Entity([new TransformComponent(), new BodyComponent(new Body({ collider })), new ColliderComponent()]);
+    entity.get(TransformComponent).pos = vec(x * this.cellWidth, y * this.cellHeight);
+    this._colliders.push(entity);
+    this.addChild(entity);
+  }
+
+  /**
+   * Marks the colliders to be rebuilt on the next update
+   * @internal
+   */
+  public _flagCollidersDirty() {
+    this._collidersDirty = true;
+  }
+
   /**
    * Returns the intersection vector that can be used to resolve collisions with actors. If there
    * is no collision null is returned.
+   * @deprecated Solid cells collide through the [[CollisionSystem]] like every other collider, will be removed in v0.26.0
    */
   public collides(actor: Actor): Vector {
     const width = actor.pos.x + actor.width;
@@ -289,11 +526,55 @@ export class TileMapImpl extends Entity {
     this._onScreenXEnd = Math.max(Math.floor((worldCoordsLowerRight.x - this.x) / this.cellWidth) + 2, 0);
     this._onScreenYEnd = Math.max(Math.floor((worldCoordsLowerRight.y - this.y) / this.cellHeight) + 2, 0);
     this._transform.pos = vec(this.x, this.y);
+    this.updateColliders();
 
     this.onPostUpdate(engine, delta);
     this.emit('postupdate', new Events.PostUpdateEvent(engine, delta, this));
   }
 
+  /**
+   * Whether the sprites of the cells are drawn from an offscreen texture, see [[TileMap.cacheGraphics]]
+   */
+  public get isGraphicsCached(): boolean {
+    return !!this._graphicsCache;
+  }
+
+  /**
+   * Renders the sprites of every cell into one offscreen texture, so the tile map draws them with a single draw call instead
+   * of one per sprite. Other graphics like animations are still drawn per cell. Call it again after changing the sprites of
+   * the cells, the texture is not updated automatically.
+   */
+  public cacheGraphics() {
+    this.clearGraphicsCache();
+    this._graphicsCache = new Graphics.Canvas({
+      width: this.cols * this.cellWidth,
+      height: this.rows * this.cellHeight,
+      cache: true,
+      draw: (ctx) => {
+        const offscreen = new Graphics.ExcaliburGraphicsContext2DCanvas({ canvasElement: ctx.canvas });
+        for (const cell of this.data) {
+          const x = (cell.index % this.cols) * this.cellWidth;
+          const y = Math.floor(cell.index / this.cols) * this.cellHeight;
+          for (const graphic of cell.graphics) {
+            if (graphic instanceof Graphics.Sprite) {
+              graphic.draw(offscreen, x, y);
+            }
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Draws the sprites of every cell separately again after [[TileMap.cacheGraphics]], releasing the offscreen texture
+   */
+  public clearGraphicsCache() {
+    if (this._graphicsCache) {
+      TextureLoader.delete(this._graphicsCache._bitmap);
+      this._graphicsCache = null;
+    }
+  }
+
   /**
    * Draws the tile map to the screen. Called by the [[Scene]].
    * @param ctx CanvasRenderingContext2D or ExcaliburGraphicsContext
@@ -309,6 +590,11 @@ export class TileMapImpl extends Entity {
 
     let graphics: Graphics.Graphic[], graphicsIndex: number, graphicsLen: number;
 
+    const cached = this._graphicsCache && !(ctx instanceof CanvasRenderingContext2D);
+    if (cached) {
+      this._graphicsCache.draw(ctx as ExcaliburGraphicsContext, 0, 0);
+    }
+
     for (x; x < xEnd; x++) {
       for (y; y < yEnd; y++) {
         // get non-negative tile sprites
@@ -317,7 +603,7 @@ export class TileMapImpl extends Entity {
         for (graphicsIndex = 0, graphicsLen = graphics.length; graphicsIndex < graphicsLen; graphicsIndex++) {
           // draw sprite, warning if sprite doesn't exist
           const graphic = graphics[graphicsIndex];
-          if (graphic) {
+          if (graphic && !(cached && graphic instanceof Graphics.Sprite)) {
             if (!(ctx instanceof CanvasRenderingContext2D)) {
               if (hasGraphicsTick(graphic)) {
                 graphic?.tick(delta, this._token);
@@ -366,9 +652,25 @@ export class TileMapImpl extends Entity {
       .filter(function (cell) {
         return cell.solid;
       })
-      .forEach(function (cell) {
+      .forEach((cell) => {
+        const points = getCellShapePoints(cell.shape, this.cellWidth, this.cellHeight);
         ctx.fillStyle = solid.toString();
-        ctx.fillRect(cell.x, cell.y, cell.width, cell.height);
+        ctx.beginPath();
+        for (const point of points) {
+          ctx.lineTo(cell.x + point.x, cell.y + point.y);
+        }
+        ctx.closePath();
+        ctx.fill();
+        // mark the side one-way cells are solid from
+        const direction = oneWayDirections[cell.oneWay];
+        if (direction) {
+          const center = cell.center;
+          const tip = center.add(direction.scale(Math.min(cell.width, cell.height) / 2));
+          ctx.beginPath();
+          ctx.moveTo(center.x, center.y);
+          ctx.lineTo(tip.x, tip.y);
+          ctx.stroke();
+        }
       });
     if (this._collidingY > -1 && this._collidingX > -1) {
       ctx.fillStyle = Color.Cyan.toString();
@@ -433,10 +735,58 @@ export class CellImpl extends Entity {
    * Current list of graphics for this cell
    */
   public readonly graphics: Graphics.Graphic[] = [];
+  private _solid = false;
+
   /**
-   * Wether this cell should be treated as solid by the tilemap
+   * The tile map the cell belongs to, if any
    */
-  public solid: boolean = false;
+  public tileMap: TileMapImpl = null;
+
+  /**
+   * Whether this cell should be treated as solid by the tilemap, solid cells collide with bodies through the tile map's colliders
+   */
+  public get solid(): boolean {
+    return this._solid;
+  }
+
+  public set solid(solid: boolean) {
+    if (solid !== this._solid) {
+      this._solid = solid;
+      this.tileMap?._flagCollidersDirty();
+    }
+  }
+
+  private _shape: CellShape | Vector[] = CellShape.Full;
+
+  /**
+   * The collision shape of the cell when it is solid, one of the [[CellShape|cell shapes]] or a custom outline in cell space
+   * from (0, 0) at the top left to (width, height) at the bottom right. By default the cell is full.
+   */
+  public get shape(): CellShape | Vector[] {
+    return this._shape;
+  }
+
+  public set shape(shape: CellShape | Vector[]) {
+    this._shape = shape;
+    this.tileMap?._flagCollidersDirty();
+  }
+
+  private _oneWay = Side.None;
+
+  /**
+   * The side a solid cell is solid from, bodies pass through it from every other side. With [[Side.Top]] bodies land on the
+   * cell and jump up through it from below. By default [[Side.None]], which is solid from every side.
+   */
+  public get oneWay(): Side {
+    return this._oneWay;
+  }
+
+  public set oneWay(oneWay: Side) {
+    if (oneWay !== this._oneWay) {
+      this._oneWay = oneWay;
+      this.tileMap?._flagCollidersDirty();
+    }
+  }
   /**
    * Abitrary data storage per cell, useful for any game specific data
    */
@@ -476,7 +826,7 @@ export class CellImpl extends Entity {
     this.width = width;
     this.height = height;
     this.index = index;
-    this.solid = solid;
+    this.solid = !!solid;
     this.graphics = graphics;
     this._bounds = new BoundingBox(this.x, this.y, this.x + this.width, this.y + this.height);
   }
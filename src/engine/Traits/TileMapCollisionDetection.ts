@@ -7,6 +7,10 @@ import { PreCollisionEvent, PostCollisionEvent } from '../Events';
 import { CollisionType } from '../Collision/CollisionType';
 import { BoundingBox } from '../Collision/Index';
 
+/**
+ * Pushes actors out of the solid cells of the scene's tile maps
+ * @deprecated Solid cells collide through the [[CollisionSystem]] like every other collider, will be removed in v0.26.0
+ */
 export class TileMapCollisionDetection implements Trait {
   public update(actor: Actor, engine: Engine) {
     const eventDispatcher = actor.eventDispatcher;
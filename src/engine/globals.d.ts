@@ -12,3 +12,10 @@ interface WheelEvent {
   readonly wheelDeltaY: number;
   readonly wheelDelta: number;
 }
+
+// Compression streams are not in the TypeScript dom lib yet
+declare class DecompressionStream {
+  constructor(format: 'deflate' | 'deflate-raw' | 'gzip');
+  readonly readable: ReadableStream<Uint8Array>;
+  readonly writable: WritableStream<BufferSource>;
+}
@@ -27,7 +27,11 @@ export * from './Loader';
 export { Particle, ParticleEmitter, ParticleArgs, ParticleEmitterArgs, EmitterType } from './Particles';
 export * from './Physics';
 export * from './Scene';
-export { TileMap, Cell, TileMapArgs, CellArgs } from './TileMap';
+export { TileMap, Cell, TileMapArgs, CellArgs, CellShape, getCellShapePoints } from './TileMap';
+export { ChunkedTileMap, ChunkedTileMapOptions, ChunkProvider } from './ChunkedTileMap';
+export { GridMap, GridTile, GridMapOptions } from './GridMap';
+export { IsometricMap, IsometricMapOptions, IsometricLayout } from './IsometricMap';
+export { HexMap, HexMapOptions, HexOrientation } from './HexMap';
 export * from './Timer';
 export * from './Trigger';
 export * from './ScreenElement';
@@ -37,8 +41,10 @@ export * from './Collision/Index';
 export * from './Drawing/Index';
 export * from './Interfaces/Index';
 export * from './Math/Index';
+export * from './Pathfinding/Index';
 export * from './PostProcessing/Index';
 export * from './Resources/Index';
+export * from './Steering/Index';
 
 export * from './EntityComponentSystem/index';
 
@@ -241,6 +241,64 @@ describe('Action', () => {
     });
   });
 
+  describe('followPath', () => {
+    beforeEach(() => {
+      scene.add(actor);
+    });
+
+    it('can be moved through each waypoint of a path at a speed', () => {
+      actor.actions.followPath([ex.vec(0, 0), ex.vec(100, 0), ex.vec(100, 50)], 100);
+      scene.update(engine, 500);
+
+      expect(actor.pos).toBeVector(ex.vec(50, 0));
+
+      scene.update(engine, 500);
+      scene.update(engine, 250);
+      expect(actor.pos).toBeVector(ex.vec(100, 25));
+
+      scene.update(engine, 250);
+      scene.update(engine, 16);
+      expect(actor.pos).toBeVector(ex.vec(100, 50));
+      expect(actor.vel).toBeVector(ex.Vector.Zero);
+      expect(actor.actions.getQueue().isComplete()).toBe(true);
+    });
+
+    it('completes right away with an empty path', () => {
+      actor.actions.followPath([], 100);
+      scene.update(engine, 16);
+
+      expect(actor.pos).toBeVector(ex.Vector.Zero);
+      expect(actor.actions.getQueue().isComplete()).toBe(true);
+    });
+
+    it('can follow a path found on a tile map', () => {
+      const tileMap = new ex.TileMap({ x: 0, y: 0, cellWidth: 20, cellHeight: 20, rows: 2, cols: 3 });
+      tileMap.getCell(1, 0).solid = true;
+      const path = new ex.GridGraph(tileMap).findPath(ex.vec(10, 10), ex.vec(50, 10));
+      actor.pos = ex.vec(10, 10);
+
+      actor.actions.followPath(path, 100);
+      for (let i = 0; i < 10; i++) {
+        scene.update(engine, 100);
+      }
+
+      expect(path.length).toBe(5);
+      expect(actor.pos).toBeVector(ex.vec(50, 10));
+    });
+
+    it('can be stopped', () => {
+      actor.actions.followPath([ex.vec(20, 0), ex.vec(20, 20)], 10);
+      scene.update(engine, 500);
+
+      actor.actions.clearActions();
+      expect(actor.pos).toBeVector(ex.vec(5, 0));
+
+      // Actor should not move after stop
+      scene.update(engine, 500);
+      expect(actor.pos).toBeVector(ex.vec(5, 0));
+    });
+  });
+
   describe('easeTo', () => {
     it('can be eased to a location given an easing function (x,y) overload', () => {
       expect(actor.pos).toBeVector(ex.vec(0, 0));
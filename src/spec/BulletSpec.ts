@@ -0,0 +1,129 @@
+import * as ex from '@excalibur';
+import { TestUtils } from './util/TestUtils';
+
+describe('A bullet body', () => {
+  let engine: ex.Engine;
+  let scene: ex.Scene;
+
+  const wall = (x: number) => {
+    const actor = new ex.Actor({ x, y: 0, width: 2, height: 200, collisionType: ex.CollisionType.Fixed });
+    scene.add(actor);
+    return actor;
+  };
+
+  const shot = (width = 4, height = 4) => {
+    const actor = new ex.Actor({ x: 0, y: 0, width, height, collisionType: ex.CollisionType.Active });
+    actor.body.bullet = true;
+    scene.add(actor);
+    return actor;
+  };
+
+  const simulate = (updates: number) => {
+    for (let i = 0; i < updates; i++) {
+      scene.update(engine, 16);
+    }
+  };
+
+  beforeEach(() => {
+    engine = TestUtils.engine({ width: 100, height: 100 });
+    scene = new ex.Scene(engine);
+  });
+
+  afterEach(() => {
+    engine.stop();
+    engine = null;
+  });
+
+  it('exists', () => {
+    expect(ex.findTimeOfImpact).toBeDefined();
+    expect(new ex.Actor().body.bullet).toBe(false);
+  });
+
+  it('does not pass through thin colliders', () => {
+    wall(100);
+    const bullet = shot();
+    bullet.vel = ex.vec(20000, 0);
+
+    simulate(5);
+
+    expect(bullet.pos.x).toBeLessThan(100);
+  });
+
+  it('emits collisionstart with the collider it hits', () => {
+    const target = wall(100);
+    const bullet = shot();
+    bullet.vel = ex.vec(20000, 0);
+    const collisionStart = jasmine.createSpy('collisionstart');
+    bullet.on('collisionstart', collisionStart);
+
+    simulate(1);
+
+    expect(collisionStart).toHaveBeenCalledTimes(1);
+    expect(collisionStart.calls.argsFor(0)[0].other).toBe(target);
+  });
+
+  it('sweeps rotation as well as movement', () => {
+    wall(60);
+    // a long bar spinning a half turn in a frame sweeps the wall without either end position touching it
+    const bar = shot(100, 2);
+    bar.rx = Math.PI / 0.016;
+    bar.pos = ex.vec(60, 140);
+
+    simulate(1);
+
+    expect(bar.rotation).toBeGreaterThan(0);
+    expect(bar.rotation).toBeLessThan(Math.PI);
+    expect(engine.stats.currFrame.physics.fastBodyCollisions).toBe(1);
+  });
+
+  it('advances to the time of impact by the distance between the colliders', () => {
+    const target = wall(5000);
+    const bullet = shot();
+    spyOn(bullet.body.collider, 'collide').and.callThrough();
+
+    const impact = ex.findTimeOfImpact(bullet.body.collider, target.body.collider, 0, 1, 10000, (time) => {
+      bullet.pos = ex.vec(10000 * time, 0);
+      bullet.body.collider.update();
+    });
+
+    expect(impact.time * 10000).toBeCloseTo(4997, 0);
+    expect(impact.contact).not.toBeNull();
+    // sampling every quarter of the bullet's size would take thousands of checks
+    expect((bullet.body.collider.collide as jasmine.Spy).calls.count()).toBeLessThan(30);
+  });
+
+  it('is counted in the frame stats', () => {
+    wall(100);
+    const bullet = shot();
+    bullet.vel = ex.vec(20000, 0);
+
+    simulate(1);
+
+    expect(engine.stats.currFrame.physics.fastBodies).toBe(1);
+    expect(engine.stats.currFrame.physics.fastBodyCollisions).toBe(1);
+  });
+
+  it('can still slide along colliders it is touching', () => {
+    const floor = new ex.Actor({ x: 0, y: 10, width: 400, height: 10, collisionType: ex.CollisionType.Fixed });
+    scene.add(floor);
+    const bullet = shot();
+    bullet.pos = ex.vec(0, 3);
+    bullet.vel = ex.vec(1000, 0);
+
+    simulate(1);
+
+    expect(bullet.pos.x).toBeCloseTo(16, 0);
+  });
+
+  it('is not needed for slow bodies, other bodies may still tunnel when fast body checks are off', () => {
+    scene.physics.checkForFastBodies = false;
+    wall(100);
+    const bullet = shot();
+    bullet.body.bullet = false;
+    bullet.vel = ex.vec(20000, 0);
+
+    simulate(1);
+
+    expect(bullet.pos.x).toBeGreaterThan(100);
+  });
+});
@@ -172,6 +172,28 @@ describe('A camera', () => {
     expect((Camera as any)._isZooming).toBe(true);
   });
 
+  it('can blend drawing between the previous and current update', () => {
+    Camera.pos = ex.vec(0, 0);
+    Camera.vel = ex.vec(100, 0);
+    Camera.update(engine, 1000);
+    expect(Camera.pos.x).toBe(100);
+
+    const ctx = {
+      width: 500,
+      height: 500,
+      scale: jasmine.createSpy('scale'),
+      translate: jasmine.createSpy('translate')
+    } as unknown as ex.Graphics.ExcaliburGraphicsContext;
+
+    (engine as any)._fixedUpdateAlpha = 0.5;
+    Camera.draw(ctx);
+    expect(ctx.translate).toHaveBeenCalledWith(-50 + 250, 250);
+
+    (engine as any)._fixedUpdateAlpha = 1;
+    Camera.draw(ctx);
+    expect(ctx.translate).toHaveBeenCalledWith(-100 + 250, 250);
+  });
+
   it('can use built-in locked camera strategy', () => {
     engine.currentScene.camera = new ex.Camera();
     const actor = new ex.Actor(0, 0);
@@ -285,6 +307,209 @@ describe('A camera', () => {
     expect(engine.currentScene.camera.pos.y).toBe(750);
   });
 
+  describe('platformer strategy', () => {
+    let camera: ex.Camera;
+    let target: ex.Actor;
+
+    beforeEach(() => {
+      camera = new ex.Camera();
+      target = new ex.Actor(0, 0);
+    });
+
+    it('only moves when the actor leaves the dead zone', () => {
+      camera.strategy.platformerFollowActor(target, {
+        lookAheadTime: 0,
+        horizontalDamping: 0,
+        verticalDamping: 0,
+        platformSnapping: false
+      });
+
+      target.pos = ex.vec(20, -40);
+      camera.update(engine, 100);
+      expect(camera.pos).toBeVector(ex.vec(0, 0));
+
+      target.pos = ex.vec(100, -60);
+      camera.update(engine, 100);
+      expect(camera.pos).toBeVector(ex.vec(68, -12));
+    });
+
+    it('looks ahead in the direction the actor moves', () => {
+      const strategy = new ex.PlatformerCameraStrategy(target, { maxLookAhead: 40, horizontalDamping: 0, verticalDamping: 0 });
+      camera.addStrategy(strategy);
+
+      target.vel = ex.vec(100, 0);
+      camera.update(engine, 100);
+      expect(strategy.lookAhead).toBe(40);
+      expect(camera.pos).toBeVector(ex.vec(8, 0));
+
+      target.vel = ex.vec(-20, 0);
+      camera.update(engine, 100);
+      expect(strategy.lookAhead).toBe(-10);
+      expect(camera.pos).toBeVector(ex.vec(8, 0));
+    });
+
+    it('eases horizontally and vertically at separate rates', () => {
+      camera.strategy.platformerFollowActor(target, {
+        lookAheadTime: 0,
+        horizontalDamping: 0.1,
+        verticalDamping: 0.2,
+        platformSnapping: false
+      });
+
+      target.pos = ex.vec(132, 148);
+      camera.update(engine, 100);
+      expect(camera.pos.x).toBeCloseTo(100 * (1 - Math.exp(-1)));
+      expect(camera.pos.y).toBeCloseTo(100 * (1 - Math.exp(-0.5)));
+    });
+
+    it('only moves vertically when the actor lands or leaves the dead zone in the air', () => {
+      const strategy = new ex.PlatformerCameraStrategy(target, { lookAheadTime: 0, horizontalDamping: 0, verticalDamping: 0 });
+      camera.addStrategy(strategy);
+      camera.update(engine, 100);
+      expect(strategy.platformY).toBe(0);
+
+      // jump
+      target.vel = ex.vec(0, -100);
+      target.pos = ex.vec(0, -40);
+      camera.update(engine, 100);
+      expect(camera.pos).toBeVector(ex.vec(0, 0));
+
+      target.pos = ex.vec(0, -60);
+      camera.update(engine, 100);
+      expect(camera.pos).toBeVector(ex.vec(0, -12));
+
+      // fall back without leaving the dead zone
+      target.vel = ex.vec(0, 100);
+      target.pos = ex.vec(0, -20);
+      camera.update(engine, 100);
+      expect(camera.pos).toBeVector(ex.vec(0, -12));
+
+      // land on a lower platform
+      target.vel = ex.vec(0, 0);
+      target.pos = ex.vec(0, 20);
+      camera.update(engine, 100);
+      expect(camera.pos).toBeVector(ex.vec(0, 20));
+      expect(strategy.platformY).toBe(20);
+    });
+
+    it('can tell when the actor is on the ground', () => {
+      let grounded = false;
+      camera.strategy.platformerFollowActor(target, { lookAheadTime: 0, verticalDamping: 0, isGrounded: () => grounded });
+
+      target.pos = ex.vec(0, 40);
+      camera.update(engine, 100);
+      expect(camera.y).toBe(0);
+
+      grounded = true;
+      camera.update(engine, 100);
+      expect(camera.y).toBe(40);
+    });
+
+    it('draws its dead zone with the camera', () => {
+      camera.strategy.platformerFollowActor(target, { deadZoneWidth: 50, deadZoneHeight: 80 });
+      const ctx = jasmine.createSpyObj('ctx', [
+        'save',
+        'restore',
+        'beginPath',
+        'arc',
+        'moveTo',
+        'lineTo',
+        'closePath',
+        'stroke',
+        'setLineDash',
+        'strokeRect'
+      ]);
+
+      camera.debugDraw(ctx);
+      expect(ctx.strokeRect).toHaveBeenCalledWith(-25, -40, 50, 80);
+    });
+  });
+
+  describe('frame actors strategy', () => {
+    let camera: ex.Camera;
+    let actors: ex.Actor[];
+
+    beforeEach(() => {
+      camera = new ex.Camera();
+      engine.screen.setCurrentCamera(camera);
+      actors = [new ex.Actor(0, 0), new ex.Actor(400, 0)];
+    });
+
+    it('centers on the actors and zooms to fit them within the limits', () => {
+      camera.strategy.frameActors(actors, { padding: 50, damping: 0, zoomDuration: 0 });
+
+      camera.update(engine, 100);
+      expect(camera.pos).toBeVector(ex.vec(200, 0));
+      expect(camera.zoom).toBe(1);
+
+      actors[1].pos = ex.vec(100, 50);
+      camera.update(engine, 100);
+      expect(camera.pos).toBeVector(ex.vec(50, 25));
+      expect(camera.zoom).toBe(2);
+
+      actors[1].pos = ex.vec(1900, 0);
+      camera.update(engine, 100);
+      expect(camera.zoom).toBe(0.5);
+    });
+
+    it('zooms over time with an easing', () => {
+      const strategy = new ex.FrameActorsCameraStrategy(actors, {
+        padding: 50,
+        zoomDuration: 1000,
+        zoomEasing: ex.EasingFunctions.Linear
+      });
+      camera.addStrategy(strategy);
+      actors[1].pos = ex.vec(900, 0);
+
+      camera.update(engine, 100);
+      expect(strategy.zoomGoal).toBe(0.5);
+      expect(camera.zoom).toBe(1);
+
+      camera.update(engine, 500);
+      camera.update(engine, 100);
+      expect(camera.zoom).toBe(0.75);
+      expect(strategy.zoomGoal).toBe(0.5);
+    });
+
+    it('only zooms again when the actors need a different enough zoom', () => {
+      const strategy = new ex.FrameActorsCameraStrategy(actors, { padding: 50, zoomDuration: 0, zoomTolerance: 0.1 });
+      camera.addStrategy(strategy);
+      camera.update(engine, 100);
+
+      actors[1].pos = ex.vec(440, 0);
+      camera.update(engine, 100);
+      expect(camera.zoom).toBe(1);
+
+      actors[1].pos = ex.vec(525, 0);
+      camera.update(engine, 100);
+      expect(camera.zoom).toBe(0.8);
+    });
+
+    it('leaves out killed actors', () => {
+      camera.strategy.frameActors(actors, { damping: 0, zoomDuration: 0 });
+      actors.forEach((actor) => scene.add(actor));
+      actors[1].kill();
+
+      camera.update(engine, 100);
+      expect(camera.pos).toBeVector(ex.vec(0, 0));
+
+      actors[0].kill();
+      camera.pos = ex.vec(10, 10);
+      camera.update(engine, 100);
+      expect(camera.pos).toBeVector(ex.vec(10, 10));
+    });
+
+    it('respects the bounds of the camera', () => {
+      camera.strategy.frameActors(actors, { padding: 50, damping: 0, zoomDuration: 0 });
+      camera.strategy.limitCameraBounds(new ex.BoundingBox(0, 0, 800, 800));
+      actors[1].pos = ex.vec(1900, 0);
+
+      camera.update(engine, 100);
+      expect(camera.zoom).toBe(0.625);
+      expect(camera.pos).toBeVector(ex.vec(400, 400));
+    });
+  });
+
   it('can lerp over time', (done) => {
     engine.currentScene.camera.move(new ex.Vector(100, 100), 1000, ex.EasingFunctions.EaseOutCubic).then(() => {
       engine.currentScene.camera.move(new ex.Vector(200, 200), 1000, ex.EasingFunctions.Linear).then(() => {
@@ -0,0 +1,169 @@
+import * as ex from '@excalibur';
+import { ExcaliburMatchers } from 'excalibur-jasmine';
+import { TestUtils } from './util/TestUtils';
+
+describe('A ChunkedTileMap', () => {
+  let engine: ex.Engine;
+  let provider: jasmine.Spy;
+
+  const createMap = (options: Partial<ex.ChunkedTileMapOptions> = {}) =>
+    new ex.ChunkedTileMap({ cellWidth: 16, cellHeight: 16, chunkSize: 4, margin: 0, provider, ...options });
+
+  const chunkCoords = (map: ex.ChunkedTileMap) =>
+    map.chunks.map((chunk) => [chunk.x / 64, chunk.y / 64]).sort((a, b) => a[1] - b[1] || a[0] - b[0]);
+
+  beforeEach(() => {
+    jasmine.addMatchers(ExcaliburMatchers);
+    engine = TestUtils.engine({ width: 100, height: 100 });
+    provider = jasmine.createSpy('provider');
+  });
+
+  afterEach(() => {
+    engine.stop();
+    engine = null;
+  });
+
+  it('exists', () => {
+    expect(ex.ChunkedTileMap).toBeDefined();
+  });
+
+  it('creates the chunks covering an area', () => {
+    const map = createMap();
+    map.updateChunks(new ex.BoundingBox(0, 0, 100, 100));
+
+    expect(chunkCoords(map)).toEqual([
+      [0, 0],
+      [1, 0],
+      [0, 1],
+      [1, 1]
+    ]);
+    expect(provider).toHaveBeenCalledTimes(4);
+    const call = provider.calls.all().find((c) => c.args[0] === map.getChunk(1, 0));
+    expect(call.args.slice(1)).toEqual([1, 0]);
+    expect(map.getChunk(1, 0).rows).toBe(4);
+    expect(map.getChunk(1, 0).cellWidth).toBe(16);
+  });
+
+  it('creates the chunks in the margin around the area', () => {
+    const map = createMap({ margin: 1 });
+    map.updateChunks(new ex.BoundingBox(0, 0, 100, 100));
+
+    expect(map.chunks.length).toBe(16);
+    expect(map.getChunk(-1, -1).pos).toBeVector(ex.vec(-64, -64));
+  });
+
+  it('destroys the chunks that are far from the area', () => {
+    const map = createMap();
+    map.updateChunks(new ex.BoundingBox(0, 0, 100, 100));
+    const first = map.getChunk(0, 0);
+
+    // a chunk past the area is kept
+    map.updateChunks(new ex.BoundingBox(64, 0, 164, 100));
+    expect(map.getChunk(0, 0)).toBe(first);
+    expect(provider).toHaveBeenCalledTimes(6);
+
+    map.updateChunks(new ex.BoundingBox(1000, 0, 1100, 100));
+    expect(map.getChunk(0, 0)).toBeNull();
+    expect(map.children).not.toContain(first);
+    expect(map.chunks.length).toBe(6);
+  });
+
+  it('only creates the chunks inside of a map with a size', () => {
+    const map = createMap({ rows: 6, cols: 6, margin: 2 });
+    map.updateChunks(new ex.BoundingBox(0, 0, 100, 100));
+
+    expect(chunkCoords(map)).toEqual([
+      [0, 0],
+      [1, 0],
+      [0, 1],
+      [1, 1]
+    ]);
+    expect(map.getChunk(1, 1).rows).toBe(2);
+    expect(map.getChunk(1, 1).cols).toBe(2);
+  });
+
+  it('finds cells by their position in the whole map', () => {
+    provider.and.callFake((chunk: ex.TileMap, chunkX: number, chunkY: number) => {
+      chunk.data.forEach((cell) => cell.data.set('chunk', [chunkX, chunkY]));
+    });
+    const map = createMap({ pos: ex.vec(-32, 0) });
+    map.updateChunks(new ex.BoundingBox(-32, 0, 68, 100));
+
+    expect(map.getCell(5, 2).data.get('chunk')).toEqual([1, 0]);
+    expect(map.getCell(5, 2)).toBe(map.getChunk(1, 0).getCell(1, 2));
+    expect(map.getCellByPoint(0, 40)).toBe(map.getCell(2, 2));
+    expect(map.getCell(20, 0)).toBeNull();
+  });
+
+  it('creates the same chunk again from a procedural provider', () => {
+    const noise = new ex.PerlinGenerator({ seed: 7 });
+    provider.and.callFake((chunk: ex.TileMap, chunkX: number, chunkY: number) => {
+      chunk.data.forEach((cell) => {
+        const x = chunkX * 4 + (cell.index % 4);
+        const y = chunkY * 4 + Math.floor(cell.index / 4);
+        cell.solid = noise.noise(x / 10, y / 10) > 0.5;
+      });
+    });
+    const map = createMap();
+    map.updateChunks(new ex.BoundingBox(0, 0, 10, 10));
+    const before = map.getChunk(0, 0).data.map((cell) => cell.solid);
+
+    map.updateChunks(new ex.BoundingBox(1000, 0, 1010, 10));
+    map.updateChunks(new ex.BoundingBox(0, 0, 10, 10));
+
+    expect(map.getChunk(0, 0).data.map((cell) => cell.solid)).toEqual(before);
+  });
+
+  it('can cache the graphics of every chunk', () => {
+    const map = createMap({ cacheGraphics: true });
+    map.updateChunks(new ex.BoundingBox(0, 0, 10, 10));
+
+    expect(map.getChunk(0, 0).isGraphicsCached).toBe(true);
+  });
+
+  it('releases the cached graphics of the chunks it destroys', () => {
+    const map = createMap({ cacheGraphics: true });
+    map.updateChunks(new ex.BoundingBox(0, 0, 10, 10));
+    const chunk = map.getChunk(0, 0);
+
+    map.updateChunks(new ex.BoundingBox(1000, 0, 1010, 10));
+
+    expect(map.getChunk(0, 0)).toBeNull();
+    expect(chunk.isGraphicsCached).toBe(false);
+  });
+
+  it('runs the lifecycle of an entity when it is updated', () => {
+    const scene = new ex.Scene(engine);
+    const map = createMap();
+    const initialize = jasmine.createSpy('initialize');
+    const preupdate = jasmine.createSpy('preupdate');
+    const postupdate = jasmine.createSpy('postupdate');
+    map.on('initialize', initialize);
+    map.on('preupdate', preupdate);
+    map.on('postupdate', postupdate);
+    scene.add(map);
+
+    scene.update(engine, 16);
+
+    expect(initialize).toHaveBeenCalledTimes(1);
+    expect(preupdate).toHaveBeenCalledTimes(1);
+    expect(postupdate).toHaveBeenCalledTimes(1);
+  });
+
+  it('streams the chunks around the camera of a scene', () => {
+    const scene = new ex.Scene(engine);
+    provider.and.callFake((chunk: ex.TileMap) => {
+      chunk.data.forEach((cell) => (cell.solid = true));
+    });
+    const map = createMap();
+    scene.add(map);
+    scene.update(engine, 16);
+    scene.update(engine, 16);
+
+    expect(map.chunks.length).toBeGreaterThan(0);
+    for (const chunk of map.chunks) {
+      expect(scene.world.entityManager.entities).toContain(chunk);
+      expect(scene.world.entityManager.entities).toContain(chunk.children[0]);
+    }
+  });
+});
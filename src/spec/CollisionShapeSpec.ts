@@ -578,6 +578,23 @@ describe('Collision Shape', () => {
       expect(directionOfBodyB.dot(contact.mtv)).toBeGreaterThan(0);
     });
 
+    it('only pushes other shapes along the normals its collider accepts', () => {
+      const ground = new ex.Actor({ x: 0, y: 0, width: 20, height: 20, collisionType: ex.CollisionType.Fixed });
+      const box = new ex.Actor({ x: 14, y: -13, width: 10, height: 10 });
+      ground.body.collider.update();
+      box.body.collider.update();
+
+      // the box overlaps the top right corner least along the x axis
+      expect(box.body.collider.collide(ground.body.collider).normal).toBeVector(ex.Vector.Left);
+
+      ground.body.collider.blockedNormals = [ex.Vector.Right];
+      const contact = box.body.collider.collide(ground.body.collider);
+
+      expect(contact.normal).toBeVector(ex.Vector.Down);
+      expect(contact.mtv).toBeVector(ex.vec(0, 2));
+      expect(contact.colliderA).toBe(box.body.collider);
+    });
+
     it('should not collide with the middle of an edge when not touching', () => {
       const actor = new ex.Actor(5, 0, 20, 20);
       actor.rotation = Math.PI / 4;
@@ -939,4 +956,298 @@ describe('Collision Shape', () => {
       expect(line.getEdge().dot(ex.Vector.Right)).toBeGreaterThan(0, 'Line from circle to edge should be away from circle');
     });
   });
+
+  describe('a CompositeShape', () => {
+    let actor: ex.Actor;
+    let composite: ex.CompositeShape;
+
+    // an L made of a 30x10 bar and a 10x20 leg
+    const lPoints = () => [ex.vec(0, 0), ex.vec(30, 0), ex.vec(30, 10), ex.vec(10, 10), ex.vec(10, 30), ex.vec(0, 30)];
+
+    beforeEach(() => {
+      actor = new ex.Actor({ x: 100, y: 100, width: 10, height: 10 });
+      composite = ex.Shape.Composite([ex.Shape.Circle(10, ex.vec(-20, 0)), ex.Shape.Box(10, 10, ex.Vector.Half, ex.vec(20, 0))]);
+      actor.body.collider.shape = composite;
+    });
+
+    it('exists', () => {
+      expect(ex.CompositeShape).toBeDefined();
+    });
+
+    it('associates the collider with every part', () => {
+      expect(composite.shapes.every((shape) => shape.collider === actor.body.collider)).toBe(true);
+    });
+
+    it('has bounds around every part', () => {
+      expect(composite.localBounds).toEqual(new ex.BoundingBox(-30, -10, 25, 10));
+      expect(composite.bounds.left).toBe(70);
+      expect(composite.bounds.right).toBe(125);
+    });
+
+    it('moves every part with its offset', () => {
+      composite.offset = ex.vec(0, 10);
+
+      expect(composite.shapes[0].offset).toBeVector(ex.vec(-20, 10));
+      expect(composite.shapes[1].offset).toBeVector(ex.vec(20, 10));
+    });
+
+    it('shares the mass between the parts by area for the inertia', () => {
+      actor.body.collider.mass = 10;
+      const single = ex.Shape.Composite([ex.Shape.Box(10, 10)]);
+      single.collider = actor.body.collider;
+      const moved = ex.Shape.Composite([ex.Shape.Box(10, 10, ex.Vector.Half, ex.vec(10, 0))]);
+      moved.collider = actor.body.collider;
+
+      expect(single.inertia).toBeCloseTo((10 * (10 * 10 + 10 * 10)) / 12);
+      expect(moved.inertia).toBeCloseTo(single.inertia + 10 * 10 * 10);
+    });
+
+    it('can be cloned', () => {
+      composite.offset = ex.vec(5, 0);
+
+      const clone = composite.clone();
+
+      expect(clone).not.toBe(composite);
+      expect(clone.collider).toBe(null);
+      expect(clone.shapes.length).toBe(2);
+      expect(clone.offset).toBeVector(ex.vec(5, 0));
+      expect(clone.shapes[0].offset).toBeVector(composite.shapes[0].offset);
+    });
+
+    it('contains points in any part', () => {
+      expect(composite.contains(ex.vec(80, 100))).toBe(true);
+      expect(composite.contains(ex.vec(120, 100))).toBe(true);
+      expect(composite.contains(ex.vec(100, 100))).toBe(false);
+    });
+
+    it('can be ray cast against the nearest part', () => {
+      const point = composite.rayCast(new ex.Ray(ex.vec(200, 100), ex.Vector.Left));
+
+      expect(point).toBeVector(ex.vec(125, 100));
+    });
+
+    it('collides with other shapes through the part it touches', () => {
+      const other = new ex.Actor({ x: 128, y: 100, width: 10, height: 10 });
+
+      const contact = actor.body.collider.collide(other.body.collider);
+      const reversed = other.body.collider.collide(actor.body.collider);
+
+      expect(contact).not.toBeNull();
+      expect(contact.mtv.x).toBeCloseTo(2);
+      expect(reversed).not.toBeNull();
+    });
+
+    it('does not collide with shapes between its parts', () => {
+      const other = new ex.Actor({ x: 100, y: 100, width: 10, height: 10 });
+
+      expect(actor.body.collider.collide(other.body.collider)).toBeNull();
+      expect(other.body.collider.collide(actor.body.collider)).toBeNull();
+    });
+
+    it('only pushes along the normals its collider accepts with every part', () => {
+      // overlapping the left side of the box part by 1 and its top by 3
+      const other = new ex.Actor({ x: 111, y: 93, width: 10, height: 10 });
+      actor.body.collider.blockedNormals = [ex.Vector.Left];
+
+      const contact = actor.body.collider.collide(other.body.collider);
+      const reversed = other.body.collider.collide(actor.body.collider);
+
+      expect(contact.normal).toBeVector(ex.Vector.Up);
+      expect(contact.mtv.size).toBeCloseTo(3);
+      expect(reversed.normal).toBeVector(ex.Vector.Down);
+    });
+
+    it('collides with other composite shapes', () => {
+      const other = new ex.Actor({ x: 150, y: 100 });
+      other.body.useCompositeCollider([ex.Shape.Circle(10, ex.vec(-20, 0)), ex.Shape.Circle(10, ex.vec(20, 0))]);
+
+      expect(actor.body.collider.collide(other.body.collider)).not.toBeNull();
+    });
+
+    it('can find the closest line to another shape', () => {
+      const circle = ex.Shape.Circle(5, ex.vec(145, 100));
+
+      const line = composite.getClosestLineBetween(circle);
+
+      expect(line.getLength()).toBeCloseTo(15);
+    });
+
+    describe('decomposition', () => {
+      it('keeps convex outlines whole', () => {
+        const parts = ex.CompositeShape.decompose(ex.Shape.Box(10, 10).points);
+
+        expect(parts.length).toBe(1);
+        expect(parts[0].length).toBe(4);
+      });
+
+      it('splits concave outlines into convex polygons covering the same area', () => {
+        const parts = ex.CompositeShape.decompose(lPoints());
+        const area = ex.Shape.Composite(parts.map((points) => ex.Shape.Polygon(points))).area;
+
+        expect(parts.length).toBe(2);
+        expect(area).toBeCloseTo(500);
+      });
+
+      it('accepts either winding', () => {
+        const parts = ex.CompositeShape.decompose(lPoints().reverse(), true);
+
+        expect(parts.length).toBe(2);
+      });
+
+      it('builds concave collision shapes', () => {
+        const shape = ex.Shape.Concave(lPoints());
+        actor.body.collider.shape = shape;
+        const inside = new ex.Actor({ x: 105, y: 125, width: 2, height: 2 });
+        const notch = new ex.Actor({ x: 120, y: 120, width: 2, height: 2 });
+
+        expect(actor.body.collider.collide(inside.body.collider)).not.toBeNull();
+        expect(actor.body.collider.collide(notch.body.collider)).toBeNull();
+      });
+
+      it('throws on outlines that cross themselves', () => {
+        const bowtie = [ex.vec(0, 0), ex.vec(10, 10), ex.vec(10, 0), ex.vec(0, 10)];
+
+        expect(() => ex.CompositeShape.decompose(bowtie)).toThrowError('CompositeShape could not decompose a polygon that crosses itself');
+      });
+    });
+  });
+
+  describe('a Chain', () => {
+    let ground: ex.Actor;
+    let chain: ex.Chain;
+
+    const box = (x: number, y: number, size = 10) => new ex.Actor({ x, y, width: size, height: size });
+    const ball = (x: number, y: number, radius = 5) => {
+      const actor = new ex.Actor({ x, y });
+      actor.body.useCircleCollider(radius);
+      return actor;
+    };
+
+    beforeEach(() => {
+      ground = new ex.Actor({ x: 100, y: 100, collisionType: ex.CollisionType.Fixed });
+      ground.body.useChainCollider([ex.vec(0, 0), ex.vec(50, 0), ex.vec(100, 0), ex.vec(150, -50)]);
+      chain = ground.body.collider.shape as ex.Chain;
+    });
+
+    it('exists', () => {
+      expect(ex.Chain).toBeDefined();
+      expect(chain instanceof ex.Chain).toBe(true);
+    });
+
+    it('needs at least 2 points', () => {
+      expect(() => ex.Shape.Chain([ex.vec(0, 0)])).toThrowError('Chain needs at least 2 points');
+    });
+
+    it('has edges in world space', () => {
+      const segments = chain.getSegments();
+
+      expect(segments.length).toBe(3);
+      expect(segments[0].begin).toBeVector(ex.vec(100, 100));
+      expect(segments[2].end).toBeVector(ex.vec(250, 50));
+      expect(ex.Shape.Chain([ex.vec(0, 0), ex.vec(10, 0), ex.vec(10, 10)], true).getSegments().length).toBe(3);
+    });
+
+    it('has bounds', () => {
+      expect(chain.bounds).toEqual(new ex.BoundingBox(100, 50, 250, 100));
+      expect(chain.localBounds).toEqual(new ex.BoundingBox(0, -50, 150, 0));
+    });
+
+    it('can be cloned', () => {
+      const clone = chain.clone();
+
+      expect(clone).not.toBe(chain);
+      expect(clone.collider).toBe(null);
+      expect(clone.points).toEqual(chain.points);
+    });
+
+    it('collides with circles on the solid side', () => {
+      const contact = ball(125, 97).body.collider.collide(ground.body.collider);
+
+      expect(contact).not.toBeNull();
+      expect(contact.normal).toBeVector(ex.Vector.Down);
+      expect(contact.mtv).toBeVector(ex.vec(0, 2));
+    });
+
+    it('collides with polygons on the solid side', () => {
+      const contact = box(125, 97).body.collider.collide(ground.body.collider);
+
+      expect(contact).not.toBeNull();
+      expect(contact.normal).toBeVector(ex.Vector.Down);
+      expect(contact.mtv).toBeVector(ex.vec(0, 2));
+    });
+
+    it('lets shapes pass through from behind', () => {
+      expect(ball(125, 103).body.collider.collide(ground.body.collider)).toBeNull();
+      expect(box(125, 103).body.collider.collide(ground.body.collider)).toBeNull();
+    });
+
+    it('does not push polygons back at the seams between edges', () => {
+      // the box overlaps the first edge by less than it sinks into the chain, separate edges would push it sideways
+      const contact = box(154.5, 96).body.collider.collide(ground.body.collider);
+
+      expect(contact.normal).toBeVector(ex.Vector.Down);
+      expect(contact.mtv).toBeVector(ex.vec(0, 2));
+    });
+
+    it('only accepts contact normals between the normals of the neighbouring edges', () => {
+      const diagonal = ex.vec(-1, -1).normalize();
+
+      // flat corner
+      expect(chain.acceptsNormal(1, ex.Vector.Up)).toBe(true);
+      expect(chain.acceptsNormal(1, ex.Vector.Right)).toBe(false);
+      // concave corner
+      expect(chain.acceptsNormal(2, diagonal)).toBe(true);
+      expect(chain.acceptsNormal(2, ex.vec(-1, -3).normalize())).toBe(false);
+      // open ends
+      expect(chain.acceptsNormal(0, ex.Vector.Left)).toBe(true);
+      expect(chain.acceptsNormal(0, ex.Vector.Down)).toBe(false);
+      expect(chain.acceptsNormal(3, ex.vec(1, -1).normalize())).toBe(true);
+    });
+
+    it('pushes shapes away from convex corners', () => {
+      ground.body.useChainCollider([ex.vec(0, 0), ex.vec(50, -50), ex.vec(100, 0)]);
+
+      const contact = ball(150, 46).body.collider.collide(ground.body.collider);
+
+      expect(contact.normal).toBeVector(ex.Vector.Down);
+      expect(contact.mtv).toBeVector(ex.vec(0, 2));
+    });
+
+    it('can be ray cast', () => {
+      const point = chain.rayCast(new ex.Ray(ex.vec(125, 0), ex.Vector.Down));
+
+      expect(point).toBeVector(ex.vec(125, 100));
+    });
+
+    it('can find the closest line to other shapes', () => {
+      expect(chain.getClosestLineBetween(ball(125, 80).body.collider.shape).getLength()).toBeCloseTo(15);
+      expect(chain.getClosestLineBetween(box(125, 80).body.collider.shape).getLength()).toBeCloseTo(15);
+      expect(ball(125, 80).body.collider.getClosestLineBetween(ground.body.collider).getLength()).toBeCloseTo(15);
+    });
+
+    it('lets bodies slide over the seams', () => {
+      const engine = TestUtils.engine({ width: 100, height: 100 });
+      const scene = new ex.Scene(engine);
+      scene.physics.acc = ex.vec(0, 400);
+      const points: ex.Vector[] = [];
+      for (let x = 0; x <= 400; x += 20) {
+        points.push(ex.vec(x, 0));
+      }
+      const floor = new ex.Actor({ x: 0, y: 100, collisionType: ex.CollisionType.Fixed });
+      floor.body.useChainCollider(points);
+      const crate = new ex.Actor({ x: 20, y: 95, width: 10, height: 10, collisionType: ex.CollisionType.Active });
+      crate.body.collider.friction = 0;
+      scene.add(floor);
+      scene.add(crate);
+
+      for (let i = 0; i < 60; i++) {
+        crate.vel = ex.vec(200, crate.vel.y);
+        scene.update(engine, 16);
+      }
+
+      expect(crate.pos.x).toBeGreaterThan(200);
+      expect(crate.pos.y).toBeCloseTo(95, 0);
+      engine.stop();
+    });
+  });
 });
@@ -0,0 +1,145 @@
+import * as ex from '@excalibur';
+import { TestUtils } from './util/TestUtils';
+
+describe('The physics ECS systems', () => {
+  let engine: ex.Engine;
+  let scene: ex.Scene;
+
+  beforeEach(() => {
+    engine = TestUtils.engine({ width: 100, height: 100 });
+    scene = new ex.Scene(engine);
+    engine.addScene('physics', scene);
+    engine.goToScene('physics');
+  });
+
+  afterEach(() => {
+    engine.stop();
+    engine = null;
+  });
+
+  it('exist', () => {
+    expect(ex.MotionSystem).toBeDefined();
+    expect(ex.CollisionSystem).toBeDefined();
+    expect(ex.BodyComponent).toBeDefined();
+    expect(ex.ColliderComponent).toBeDefined();
+  });
+
+  it('are added to every scene with motion before collision', () => {
+    const systems = scene.world.systemManager.systems;
+    const motion = systems.findIndex((s) => s instanceof ex.MotionSystem);
+    const collision = systems.findIndex((s) => s instanceof ex.CollisionSystem);
+
+    expect(motion).toBeGreaterThan(-1);
+    expect(collision).toBeGreaterThan(motion);
+  });
+
+  it('gives actors a body and collider component', () => {
+    const actor = new ex.Actor({ width: 10, height: 10 });
+
+    expect(actor.get(ex.BodyComponent).body).toBe(actor.body);
+    expect(actor.get(ex.ColliderComponent).collider).toBe(actor.body.collider);
+    expect(actor.body.owner).toBe(actor);
+  });
+
+  it('moves entities with a body component', () => {
+    const entity = new ex.Entity([new ex.TransformComponent(), new ex.BodyComponent()]);
+    entity.get(ex.BodyComponent).body.vel = ex.vec(100, 0);
+    scene.add(entity);
+
+    scene.update(engine, 1000);
+
+    expect(entity.get(ex.TransformComponent).pos.x).toBe(100);
+  });
+
+  it('collides plain entities with actors', () => {
+    const actor = new ex.Actor({ x: 0, y: 0, width: 10, height: 10, collisionType: ex.CollisionType.Active });
+    actor.vel = ex.vec(100, 0);
+    const wall = new ex.Entity([
+      new ex.TransformComponent(),
+      new ex.ColliderComponent(new ex.Collider({ type: ex.CollisionType.Fixed, shape: ex.Shape.Box(10, 10) }))
+    ]);
+    wall.get(ex.TransformComponent).pos = ex.vec(20, 0);
+    const wallCollision = jasmine.createSpy('wallCollision');
+    wall.on('collisionstart', wallCollision);
+
+    scene.add(actor);
+    scene.add(wall);
+    for (let i = 0; i < 10; i++) {
+      scene.update(engine, 16);
+    }
+
+    expect(wallCollision).toHaveBeenCalledTimes(1);
+    expect(wallCollision.calls.argsFor(0)[0].other).toBe(actor);
+    expect(actor.pos.x).toBe(10);
+    expect(wall.get(ex.TransformComponent).pos.x).toBe(20);
+  });
+
+  it('stops colliding with entities that are removed', () => {
+    const actor = new ex.Actor({ x: 0, y: 0, width: 10, height: 10, collisionType: ex.CollisionType.Active });
+    const other = new ex.Actor({ x: 5, y: 0, width: 10, height: 10, collisionType: ex.CollisionType.Fixed });
+    const collision = jasmine.createSpy('collision');
+    actor.on('precollision', collision);
+
+    scene.add(actor);
+    scene.add(other);
+    scene.remove(other);
+    scene.update(engine, 16);
+
+    expect(collision).not.toHaveBeenCalled();
+  });
+
+  it('can be removed from a scene', () => {
+    const motion = scene.world.systemManager.systems.find((s) => s instanceof ex.MotionSystem);
+    scene.world.remove(motion);
+    const actor = new ex.Actor({ width: 10, height: 10 });
+    actor.vel = ex.vec(100, 0);
+    scene.add(actor);
+
+    scene.update(engine, 1000);
+
+    expect(actor.pos.x).toBe(0);
+  });
+
+  it('can be swapped after entities were added', () => {
+    const actor = new ex.Actor({ x: 0, y: 0, width: 10, height: 10, collisionType: ex.CollisionType.Active });
+    actor.vel = ex.vec(100, 0);
+    const wall = new ex.Actor({ x: 20, y: 0, width: 10, height: 10, collisionType: ex.CollisionType.Fixed });
+    scene.add(actor);
+    scene.add(wall);
+
+    const systems = scene.world.systemManager;
+    scene.world.remove(systems.get(ex.MotionSystem));
+    scene.world.remove(systems.get(ex.CollisionSystem));
+    scene.world.add(new ex.MotionSystem());
+    scene.world.add(new ex.CollisionSystem());
+    for (let i = 0; i < 10; i++) {
+      scene.update(engine, 16);
+    }
+
+    expect(actor.body.physics).toBe(scene.physics);
+    expect(actor.pos.x).toBe(10);
+  });
+
+  it('moves actors before their postupdate', () => {
+    const actor = new ex.Actor({ width: 10, height: 10 });
+    actor.vel = ex.vec(100, 0);
+    scene.add(actor);
+    let postUpdateX: number;
+    actor.on('postupdate', () => (postUpdateX = actor.pos.x));
+
+    scene.update(engine, 1000);
+
+    expect(postUpdateX).toBe(100);
+    expect(actor.pos.x).toBe(100);
+  });
+
+  it('moves actors that are updated outside of a scene', () => {
+    const actor = new ex.Actor({ width: 10, height: 10 });
+    actor.vel = ex.vec(10, 0);
+
+    actor.update(engine, 1000);
+
+    expect(actor.oldPos).toBeVector(ex.vec(0, 0));
+    expect(actor.pos).toBeVector(ex.vec(10, 0));
+  });
+});
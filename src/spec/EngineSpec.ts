@@ -144,6 +144,59 @@ describe('The engine', () => {
     expect(fired).toBe(true);
   });
 
+  it('should update with a variable timestep by default', () => {
+    const deltas: number[] = [];
+    engine.on('preupdate', (evt: ex.PreUpdateEvent<ex.Engine>) => deltas.push(evt.delta));
+
+    loop.advance(1000, 50);
+
+    expect(deltas.length).toBe(50);
+    expect(deltas.every((d) => d === 20)).toBe(true);
+    expect(engine.fixedUpdateAlpha).toBe(1);
+  });
+
+  it('can update on a fixed timestep independent of the frame rate', () => {
+    engine.fixedUpdateFps = 25;
+    const deltas: number[] = [];
+    let draws = 0;
+    engine.on('preupdate', (evt: ex.PreUpdateEvent<ex.Engine>) => deltas.push(evt.delta));
+    engine.on('predraw', () => draws++);
+
+    loop.advance(1000, 50);
+
+    expect(draws).toBe(50);
+    expect(deltas.length).toBe(25);
+    expect(deltas.every((d) => d === 40)).toBe(true);
+  });
+
+  it('can catch up with multiple fixed updates in a single frame', () => {
+    engine.fixedUpdateFps = 100;
+    const deltas: number[] = [];
+    engine.on('preupdate', (evt: ex.PreUpdateEvent<ex.Engine>) => deltas.push(evt.delta));
+
+    loop.advance(1000, 40);
+
+    expect(deltas.length).toBe(100);
+    expect(deltas.every((d) => d === 10)).toBe(true);
+  });
+
+  it('will provide an interpolation alpha to draw between fixed updates', () => {
+    engine.fixedUpdateFps = 20;
+    const alphas: number[] = [];
+    engine.on('postdraw', () => alphas.push(engine.fixedUpdateAlpha));
+
+    loop.advance(100, 40);
+
+    // 25ms frames against 50ms fixed updates
+    expect(alphas).toEqual([0.5, 0, 0.5, 0]);
+  });
+
+  it('can be configured with a fixed update fps', () => {
+    const fixedEngine = TestUtils.engine({ fixedUpdateFps: 30 });
+    expect(fixedEngine.fixedUpdateFps).toBe(30);
+    fixedEngine.stop();
+  });
+
   it('should tell engine is running', () => {
     const status = engine.isPaused();
     expect(status).toBe(false);
@@ -1,5 +1,6 @@
 import * as ex from '@excalibur';
 import { ExcaliburAsyncMatchers, ExcaliburMatchers } from 'excalibur-jasmine';
+import { GraphicsDiagnostics } from '../engine/Graphics/GraphicsDiagnostics';
 
 /**
  *
@@ -13,6 +14,13 @@ function flushWebGLCanvasTo2D(source: HTMLCanvasElement): HTMLCanvasElement {
   return canvas;
 }
 
+/**
+ * Returns the rgba values of a pixel of a 2D canvas
+ */
+function getPixel(canvas: HTMLCanvasElement, x: number, y: number): number[] {
+  return Array.from(canvas.getContext('2d').getImageData(x, y, 1, 1).data);
+}
+
 describe('The ExcaliburGraphicsContext', () => {
   describe('2D', () => {
     beforeEach(() => {
@@ -184,6 +192,149 @@ describe('The ExcaliburGraphicsContext', () => {
         sut.drawImage(rect._bitmap, 0, 0, 10, 10, 0, 0, 0, 0);
       }).not.toThrow();
     });
+
+    it('can save and restore the opacity, tint, blend mode, and material', () => {
+      const sut = new ex.Graphics.ExcaliburGraphicsContext2DCanvas({ canvasElement: document.createElement('canvas') });
+
+      sut.save();
+      sut.opacity = 0.5;
+      sut.tint = ex.Color.Red;
+      sut.blendMode = ex.Graphics.BlendMode.Add;
+      sut.material = new ex.Graphics.Material({ fragmentSource: 'void main() { gl_FragColor = vec4(1.0); }' });
+      sut.restore();
+
+      expect(sut.opacity).toBe(1);
+      expect(sut.tint).toEqual(ex.Color.White);
+      expect(sut.blendMode).toBe(ex.Graphics.BlendMode.Normal);
+      expect(sut.material).toBeNull();
+    });
+
+    it('can tint a drawing', () => {
+      const canvasElement = document.createElement('canvas');
+      canvasElement.width = 100;
+      canvasElement.height = 100;
+      const sut = new ex.Graphics.ExcaliburGraphicsContext2DCanvas({
+        canvasElement,
+        enableTransparency: false,
+        backgroundColor: ex.Color.Black
+      });
+      const rect = new ex.Graphics.Rectangle({
+        width: 50,
+        height: 50,
+        color: ex.Color.White
+      });
+
+      sut.clear();
+      sut.tint = ex.Color.Red;
+      sut.drawImage(rect._bitmap, 20, 20);
+
+      expect(getPixel(canvasElement, 40, 40)).toEqual([255, 0, 0, 255]);
+      expect(getPixel(canvasElement, 10, 10)).toEqual([0, 0, 0, 255]);
+    });
+
+    it('can blend drawings', () => {
+      const canvasElement = document.createElement('canvas');
+      canvasElement.width = 100;
+      canvasElement.height = 100;
+      const sut = new ex.Graphics.ExcaliburGraphicsContext2DCanvas({
+        canvasElement,
+        enableTransparency: false,
+        backgroundColor: ex.Color.Red
+      });
+      const rect = new ex.Graphics.Rectangle({
+        width: 50,
+        height: 50,
+        color: ex.Color.Green
+      });
+
+      sut.clear();
+      sut.blendMode = ex.Graphics.BlendMode.Add;
+      sut.drawImage(rect._bitmap, 0, 0);
+      sut.blendMode = ex.Graphics.BlendMode.Multiply;
+      sut.drawImage(rect._bitmap, 50, 50);
+
+      expect(getPixel(canvasElement, 25, 25)).toEqual([255, 255, 0, 255]);
+      expect(getPixel(canvasElement, 75, 75)).toEqual([0, 0, 0, 255]);
+      expect(getPixel(canvasElement, 75, 25)).toEqual([255, 0, 0, 255]);
+    });
+
+    it('draws as usual with a material', () => {
+      const canvasElement = document.createElement('canvas');
+      canvasElement.width = 100;
+      canvasElement.height = 100;
+      const sut = new ex.Graphics.ExcaliburGraphicsContext2DCanvas({
+        canvasElement,
+        enableTransparency: false,
+        backgroundColor: ex.Color.Black
+      });
+      const rect = new ex.Graphics.Rectangle({
+        width: 50,
+        height: 50,
+        color: ex.Color.Green
+      });
+
+      sut.clear();
+      sut.material = new ex.Graphics.Material({ fragmentSource: 'void main() { gl_FragColor = vec4(1.0, 0.0, 0.0, 1.0); }' });
+      sut.drawImage(rect._bitmap, 20, 20);
+
+      expect(getPixel(canvasElement, 40, 40)).toEqual([0, 255, 0, 255]);
+    });
+
+    it('can draw to a render target', () => {
+      const canvasElement = document.createElement('canvas');
+      canvasElement.width = 100;
+      canvasElement.height = 100;
+      const sut = new ex.Graphics.ExcaliburGraphicsContext2DCanvas({
+        canvasElement,
+        enableTransparency: false,
+        backgroundColor: ex.Color.Black
+      });
+      const rect = new ex.Graphics.Rectangle({
+        width: 10,
+        height: 10,
+        color: ex.Color.Red
+      });
+      const target = new ex.Graphics.RenderTarget({ width: 50, height: 40 });
+
+      sut.clear();
+      sut.pushRenderTarget(target);
+      expect(sut.width).toBe(50);
+      expect(sut.height).toBe(40);
+      sut.clear();
+      sut.drawImage(rect._bitmap, 0, 0);
+      sut.popRenderTarget();
+      expect(sut.width).toBe(100);
+      expect(sut.height).toBe(100);
+      target.toSprite().draw(sut, 50, 50);
+
+      expect(getPixel(canvasElement, 5, 5)).toEqual([0, 0, 0, 255]);
+      expect(getPixel(canvasElement, 55, 55)).toEqual([255, 0, 0, 255]);
+      expect(getPixel(canvasElement, 55, 85)).toEqual([0, 0, 0, 255]);
+    });
+
+    it('clears a render target with its background color', () => {
+      const sut = new ex.Graphics.ExcaliburGraphicsContext2DCanvas({ canvasElement: document.createElement('canvas') });
+      const target = new ex.Graphics.RenderTarget({ width: 10, height: 10 });
+
+      sut.pushRenderTarget(target);
+      sut.clear();
+      expect(getPixel(target.image, 5, 5)).toEqual([0, 0, 0, 0]);
+
+      target.backgroundColor = ex.Color.Blue;
+      sut.clear();
+      sut.popRenderTarget();
+      expect(getPixel(target.image, 5, 5)).toEqual([0, 0, 255, 255]);
+    });
+
+    it('warns when popping a render target that was not pushed', () => {
+      const sut = new ex.Graphics.ExcaliburGraphicsContext2DCanvas({ canvasElement: document.createElement('canvas') });
+      const logger = ex.Logger.getInstance();
+      spyOn(logger, 'warn');
+
+      sut.popRenderTarget();
+
+      expect(logger.warn).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('WebGL', () => {
@@ -392,5 +543,258 @@ describe('The ExcaliburGraphicsContext', () => {
         sut.flush();
       }).not.toThrow();
     });
+
+    it('can save and restore the opacity, tint, blend mode, and material', () => {
+      const sut = new ex.Graphics.ExcaliburGraphicsContextWebGL({ canvasElement: document.createElement('canvas') });
+
+      sut.save();
+      sut.opacity = 0.5;
+      sut.tint = ex.Color.Red;
+      sut.blendMode = ex.Graphics.BlendMode.Add;
+      sut.material = new ex.Graphics.Material({ fragmentSource: 'void main() { gl_FragColor = vec4(1.0); }' });
+      sut.restore();
+
+      expect(sut.opacity).toBe(1);
+      expect(sut.tint).toEqual(ex.Color.White);
+      expect(sut.blendMode).toBe(ex.Graphics.BlendMode.Normal);
+      expect(sut.material).toBeNull();
+    });
+
+    it('can tint a drawing', () => {
+      const canvasElement = document.createElement('canvas');
+      canvasElement.width = 100;
+      canvasElement.height = 100;
+      const sut = new ex.Graphics.ExcaliburGraphicsContextWebGL({
+        canvasElement,
+        enableTransparency: false,
+        backgroundColor: ex.Color.Black
+      });
+      const rect = new ex.Graphics.Rectangle({
+        width: 50,
+        height: 50,
+        color: ex.Color.White
+      });
+
+      sut.clear();
+      sut.tint = ex.Color.Red;
+      sut.drawImage(rect._bitmap, 20, 20);
+      sut.flush();
+      const result = flushWebGLCanvasTo2D(canvasElement);
+
+      expect(getPixel(result, 40, 40)).toEqual([255, 0, 0, 255]);
+      expect(getPixel(result, 10, 10)).toEqual([0, 0, 0, 255]);
+    });
+
+    it('can blend drawings', () => {
+      const canvasElement = document.createElement('canvas');
+      canvasElement.width = 100;
+      canvasElement.height = 100;
+      const sut = new ex.Graphics.ExcaliburGraphicsContextWebGL({
+        canvasElement,
+        enableTransparency: false,
+        backgroundColor: ex.Color.Red
+      });
+      const rect = new ex.Graphics.Rectangle({
+        width: 50,
+        height: 50,
+        color: ex.Color.Green
+      });
+
+      sut.clear();
+      sut.blendMode = ex.Graphics.BlendMode.Add;
+      sut.drawImage(rect._bitmap, 0, 0);
+      sut.blendMode = ex.Graphics.BlendMode.Multiply;
+      sut.drawImage(rect._bitmap, 50, 50);
+      sut.flush();
+      const result = flushWebGLCanvasTo2D(canvasElement);
+
+      expect(getPixel(result, 25, 25)).toEqual([255, 255, 0, 255]);
+      expect(getPixel(result, 75, 75)).toEqual([0, 0, 0, 255]);
+      expect(getPixel(result, 75, 25)).toEqual([255, 0, 0, 255]);
+    });
+
+    it('starts a new batch when the blend mode changes', () => {
+      const canvasElement = document.createElement('canvas');
+      const sut = new ex.Graphics.ExcaliburGraphicsContextWebGL({ canvasElement });
+      const rect = new ex.Graphics.Rectangle({
+        width: 10,
+        height: 10,
+        color: ex.Color.Green
+      });
+
+      sut.clear();
+      sut.drawImage(rect._bitmap, 0, 0);
+      sut.drawImage(rect._bitmap, 10, 0);
+      sut.blendMode = ex.Graphics.BlendMode.Add;
+      sut.drawImage(rect._bitmap, 20, 0);
+      sut.blendMode = ex.Graphics.BlendMode.Normal;
+      sut.drawImage(rect._bitmap, 30, 0);
+      sut.flush();
+
+      expect(GraphicsDiagnostics.DrawCallCount).toBe(3);
+      expect(GraphicsDiagnostics.DrawnImagesCount).toBe(4);
+    });
+
+    it('can draw with a material', () => {
+      const canvasElement = document.createElement('canvas');
+      canvasElement.width = 100;
+      canvasElement.height = 100;
+      const sut = new ex.Graphics.ExcaliburGraphicsContextWebGL({
+        canvasElement,
+        enableTransparency: false,
+        backgroundColor: ex.Color.Black
+      });
+      const rect = new ex.Graphics.Rectangle({
+        width: 50,
+        height: 50,
+        color: ex.Color.Green
+      });
+      const material = new ex.Graphics.Material({
+        fragmentSource: `
+          uniform vec4 u_color;
+          void main() {
+            float alpha = texture2D(u_graphic, v_texcoord).a * v_opacity;
+            gl_FragColor = vec4(u_color.rgb * alpha, alpha);
+          }`,
+        uniforms: { u_color: ex.Color.Blue }
+      });
+
+      sut.clear();
+      sut.material = material;
+      sut.drawImage(rect._bitmap, 20, 20);
+      sut.flush();
+      const result = flushWebGLCanvasTo2D(canvasElement);
+
+      expect(getPixel(result, 40, 40)).toEqual([0, 0, 255, 255]);
+      expect(getPixel(result, 10, 10)).toEqual([0, 0, 0, 255]);
+    });
+
+    it('draws with the default shader when a material does not compile', () => {
+      const canvasElement = document.createElement('canvas');
+      canvasElement.width = 100;
+      canvasElement.height = 100;
+      const sut = new ex.Graphics.ExcaliburGraphicsContextWebGL({
+        canvasElement,
+        enableTransparency: false,
+        backgroundColor: ex.Color.Black
+      });
+      const rect = new ex.Graphics.Rectangle({
+        width: 50,
+        height: 50,
+        color: ex.Color.Green
+      });
+      const logger = ex.Logger.getInstance();
+      spyOn(logger, 'error');
+
+      sut.clear();
+      sut.material = new ex.Graphics.Material({ fragmentSource: 'not glsl' });
+      sut.drawImage(rect._bitmap, 20, 20);
+      sut.flush();
+      const result = flushWebGLCanvasTo2D(canvasElement);
+
+      expect(logger.error).toHaveBeenCalledTimes(1);
+      expect(getPixel(result, 40, 40)).toEqual([0, 255, 0, 255]);
+    });
+
+    it('starts a new batch for every material and texture', () => {
+      const canvasElement = document.createElement('canvas');
+      const sut = new ex.Graphics.ExcaliburGraphicsContextWebGL({ canvasElement });
+      const green = new ex.Graphics.Rectangle({
+        width: 10,
+        height: 10,
+        color: ex.Color.Green
+      });
+      const red = new ex.Graphics.Rectangle({
+        width: 10,
+        height: 10,
+        color: ex.Color.Red
+      });
+      const material = new ex.Graphics.Material({ fragmentSource: 'void main() { gl_FragColor = texture2D(u_graphic, v_texcoord); }' });
+
+      sut.clear();
+      sut.drawImage(green._bitmap, 0, 0);
+      sut.material = material;
+      sut.drawImage(green._bitmap, 10, 0);
+      sut.drawImage(green._bitmap, 20, 0);
+      sut.drawImage(red._bitmap, 30, 0);
+      sut.flush();
+
+      expect(GraphicsDiagnostics.DrawCallCount).toBe(3);
+      expect(GraphicsDiagnostics.DrawnImagesCount).toBe(4);
+    });
+
+    it('can draw to a render target', () => {
+      const canvasElement = document.createElement('canvas');
+      canvasElement.width = 100;
+      canvasElement.height = 100;
+      const sut = new ex.Graphics.ExcaliburGraphicsContextWebGL({
+        canvasElement,
+        enableTransparency: false,
+        backgroundColor: ex.Color.Black
+      });
+      const rect = new ex.Graphics.Rectangle({
+        width: 10,
+        height: 10,
+        color: ex.Color.Red
+      });
+      const target = new ex.Graphics.RenderTarget({ width: 50, height: 40 });
+
+      sut.clear();
+      sut.pushRenderTarget(target);
+      expect(sut.width).toBe(50);
+      expect(sut.height).toBe(40);
+      sut.clear();
+      sut.drawImage(rect._bitmap, 0, 0);
+      sut.popRenderTarget();
+      expect(sut.width).toBe(100);
+      expect(sut.height).toBe(100);
+      target.toSprite().draw(sut, 50, 50);
+      sut.flush();
+      const result = flushWebGLCanvasTo2D(canvasElement);
+
+      expect(getPixel(result, 5, 5)).toEqual([0, 0, 0, 255]);
+      expect(getPixel(result, 55, 55)).toEqual([255, 0, 0, 255]);
+      expect(getPixel(result, 55, 85)).toEqual([0, 0, 0, 255]);
+    });
+
+    it('does not premultiply the colors of a render target again', () => {
+      const canvasElement = document.createElement('canvas');
+      canvasElement.width = 100;
+      canvasElement.height = 100;
+      const sut = new ex.Graphics.ExcaliburGraphicsContextWebGL({
+        canvasElement,
+        enableTransparency: false,
+        backgroundColor: ex.Color.Black
+      });
+      const rect = new ex.Graphics.Rectangle({
+        width: 10,
+        height: 10,
+        color: ex.Color.fromRGB(255, 0, 0, 0.5)
+      });
+      const target = new ex.Graphics.RenderTarget({ width: 10, height: 10 });
+
+      sut.clear();
+      sut.pushRenderTarget(target);
+      sut.clear();
+      sut.drawImage(rect._bitmap, 0, 0);
+      sut.popRenderTarget();
+      target.toSprite().draw(sut, 50, 50);
+      sut.flush();
+      const result = flushWebGLCanvasTo2D(canvasElement);
+
+      const [red, green, blue, alpha] = getPixel(result, 55, 55);
+      expect(Math.abs(red - 128)).toBeLessThanOrEqual(1);
+      expect([green, blue, alpha]).toEqual([0, 0, 255]);
+    });
+
+    it('warns when popping a render target that was not pushed', () => {
+      const sut = new ex.Graphics.ExcaliburGraphicsContextWebGL({ canvasElement: document.createElement('canvas') });
+      const logger = ex.Logger.getInstance();
+      spyOn(logger, 'warn');
+
+      sut.popRenderTarget();
+
+      expect(logger.warn).toHaveBeenCalledTimes(1);
+    });
   });
 });
@@ -73,6 +73,9 @@ describe('A Graphic', () => {
       flipVertical: true,
       rotation: Math.PI / 8,
       opacity: 0.25,
+      tint: ex.Color.Red,
+      blendMode: ex.Graphics.BlendMode.Add,
+      material: new ex.Graphics.Material({ fragmentSource: 'void main() { gl_FragColor = texture2D(u_graphic, v_texcoord); }' }),
       scale: ex.vec(0.5, 0.75)
     };
 
@@ -126,6 +129,36 @@ describe('A Graphic', () => {
     await expectAsync(canvasElement).toEqualImage('src/spec/images/GraphicSpec/opacity.png');
   });
 
+  it('can tint and blend a graphic implementation', () => {
+    ctx.clear();
+    const sut = new TestGraphic({ tint: ex.Color.Red });
+    sut.draw(ctx, 25, 25);
+    const pixel = (x: number, y: number) => Array.from(canvasElement.getContext('2d').getImageData(x, y, 1, 1).data);
+    expect(pixel(35, 35)).toEqual([0, 0, 0, 255]);
+    expect(pixel(60, 35)).toEqual([255, 0, 0, 255]);
+
+    sut.tint = null;
+    sut.blendMode = ex.Graphics.BlendMode.Add;
+    sut.draw(ctx, 25, 25);
+    expect(pixel(35, 35)).toEqual([0, 255, 0, 255]);
+    expect(pixel(10, 10)).toEqual([23, 107, 170, 255]);
+
+    expect(ctx.tint).toEqual(ex.Color.White);
+    expect(ctx.blendMode).toBe(ex.Graphics.BlendMode.Normal);
+  });
+
+  it('sets its material on the context while drawing', () => {
+    const material = new ex.Graphics.Material({ fragmentSource: 'void main() { gl_FragColor = texture2D(u_graphic, v_texcoord); }' });
+    const sut = new TestGraphic({ material });
+    let drawnMaterial: ex.Graphics.Material;
+    spyOn(ctx, 'drawImage').and.callFake(() => (drawnMaterial = ctx.material));
+
+    sut.draw(ctx, 25, 25);
+
+    expect(drawnMaterial).toBe(material);
+    expect(ctx.material).toBeNull();
+  });
+
   it('can show a debug rect', async () => {
     ctx.clear();
     const sut = new TestGraphic();
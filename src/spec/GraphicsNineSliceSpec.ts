@@ -0,0 +1,151 @@
+import * as ex from '@excalibur';
+import { ExcaliburMatchers } from 'excalibur-jasmine';
+
+/**
+ * Returns a loaded 30x30 image with a red border of 10 pixels around a green center
+ */
+async function loadFrame(): Promise<ex.Graphics.ImageSource> {
+  const canvas = document.createElement('canvas');
+  canvas.width = 30;
+  canvas.height = 30;
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = 'red';
+  ctx.fillRect(0, 0, 30, 30);
+  ctx.fillStyle = 'lime';
+  ctx.fillRect(10, 10, 10, 10);
+  const image = new ex.Graphics.ImageSource(canvas.toDataURL());
+  await image.load();
+  return image;
+}
+
+describe('A NineSlice Graphic', () => {
+  let canvasElement: HTMLCanvasElement;
+  let ctx: ex.Graphics.ExcaliburGraphicsContext;
+  let image: ex.Graphics.ImageSource;
+  const insets = { left: 10, right: 10, top: 10, bottom: 10 };
+
+  /**
+   * Returns the source and destination rectangles drawn to the context
+   */
+  const drawnParts = () => (ctx.drawImage as jasmine.Spy).calls.allArgs().map((args) => args.slice(1));
+
+  beforeEach(async () => {
+    jasmine.addMatchers(ExcaliburMatchers);
+    canvasElement = document.createElement('canvas');
+    canvasElement.width = 100;
+    canvasElement.height = 100;
+    ctx = new ex.Graphics.ExcaliburGraphicsContext2DCanvas({ canvasElement, smoothing: false });
+    image = await loadFrame();
+  });
+
+  it('exists', () => {
+    expect(ex.Graphics.NineSlice).toBeDefined();
+  });
+
+  it('is the size of its image by default', () => {
+    const sut = new ex.Graphics.NineSlice({ image, insets });
+
+    expect(sut.width).toBe(30);
+    expect(sut.height).toBe(30);
+  });
+
+  it('can be resized at runtime', () => {
+    const sut = new ex.Graphics.NineSlice({ image, insets, width: 100, height: 50, scale: ex.vec(2, 1) });
+
+    expect(sut.width).toBe(100);
+    expect(sut.localBounds).toEqual(new ex.BoundingBox(0, 0, 200, 50));
+
+    sut.width = 60;
+    sut.height = 40;
+
+    expect(sut.localBounds).toEqual(new ex.BoundingBox(0, 0, 120, 40));
+    const graphics = new ex.Graphics.GraphicsComponent({ anchor: ex.Vector.Zero });
+    graphics.use(sut);
+    expect(graphics.localBounds).toEqual(new ex.BoundingBox(0, 0, 120, 40));
+  });
+
+  it('stretches the edges and the center without stretching the corners', () => {
+    const sut = new ex.Graphics.NineSlice({ image, insets, width: 100, height: 50 });
+    spyOn(ctx, 'drawImage').and.callThrough();
+
+    sut.draw(ctx, 0, 0);
+
+    expect(drawnParts()).toEqual([
+      [0, 0, 10, 10, 0, 0, 10, 10],
+      [10, 0, 10, 10, 10, 0, 80, 10],
+      [20, 0, 10, 10, 90, 0, 10, 10],
+      [0, 10, 10, 10, 0, 10, 10, 30],
+      [10, 10, 10, 10, 10, 10, 80, 30],
+      [20, 10, 10, 10, 90, 10, 10, 30],
+      [0, 20, 10, 10, 0, 40, 10, 10],
+      [10, 20, 10, 10, 10, 40, 80, 10],
+      [20, 20, 10, 10, 90, 40, 10, 10]
+    ]);
+    const pixel = (x: number, y: number) => Array.from(canvasElement.getContext('2d').getImageData(x, y, 1, 1).data);
+    expect(pixel(5, 5)).toEqual([255, 0, 0, 255]);
+    expect(pixel(50, 25)).toEqual([0, 255, 0, 255]);
+    expect(pixel(95, 45)).toEqual([255, 0, 0, 255]);
+  });
+
+  it('can tile the edges and the center', () => {
+    const sut = new ex.Graphics.NineSlice({
+      image,
+      insets,
+      width: 45,
+      height: 30,
+      edges: ex.Graphics.NineSliceMode.Tile,
+      center: ex.Graphics.NineSliceMode.Tile
+    });
+    spyOn(ctx, 'drawImage');
+
+    sut.draw(ctx, 0, 0);
+
+    const parts = drawnParts();
+    // the top edge is two full tiles and a cut off one
+    expect(parts[1]).toEqual([10, 0, 10, 10, 10, 0, 10, 10]);
+    expect(parts[2]).toEqual([10, 0, 10, 10, 20, 0, 10, 10]);
+    expect(parts[3]).toEqual([10, 0, 5, 10, 30, 0, 5, 10]);
+    expect(parts.length).toBe(15);
+  });
+
+  it('can slice part of an image', () => {
+    const sut = new ex.Graphics.NineSlice({
+      image,
+      insets: { left: 5, right: 5, top: 5, bottom: 5 },
+      sourceView: { x: 10, y: 10, width: 20, height: 20 }
+    });
+    spyOn(ctx, 'drawImage');
+
+    sut.draw(ctx, 0, 0);
+
+    expect(sut.width).toBe(20);
+    expect(drawnParts()[0]).toEqual([10, 10, 5, 5, 0, 0, 5, 5]);
+    expect(drawnParts()[8]).toEqual([25, 25, 5, 5, 15, 15, 5, 5]);
+  });
+
+  it('shrinks the borders when it is smaller than them', () => {
+    const sut = new ex.Graphics.NineSlice({ image, insets, width: 10, height: 30 });
+    spyOn(ctx, 'drawImage');
+
+    sut.draw(ctx, 0, 0);
+
+    const parts = drawnParts();
+    expect(parts.length).toBe(6);
+    expect(parts[0]).toEqual([0, 0, 10, 10, 0, 0, 5, 10]);
+    expect(parts[1]).toEqual([20, 0, 10, 10, 5, 0, 5, 10]);
+  });
+
+  it('can be cloned', () => {
+    const sut = new ex.Graphics.NineSlice({ image, insets, width: 100, height: 50, edges: ex.Graphics.NineSliceMode.Tile, opacity: 0.5 });
+
+    const clone = sut.clone();
+
+    expect(clone.image).toBe(image);
+    expect(clone.insets).toEqual(insets);
+    expect(clone.width).toBe(100);
+    expect(clone.height).toBe(50);
+    expect(clone.edges).toBe(ex.Graphics.NineSliceMode.Tile);
+    expect(clone.center).toBe(ex.Graphics.NineSliceMode.Stretch);
+    expect(clone.opacity).toBe(0.5);
+  });
+});
@@ -0,0 +1,167 @@
+import * as ex from '@excalibur';
+import { ExcaliburMatchers } from 'excalibur-jasmine';
+
+/**
+ * Builds a tile map of 10x10 cells from rows of text, `#` is solid and digits are the cost of the cell
+ */
+const createTileMap = (rows: string[]) => {
+  const tileMap = new ex.TileMap({ x: 100, y: 50, cellWidth: 10, cellHeight: 10, rows: rows.length, cols: rows[0].length });
+  rows.forEach((row, y) => {
+    row.split('').forEach((char, x) => {
+      const cell = tileMap.getCell(x, y);
+      cell.solid = char === '#';
+      if (/\d/.test(char)) {
+        cell.data.set('cost', +char);
+      }
+    });
+  });
+  return tileMap;
+};
+
+/**
+ * Returns the world space center of a cell of the tile maps above
+ */
+const center = (x: number, y: number) => ex.vec(105 + x * 10, 55 + y * 10);
+
+const toCells = (path: ex.Vector[]) => path.map((waypoint) => [(waypoint.x - 105) / 10, (waypoint.y - 55) / 10]);
+
+describe('A GridGraph', () => {
+  beforeEach(() => {
+    jasmine.addMatchers(ExcaliburMatchers);
+  });
+
+  it('exists', () => {
+    expect(ex.GridGraph).toBeDefined();
+  });
+
+  it('converts between cells and world space', () => {
+    const graph = new ex.GridGraph(createTileMap(['...', '...']));
+
+    expect(graph.cellToWorld(2, 1)).toBeVector(ex.vec(125, 65));
+    expect(graph.worldToCell(ex.vec(129, 61))).toBeVector(ex.vec(2, 1));
+    expect(graph.worldToCell(ex.vec(99, 55))).toBeNull();
+  });
+
+  it('finds the shortest path around walls', () => {
+    const graph = new ex.GridGraph(createTileMap(['.#...', '.#.#.', '...#.']));
+
+    const path = graph.findPath(center(0, 0), ex.vec(148, 51));
+
+    expect(toCells(path)).toEqual([
+      [0, 0],
+      [0, 1],
+      [0, 2],
+      [1, 2],
+      [2, 2],
+      [2, 1],
+      [2, 0],
+      [3, 0],
+      [4, 0]
+    ]);
+  });
+
+  it('returns an empty path when the goal cannot be reached', () => {
+    const graph = new ex.GridGraph(createTileMap(['.#.', '.#.']));
+
+    expect(graph.findPath(center(0, 0), center(2, 0))).toEqual([]);
+    expect(graph.findPath(center(0, 0), center(1, 0))).toEqual([]);
+    expect(graph.findPath(center(0, 0), ex.vec(0, 0))).toEqual([]);
+  });
+
+  it('goes around cells with a higher cost', () => {
+    const graph = new ex.GridGraph(createTileMap(['.....', '..9..', '.....']));
+
+    const path = graph.findPath(center(0, 1), center(4, 1));
+
+    expect(path.length).toBe(7);
+    expect(toCells(path)).not.toContain([2, 1]);
+    expect(graph.getCost(2, 1)).toBe(9);
+    expect(graph.getCost(5, 1)).toBe(Infinity);
+  });
+
+  describe('with diagonal movement', () => {
+    const rows = ['...', '.#.', '...'];
+
+    it('only moves to the 4 neighbors by default', () => {
+      const graph = new ex.GridGraph(createTileMap(rows));
+
+      expect(graph.getNeighbors(0, 0).map((cell) => cell.index)).toEqual([1, 3]);
+      expect(graph.findPath(center(0, 0), center(2, 2)).length).toBe(5);
+    });
+
+    it('can move diagonally without cutting corners', () => {
+      const graph = new ex.GridGraph(createTileMap(rows), { diagonalMovement: ex.DiagonalMovement.NoObstacles });
+
+      expect(graph.getNeighbors(0, 0).length).toBe(2);
+      expect(graph.getNeighbors(2, 0).length).toBe(2);
+      expect(toCells(graph.findPath(center(0, 2), center(2, 0))).length).toBe(5);
+      expect(toCells(graph.findPath(center(0, 0), center(1, 2)))).toEqual([
+        [0, 0],
+        [0, 1],
+        [0, 2],
+        [1, 2]
+      ]);
+      const open = new ex.GridGraph(createTileMap(['..', '..']), { diagonalMovement: ex.DiagonalMovement.NoObstacles });
+      expect(open.findPath(center(0, 0), center(1, 1)).length).toBe(2);
+    });
+
+    it('can cut corners next to one obstacle', () => {
+      const graph = new ex.GridGraph(createTileMap(rows), { diagonalMovement: ex.DiagonalMovement.AtMostOneObstacle });
+
+      expect(toCells(graph.findPath(center(0, 1), center(1, 0)))).toEqual([
+        [0, 1],
+        [1, 0]
+      ]);
+    });
+
+    it('does not squeeze between two obstacles unless always allowed', () => {
+      const tileMap = createTileMap(['.#', '#.']);
+      const corners = new ex.GridGraph(tileMap, { diagonalMovement: ex.DiagonalMovement.AtMostOneObstacle });
+      const always = new ex.GridGraph(tileMap, { diagonalMovement: ex.DiagonalMovement.Always });
+
+      expect(corners.findPath(center(0, 0), center(1, 1))).toEqual([]);
+      expect(always.findPath(center(0, 0), center(1, 1)).length).toBe(2);
+    });
+  });
+
+  it('creates a dijkstra map of the costs to the closest goal', () => {
+    const graph = new ex.GridGraph(createTileMap(['....', '.##.', '...3']));
+
+    const map = graph.createDijkstraMap([center(0, 0), center(3, 2)]);
+
+    expect(map.getCost(0, 0)).toBe(0);
+    expect(map.getCost(1, 0)).toBe(1);
+    expect(map.getCost(2, 2)).toBe(3);
+    expect(map.getCost(3, 1)).toBe(3);
+    expect(map.getCost(1, 1)).toBe(Infinity);
+    expect(map.getNext(3, 1)).toBeVector(ex.vec(3, 2));
+    expect(map.getNext(0, 0)).toBeNull();
+    expect(toCells(map.getPath(center(1, 2)))).toEqual([
+      [1, 2],
+      [0, 2],
+      [0, 1],
+      [0, 0]
+    ]);
+  });
+
+  it('creates a flow field pointing towards the goal', () => {
+    const graph = new ex.GridGraph(createTileMap(['...', '.#.', '...']), { diagonalMovement: ex.DiagonalMovement.NoObstacles });
+
+    const field = graph.createFlowField([center(2, 2)]);
+
+    expect(field.getDirection(2, 0)).toBeVector(ex.vec(0, 1));
+    expect(field.getDirection(0, 2)).toBeVector(ex.vec(1, 0));
+    expect(field.getDirection(2, 2)).toBeVector(ex.Vector.Zero);
+    expect(field.getDirectionByPoint(ex.vec(127, 52))).toBeVector(ex.vec(0, 1));
+    expect(field.getDirectionByPoint(ex.vec(0, 0))).toBeVector(ex.Vector.Zero);
+  });
+
+  it('picks up changes to the cells', () => {
+    const tileMap = createTileMap(['...']);
+    const graph = new ex.GridGraph(tileMap);
+
+    tileMap.getCell(1, 0).solid = true;
+
+    expect(graph.findPath(center(0, 0), center(2, 0))).toEqual([]);
+  });
+});
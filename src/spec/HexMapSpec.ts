@@ -0,0 +1,125 @@
+import * as ex from '@excalibur';
+import { ExcaliburMatchers } from 'excalibur-jasmine';
+
+describe('A HexMap', () => {
+  beforeEach(() => {
+    jasmine.addMatchers(ExcaliburMatchers);
+  });
+
+  it('exists', () => {
+    expect(ex.HexMap).toBeDefined();
+  });
+
+  it('is pointy by default', () => {
+    const map = new ex.HexMap({ tileWidth: 56, tileHeight: 64, rows: 2, cols: 2 });
+
+    expect(map.orientation).toBe(ex.HexOrientation.Pointy);
+    expect(map.getTileOutline().length).toBe(6);
+  });
+
+  const orientations = [
+    {
+      orientation: ex.HexOrientation.Pointy,
+      centers: [
+        [0, 0, 28, 32],
+        [1, 0, 84, 32],
+        [0, 1, 56, 80],
+        [1, 2, 84, 128]
+      ],
+      // odd rows are shifted right
+      oddTile: [2, 3],
+      neighbors: {
+        even: [
+          [3, 2],
+          [2, 3],
+          [1, 3],
+          [1, 2],
+          [1, 1],
+          [2, 1]
+        ],
+        odd: [
+          [3, 3],
+          [3, 4],
+          [2, 4],
+          [1, 3],
+          [2, 2],
+          [3, 2]
+        ]
+      }
+    },
+    {
+      orientation: ex.HexOrientation.Flat,
+      centers: [
+        [0, 0, 28, 32],
+        [1, 0, 70, 64],
+        [0, 1, 28, 96],
+        [2, 1, 112, 96]
+      ],
+      // odd columns are shifted down
+      oddTile: [3, 3],
+      neighbors: {
+        even: [
+          [2, 1],
+          [3, 1],
+          [3, 2],
+          [2, 3],
+          [1, 2],
+          [1, 1]
+        ],
+        odd: [
+          [3, 2],
+          [4, 3],
+          [4, 4],
+          [3, 4],
+          [2, 4],
+          [2, 3]
+        ]
+      }
+    }
+  ];
+
+  for (const { orientation, centers, oddTile, neighbors } of orientations) {
+    describe(`with ${orientation} hexagons`, () => {
+      let map: ex.HexMap;
+
+      beforeEach(() => {
+        map = new ex.HexMap({ tileWidth: 56, tileHeight: 64, rows: 6, cols: 6, orientation });
+      });
+
+      it('places the tiles', () => {
+        for (const [x, y, centerX, centerY] of centers) {
+          expect(map.tileToWorld(x, y)).toBeVector(ex.vec(centerX, centerY));
+        }
+        map.pos = ex.vec(10, 20);
+        expect(map.getTile(0, 0).pos).toBeVector(ex.vec(38, 52));
+      });
+
+      it('converts world coordinates to tiles', () => {
+        map.pos = ex.vec(-30, 15);
+        for (const tile of map.tiles) {
+          expect(map.getTileByPoint(tile.pos)).toBe(tile);
+          for (const corner of map.getTileOutline()) {
+            expect(map.getTileByPoint(tile.pos.add(corner.scale(0.9)))).toBe(tile);
+          }
+        }
+        expect(map.getTileByPoint(ex.vec(-40, 0))).toBeNull();
+      });
+
+      it('finds the 6 neighbors', () => {
+        const even = map.getNeighbors(2, 2);
+        const odd = map.getNeighbors(oddTile[0], oddTile[1]);
+
+        expect(even.map((t) => [t.x, t.y])).toEqual(neighbors.even);
+        expect(odd.map((t) => [t.x, t.y])).toEqual(neighbors.odd);
+        expect(map.getTile(0, 0).getNeighbors().length).toBeLessThan(6);
+      });
+
+      it('finds neighbors that touch the tile', () => {
+        const tile = map.getTile(2, 2);
+        for (const neighbor of tile.getNeighbors()) {
+          expect(neighbor.pos.distance(tile.pos)).toBeLessThan(65);
+        }
+      });
+    });
+  }
+});
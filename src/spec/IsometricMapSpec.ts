@@ -0,0 +1,136 @@
+import * as ex from '@excalibur';
+import { ExcaliburMatchers } from 'excalibur-jasmine';
+import { TestUtils } from './util/TestUtils';
+
+/**
+ * Checks that points just inside every corner of every tile are picked as that tile
+ */
+const expectPickingToRoundTrip = (map: ex.GridMap) => {
+  for (const tile of map.tiles) {
+    for (const corner of map.getTileOutline()) {
+      const point = tile.pos.add(corner.scale(0.9));
+      expect(map.getTileByPoint(point)).toBe(tile);
+    }
+  }
+};
+
+describe('An IsometricMap', () => {
+  let engine: ex.Engine;
+
+  beforeEach(() => {
+    jasmine.addMatchers(ExcaliburMatchers);
+    engine = TestUtils.engine({ width: 800, height: 600 });
+  });
+
+  afterEach(() => {
+    engine.stop();
+    engine = null;
+  });
+
+  it('exists', () => {
+    expect(ex.IsometricMap).toBeDefined();
+  });
+
+  it('creates a tile per row and column', () => {
+    const map = new ex.IsometricMap({ tileWidth: 64, tileHeight: 32, rows: 3, cols: 4 });
+
+    expect(map.tiles.length).toBe(12);
+    expect(map.getTile(3, 2).x).toBe(3);
+    expect(map.getTile(3, 2).y).toBe(2);
+    expect(map.getTile(4, 0)).toBeNull();
+    expect(map.layout).toBe(ex.IsometricLayout.Diamond);
+  });
+
+  describe('with the diamond layout', () => {
+    let map: ex.IsometricMap;
+
+    beforeEach(() => {
+      map = new ex.IsometricMap({ pos: ex.vec(100, 50), tileWidth: 64, tileHeight: 32, rows: 4, cols: 4 });
+    });
+
+    it('places tile (0, 0) below the position of the map', () => {
+      expect(map.tileToWorld(0, 0)).toBeVector(ex.vec(100, 66));
+      expect(map.tileToWorld(1, 0)).toBeVector(ex.vec(132, 82));
+      expect(map.tileToWorld(0, 1)).toBeVector(ex.vec(68, 82));
+      expect(map.getTile(1, 1).pos).toBeVector(ex.vec(100, 98));
+    });
+
+    it('converts world coordinates to tiles', () => {
+      expectPickingToRoundTrip(map);
+      expect(map.worldToTile(ex.vec(100, 40))).toBeVector(ex.vec(-1, -1));
+      expect(map.getTileByPoint(ex.vec(100, 40))).toBeNull();
+    });
+
+    it('finds the neighbors sharing an edge', () => {
+      expect(map.getNeighbors(1, 1).map((t) => [t.x, t.y])).toEqual([
+        [1, 0],
+        [2, 1],
+        [1, 2],
+        [0, 1]
+      ]);
+      expect(map.getTile(0, 0).getNeighbors().length).toBe(2);
+    });
+
+    it('draws the tiles back to front', () => {
+      const drawn: number[][] = [];
+      for (const tile of map.tiles) {
+        tile.addGraphic({ width: 64, height: 48, draw: (_ctx: any, x: number, y: number) => drawn.push([tile.x, tile.y, x, y]) } as any);
+      }
+      map.draw(null, 16);
+
+      expect(drawn.length).toBe(16);
+      for (let i = 1; i < drawn.length; i++) {
+        expect(drawn[i][0] + drawn[i][1]).toBeGreaterThanOrEqual(drawn[i - 1][0] + drawn[i - 1][1]);
+      }
+      // graphics stand on the bottom corner of the tile
+      expect(drawn[0]).toEqual([0, 0, -32, -16]);
+    });
+
+    it('skips graphics outside of the viewport', () => {
+      const draw = jasmine.createSpy('draw');
+      map.getTile(0, 0).addGraphic({ width: 64, height: 32, draw } as any);
+      map.getTile(3, 3).addGraphic({ width: 64, height: 32, draw } as any);
+      map.pos = ex.vec(100, -100);
+      map.update(engine, 16);
+      map.draw(null, 16);
+
+      expect(draw).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('with the staggered layout', () => {
+    let map: ex.IsometricMap;
+
+    beforeEach(() => {
+      map = new ex.IsometricMap({ tileWidth: 64, tileHeight: 32, rows: 5, cols: 3, layout: ex.IsometricLayout.Staggered });
+    });
+
+    it('shifts every odd row by half a tile', () => {
+      expect(map.tileToWorld(0, 0)).toBeVector(ex.vec(32, 16));
+      expect(map.tileToWorld(0, 1)).toBeVector(ex.vec(64, 32));
+      expect(map.tileToWorld(1, 2)).toBeVector(ex.vec(96, 48));
+    });
+
+    it('converts world coordinates to tiles', () => {
+      expectPickingToRoundTrip(map);
+    });
+
+    it('finds the neighbors sharing an edge', () => {
+      const even = map.getNeighbors(1, 2).map((t) => [t.x, t.y]);
+      const odd = map.getNeighbors(1, 1).map((t) => [t.x, t.y]);
+
+      expect(even).toEqual([
+        [1, 1],
+        [1, 3],
+        [0, 3],
+        [0, 1]
+      ]);
+      expect(odd).toEqual([
+        [2, 0],
+        [2, 2],
+        [1, 2],
+        [1, 0]
+      ]);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import * as ex from '@excalibur';
+import { TestUtils } from './util/TestUtils';
+
+describe('A Joint', () => {
+  let engine: ex.Engine;
+  let scene: ex.Scene;
+
+  const box = (x: number, y: number, type = ex.CollisionType.Active) => {
+    const actor = new ex.Actor({ x, y, width: 10, height: 10, collisionType: type });
+    scene.add(actor);
+    return actor;
+  };
+
+  const simulate = (updates: number) => {
+    for (let i = 0; i < updates; i++) {
+      scene.update(engine, 16);
+    }
+  };
+
+  beforeEach(() => {
+    engine = TestUtils.engine({ width: 100, height: 100 });
+    scene = new ex.Scene(engine);
+    scene.physics.useRigidBodyPhysics();
+    scene.physics.acc = ex.vec(0, 400);
+  });
+
+  afterEach(() => {
+    engine.stop();
+    engine = null;
+  });
+
+  it('exists', () => {
+    expect(ex.Joint).toBeDefined();
+    expect(ex.DistanceJoint).toBeDefined();
+    expect(ex.RopeJoint).toBeDefined();
+    expect(ex.SpringJoint).toBeDefined();
+    expect(ex.RevoluteJoint).toBeDefined();
+    expect(ex.WeldJoint).toBeDefined();
+  });
+
+  it('requires a body', () => {
+    expect(() => new ex.DistanceJoint({ bodyA: null })).toThrowError('A joint requires at least one body');
+  });
+
+  it('can be added to and removed from a scene', () => {
+    const joint = new ex.DistanceJoint({ bodyA: box(0, 0).body });
+
+    scene.add(joint);
+    scene.add(joint);
+    expect(scene.joints).toEqual([joint]);
+
+    scene.remove(joint);
+    expect(scene.joints).toEqual([]);
+  });
+
+  it('is only active while enabled and its bodies are alive', () => {
+    const a = box(0, 0);
+    const b = box(20, 0);
+    const joint = new ex.DistanceJoint({ bodyA: a.body, bodyB: b.body });
+    expect(joint.active).toBe(true);
+
+    joint.enabled = false;
+    expect(joint.active).toBe(false);
+
+    joint.enabled = true;
+    b.kill();
+    expect(joint.active).toBe(false);
+  });
+
+  it('defaults the distance to the distance between the anchors', () => {
+    const joint = new ex.DistanceJoint({ bodyA: box(0, 0).body, bodyB: box(30, 40).body });
+
+    expect(joint.length).toBe(50);
+  });
+
+  it('can keep a body swinging at a fixed distance from a point like a pendulum', () => {
+    const bob = box(100, 0);
+    scene.add(new ex.DistanceJoint({ bodyA: bob.body, anchorB: ex.vec(0, 0) }));
+
+    simulate(100);
+
+    expect(bob.pos.y).toBeGreaterThan(0);
+    expect(bob.pos.distance(ex.vec(0, 0))).toBeCloseTo(100, 0);
+  });
+
+  it('can hang a body from a rope', () => {
+    const lantern = box(0, 50);
+    scene.add(new ex.RopeJoint({ bodyA: lantern.body, anchorB: ex.vec(0, 0), length: 100 }));
+
+    simulate(10);
+    expect(lantern.pos.y).toBeGreaterThan(50);
+    expect(lantern.pos.y).toBeLessThan(100);
+
+    simulate(100);
+    expect(lantern.pos.y).toBeCloseTo(100, 0);
+  });
+
+  it('can pull a body back to rest with a spring', () => {
+    scene.physics.acc = ex.Vector.Zero;
+    const weight = box(150, 0);
+    scene.add(new ex.SpringJoint({ bodyA: weight.body, anchorB: ex.vec(0, 0), length: 100, stiffness: 10, damping: 1 }));
+
+    simulate(10);
+    expect(weight.pos.x).toBeLessThan(150);
+
+    simulate(600);
+    expect(weight.pos.x).toBeCloseTo(100, 0);
+  });
+
+  it('can pin the anchors of 2 bodies together with a revolute joint', () => {
+    const group = ex.CollisionGroupManager.create('revolute');
+    const a = box(0, 0, ex.CollisionType.Fixed);
+    const b = box(20, 0);
+    a.body.collider.group = group;
+    b.body.collider.group = group;
+    const hinge = new ex.RevoluteJoint({ bodyA: a.body, bodyB: b.body, anchorA: ex.vec(10, 0), anchorB: ex.vec(-10, 0) });
+    scene.add(hinge);
+
+    simulate(100);
+
+    expect(hinge.worldAnchorA.distance(hinge.worldAnchorB)).toBeLessThan(1);
+    expect(b.pos.y).toBeGreaterThan(5);
+    ex.CollisionGroupManager.reset();
+  });
+
+  it('can limit the rotation of a revolute joint', () => {
+    const group = ex.CollisionGroupManager.create('limited');
+    const a = box(0, 0, ex.CollisionType.Fixed);
+    const b = box(20, 0);
+    a.body.collider.group = group;
+    b.body.collider.group = group;
+    const hinge = new ex.RevoluteJoint({
+      bodyA: a.body,
+      bodyB: b.body,
+      anchorA: ex.vec(10, 0),
+      anchorB: ex.vec(-10, 0),
+      lowerAngle: -Math.PI / 8,
+      upperAngle: Math.PI / 8
+    });
+    scene.add(hinge);
+
+    simulate(100);
+
+    expect(hinge.angle).toBeGreaterThan(0);
+    expect(hinge.angle).toBeLessThan(Math.PI / 8 + 0.15);
+    ex.CollisionGroupManager.reset();
+  });
+
+  it('can weld 2 bodies together', () => {
+    const group = ex.CollisionGroupManager.create('weld');
+    const a = box(0, 0, ex.CollisionType.Fixed);
+    const b = box(30, 0);
+    a.body.collider.group = group;
+    b.body.collider.group = group;
+    const weld = new ex.WeldJoint({ bodyA: a.body, bodyB: b.body, anchorA: ex.vec(15, 0), anchorB: ex.vec(-15, 0) });
+    scene.add(weld);
+
+    simulate(100);
+
+    expect(b.pos.x).toBeCloseTo(30, 0);
+    expect(b.pos.y).toBeCloseTo(0, 0);
+    expect(weld.angle).toBeCloseTo(0, 2);
+    ex.CollisionGroupManager.reset();
+  });
+
+  it('is not solved when the scene physics is disabled', () => {
+    scene.physics.enabled = false;
+    const bob = box(100, 0);
+    scene.add(new ex.DistanceJoint({ bodyA: bob.body, anchorB: ex.vec(0, 0) }));
+
+    simulate(50);
+
+    expect(bob.pos.distance(ex.vec(0, 0))).toBeGreaterThan(110);
+  });
+});
@@ -0,0 +1,31 @@
+import * as ex from '@excalibur';
+
+describe('A Material', () => {
+  it('exists', () => {
+    expect(ex.Graphics.Material).toBeDefined();
+  });
+
+  it('can be constructed with uniforms and images', () => {
+    const image = document.createElement('canvas');
+    const uniforms = { u_strength: 0.5 };
+    const sut = new ex.Graphics.Material({
+      fragmentSource: 'void main() { gl_FragColor = texture2D(u_graphic, v_texcoord); }',
+      uniforms,
+      images: { u_noise: image }
+    });
+
+    expect(sut.fragmentSource).toContain('u_graphic');
+    expect(sut.uniforms.u_strength).toBe(0.5);
+    expect(sut.images.u_noise).toBe(image);
+
+    sut.uniforms.u_strength = 1;
+    expect(uniforms.u_strength).toBe(0.5);
+  });
+
+  it('has a unique id', () => {
+    const material1 = new ex.Graphics.Material({ fragmentSource: '' });
+    const material2 = new ex.Graphics.Material({ fragmentSource: '' });
+
+    expect(material1.id).not.toBe(material2.id);
+  });
+});
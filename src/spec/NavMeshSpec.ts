@@ -0,0 +1,160 @@
+import * as ex from '@excalibur';
+import { ExcaliburMatchers } from 'excalibur-jasmine';
+import { TestUtils } from './util/TestUtils';
+
+const area = (triangle: ex.NavMeshTriangle) => {
+  const [a, b, c] = triangle.points;
+  return Math.abs(b.sub(a).cross(c.sub(a))) / 2;
+};
+
+/**
+ * Returns the distance from a point to the box from (left, top) to (right, bottom)
+ */
+const distanceToBox = (point: ex.Vector, left: number, top: number, right: number, bottom: number) => {
+  const dx = Math.max(left - point.x, 0, point.x - right);
+  const dy = Math.max(top - point.y, 0, point.y - bottom);
+  return Math.sqrt(dx * dx + dy * dy);
+};
+
+describe('A NavMesh', () => {
+  const lShape = [ex.vec(0, 0), ex.vec(100, 0), ex.vec(100, 40), ex.vec(40, 40), ex.vec(40, 100), ex.vec(0, 100)];
+
+  beforeEach(() => {
+    jasmine.addMatchers(ExcaliburMatchers);
+  });
+
+  it('exists', () => {
+    expect(ex.NavMesh).toBeDefined();
+  });
+
+  it('triangulates concave walkable areas', () => {
+    const mesh = new ex.NavMesh({ walkable: [lShape] });
+
+    expect(mesh.triangles.length).toBe(4);
+    expect(mesh.triangles.reduce((sum, triangle) => sum + area(triangle), 0)).toBeCloseTo(6400);
+    expect(mesh.getTriangle(ex.vec(20, 80))).not.toBeNull();
+    expect(mesh.getTriangle(ex.vec(80, 80))).toBeNull();
+    for (const triangle of mesh.triangles) {
+      expect(triangle.portals.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('accepts outlines in either winding', () => {
+    const mesh = new ex.NavMesh({ walkable: [lShape.slice().reverse()] });
+
+    expect(mesh.triangles.length).toBe(4);
+    expect(mesh.findPath(ex.vec(80, 20), ex.vec(20, 80)).length).toBe(3);
+  });
+
+  it('pulls paths tight around corners', () => {
+    const mesh = new ex.NavMesh({ walkable: [lShape] });
+
+    const path = mesh.findPath(ex.vec(80, 20), ex.vec(20, 80));
+
+    expect(path.length).toBe(3);
+    expect(path[0]).toBeVector(ex.vec(80, 20));
+    expect(path[1]).toBeVector(ex.vec(40, 40));
+    expect(path[2]).toBeVector(ex.vec(20, 80));
+  });
+
+  it('goes straight when nothing is in the way', () => {
+    const mesh = new ex.NavMesh({ walkable: [lShape] });
+
+    expect(mesh.findPath(ex.vec(10, 10), ex.vec(20, 90))).toEqual([ex.vec(10, 10), ex.vec(20, 90)]);
+    expect(mesh.findPath(ex.vec(10, 10), ex.vec(20, 20))).toEqual([ex.vec(10, 10), ex.vec(20, 20)]);
+  });
+
+  it('connects areas that share part of an edge', () => {
+    const mesh = new ex.NavMesh({
+      walkable: [
+        [ex.vec(0, 0), ex.vec(100, 0), ex.vec(100, 50), ex.vec(0, 50)],
+        [ex.vec(50, 50), ex.vec(150, 50), ex.vec(150, 100), ex.vec(50, 100)]
+      ]
+    });
+
+    expect(mesh.findPath(ex.vec(10, 10), ex.vec(140, 90)).length).toBe(2);
+    const path = mesh.findPath(ex.vec(10, 45), ex.vec(140, 90));
+    expect(path.length).toBe(3);
+    expect(path[1]).toBeVector(ex.vec(50, 50));
+  });
+
+  it('returns an empty path when there is no way', () => {
+    const mesh = new ex.NavMesh({
+      walkable: [
+        [ex.vec(0, 0), ex.vec(50, 0), ex.vec(50, 50), ex.vec(0, 50)],
+        [ex.vec(60, 0), ex.vec(110, 0), ex.vec(110, 50), ex.vec(60, 50)]
+      ]
+    });
+
+    expect(mesh.findPath(ex.vec(10, 10), ex.vec(100, 10))).toEqual([]);
+    expect(mesh.findPath(ex.vec(10, 10), ex.vec(55, 10))).toEqual([]);
+  });
+
+  describe('with obstacles', () => {
+    let floor: ex.Actor;
+    let rock: ex.Actor;
+
+    beforeEach(() => {
+      floor = new ex.Actor({ pos: ex.vec(100, 100), width: 200, height: 200 });
+      rock = new ex.Actor({ pos: ex.vec(100, 100), width: 40, height: 40 });
+    });
+
+    it('cuts the obstacles out of the walkable areas', () => {
+      const mesh = new ex.NavMesh({ walkable: [floor.body.collider], obstacles: [rock.body.collider] });
+
+      expect(mesh.triangles.reduce((sum, triangle) => sum + area(triangle), 0)).toBeCloseTo(200 * 200 - 40 * 40);
+      expect(mesh.getTriangle(ex.vec(100, 100))).toBeNull();
+      expect(mesh.getTriangle(ex.vec(75, 100))).not.toBeNull();
+    });
+
+    it('finds paths around the obstacles', () => {
+      const mesh = new ex.NavMesh({ walkable: [floor.body.collider], obstacles: [rock.body.collider] });
+
+      const path = mesh.findPath(ex.vec(20, 100), ex.vec(180, 100));
+
+      expect(path.length).toBe(4);
+      expect(Math.abs(path[1].y - 100)).toBeCloseTo(20);
+      expect(path[1].x).toBeCloseTo(80);
+      expect(path[2].x).toBeCloseTo(120);
+    });
+
+    it('keeps paths an agent radius away from the obstacles', () => {
+      const mesh = new ex.NavMesh({ walkable: [floor.body.collider], obstacles: [rock.body.collider], agentRadius: 10 });
+
+      const path = mesh.findPath(ex.vec(20, 100), ex.vec(180, 100));
+
+      expect(path.length).toBeGreaterThan(2);
+      for (const waypoint of path) {
+        expect(distanceToBox(waypoint, 80, 80, 120, 120)).toBeGreaterThanOrEqual(10 - 0.001);
+      }
+    });
+
+    it('grows circle obstacles', () => {
+      const boulder = new ex.Actor({
+        pos: ex.vec(100, 100),
+        body: new ex.Body({ collider: new ex.Collider({ shape: ex.Shape.Circle(20) }) })
+      });
+      const mesh = new ex.NavMesh({ walkable: [floor.body.collider], obstacles: [boulder.body.collider], agentRadius: 10 });
+
+      expect(mesh.getTriangle(ex.vec(100, 71))).toBeNull();
+      expect(mesh.getTriangle(ex.vec(100, 65))).not.toBeNull();
+      for (const waypoint of mesh.findPath(ex.vec(20, 100), ex.vec(180, 100))) {
+        expect(waypoint.distance(ex.vec(100, 100))).toBeGreaterThanOrEqual(30 - 0.001);
+      }
+    });
+  });
+
+  it('finds paths in a scene', () => {
+    const engine = TestUtils.engine();
+    const scene = new ex.Scene(engine);
+    const from = ex.vec(80, 20);
+    const to = ex.vec(20, 80);
+
+    expect(scene.findPath(from, to)).toEqual([]);
+
+    scene.navMesh = new ex.NavMesh({ walkable: [lShape] });
+    expect(scene.findPath(from, to)).toEqual(scene.navMesh.findPath(from, to));
+    expect(scene.findPath(from, to).length).toBe(3);
+    engine.stop();
+  });
+});
@@ -0,0 +1,174 @@
+import * as ex from '@excalibur';
+import { TestUtils } from './util/TestUtils';
+
+describe('A PhysicsConfig', () => {
+  let originalAcc: ex.Vector;
+  let originalPasses: number;
+
+  beforeEach(() => {
+    originalAcc = ex.Physics.acc;
+    originalPasses = ex.Physics.collisionPasses;
+  });
+
+  afterEach(() => {
+    ex.Physics.acc = originalAcc;
+    ex.Physics.collisionPasses = originalPasses;
+  });
+
+  it('exists', () => {
+    expect(ex.PhysicsConfig).toBeDefined();
+  });
+
+  it('defaults to the global Physics settings', () => {
+    const config = new ex.PhysicsConfig();
+    ex.Physics.collisionPasses = 7;
+
+    expect(config.collisionPasses).toBe(7);
+    expect(config.acc).toBe(ex.Physics.acc);
+    expect(config.isConfigured('collisionPasses')).toBe(false);
+  });
+
+  it('can override the global Physics settings', () => {
+    const config = new ex.PhysicsConfig({ collisionPasses: 2 });
+    config.acc = ex.vec(0, 100);
+
+    expect(config.collisionPasses).toBe(2);
+    expect(config.acc.y).toBe(100);
+    expect(ex.Physics.collisionPasses).toBe(originalPasses);
+    expect(config.isConfigured('acc')).toBe(true);
+  });
+
+  it('inherits settings from a parent config', () => {
+    const parent = new ex.PhysicsConfig({ collisionPasses: 3, checkForFastBodies: false });
+    const child = new ex.PhysicsConfig({ collisionPasses: 1 }, parent);
+
+    expect(child.collisionPasses).toBe(1);
+    expect(child.checkForFastBodies).toBe(false);
+    expect(child.surfaceEpsilon).toBe(ex.Physics.surfaceEpsilon);
+  });
+
+  it('can reset settings to be inherited again', () => {
+    const config = new ex.PhysicsConfig({ collisionPasses: 1, boundsPadding: 20 });
+
+    config.reset('collisionPasses');
+    expect(config.collisionPasses).toBe(ex.Physics.collisionPasses);
+    expect(config.boundsPadding).toBe(20);
+
+    config.reset();
+    expect(config.boundsPadding).toBe(ex.Physics.boundsPadding);
+  });
+
+  it('can switch between box and rigid body physics', () => {
+    const config = new ex.PhysicsConfig();
+
+    config.useRigidBodyPhysics();
+    expect(config.collisionResolutionStrategy).toBe(ex.CollisionResolutionStrategy.RigidBody);
+
+    config.useBoxPhysics();
+    expect(config.collisionResolutionStrategy).toBe(ex.CollisionResolutionStrategy.Box);
+  });
+
+  it('is shared by bodies that are not in a scene', () => {
+    const actor = new ex.Actor({ width: 10, height: 10 });
+    const other = new ex.Actor({ width: 10, height: 10 });
+
+    expect(actor.body.physics).toBe(actor.body.physics);
+    expect(actor.body.physics).toBe(other.body.physics);
+    expect(actor.body.physics.isConfigured('acc')).toBe(false);
+  });
+
+  it('keeps a config set on a body when it is added to a scene', () => {
+    const scene = new ex.Scene();
+    const actor = new ex.Actor({ width: 10, height: 10 });
+    const entity = new ex.Entity([new ex.TransformComponent(), new ex.BodyComponent()]);
+    const own = new ex.PhysicsConfig({ acc: ex.vec(0, 10) });
+    actor.body.physics = own;
+
+    scene.add(actor);
+    scene.add(entity);
+
+    expect(actor.body.physics).toBe(own);
+    expect(entity.get(ex.BodyComponent).body.physics).toBe(scene.physics);
+  });
+
+  it('can turn off rigid body rotation per config', () => {
+    const noRotation = new ex.PhysicsConfig({ allowRigidBodyRotation: false });
+    const actor = new ex.Actor({ width: 10, height: 10, collisionType: ex.CollisionType.Active });
+    actor.body.physics = noRotation;
+
+    actor.body.applyImpulse(ex.vec(0, 10), ex.vec(5, 0));
+
+    expect(new ex.PhysicsConfig().allowRigidBodyRotation).toBe(ex.Physics.allowRigidBodyRotation);
+    expect(actor.body.rx).toBe(0);
+    expect(actor.vel.y).toBeGreaterThan(0);
+  });
+
+  describe('in an engine', () => {
+    let engine: ex.Engine;
+
+    beforeEach(() => {
+      engine = TestUtils.engine({ physics: { acc: ex.vec(0, 500) } });
+    });
+
+    afterEach(() => {
+      engine.stop();
+      engine = null;
+    });
+
+    it('is seeded from the engine options', () => {
+      expect(engine.physics.acc.y).toBe(500);
+      expect(engine.physics.collisionPasses).toBe(ex.Physics.collisionPasses);
+    });
+
+    it('is inherited by scenes', () => {
+      const scene = new ex.Scene(engine);
+      expect(scene.physics.acc.y).toBe(500);
+
+      const lateScene = new ex.Scene();
+      lateScene._initialize(engine);
+      expect(lateScene.physics.acc.y).toBe(500);
+    });
+
+    it('allows scenes to have different gravity', () => {
+      const earth = new ex.Scene(engine);
+      const moon = new ex.Scene(engine);
+      moon.physics.acc = ex.vec(0, 100);
+
+      const earthActor = new ex.Actor({ x: 0, y: 0, width: 10, height: 10 });
+      earthActor.body.collider.type = ex.CollisionType.Active;
+      earth.add(earthActor);
+
+      const moonActor = new ex.Actor({ x: 0, y: 0, width: 10, height: 10 });
+      moonActor.body.collider.type = ex.CollisionType.Active;
+      moon.add(moonActor);
+
+      earthActor.body.integrate(1000);
+      moonActor.body.integrate(1000);
+
+      expect(earthActor.vel.y).toBe(500);
+      expect(moonActor.vel.y).toBe(100);
+    });
+
+    it('copies assigned vectors so scenes do not share them', () => {
+      const gravity = ex.vec(0, 800);
+      const sceneA = new ex.Scene(engine);
+      const sceneB = new ex.Scene(engine);
+
+      sceneA.physics.acc = gravity;
+      sceneA.physics.acc.y = 900;
+
+      expect(gravity.y).toBe(800);
+      expect(sceneA.physics.acc.y).toBe(900);
+      expect(sceneB.physics.acc.y).toBe(500);
+      // unconfigured settings are the parent's own vector
+      expect(sceneB.physics.acc).toBe(engine.physics.acc);
+    });
+
+    it('does not share settings between engines', () => {
+      const otherEngine = TestUtils.engine();
+      expect(otherEngine.physics.acc).toBe(ex.Physics.acc);
+      expect(engine.physics.acc.y).toBe(500);
+      otherEngine.stop();
+    });
+  });
+});
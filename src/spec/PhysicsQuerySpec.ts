@@ -0,0 +1,215 @@
+import * as ex from '@excalibur';
+import { TestUtils } from './util/TestUtils';
+
+describe('A scene physics query', () => {
+  let engine: ex.Engine;
+  let scene: ex.Scene;
+
+  const box = (x: number, y: number, width = 10, height = 10, type = ex.CollisionType.Fixed) => {
+    const actor = new ex.Actor({ x, y, width, height, collisionType: type });
+    scene.add(actor);
+    return actor;
+  };
+
+  beforeEach(() => {
+    engine = TestUtils.engine({ width: 100, height: 100 });
+    scene = new ex.Scene(engine);
+  });
+
+  afterEach(() => {
+    engine.stop();
+    engine = null;
+    ex.CollisionGroupManager.reset();
+  });
+
+  it('exists', () => {
+    expect(ex.PhysicsQuery).toBeDefined();
+    expect(ex.ScenePhysics).toBeDefined();
+    expect(scene.physics instanceof ex.ScenePhysics).toBe(true);
+  });
+
+  it('still inherits physics settings', () => {
+    engine.physics.acc = ex.vec(0, 100);
+
+    expect(scene.physics.acc).toBeVector(ex.vec(0, 100));
+  });
+
+  it('returns no hits and warns once without a collision system', () => {
+    const logger = ex.Logger.getInstance();
+    spyOn(logger, 'warn');
+    const physics = new ex.ScenePhysics();
+    const ray = new ex.Ray(ex.vec(0, 0), ex.Vector.Right);
+
+    expect(physics.rayCast(ray)).toEqual([]);
+    expect(physics.shapeCast(ex.Shape.Circle(5), ray)).toEqual([]);
+    expect(physics.overlap(ex.Shape.Circle(5), ex.vec(0, 0))).toEqual([]);
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+  });
+
+  describe('ray cast', () => {
+    it('returns the nearest hit with the point, normal, and distance', () => {
+      const near = box(50, 0);
+      box(100, 0);
+
+      const hits = scene.physics.rayCast(new ex.Ray(ex.vec(0, 0), ex.Vector.Right));
+
+      expect(hits.length).toBe(1);
+      expect(hits[0].collider).toBe(near.body.collider);
+      expect(hits[0].body).toBe(near.body);
+      expect(hits[0].point).toBeVector(ex.vec(45, 0));
+      expect(hits[0].normal).toBeVector(ex.Vector.Left);
+      expect(hits[0].distance).toBeCloseTo(45);
+    });
+
+    it('can return every hit sorted by distance', () => {
+      const far = box(100, 0);
+      const near = box(50, 0);
+
+      const hits = scene.physics.rayCast(new ex.Ray(ex.vec(0, 0), ex.Vector.Right), { searchAllColliders: true });
+
+      expect(hits.map((hit) => hit.collider)).toEqual([near.body.collider, far.body.collider]);
+    });
+
+    it('returns the surface normal of circles', () => {
+      const ball = new ex.Actor({ x: 0, y: 50, collisionType: ex.CollisionType.Fixed });
+      ball.body.useCircleCollider(10);
+      scene.add(ball);
+
+      const [hit] = scene.physics.rayCast(new ex.Ray(ex.vec(0, 0), ex.Vector.Down));
+
+      expect(hit.point).toBeVector(ex.vec(0, 40));
+      expect(hit.normal).toBeVector(ex.Vector.Up);
+    });
+
+    it('stops at the max distance', () => {
+      box(50, 0);
+
+      expect(scene.physics.rayCast(new ex.Ray(ex.vec(0, 0), ex.Vector.Right), { maxDistance: 40 })).toEqual([]);
+      expect(scene.physics.rayCast(new ex.Ray(ex.vec(0, 0), ex.Vector.Right), { maxDistance: 50 }).length).toBe(1);
+    });
+
+    it('ignores colliders that can not collide with the collision group', () => {
+      const players = ex.CollisionGroupManager.create('players');
+      const walls = ex.CollisionGroupManager.create('walls');
+      const bullets = ex.CollisionGroupManager.create('bullets', ~players.category);
+      const teammate = box(50, 0);
+      teammate.body.collider.group = players;
+      const wall = box(100, 0);
+      wall.body.collider.group = walls;
+
+      const [hit] = scene.physics.rayCast(new ex.Ray(ex.vec(0, 0), ex.Vector.Right), { collisionGroup: bullets });
+
+      expect(hit.collider).toBe(wall.body.collider);
+    });
+
+    it('can filter hits', () => {
+      const glass = box(50, 0);
+      const wall = box(100, 0);
+
+      const [hit] = scene.physics.rayCast(new ex.Ray(ex.vec(0, 0), ex.Vector.Right), {
+        filter: (h) => h.collider !== glass.body.collider
+      });
+
+      expect(hit.collider).toBe(wall.body.collider);
+    });
+
+    it('ignores colliders that prevent collisions', () => {
+      box(50, 0, 10, 10, ex.CollisionType.PreventCollision);
+
+      expect(scene.physics.rayCast(new ex.Ray(ex.vec(0, 0), ex.Vector.Right))).toEqual([]);
+    });
+  });
+
+  describe('shape cast', () => {
+    it('returns how far a shape can move before it touches a collider', () => {
+      const floor = box(0, 100, 200, 10);
+
+      const [hit] = scene.physics.shapeCast(ex.Shape.Box(10, 10), new ex.Ray(ex.vec(0, 0), ex.Vector.Down));
+
+      expect(hit.collider).toBe(floor.body.collider);
+      expect(hit.distance).toBeCloseTo(90, 1);
+      expect(hit.normal).toBeVector(ex.Vector.Up);
+    });
+
+    it('does not pass through thin colliders', () => {
+      const wall = box(50, 0, 1, 100);
+
+      const [hit] = scene.physics.shapeCast(ex.Shape.Circle(2), new ex.Ray(ex.vec(0, 0), ex.Vector.Right));
+
+      expect(hit.collider).toBe(wall.body.collider);
+      expect(hit.distance).toBeCloseTo(47.5, 1);
+    });
+
+    it('returns a distance of 0 for colliders the shape starts in', () => {
+      box(0, 0);
+
+      const [hit] = scene.physics.shapeCast(ex.Shape.Circle(2), new ex.Ray(ex.vec(0, 0), ex.Vector.Right));
+
+      expect(hit.distance).toBe(0);
+    });
+
+    it('stops at the max distance', () => {
+      box(0, 100, 200, 10);
+
+      const hits = scene.physics.shapeCast(ex.Shape.Box(10, 10), new ex.Ray(ex.vec(0, 0), ex.Vector.Down), { maxDistance: 80 });
+
+      expect(hits).toEqual([]);
+    });
+  });
+
+  it('reuses the probe collider of each query type', () => {
+    const query = scene.physics.query;
+    query.shapeCast(ex.Shape.Circle(2), new ex.Ray(ex.vec(0, 0), ex.Vector.Right));
+    query.overlap(ex.Shape.Circle(20), ex.vec(0, 0));
+    const shapeCastProbe = (query as any)._shapeCastProbe;
+    const overlapProbe = (query as any)._overlapProbe;
+
+    query.shapeCast(ex.Shape.Box(10, 10), new ex.Ray(ex.vec(0, 0), ex.Vector.Right));
+    query.overlap(ex.Shape.Box(10, 10), ex.vec(0, 0));
+
+    expect((query as any)._shapeCastProbe).toBe(shapeCastProbe);
+    expect((query as any)._overlapProbe).toBe(overlapProbe);
+    expect(overlapProbe).not.toBe(shapeCastProbe);
+    expect(overlapProbe.shape instanceof ex.ConvexPolygon).toBe(true);
+  });
+
+  it('can run a query from the filter of another query', () => {
+    const wall = box(50, 0, 1, 100);
+    const floor = box(0, 100, 200, 10);
+    let below: ex.RayCastHit[] = [];
+
+    const [hit] = scene.physics.shapeCast(ex.Shape.Circle(2), new ex.Ray(ex.vec(0, 0), ex.Vector.Right), {
+      filter: () => {
+        below = scene.physics.shapeCast(ex.Shape.Box(10, 10), new ex.Ray(ex.vec(0, 0), ex.Vector.Down));
+        return true;
+      }
+    });
+
+    expect(hit.collider).toBe(wall.body.collider);
+    expect(hit.distance).toBeCloseTo(47.5, 1);
+    expect(below[0].collider).toBe(floor.body.collider);
+  });
+
+  describe('overlap', () => {
+    it('returns the colliders overlapping a shape', () => {
+      const near = box(20, 0);
+      const inside = box(0, 0);
+      box(100, 0);
+
+      const colliders = scene.physics.overlap(ex.Shape.Circle(20), ex.vec(0, 0));
+
+      expect(colliders.length).toBe(2);
+      expect(colliders).toContain(near.body.collider);
+      expect(colliders).toContain(inside.body.collider);
+    });
+
+    it('can filter the colliders', () => {
+      const near = box(20, 0);
+      box(0, 0);
+
+      const colliders = scene.physics.overlap(ex.Shape.Circle(20), ex.vec(0, 0), { filter: (c) => c === near.body.collider });
+
+      expect(colliders).toEqual([near.body.collider]);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import * as ex from '@excalibur';
+
+/**
+ * Returns the rgba values of a pixel of a WebGL canvas
+ */
+function getPixel(canvas: HTMLCanvasElement, x: number, y: number): number[] {
+  const copy = document.createElement('canvas');
+  copy.width = canvas.width;
+  copy.height = canvas.height;
+  const ctx = copy.getContext('2d');
+  ctx.drawImage(canvas, 0, 0);
+  return Array.from(ctx.getImageData(x, y, 1, 1).data);
+}
+
+describe('A PostProcessPipeline', () => {
+  let canvasElement: HTMLCanvasElement;
+  let ctx: ex.Graphics.ExcaliburGraphicsContextWebGL;
+  let rect: ex.Graphics.Rectangle;
+
+  /**
+   * Draws a red square in the top left corner of a black frame through the pipeline
+   */
+  const drawFrame = (sut: ex.Graphics.PostProcessPipeline) => {
+    sut.begin();
+    ctx.clear();
+    ctx.drawImage(rect._bitmap, 0, 0);
+    ctx.flush();
+    sut.end();
+  };
+
+  beforeEach(() => {
+    canvasElement = document.createElement('canvas');
+    canvasElement.width = 100;
+    canvasElement.height = 100;
+    ctx = new ex.Graphics.ExcaliburGraphicsContextWebGL({
+      canvasElement,
+      enableTransparency: false,
+      backgroundColor: ex.Color.Black
+    });
+    rect = new ex.Graphics.Rectangle({
+      width: 50,
+      height: 50,
+      color: ex.Color.Red
+    });
+  });
+
+  it('exists', () => {
+    expect(ex.Graphics.PostProcessPipeline).toBeDefined();
+    expect(ex.Graphics.ShaderPass).toBeDefined();
+  });
+
+  it('draws the frame as is without enabled passes', () => {
+    const sut = new ex.Graphics.PostProcessPipeline(ctx, [new ex.Graphics.PixelatePass({ enabled: false })]);
+    spyOn(ctx, 'pushRenderTarget').and.callThrough();
+
+    drawFrame(sut);
+
+    expect(ctx.pushRenderTarget).not.toHaveBeenCalled();
+    expect(getPixel(canvasElement, 25, 25)).toEqual([255, 0, 0, 255]);
+    expect(getPixel(canvasElement, 75, 75)).toEqual([0, 0, 0, 255]);
+  });
+
+  it('applies the enabled passes in order', () => {
+    const swap = new ex.Graphics.ShaderPass({
+      fragmentSource: `
+        void main() {
+          gl_FragColor = texture2D(u_graphic, v_texcoord).bgra;
+        }`
+    });
+    const background = new ex.Graphics.ShaderPass({
+      fragmentSource: `
+        uniform vec4 u_color;
+        void main() {
+          vec4 color = texture2D(u_graphic, v_texcoord);
+          gl_FragColor = color.r + color.g + color.b > 0.0 ? color : u_color;
+        }`,
+      uniforms: { u_color: ex.Color.Green }
+    });
+    const sut = new ex.Graphics.PostProcessPipeline(ctx, [swap, new ex.Graphics.VignettePass({ enabled: false }), background]);
+
+    drawFrame(sut);
+
+    expect(getPixel(canvasElement, 25, 25)).toEqual([0, 0, 255, 255]);
+    expect(getPixel(canvasElement, 75, 75)).toEqual([0, 255, 0, 255]);
+  });
+
+  it('can toggle a pass at runtime', () => {
+    const swap = new ex.Graphics.ShaderPass({
+      fragmentSource: `
+        void main() {
+          gl_FragColor = texture2D(u_graphic, v_texcoord).bgra;
+        }`
+    });
+    const sut = new ex.Graphics.PostProcessPipeline(ctx, [swap]);
+
+    drawFrame(sut);
+    expect(getPixel(canvasElement, 25, 25)).toEqual([0, 0, 255, 255]);
+
+    swap.enabled = false;
+    drawFrame(sut);
+    expect(getPixel(canvasElement, 25, 25)).toEqual([255, 0, 0, 255]);
+  });
+
+  it('can darken the edges with a vignette', () => {
+    rect = new ex.Graphics.Rectangle({
+      width: 100,
+      height: 100,
+      color: ex.Color.White
+    });
+    const sut = new ex.Graphics.PostProcessPipeline(ctx, [new ex.Graphics.VignettePass({ intensity: 1 })]);
+
+    drawFrame(sut);
+
+    expect(getPixel(canvasElement, 50, 50)).toEqual([255, 255, 255, 255]);
+    expect(getPixel(canvasElement, 0, 0)[0]).toBeLessThan(128);
+  });
+
+  it('can pixelate the frame', () => {
+    rect = new ex.Graphics.Rectangle({
+      width: 3,
+      height: 3,
+      color: ex.Color.Red
+    });
+    const sut = new ex.Graphics.PostProcessPipeline(ctx, [new ex.Graphics.PixelatePass({ pixelSize: 10 })]);
+
+    drawFrame(sut);
+
+    // the middle of the top left block is black so the whole block is
+    expect(getPixel(canvasElement, 1, 1)).toEqual([0, 0, 0, 255]);
+  });
+
+  it('can make bright colors glow', () => {
+    rect = new ex.Graphics.Rectangle({
+      width: 20,
+      height: 20,
+      color: ex.Color.White
+    });
+    const sut = new ex.Graphics.PostProcessPipeline(ctx, [new ex.Graphics.BloomPass({ radius: 2 })]);
+
+    drawFrame(sut);
+
+    expect(getPixel(canvasElement, 10, 10)).toEqual([255, 255, 255, 255]);
+    expect(getPixel(canvasElement, 22, 10)[0]).toBeGreaterThan(0);
+    expect(getPixel(canvasElement, 60, 60)).toEqual([0, 0, 0, 255]);
+  });
+
+  it('can simulate color blindness', () => {
+    const sut = new ex.Graphics.PostProcessPipeline(ctx, [
+      new ex.Graphics.ColorBlindnessPass({ mode: ex.ColorBlindness.Protanope, simulate: true })
+    ]);
+
+    drawFrame(sut);
+
+    const [r, g] = getPixel(canvasElement, 25, 25);
+    // red and green look alike without red cones
+    expect(Math.abs(r - g)).toBeLessThan(100);
+  });
+
+  it('only applies passes in the WebGL context', () => {
+    const ctx2d = new ex.Graphics.ExcaliburGraphicsContext2DCanvas({ canvasElement: document.createElement('canvas') });
+    const sut = new ex.Graphics.PostProcessPipeline(ctx2d, [new ex.Graphics.CrtPass()]);
+    const logger = ex.Logger.getInstance();
+    spyOn(logger, 'warn');
+    spyOn(ctx2d, 'pushRenderTarget');
+
+    sut.begin();
+    sut.end();
+    sut.begin();
+    sut.end();
+
+    expect(sut.isSupported).toBe(false);
+    expect(ctx2d.pushRenderTarget).not.toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,48 @@
+import * as ex from '@excalibur';
+
+describe('A RenderTarget', () => {
+  it('exists', () => {
+    expect(ex.Graphics.RenderTarget).toBeDefined();
+  });
+
+  it('can be constructed with a size', () => {
+    const sut = new ex.Graphics.RenderTarget({ width: 100, height: 50 });
+
+    expect(sut.width).toBe(100);
+    expect(sut.height).toBe(50);
+    expect(sut.image.width).toBe(100);
+    expect(sut.image.height).toBe(50);
+    expect(sut.isLoaded()).toBe(true);
+  });
+
+  it('can be resized', () => {
+    const sut = new ex.Graphics.RenderTarget({ width: 100, height: 50 });
+
+    sut.resize(20, 30);
+
+    expect(sut.width).toBe(20);
+    expect(sut.height).toBe(30);
+  });
+
+  it('can match the resolution of a screen', () => {
+    const sut = new ex.Graphics.RenderTarget({ width: 100, height: 50 });
+    const screen = { resolution: { width: 800, height: 600 } } as ex.Screen;
+
+    expect(sut.matchResolution(screen)).toBe(true);
+    expect(sut.width).toBe(800);
+    expect(sut.height).toBe(600);
+    expect(sut.matchResolution(screen)).toBe(false);
+  });
+
+  it('can be the image of a sprite', async () => {
+    const sut = new ex.Graphics.RenderTarget({ width: 100, height: 50 });
+
+    const sprite = sut.toSprite();
+    await sut.ready;
+
+    expect(sprite.image).toBe(sut);
+    expect(sprite.width).toBe(100);
+    expect(sprite.height).toBe(50);
+    expect(sprite.sourceView).toEqual({ x: 0, y: 0, width: 100, height: 50 });
+  });
+});
@@ -0,0 +1,292 @@
+import * as ex from '@excalibur';
+import { TestUtils } from './util/TestUtils';
+
+describe('Sleeping bodies', () => {
+  let engine: ex.Engine;
+  let scene: ex.Scene;
+
+  const box = (x: number, y: number, type = ex.CollisionType.Active) => {
+    const actor = new ex.Actor({ x, y, width: 10, height: 10, collisionType: type });
+    scene.add(actor);
+    return actor;
+  };
+
+  const floor = () => {
+    const actor = new ex.Actor({ x: 0, y: 20, width: 200, height: 10, collisionType: ex.CollisionType.Fixed });
+    scene.add(actor);
+    return actor;
+  };
+
+  const simulate = (updates: number) => {
+    for (let i = 0; i < updates; i++) {
+      scene.update(engine, 16);
+    }
+  };
+
+  beforeEach(() => {
+    engine = TestUtils.engine({ width: 100, height: 100 });
+    scene = new ex.Scene(engine);
+    scene.physics.acc = ex.vec(0, 400);
+    scene.physics.bodiesCanSleepByDefault = true;
+  });
+
+  afterEach(() => {
+    engine.stop();
+    engine = null;
+  });
+
+  it('exists', () => {
+    expect(ex.Island).toBeDefined();
+    expect(ex.SleepEvent).toBeDefined();
+    expect(ex.WakeEvent).toBeDefined();
+  });
+
+  it('do not sleep by default', () => {
+    scene.physics.reset('bodiesCanSleepByDefault');
+    floor();
+    const crate = box(0, 10);
+
+    simulate(100);
+
+    expect(crate.body.canSleep).toBe(false);
+    expect(crate.body.sleeping).toBe(false);
+  });
+
+  it('fall asleep after being at rest for the time to sleep', () => {
+    floor();
+    const crate = box(0, 10);
+    const sleep = jasmine.createSpy('sleep');
+    crate.on('sleep', sleep);
+
+    simulate(10);
+    expect(crate.body.sleeping).toBe(false);
+
+    simulate(40);
+    expect(crate.body.sleeping).toBe(true);
+    expect(crate.vel).toBeVector(ex.Vector.Zero);
+    expect(sleep).toHaveBeenCalledTimes(1);
+  });
+
+  it('can opt out of sleeping per body', () => {
+    floor();
+    const player = box(0, 10);
+    player.body.canSleep = false;
+
+    simulate(50);
+
+    expect(player.body.sleeping).toBe(false);
+  });
+
+  it('are not moved while asleep', () => {
+    const crate = box(0, 0);
+    crate.body.setSleeping(true);
+
+    simulate(10);
+
+    expect(crate.pos).toBeVector(ex.vec(0, 0));
+  });
+
+  it('emit sleep and wake on the collider', () => {
+    const crate = box(0, 0);
+    const sleep = jasmine.createSpy('sleep');
+    const wake = jasmine.createSpy('wake');
+    crate.body.collider.on('sleep', sleep);
+    crate.body.collider.on('wake', wake);
+
+    crate.body.setSleeping(true);
+    crate.body.setSleeping(true);
+    crate.body.setSleeping(false);
+
+    expect(sleep).toHaveBeenCalledTimes(1);
+    expect(wake).toHaveBeenCalledTimes(1);
+    expect(sleep.calls.argsFor(0)[0].target).toBe(crate.body.collider);
+  });
+
+  it('wake up when an impulse is applied', () => {
+    const crate = box(0, 0);
+    crate.body.setSleeping(true);
+
+    crate.body.applyImpulse(ex.vec(10, 0));
+
+    expect(crate.body.sleeping).toBe(false);
+    expect(crate.vel.x).toBeCloseTo(10 / crate.body.collider.mass);
+  });
+
+  it('wake up when their velocity or position is set to a different value', () => {
+    const crate = box(0, 0);
+    crate.body.setSleeping(true);
+
+    crate.vel = ex.vec(0, 0);
+    crate.pos = ex.vec(0, 0);
+    expect(crate.body.sleeping).toBe(true);
+
+    crate.vel = ex.vec(50, 0);
+    expect(crate.body.sleeping).toBe(false);
+
+    crate.body.setSleeping(true);
+    crate.pos = ex.vec(20, 0);
+    expect(crate.body.sleeping).toBe(false);
+    expect(crate.pos).toBeVector(ex.vec(20, 0));
+  });
+
+  it('move again when a resting body is given a velocity', () => {
+    floor();
+    const crate = box(0, 10);
+    simulate(50);
+    expect(crate.body.sleeping).toBe(true);
+
+    crate.vel = ex.vec(100, 0);
+    simulate(1);
+
+    expect(crate.body.sleeping).toBe(false);
+    expect(crate.pos.x).toBeGreaterThan(0);
+  });
+
+  it('wake up when their velocity is changed in place', () => {
+    floor();
+    const crate = box(0, 10);
+    simulate(50);
+    expect(crate.body.sleeping).toBe(true);
+
+    crate.vel.x = 100;
+    simulate(1);
+    expect(crate.body.sleeping).toBe(false);
+    simulate(1);
+
+    expect(crate.pos.x).toBeGreaterThan(0);
+  });
+
+  it('wake up when the fixed body they rest on moves', () => {
+    const platform = floor();
+    const crate = box(0, 10);
+    simulate(50);
+    expect(crate.body.sleeping).toBe(true);
+
+    platform.vel = ex.vec(0, 50);
+    simulate(1);
+
+    expect(crate.body.sleeping).toBe(false);
+  });
+
+  it('wake up with their island when the body they rest on is removed', () => {
+    const ground = floor();
+    const bottom = box(0, 10);
+    const top = box(0, 0);
+    simulate(60);
+    expect(bottom.body.sleeping).toBe(true);
+    expect(top.body.sleeping).toBe(true);
+
+    scene.remove(ground);
+    simulate(1);
+
+    expect(bottom.body.sleeping).toBe(false);
+    expect(top.body.sleeping).toBe(false);
+    simulate(10);
+    expect(bottom.pos.y).toBeGreaterThan(10);
+  });
+
+  it('wake up when a joint holding them is removed', () => {
+    const a = box(0, 0);
+    const b = box(20, 0);
+    const joint = new ex.DistanceJoint({ bodyA: a.body, bodyB: b.body });
+    scene.add(joint);
+    a.body.setSleeping(true);
+    b.body.setSleeping(true);
+
+    scene.remove(joint);
+
+    expect(a.body.sleeping).toBe(false);
+    expect(b.body.sleeping).toBe(false);
+  });
+
+  it('wake up when touched by an awake body', () => {
+    floor();
+    const crate = box(0, 10);
+    simulate(50);
+    expect(crate.body.sleeping).toBe(true);
+
+    box(0, -20);
+    const wake = jasmine.createSpy('wake');
+    crate.on('wake', wake);
+    simulate(30);
+
+    expect(wake).toHaveBeenCalled();
+  });
+
+  it('are not checked for collisions with other resting bodies', () => {
+    floor();
+    const crate = box(0, 10);
+    simulate(50);
+    expect(crate.body.sleeping).toBe(true);
+
+    const collisionStart = jasmine.createSpy('collisionstart');
+    const collisionEnd = jasmine.createSpy('collisionend');
+    crate.on('collisionstart', collisionStart);
+    crate.on('collisionend', collisionEnd);
+    simulate(10);
+
+    expect(engine.stats.currFrame.physics.pairs).toBe(0);
+    expect(collisionStart).not.toHaveBeenCalled();
+    expect(collisionEnd).not.toHaveBeenCalled();
+  });
+
+  it('are counted in the frame stats', () => {
+    floor();
+    box(-50, 10);
+    box(50, 10);
+
+    simulate(50);
+
+    expect(engine.stats.currFrame.physics.sleepingBodies).toBe(2);
+    expect(engine.stats.currFrame.physics.islands).toBe(0);
+  });
+
+  describe('islands', () => {
+    it('are split by fixed bodies', () => {
+      const ground = floor();
+      const a = box(-50, 10);
+      const b = box(50, 10);
+      const pairs = [new ex.Pair(a.body.collider, ground.body.collider), new ex.Pair(b.body.collider, ground.body.collider)];
+
+      const islands = ex.Island.build([a.body, b.body, ground.body], pairs, []);
+
+      expect(islands.length).toBe(2);
+    });
+
+    it('join bodies connected by contacts and joints', () => {
+      const a = box(0, 0);
+      const b = box(10, 0);
+      const c = box(50, 0);
+      const d = box(100, 0);
+      const pairs = [new ex.Pair(a.body.collider, b.body.collider)];
+      const joints = [new ex.DistanceJoint({ bodyA: b.body, bodyB: c.body })];
+
+      const islands = ex.Island.build([a.body, b.body, c.body, d.body], pairs, joints);
+
+      expect(islands.length).toBe(2);
+      expect(islands.find((island) => island.bodies.length === 3).bodies).toContain(c.body);
+    });
+
+    it('skip sleeping bodies that are not touched by awake bodies', () => {
+      const a = box(0, 0);
+      const b = box(10, 0);
+      a.body.setSleeping(true);
+      b.body.setSleeping(true);
+
+      const islands = ex.Island.build([a.body, b.body], [new ex.Pair(a.body.collider, b.body.collider)], []);
+
+      expect(islands).toEqual([]);
+    });
+
+    it('fall asleep together', () => {
+      const a = box(0, 0);
+      const b = box(10, 0);
+      a.body.sleepTime = 1000;
+      const [island] = ex.Island.build([a.body, b.body], [new ex.Pair(a.body.collider, b.body.collider)], []);
+
+      expect(island.isAtRest(500)).toBe(false);
+      b.body.sleepTime = 1000;
+      expect(island.isAtRest(500)).toBe(true);
+    });
+  });
+});
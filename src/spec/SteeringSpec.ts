@@ -0,0 +1,187 @@
+import * as ex from '@excalibur';
+import { TestUtils } from './util/TestUtils';
+import { ExcaliburMatchers } from 'excalibur-jasmine';
+
+/**
+ * Returns the context of an agent at a position moving at a velocity with a top speed of 100
+ */
+const context = (pos: ex.Vector, vel: ex.Vector = ex.Vector.Zero, neighbors: ex.SteeringAgent[] = []): ex.SteeringContext => ({
+  agent: { pos, vel },
+  maxSpeed: 100,
+  neighbors,
+  delta: 100
+});
+
+describe('Steering', () => {
+  beforeEach(() => {
+    jasmine.addMatchers(ExcaliburMatchers);
+  });
+
+  it('exists', () => {
+    expect(ex.SteeringBehavior).toBeDefined();
+    expect(ex.SteeringComponent).toBeDefined();
+    expect(ex.SteeringSystem).toBeDefined();
+  });
+
+  describe('behaviors', () => {
+    it('can seek and flee a point', () => {
+      expect(new ex.SeekBehavior(ex.vec(100, 0)).calculate(context(ex.Vector.Zero, ex.vec(0, 50)))).toBeVector(ex.vec(100, -50));
+      expect(new ex.FleeBehavior(ex.vec(100, 0)).calculate(context(ex.Vector.Zero))).toBeVector(ex.vec(-100, 0));
+    });
+
+    it('only flees within the panic distance', () => {
+      const flee = new ex.FleeBehavior(ex.vec(100, 0), { panicDistance: 50 });
+
+      expect(flee.calculate(context(ex.Vector.Zero))).toBeVector(ex.Vector.Zero);
+      expect(flee.calculate(context(ex.vec(60, 0)))).toBeVector(ex.vec(-100, 0));
+    });
+
+    it('can arrive at a point by slowing down', () => {
+      const arrive = new ex.ArriveBehavior(ex.vec(100, 0), { slowRadius: 50 });
+
+      expect(arrive.calculate(context(ex.Vector.Zero))).toBeVector(ex.vec(100, 0));
+      expect(arrive.calculate(context(ex.vec(75, 0), ex.vec(100, 0)))).toBeVector(ex.vec(-50, 0));
+      expect(arrive.isComplete(context(ex.vec(75, 0)))).toBe(false);
+      expect(arrive.isComplete(context(ex.vec(99.5, 0)))).toBe(true);
+    });
+
+    it('can pursue and evade where a moving target is going', () => {
+      const target = { pos: ex.vec(100, 0), vel: ex.vec(0, 100) };
+
+      expect(new ex.PursueBehavior(target).calculate(context(ex.Vector.Zero)).normalize()).toBeVector(ex.vec(1, 1).normalize());
+      expect(new ex.EvadeBehavior(target).calculate(context(ex.Vector.Zero)).normalize()).toBeVector(ex.vec(-1, -1).normalize());
+      expect(new ex.PursueBehavior(target, { maxPrediction: 0 }).calculate(context(ex.Vector.Zero))).toBeVector(ex.vec(100, 0));
+    });
+
+    it('can wander the same way with a seed', () => {
+      const wander1 = new ex.WanderBehavior({ random: new ex.Random(42) });
+      const wander2 = new ex.WanderBehavior({ random: new ex.Random(42) });
+
+      for (let i = 0; i < 5; i++) {
+        const change = wander1.calculate(context(ex.Vector.Zero, ex.vec(100, 0)));
+        expect(change).toBeVector(wander2.calculate(context(ex.Vector.Zero, ex.vec(100, 0))));
+        // the wander target stays on the circle ahead of the agent
+        expect(change.add(ex.vec(100, 0)).x).toBeGreaterThan(0);
+      }
+    });
+
+    it('can follow a path', () => {
+      const follow = new ex.PathFollowingBehavior([ex.vec(100, 0), ex.vec(100, 100)], { slowRadius: 50 });
+
+      expect(follow.calculate(context(ex.Vector.Zero))).toBeVector(ex.vec(100, 0));
+      expect(follow.index).toBe(0);
+
+      expect(follow.calculate(context(ex.vec(95, 0)))).toBeVector(ex.vec(5, 100).normalize().scale(100));
+      expect(follow.index).toBe(1);
+      expect(follow.isComplete(context(ex.vec(100, 75)))).toBe(false);
+      expect(follow.isComplete(context(ex.vec(100, 100)))).toBe(true);
+    });
+
+    it('can separate from, cohere with and align with neighbors', () => {
+      const neighbors = [
+        { pos: ex.vec(20, 0), vel: ex.vec(0, 100) },
+        { pos: ex.vec(200, 0), vel: ex.vec(0, -100) }
+      ];
+
+      expect(new ex.SeparationBehavior().calculate(context(ex.Vector.Zero, ex.Vector.Zero, neighbors))).toBeVector(ex.vec(-100, 0));
+      expect(new ex.CohesionBehavior().calculate(context(ex.Vector.Zero, ex.Vector.Zero, neighbors))).toBeVector(ex.vec(100, 0));
+      expect(new ex.AlignmentBehavior().calculate(context(ex.Vector.Zero, ex.Vector.Zero, neighbors))).toBeVector(ex.vec(0, 100));
+      expect(new ex.AlignmentBehavior({ radius: 10 }).calculate(context(ex.Vector.Zero, ex.Vector.Zero, neighbors))).toBeVector(
+        ex.Vector.Zero
+      );
+    });
+
+    it('can avoid obstacles ahead', () => {
+      const obstacle = new ex.Actor({ x: 50, y: 5, width: 20, height: 20 });
+      const avoid = new ex.ObstacleAvoidanceBehavior({ obstacles: [obstacle.body.collider] });
+
+      const change = avoid.calculate(context(ex.Vector.Zero, ex.vec(100, 0)));
+      expect(change.x).toBeCloseTo(0);
+      expect(change.y).toBeLessThan(0);
+
+      expect(avoid.calculate(context(ex.vec(0, 50), ex.vec(100, 0)))).toBeVector(ex.Vector.Zero);
+      expect(avoid.calculate(context(ex.Vector.Zero))).toBeVector(ex.Vector.Zero);
+    });
+  });
+
+  describe('in a scene', () => {
+    let engine: ex.Engine;
+    let scene: ex.Scene;
+    let actor: ex.Actor;
+
+    beforeEach(() => {
+      engine = TestUtils.engine({ width: 100, height: 100 });
+      scene = new ex.Scene(engine);
+      engine.currentScene = scene;
+      actor = new ex.Actor();
+      scene.add(actor);
+    });
+
+    it('can steer an actor with an action until a behavior completes', () => {
+      actor.actions.steer(new ex.ArriveBehavior(ex.vec(100, 0), { slowRadius: 50 }), { maxSpeed: 100 });
+      scene.update(engine, 250);
+
+      expect(actor.pos).toBeVector(ex.vec(25, 0));
+
+      for (let i = 0; i < 100; i++) {
+        scene.update(engine, 100);
+      }
+      expect(actor.pos.distance(ex.vec(100, 0))).toBeLessThanOrEqual(1);
+      expect(actor.vel).toBeVector(ex.Vector.Zero);
+      expect(actor.actions.getQueue().isComplete()).toBe(true);
+    });
+
+    it('limits the acceleration of a steered actor', () => {
+      actor.actions.steer([new ex.SeekBehavior(ex.vec(1000, 0))], { maxSpeed: 100, maxAcceleration: 200 });
+      scene.update(engine, 100);
+
+      expect(actor.vel).toBeVector(ex.vec(20, 0));
+    });
+
+    it('can stop steering an actor', () => {
+      actor.actions.steer(new ex.SeekBehavior(ex.vec(1000, 0)), { maxSpeed: 100 });
+      scene.update(engine, 500);
+
+      actor.actions.clearActions();
+      expect(actor.pos).toBeVector(ex.vec(50, 0));
+      expect(actor.vel).toBeVector(ex.Vector.Zero);
+    });
+
+    it('steers entities with a steering component', () => {
+      actor.addComponent(new ex.SteeringComponent({ maxSpeed: 50, behaviors: [new ex.SeekBehavior(ex.vec(0, 100))] }));
+      const other = new ex.Actor({ x: 10, y: 0 });
+      other.addComponent(new ex.SteeringComponent({ behaviors: [new ex.SeparationBehavior()] }));
+      scene.add(other);
+      scene.update(engine, 100);
+
+      expect(actor.vel).toBeVector(ex.vec(0, 50));
+      expect(other.vel).toBeVector(ex.vec(100, 0));
+      // actors move during their own update, before the system steers them
+      expect(actor.pos).toBeVector(ex.vec(0, 0));
+      scene.update(engine, 100);
+      expect(actor.pos).toBeVector(ex.vec(0, 5));
+    });
+
+    it('finds the neighbors in the dynamic tree of the scene', () => {
+      const tree = scene.physics.query.tree;
+      spyOn(tree, 'boundsQuery').and.callThrough();
+      actor.addComponent(new ex.SteeringComponent({ neighborRadius: 20, behaviors: [new ex.SeparationBehavior()] }));
+      const near = new ex.Actor({ x: 10, y: 0, width: 4, height: 4 });
+      near.addComponent(new ex.SteeringComponent({ neighborRadius: 20, behaviors: [new ex.SeparationBehavior()] }));
+      const far = new ex.Actor({ x: -30, y: 0, width: 4, height: 4 });
+      far.addComponent(new ex.SteeringComponent());
+      const flier = new ex.Actor({ x: -30, y: 10, width: 4, height: 4 });
+      flier.actions.steer(new ex.SeparationBehavior(), { maxSpeed: 100, neighborRadius: 20 });
+      scene.add(near);
+      scene.add(far);
+      scene.add(flier);
+      scene.update(engine, 100);
+
+      expect(tree.boundsQuery).toHaveBeenCalled();
+      expect(actor.vel).toBeVector(ex.vec(-100, 0));
+      expect(near.vel).toBeVector(ex.vec(100, 0));
+      expect(flier.vel).toBeVector(ex.vec(0, 100));
+      expect(far.vel).toBeVector(ex.Vector.Zero);
+    });
+  });
+});
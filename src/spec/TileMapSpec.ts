@@ -165,6 +165,31 @@ describe('A TileMap', () => {
     await expectAsync(engine.canvas).toEqualImage('src/spec/images/TileMapSpec/TileMap.png');
   });
 
+  it('can draw the sprites of every cell from one cached texture', async () => {
+    await texture.load();
+    const tm = new ex.TileMap({
+      x: 30,
+      y: 30,
+      cellWidth: 64,
+      cellHeight: 48,
+      rows: 3,
+      cols: 7
+    });
+    const spriteTiles = new ex.SpriteSheet(texture, 1, 1, 64, 48);
+    tm.data.forEach(function (cell: ex.Cell) {
+      cell.addGraphic(spriteTiles.sprites[0]);
+    });
+    tm._initialize(engine);
+    tm.cacheGraphics();
+    spyOn(engine.graphicsContext, 'drawImage').and.callThrough();
+
+    drawWithTransform(engine.graphicsContext, tm, 100);
+
+    expect(tm.isGraphicsCached).toBe(true);
+    expect(engine.graphicsContext.drawImage).toHaveBeenCalledTimes(1);
+    await expectAsync(engine.canvas).toEqualImage('src/spec/images/TileMapSpec/TileMap.png');
+  });
+
   it('should handle offscreen culling correctly with negative coords', async () => {
     await texture.load();
     const tm = new ex.TileMap({
@@ -222,4 +247,174 @@ describe('A TileMap', () => {
       expect(collision).toBeNull();
     });
   });
+
+  describe('with colliders', () => {
+    let tm: ex.TileMap;
+    let physicsScene: ex.Scene;
+
+    const simulate = (updates: number) => {
+      for (let i = 0; i < updates; i++) {
+        physicsScene.update(engine, 16);
+      }
+    };
+
+    beforeEach(() => {
+      physicsScene = new ex.Scene(engine);
+      tm = new ex.TileMap({
+        x: 0,
+        y: 0,
+        cellWidth: 16,
+        cellHeight: 16,
+        rows: 4,
+        cols: 6
+      });
+      // a floor along the bottom row and a 2x2 block on top of it
+      for (let x = 0; x < 6; x++) {
+        tm.getCell(x, 3).solid = true;
+      }
+      tm.getCell(4, 1).solid = true;
+      tm.getCell(5, 1).solid = true;
+      tm.getCell(4, 2).solid = true;
+      tm.getCell(5, 2).solid = true;
+    });
+
+    it('merges neighbouring solid cells into boxes', () => {
+      const bounds = tm.colliders.map((c) => c.bounds);
+
+      expect(bounds.length).toBe(2);
+      expect(bounds[0]).toEqual(new ex.BoundingBox(64, 16, 96, 64));
+      expect(bounds[1]).toEqual(new ex.BoundingBox(0, 48, 64, 64));
+      expect(tm.colliders.every((c) => c.type === ex.CollisionType.Fixed)).toBe(true);
+    });
+
+    it('rebuilds the colliders when a cell changes', () => {
+      expect(tm.colliders.length).toBe(2);
+
+      tm.getCell(0, 3).solid = false;
+      tm.getCell(0, 0).solid = true;
+
+      expect(tm.colliders.length).toBe(3);
+      expect(tm.colliders.map((c) => c.bounds.left)).toContain(16);
+    });
+
+    it('moves the colliders with the tile map', () => {
+      tm.pos = ex.vec(100, 200);
+
+      expect(tm.colliders[1].bounds).toEqual(new ex.BoundingBox(100, 248, 164, 264));
+    });
+
+    it('stops bodies falling on solid cells', () => {
+      physicsScene.add(tm);
+      const box = new ex.Actor({ x: 24, y: 20, width: 10, height: 10, collisionType: ex.CollisionType.Active });
+      box.vel = ex.vec(0, 200);
+      const ball = new ex.Actor({ x: 40, y: 20, width: 10, height: 10, collisionType: ex.CollisionType.Active });
+      ball.body.useCircleCollider(5);
+      ball.vel = ex.vec(0, 200);
+      physicsScene.add(box);
+      physicsScene.add(ball);
+
+      simulate(30);
+
+      expect(box.pos.y).toBeCloseTo(43, 0);
+      expect(ball.pos.y).toBeCloseTo(43, 0);
+    });
+
+    it('emits collision events with the colliders of the cells', () => {
+      physicsScene.add(tm);
+      const box = new ex.Actor({ x: 24, y: 20, width: 10, height: 10, collisionType: ex.CollisionType.Active });
+      box.vel = ex.vec(0, 200);
+      physicsScene.add(box);
+      const collisionStart = jasmine.createSpy('collisionstart');
+      box.on('collisionstart', collisionStart);
+
+      simulate(30);
+
+      expect(collisionStart).toHaveBeenCalledTimes(1);
+      expect(collisionStart.calls.argsFor(0)[0].other.parent).toBe(tm);
+    });
+
+    it('gives cells with other shapes their own colliders', () => {
+      tm.getCell(3, 2).solid = true;
+      tm.getCell(3, 2).shape = ex.CellShape.SlopeUp;
+      tm.getCell(2, 2).solid = true;
+      tm.getCell(2, 2).shape = [ex.vec(0, 16), ex.vec(8, 0), ex.vec(16, 16), ex.vec(8, 8)];
+
+      const shapes = tm.colliders.map((c) => c.shape);
+
+      expect(shapes.length).toBe(4);
+      expect(shapes[1]).toEqual(jasmine.any(ex.CompositeShape));
+      expect(tm.colliders[2].bounds).toEqual(new ex.BoundingBox(48, 32, 64, 48));
+      // the sides of the slope lined up with the floor and the block
+      expect(tm.colliders[2].blockedNormals).toEqual([ex.Vector.Down, ex.Vector.Right]);
+    });
+
+    it('lets bodies walk up slopes', () => {
+      // a floor rising along a 45 degree slope onto the block
+      tm.getCell(4, 1).solid = false;
+      tm.getCell(5, 1).solid = false;
+      tm.getCell(3, 2).solid = true;
+      tm.getCell(3, 2).shape = ex.CellShape.SlopeUp;
+      physicsScene.add(tm);
+      const box = new ex.Actor({ x: 8, y: 40, width: 8, height: 8, collisionType: ex.CollisionType.Active });
+      box.acc = ex.vec(0, 800);
+      physicsScene.add(box);
+
+      for (let i = 0; i < 90; i++) {
+        box.vel = ex.vec(60, box.vel.y);
+        simulate(1);
+      }
+
+      expect(box.pos.x).toBeGreaterThan(80);
+      expect(box.pos.y).toBeCloseTo(28, 0);
+    });
+
+    it('lets bodies jump up through one-way cells and land on them', () => {
+      const platform = tm.getCell(1, 1);
+      platform.solid = true;
+      platform.oneWay = ex.Side.Top;
+      physicsScene.add(tm);
+      const box = new ex.Actor({ x: 24, y: 43, width: 10, height: 10, collisionType: ex.CollisionType.Active });
+      box.acc = ex.vec(0, 800);
+      box.vel = ex.vec(0, -330);
+      physicsScene.add(box);
+      let highest = box.pos.y;
+
+      for (let i = 0; i < 60; i++) {
+        simulate(1);
+        highest = Math.min(highest, box.pos.y);
+      }
+
+      expect(highest).toBeLessThan(11);
+      expect(box.pos.y).toBeCloseTo(11, 0);
+    });
+
+    it('lets bodies pass through the sides of one-way cells', () => {
+      const platform = tm.getCell(2, 2);
+      platform.solid = true;
+      platform.oneWay = ex.Side.Top;
+      physicsScene.add(tm);
+      const box = new ex.Actor({ x: 8, y: 43, width: 10, height: 10, collisionType: ex.CollisionType.Active });
+      physicsScene.add(box);
+
+      for (let i = 0; i < 30; i++) {
+        box.vel = ex.vec(60, 0);
+        simulate(1);
+      }
+
+      expect(box.pos.x).toBeGreaterThan(32);
+      expect(box.pos.y).toBeCloseTo(43, 0);
+    });
+
+    it('no longer collides with cells that stop being solid', () => {
+      physicsScene.add(tm);
+      const box = new ex.Actor({ x: 24, y: 40, width: 10, height: 10, collisionType: ex.CollisionType.Active });
+      physicsScene.add(box);
+      tm.data.forEach((cell) => (cell.solid = false));
+      box.vel = ex.vec(0, 200);
+
+      simulate(30);
+
+      expect(box.pos.y).toBeGreaterThan(64);
+    });
+  });
 });
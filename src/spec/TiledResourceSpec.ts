@@ -0,0 +1,191 @@
+import * as ex from '@excalibur';
+import { TestUtils } from './util/TestUtils';
+
+describe('A TiledResource', () => {
+  let engine: ex.Engine;
+
+  beforeEach(() => {
+    engine = TestUtils.engine({ width: 100, height: 100 });
+  });
+
+  afterEach(() => {
+    engine.stop();
+    engine = null;
+  });
+
+  it('exists', () => {
+    expect(ex.TiledResource).toBeDefined();
+  });
+
+  it('can be added to a loader', () => {
+    const map = new ex.TiledResource('base/src/spec/images/TiledResourceSpec/map.json');
+    const loader = new ex.Loader();
+    loader.addResource(map);
+
+    expect(map.isLoaded()).toBe(false);
+    expect(loader.isLoaded()).toBe(false);
+  });
+
+  describe('loading a json map', () => {
+    let map: ex.TiledResource;
+
+    beforeEach(async () => {
+      map = new ex.TiledResource('base/src/spec/images/TiledResourceSpec/map.json');
+      await map.load();
+    });
+
+    it('builds a tile map per tile layer', () => {
+      expect(map.isLoaded()).toBe(true);
+      expect(map.tileLayers.map((l) => l.name)).toEqual(['ground', 'walls']);
+      const [ground, walls] = map.tileMaps;
+      expect(ground.rows).toBe(3);
+      expect(ground.cols).toBe(4);
+      expect(ground.cellWidth).toBe(16);
+      expect(walls.x).toBe(8);
+      expect(walls.y).toBe(4);
+      expect(walls.get(ex.Graphics.GraphicsComponent).opacity).toBe(0.5);
+      expect(walls.get(ex.TransformComponent).z).toBeGreaterThan(ground.get(ex.TransformComponent).z);
+    });
+
+    it('decodes zlib compressed base64 layers', () => {
+      const ground = map.tileMaps[0];
+      expect(ground.getCell(0, 0).graphics.length).toBe(0);
+      expect(ground.getCell(0, 2).graphics.length).toBe(1);
+      expect(ground.getCell(3, 2).graphics.length).toBe(1);
+    });
+
+    it('uses the tileset sprites', () => {
+      const sprite = map.tileMaps[0].getCell(1, 2).graphics[0] as ex.Graphics.Sprite;
+      expect(sprite.sourceView).toEqual({ x: 16, y: 0, width: 16, height: 16 });
+    });
+
+    it('rebuilds its tiles when loaded again', async () => {
+      const sprite = map.tileMaps[0].getCell(1, 2).graphics[0] as ex.Graphics.Sprite;
+
+      await map.load();
+
+      const reloaded = map.tileMaps[0].getCell(1, 2).graphics[0] as ex.Graphics.Sprite;
+      expect(reloaded).not.toBe(sprite);
+      expect(reloaded.sourceView).toEqual(sprite.sourceView);
+      expect(map.tileLayers.length).toBe(2);
+    });
+
+    it('marks cells solid from tile properties, layer properties, and tile collision shapes', () => {
+      const ground = map.tileMaps[0];
+      expect(ground.getCell(0, 2).solid).toBe(true);
+      expect(ground.getCell(1, 2).solid).toBe(false);
+      expect(ground.getCell(3, 2).solid).toBe(true);
+      expect(ground.getCell(0, 0).solid).toBe(false);
+
+      const walls = map.tileMaps[1];
+      expect(walls.getCell(0, 0).solid).toBe(true);
+      expect(walls.getCell(1, 0).solid).toBe(false);
+    });
+
+    it('sets the cell shapes and one-way sides', () => {
+      const ground = map.tileMaps[0];
+      expect(ground.getCell(0, 2).shape).toBe(ex.CellShape.Full);
+      // drawn with the tile collision editor
+      expect(ground.getCell(3, 2).shape).toEqual([ex.vec(0, 0), ex.vec(16, 0), ex.vec(16, 8), ex.vec(0, 8)]);
+
+      const walls = map.tileMaps[1];
+      expect(walls.getCell(0, 0).oneWay).toBe(ex.Side.Top);
+      // a slope-up tile flipped vertically
+      expect(walls.getCell(3, 0).shape).toEqual([ex.vec(0, 0), ex.vec(16, 16), ex.vec(16, 0)]);
+    });
+
+    it('copies tile properties to the cell data', () => {
+      expect(map.tileMaps[0].getCell(1, 2).data.get('friction')).toBe(0.5);
+      expect(map.properties.get('music')).toBe('level1.mp3');
+      expect(map.tileLayers[1].properties.get('solid')).toBe(true);
+    });
+
+    it('applies the flip flags', () => {
+      const flippedX = map.tileMaps[0].getCell(2, 2).graphics[0];
+      expect(flippedX.flipHorizontal).toBe(true);
+      expect(flippedX.flipVertical).toBe(false);
+
+      const flippedY = map.tileMaps[1].getCell(3, 0).graphics[0];
+      expect(flippedY.flipVertical).toBe(true);
+
+      const diagonal = map.tileMaps[1].getCell(0, 0).graphics[0];
+      expect(diagonal.rotation).toBeCloseTo(Math.PI / 2);
+      expect(diagonal.flipVertical).toBe(true);
+      expect(diagonal.flipHorizontal).toBe(false);
+    });
+
+    it('exposes the object layers', () => {
+      expect(map.objectLayers.length).toBe(1);
+      const [player, door, coin, rotatedCoin, ramp] = map.objectLayers[0].objects;
+
+      expect(player.shape).toBe('point');
+      expect(player.pos).toBeVector(ex.vec(8, 8));
+
+      expect(door.type).toBe('door');
+      expect(door.pos).toBeVector(ex.vec(32, 16));
+      expect(door.center).toBeVector(ex.vec(40, 32));
+      expect(door.properties.get('target')).toBe('level2');
+
+      // tile objects are placed by their bottom left corner
+      expect(coin.shape).toBe('tile');
+      expect(coin.pos).toBeVector(ex.vec(0, 32));
+      expect(coin.graphic).toBeDefined();
+      expect(rotatedCoin.center).toBeVector(ex.vec(24, 56));
+
+      expect(ramp.points.length).toBe(3);
+      expect(ramp.points[1]).toBeVector(ex.vec(16, 16));
+    });
+
+    it('finds objects by type and name', () => {
+      expect(map.getObjectsByType('coin').length).toBe(2);
+      expect(map.getObjectsByName('exit')[0].type).toBe('door');
+      expect(map.getObjectsByName('missing')).toEqual([]);
+    });
+
+    it('adds the tile maps and spawned objects to a scene', () => {
+      const scene = new ex.Scene(engine);
+      const action = jasmine.createSpy('action');
+      map.addToScene(scene, {
+        coin: (object) => new ex.Actor({ pos: object.center, width: object.width, height: object.height }),
+        door: (object) => new ex.Trigger({ pos: object.center, width: object.width, height: object.height, action })
+      });
+
+      expect(scene.tileMaps.length).toBe(2);
+      expect(scene.actors.length).toBe(2);
+      expect(scene.triggers.length).toBe(1);
+      expect(scene.triggers[0].pos).toBeVector(ex.vec(40, 32));
+    });
+  });
+
+  describe('loading a tmx map', () => {
+    let map: ex.TiledResource;
+
+    beforeEach(async () => {
+      map = new ex.TiledResource('base/src/spec/images/TiledResourceSpec/map.tmx');
+      await map.load();
+    });
+
+    it('parses csv layers and embedded tilesets', () => {
+      const ground = map.tileMaps[0];
+      expect(ground.getCell(0, 2).solid).toBe(true);
+      expect(ground.getCell(1, 2).data.get('friction')).toBe(0.5);
+      expect(ground.getCell(2, 2).graphics[0].flipHorizontal).toBe(true);
+      expect(map.properties.get('music')).toBe('level1.mp3');
+    });
+
+    it('offsets objects inside groups', () => {
+      const [door] = map.getObjectsByType('door');
+      expect(door.pos).toBeVector(ex.vec(40, 20));
+      expect(door.properties.get('target')).toBe('level2');
+      expect(map.getObjectsByName('player')[0].shape).toBe('point');
+    });
+  });
+
+  it('rejects maps that are not orthogonal', async () => {
+    const map = new ex.TiledResource('base/src/spec/images/TiledResourceSpec/map.json');
+    const json = { orientation: 'isometric', tilesets: [], layers: [] } as any;
+    spyOn(ex.Resource.prototype, 'load').and.returnValue(Promise.resolve(json));
+
+    await expectAsync(map.load()).toBeRejectedWithError(/orthogonal/);
+  });
+});
@@ -128,4 +128,47 @@ describe('A TransformComponent', () => {
     expect(childTx.rotation).toBeCloseTo(Math.PI); // Math.PI + Math.PI = 2PI = 0 global
   });
 
-});
\ No newline at end of file
+  it('uses the current pose as the old pose until one is captured', () => {
+    const tx = new ex.TransformComponent();
+    tx.pos = ex.vec(10, 20);
+    tx.rotation = 1;
+
+    expect(tx.oldPos).toBeVector(ex.vec(10, 20));
+    expect(tx.oldRotation).toBeCloseTo(1);
+    expect(tx.getInterpolatedPos(0.5)).toBeVector(ex.vec(10, 20));
+  });
+
+  it('can interpolate between the old and current pose', () => {
+    const tx = new ex.TransformComponent();
+    tx.captureOldTransform();
+
+    tx.pos = ex.vec(100, -50);
+    tx.rotation = Math.PI / 2;
+    tx.scale = ex.vec(3, 2);
+
+    expect(tx.oldPos).toBeVector(ex.vec(0, 0));
+    expect(tx.getInterpolatedPos(0)).toBeVector(ex.vec(0, 0));
+    expect(tx.getInterpolatedPos(0.5)).toBeVector(ex.vec(50, -25));
+    expect(tx.getInterpolatedPos(1)).toBeVector(ex.vec(100, -50));
+    expect(tx.getInterpolatedRotation(0.5)).toBeCloseTo(Math.PI / 4);
+    expect(tx.getInterpolatedScale(0.5)).toBeVector(ex.vec(2, 1.5));
+  });
+
+  it('interpolates rotation along the shortest arc', () => {
+    const tx = new ex.TransformComponent();
+    tx.rotation = Math.PI - 0.1;
+    tx.captureOldTransform();
+    tx.rotation = -Math.PI + 0.1;
+
+    const halfway = tx.getInterpolatedRotation(0.5);
+    expect(Math.abs(Math.cos(halfway) - Math.cos(Math.PI))).toBeLessThan(0.0001);
+  });
+
+  it('captures the old transform when the body captures', () => {
+    const actor = new ex.Actor({ x: 5, y: 5, width: 10, height: 10 });
+    actor.body.captureOldTransform();
+    actor.pos = ex.vec(15, 5);
+
+    expect(actor.get(ex.TransformComponent).getInterpolatedPos(0.5)).toBeVector(ex.vec(10, 5));
+  });
+});